@@ -16,6 +16,7 @@ import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { NetworkProvider } from "@/contexts/NetworkContext";
+import { SiteProvider } from "@/contexts/SiteContext";
 import { ThemeProvider, useThemeContext } from "@/contexts/ThemeContext";
 import { ToastProvider } from "@/components/Toast";
 
@@ -73,9 +74,11 @@ export default function App() {
             <ThemeProvider>
               <ToastProvider>
                 <AuthProvider>
-                  <NetworkProvider>
-                    <AppContent />
-                  </NetworkProvider>
+                  <SiteProvider>
+                    <NetworkProvider>
+                      <AppContent />
+                    </NetworkProvider>
+                  </SiteProvider>
                 </AuthProvider>
               </ToastProvider>
             </ThemeProvider>
@@ -0,0 +1,214 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { apiRequest } from "@/lib/query-client";
+
+interface DeviceSession {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+interface DeviceSessionListProps {
+  userId: string;
+}
+
+function getPlatformIcon(
+  platform: string | null,
+): keyof typeof Feather.glyphMap {
+  if (platform?.startsWith("web")) return "monitor";
+  if (platform?.startsWith("ios") || platform?.startsWith("android")) {
+    return "smartphone";
+  }
+  return "hard-drive";
+}
+
+function formatLastActivity(session: DeviceSession): string {
+  const value = session.lastUsedAt || session.createdAt;
+  return new Date(value).toLocaleString("de-DE", {
+    timeZone: "Europe/Berlin",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Active sessions ("Geräte") of a user with sign-out actions
+ * Used in ProfileScreen (own devices) and ManageDriversScreen (admin)
+ */
+export function DeviceSessionList({ userId }: DeviceSessionListProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/users/${userId}/sessions`];
+
+  const { data: sessions = [], isLoading } = useQuery<DeviceSession[]>({
+    queryKey,
+  });
+
+  const revokeSession = (session: DeviceSession) => {
+    Alert.alert(
+      "Gerät abmelden",
+      `"${session.deviceName || "Unbekanntes Gerät"}" wird sofort abgemeldet.`,
+      [
+        { text: "Abbrechen", style: "cancel" },
+        {
+          text: "Abmelden",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await apiRequest(
+                "DELETE",
+                `/api/users/${userId}/sessions/${session.id}`,
+              );
+              queryClient.invalidateQueries({ queryKey });
+            } catch (err) {
+              console.error("Failed to revoke session:", err);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const revokeOtherSessions = async () => {
+    try {
+      await apiRequest("DELETE", `/api/users/${userId}/sessions`);
+      queryClient.invalidateQueries({ queryKey });
+    } catch (err) {
+      console.error("Failed to revoke sessions:", err);
+    }
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={theme.accent} />;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        Keine aktiven Geräte
+      </ThemedText>
+    );
+  }
+
+  const otherSessions = sessions.filter((session) => !session.isCurrent);
+
+  return (
+    <View>
+      {sessions.map((session) => (
+        <View
+          key={session.id}
+          style={[styles.sessionRow, { borderBottomColor: theme.border }]}
+        >
+          <Feather
+            name={getPlatformIcon(session.platform)}
+            size={20}
+            color={session.isCurrent ? theme.primary : theme.textSecondary}
+          />
+          <View style={styles.sessionInfo}>
+            <View style={styles.nameRow}>
+              <ThemedText
+                type="body"
+                numberOfLines={1}
+                style={{ color: theme.text, flexShrink: 1 }}
+              >
+                {session.deviceName || "Unbekanntes Gerät"}
+              </ThemedText>
+              {session.isCurrent ? (
+                <View
+                  style={[
+                    styles.currentBadge,
+                    { backgroundColor: theme.successLight },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.success, fontWeight: "700" }}
+                  >
+                    DIESES GERÄT
+                  </ThemedText>
+                </View>
+              ) : null}
+            </View>
+            <ThemedText
+              type="small"
+              numberOfLines={1}
+              style={{ color: theme.textSecondary }}
+            >
+              {[session.platform, session.ipAddress]
+                .filter(Boolean)
+                .join(" · ")}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textTertiary }}>
+              Zuletzt aktiv: {formatLastActivity(session)}
+            </ThemedText>
+          </View>
+          {!session.isCurrent ? (
+            <Pressable
+              onPress={() => revokeSession(session)}
+              hitSlop={8}
+              style={styles.revokeButton}
+            >
+              <Feather name="log-out" size={18} color={theme.error} />
+            </Pressable>
+          ) : null}
+        </View>
+      ))}
+
+      {otherSessions.length > 1 ? (
+        <Pressable onPress={revokeOtherSessions} style={styles.revokeAll}>
+          <ThemedText type="small" style={{ color: theme.error }}>
+            Alle anderen Geräte abmelden
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  sessionInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  currentBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
+  revokeButton: {
+    padding: Spacing.sm,
+  },
+  revokeAll: {
+    alignSelf: "flex-end",
+    paddingVertical: Spacing.sm,
+  },
+});
@@ -0,0 +1,200 @@
+import React from "react";
+import { View, StyleSheet, ActivityIndicator } from "react-native";
+import { useQuery } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+
+export type HistoryEntityType =
+  | "material"
+  | "hall"
+  | "station"
+  | "stand"
+  | "box"
+  | "user"
+  | "department"
+  | "site";
+
+interface EntityEvent {
+  id: string;
+  timestamp: string;
+  action: string;
+  actorUserId: string | null;
+  actorName: string | null;
+  beforeData: Record<string, unknown> | null;
+  afterData: Record<string, unknown> | null;
+  metaJson: { changedFields?: string[] } | null;
+}
+
+interface EntityHistoryListProps {
+  entityType: HistoryEntityType;
+  entityId: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  ENTITY_CREATED: "Angelegt",
+  ENTITY_UPDATED: "Geändert",
+  ENTITY_DELETED: "Gelöscht",
+  USER_ANONYMIZED: "Anonymisiert",
+  BOX_PLACED: "Am Stellplatz platziert",
+  BOX_UNPLACED: "Vom Stellplatz entfernt",
+  BOX_POSITIONED: "Positioniert",
+  PLACEMENT_CHANGED: "Standort geändert",
+};
+
+const ACTION_ICONS: Record<string, keyof typeof Feather.glyphMap> = {
+  ENTITY_CREATED: "plus-circle",
+  ENTITY_UPDATED: "edit-2",
+  ENTITY_DELETED: "trash-2",
+  USER_ANONYMIZED: "user-x",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  code: "Code",
+  description: "Beschreibung",
+  hazardClass: "Gefahrenklasse",
+  disposalStream: "Entsorgungsstrom",
+  densityHint: "Dichte",
+  defaultUnit: "Standardeinheit",
+  qrCode: "QR-Code",
+  isActive: "Aktiv",
+  hallId: "Halle",
+  stationId: "Station",
+  standId: "Stellplatz",
+  materialId: "Material",
+  siteId: "Standort",
+  siteIds: "Standorte",
+  identifier: "Bezeichnung",
+  sequence: "Reihenfolge",
+  dailyFull: "Täglich Voll",
+  locationMeta: "Lage",
+  positionMeta: "Position",
+  serial: "Seriennummer",
+  status: "Status",
+  notes: "Notizen",
+  email: "E-Mail",
+  phone: "Telefon",
+  role: "Rolle",
+  automotiveRoles: "Automotive-Rollen",
+  departmentId: "Abteilung",
+  password: "Passwort",
+  pinHash: "PIN",
+  pinUpdatedAt: "PIN gesetzt am",
+  city: "Stadt",
+  timezone: "Zeitzone",
+};
+
+// Values of these fields are not stored in the audit log
+const REDACTED_FIELDS = new Set(["password", "pinHash"]);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "–";
+  if (typeof value === "boolean") return value ? "Ja" : "Nein";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "–";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString("de-DE", {
+    timeZone: "Europe/Berlin",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Change history ("Verlauf") of a master-data entity
+ * Shows who changed which field from which value to which value
+ */
+export function EntityHistoryList({
+  entityType,
+  entityId,
+}: EntityHistoryListProps) {
+  const { theme } = useTheme();
+
+  const { data: events = [], isLoading } = useQuery<EntityEvent[]>({
+    queryKey: ["/api/entity-events", { entityType, entityId }],
+  });
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={theme.accent} />;
+  }
+
+  if (events.length === 0) {
+    return (
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        Keine Änderungen erfasst
+      </ThemedText>
+    );
+  }
+
+  return (
+    <View>
+      {events.map((event) => {
+        const changedFields =
+          event.action === "ENTITY_UPDATED"
+            ? event.metaJson?.changedFields || []
+            : [];
+
+        return (
+          <View
+            key={event.id}
+            style={[styles.eventRow, { borderBottomColor: theme.border }]}
+          >
+            <Feather
+              name={ACTION_ICONS[event.action] || "activity"}
+              size={18}
+              color={
+                event.action === "ENTITY_DELETED" ? theme.error : theme.primary
+              }
+            />
+            <View style={styles.eventInfo}>
+              <ThemedText type="body" style={{ color: theme.text }}>
+                {ACTION_LABELS[event.action] || event.action}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textTertiary }}>
+                {formatTimestamp(event.timestamp)} ·{" "}
+                {event.actorName || "System"}
+              </ThemedText>
+              {changedFields.map((field) => (
+                <ThemedText
+                  key={field}
+                  type="small"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {FIELD_LABELS[field] || field}:{" "}
+                  {REDACTED_FIELDS.has(field)
+                    ? "geändert"
+                    : `${formatValue(event.beforeData?.[field])} → ${formatValue(
+                        event.afterData?.[field],
+                      )}`}
+                </ThemedText>
+              ))}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  eventRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  eventInfo: {
+    flex: 1,
+    minWidth: 0,
+    gap: 2,
+  },
+});
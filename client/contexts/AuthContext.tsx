@@ -3,12 +3,20 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useCallback,
   ReactNode,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import * as WebBrowser from "expo-web-browser";
-import { apiRequest, getApiUrl } from "@/lib/query-client";
+import {
+  apiRequest,
+  getApiUrl,
+  getStoredTokens,
+  storeTokens,
+  clearStoredTokens,
+  setAuthFailureHandler,
+} from "@/lib/query-client";
 
 export type UserRole = "driver" | "admin";
 
@@ -17,6 +25,8 @@ export interface AuthUser {
   email: string;
   name: string;
   role: UserRole;
+  automotiveRoles?: string[];
+  hasPin?: boolean;
   isActive: boolean;
   createdAt: string;
 }
@@ -27,6 +37,26 @@ function normalizeRole(role: string): UserRole {
   return normalized === "admin" ? "admin" : "driver";
 }
 
+// Device name and platform shown in the "Geräte" lists
+function getDeviceInfo(): { deviceName: string; platform: string } {
+  const constants: Record<string, any> = Platform.constants || {};
+  let deviceName: string;
+  if (Platform.OS === "android") {
+    deviceName =
+      [constants.Manufacturer, constants.Model].filter(Boolean).join(" ") ||
+      "Android-Gerät";
+  } else if (Platform.OS === "ios") {
+    deviceName = Platform.isPad ? "iPad" : "iPhone";
+  } else {
+    deviceName = "Webbrowser";
+  }
+  return {
+    deviceName,
+    platform:
+      Platform.OS === "web" ? "web" : `${Platform.OS} ${Platform.Version}`,
+  };
+}
+
 // Normalize user object to ensure consistent role format
 function normalizeUser(user: any): AuthUser {
   return {
@@ -35,6 +65,13 @@ function normalizeUser(user: any): AuthUser {
   };
 }
 
+// A user who can quick-switch on this device with the PIN
+export interface QuickSwitchUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
 interface AuthContextType {
   user: AuthUser | null;
   isLoading: boolean;
@@ -42,25 +79,38 @@ interface AuthContextType {
   isAdmin: boolean;
   login: (email: string, password: string) => Promise<void>;
   loginWithReplit: () => Promise<void>;
+  loginWithPin: (userId: string, pin: string) => Promise<void>;
+  getQuickSwitchUsers: () => Promise<QuickSwitchUser[]>;
+  updateUser: (serverUser: any) => Promise<void>;
   logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const AUTH_STORAGE_KEY = "@containerflow_auth_user";
+// Issued by the server on the first password login; binds PIN logins to
+// this device. Deliberately kept on logout.
+const DEVICE_ID_STORAGE_KEY = "@containerflow_device_id";
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    // A rejected refresh token means the session is gone - drop the user
+    setAuthFailureHandler(() => setUser(null));
     loadStoredUser();
+    return () => setAuthFailureHandler(null);
   }, []);
 
   const loadStoredUser = async () => {
     try {
       const storedUser = await AsyncStorage.getItem(AUTH_STORAGE_KEY);
-      if (storedUser) {
+      const storedTokens = await getStoredTokens();
+      if (storedUser && !storedTokens) {
+        // Stored by an app version without session tokens - log in again
+        await clearStoredTokens();
+      } else if (storedUser) {
         const parsedUser = JSON.parse(storedUser);
 
         try {
@@ -81,10 +131,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               );
               setUser(updatedUser);
             } else {
-              await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
+              await clearStoredTokens();
             }
           } else {
-            await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
+            await clearStoredTokens();
           }
         } catch {
           setUser(parsedUser);
@@ -98,9 +148,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const login = async (email: string, password: string) => {
+    const deviceId = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
     const response = await apiRequest("POST", "/api/auth/login", {
       email,
       password,
+      deviceId,
+      ...getDeviceInfo(),
     });
     const data = await response.json();
 
@@ -108,14 +161,66 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(data.error || "Login failed");
     }
 
+    if (data.deviceId && data.deviceId !== deviceId) {
+      await AsyncStorage.setItem(DEVICE_ID_STORAGE_KEY, data.deviceId);
+    }
+    await storeTokens(data);
+    const authUser = normalizeUser(data.user);
+    await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(authUser));
+    setUser(authUser);
+  };
+
+  const loginWithPin = async (userId: string, pin: string) => {
+    const deviceId = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      throw new Error("PIN-Anmeldung auf diesem Gerät nicht verfügbar");
+    }
+
+    const response = await apiRequest("POST", "/api/auth/pin-login", {
+      deviceId,
+      userId,
+      pin,
+      ...getDeviceInfo(),
+    });
+    const data = await response.json();
+
+    await storeTokens(data);
     const authUser = normalizeUser(data.user);
     await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(authUser));
     setUser(authUser);
   };
 
+  // Stable identity: the screens load the list in an effect
+  const getQuickSwitchUsers = useCallback(async (): Promise<
+    QuickSwitchUser[]
+  > => {
+    const deviceId = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) return [];
+
+    const response = await apiRequest("POST", "/api/auth/device-users", {
+      deviceId,
+    });
+    const data = await response.json();
+    return data.map((entry: any) => ({
+      ...entry,
+      role: normalizeRole(entry.role),
+    }));
+  }, []);
+
+  // Apply a user object returned by the server (e.g. after a PIN change)
+  const updateUser = async (serverUser: any) => {
+    const updatedUser = normalizeUser({ ...user, ...serverUser });
+    await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(updatedUser));
+    setUser(updatedUser);
+  };
+
   const loginWithReplit = async () => {
     if (Platform.OS === "web") {
-      const response = await apiRequest("POST", "/api/auth/replit/login", {});
+      const response = await apiRequest(
+        "POST",
+        "/api/auth/replit/login",
+        getDeviceInfo(),
+      );
       const data = await response.json();
 
       if (!response.ok) {
@@ -125,6 +230,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         );
       }
 
+      await storeTokens(data);
       const authUser = normalizeUser(data.user);
       await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(authUser));
       setUser(authUser);
@@ -138,13 +244,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       );
 
       if (result.type === "success") {
-        const response = await apiRequest("POST", "/api/auth/replit/login", {});
+        const response = await apiRequest(
+          "POST",
+          "/api/auth/replit/login",
+          getDeviceInfo(),
+        );
         const data = await response.json();
 
         if (!response.ok) {
           throw new Error(data.error || "Replit login failed");
         }
 
+        await storeTokens(data);
         const authUser = normalizeUser(data.user);
         await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(authUser));
         setUser(authUser);
@@ -155,7 +266,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
-    await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
+    const tokens = await getStoredTokens();
+    if (tokens?.refreshToken) {
+      try {
+        await apiRequest("POST", "/api/auth/logout", {
+          refreshToken: tokens.refreshToken,
+        });
+      } catch {
+        // Offline - the session expires on its own
+      }
+    }
+    await clearStoredTokens();
     setUser(null);
   };
 
@@ -166,6 +287,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAdmin: user?.role === "admin",
     login,
     loginWithReplit,
+    loginWithPin,
+    getQuickSwitchUsers,
+    updateUser,
     logout,
   };
 
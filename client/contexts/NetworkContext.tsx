@@ -77,7 +77,10 @@ export function NetworkProvider({ children }: { children: ReactNode }) {
 
       for (const action of actions) {
         try {
-          await apiRequest(action.method, action.endpoint, action.body);
+          // Actions queued before keys existed fall back to their stable id
+          await apiRequest(action.method, action.endpoint, action.body, {
+            idempotencyKey: action.idempotencyKey || action.id,
+          });
           await removePendingAction(action.id);
         } catch (error) {
           console.error("Failed to sync action:", action.id, error);
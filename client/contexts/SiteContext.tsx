@@ -0,0 +1,107 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { setActiveSiteId } from "@/lib/query-client";
+
+const ACTIVE_SITE_STORAGE_KEY = "@containerflow_active_site";
+
+export interface Site {
+  id: string;
+  name: string;
+  code: string;
+  city: string | null;
+  timezone: string;
+  isActive: boolean;
+}
+
+interface SiteContextType {
+  sites: Site[];
+  activeSite: Site | null;
+  switchSite: (siteId: string) => Promise<void>;
+  isLoading: boolean;
+}
+
+const SiteContext = createContext<SiteContextType | undefined>(undefined);
+
+export function SiteProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [activeSiteId, setActiveSiteIdState] = useState<string | null>(null);
+  // Read by the effect below without re-running it on every site switch
+  const activeSiteIdRef = useRef<string | null>(null);
+
+  const { data: sites = [], isLoading } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    enabled: !!user,
+  });
+
+  const applySite = useCallback(
+    async (siteId: string | null) => {
+      activeSiteIdRef.current = siteId;
+      setActiveSiteId(siteId);
+      setActiveSiteIdState(siteId);
+      if (siteId) {
+        await AsyncStorage.setItem(ACTIVE_SITE_STORAGE_KEY, siteId);
+      }
+      // Everything cached so far belongs to the previous site
+      queryClient.invalidateQueries({
+        predicate: (query) => query.queryKey[0] !== "/api/sites",
+      });
+    },
+    [queryClient],
+  );
+
+  // Pick the stored site once the accessible sites are known
+  useEffect(() => {
+    if (!user) {
+      activeSiteIdRef.current = null;
+      setActiveSiteId(null);
+      setActiveSiteIdState(null);
+      return;
+    }
+    if (sites.length === 0) return;
+
+    (async () => {
+      const storedSiteId = await AsyncStorage.getItem(ACTIVE_SITE_STORAGE_KEY);
+      const nextSiteId = sites.some((site) => site.id === storedSiteId)
+        ? storedSiteId
+        : sites[0].id;
+      if (nextSiteId !== activeSiteIdRef.current) {
+        await applySite(nextSiteId);
+      }
+    })();
+  }, [user, sites, applySite]);
+
+  const switchSite = useCallback(
+    async (siteId: string) => {
+      if (siteId === activeSiteId) return;
+      await applySite(siteId);
+    },
+    [activeSiteId, applySite],
+  );
+
+  const activeSite = sites.find((site) => site.id === activeSiteId) ?? null;
+
+  return (
+    <SiteContext.Provider value={{ sites, activeSite, switchSite, isLoading }}>
+      {children}
+    </SiteContext.Provider>
+  );
+}
+
+export function useSite() {
+  const context = useContext(SiteContext);
+  if (context === undefined) {
+    throw new Error("useSite must be used within a SiteProvider");
+  }
+  return context;
+}
@@ -0,0 +1,31 @@
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { apiRequest } from "@/lib/query-client";
+
+/**
+ * Downloads an authenticated API file. The browser saves it directly,
+ * on devices it is written to the cache and handed to the share sheet
+ */
+export async function downloadApiFile(
+  route: string,
+  fileName: string,
+  mimeType: string,
+): Promise<void> {
+  const res = await apiRequest("GET", route);
+
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(new Uint8Array(await res.arrayBuffer()));
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
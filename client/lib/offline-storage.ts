@@ -10,6 +10,8 @@ export interface PendingAction {
   endpoint: string;
   body?: any;
   timestamp: number;
+  /** Sent as Idempotency-Key, so a replay after a lost response is not applied twice */
+  idempotencyKey: string;
 }
 
 export interface CacheEntry<T> {
@@ -78,7 +80,7 @@ export async function getPendingActions(): Promise<PendingAction[]> {
 }
 
 export async function addPendingAction(
-  action: Omit<PendingAction, "id" | "timestamp">,
+  action: Omit<PendingAction, "id" | "timestamp" | "idempotencyKey">,
 ): Promise<void> {
   try {
     const pending = await getPendingActions();
@@ -86,6 +88,7 @@ export async function addPendingAction(
       ...action,
       id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: Date.now(),
+      idempotencyKey: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`,
     };
     pending.push(newAction);
     await AsyncStorage.setItem(PENDING_ACTIONS_KEY, JSON.stringify(pending));
@@ -1,8 +1,9 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-// Auth storage key - must match AuthContext
+// Auth storage keys - must match AuthContext
 const AUTH_STORAGE_KEY = "@containerflow_auth_user";
+const AUTH_TOKENS_STORAGE_KEY = "@containerflow_auth_tokens";
 
 // Enable debug logging in development
 const DEBUG_API = __DEV__ || process.env.NODE_ENV === "development";
@@ -47,20 +48,154 @@ export function getApiUrl(): string {
   return url;
 }
 
-// Get current user ID from AsyncStorage for auth headers
-async function getStoredUserId(): Promise<string | null> {
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+// The backend issues a short-lived access token and a rotating refresh token
+// on login. Requests carry the access token as a bearer token; it is refreshed
+// transparently shortly before it expires or when the server answers 401.
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: number; // epoch millis
+}
+
+// Refresh this long before the access token actually expires
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 30 * 1000;
+
+let refreshInFlight: Promise<AuthTokens | null> | null = null;
+let onAuthFailure: (() => void) | null = null;
+
+// Registered by AuthContext so a failed refresh logs the user out
+export function setAuthFailureHandler(handler: (() => void) | null) {
+  onAuthFailure = handler;
+}
+
+export async function getStoredTokens(): Promise<AuthTokens | null> {
   try {
-    const storedUser = await AsyncStorage.getItem(AUTH_STORAGE_KEY);
-    if (storedUser) {
-      const user = JSON.parse(storedUser);
-      return user.id || null;
+    const storedTokens = await AsyncStorage.getItem(AUTH_TOKENS_STORAGE_KEY);
+    if (storedTokens) {
+      return JSON.parse(storedTokens) as AuthTokens;
     }
   } catch {
-    // Ignore errors - no user stored
+    // Ignore errors - no tokens stored
   }
   return null;
 }
 
+// Store the token pair from a login or refresh response
+export async function storeTokens(data: {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}): Promise<AuthTokens> {
+  const tokens: AuthTokens = {
+    accessToken: data.accessToken,
+    refreshToken: data.refreshToken,
+    accessTokenExpiresAt: Date.now() + data.expiresIn * 1000,
+  };
+  await AsyncStorage.setItem(AUTH_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+  return tokens;
+}
+
+export async function clearStoredTokens(): Promise<void> {
+  await AsyncStorage.multiRemove([AUTH_TOKENS_STORAGE_KEY, AUTH_STORAGE_KEY]);
+}
+
+// Exchange the refresh token for a new pair. Concurrent callers share one request.
+function refreshTokens(): Promise<AuthTokens | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const current = await getStoredTokens();
+      if (!current?.refreshToken) return null;
+
+      try {
+        const res = await fetch(new URL("/api/auth/refresh", getApiUrl()), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken: current.refreshToken }),
+          credentials: "include",
+        });
+
+        if (res.status === 401) {
+          logApi("POST", "/api/auth/refresh", 401, "Refresh token rejected");
+          await clearStoredTokens();
+          onAuthFailure?.();
+          return null;
+        }
+        if (!res.ok) {
+          // Server trouble - keep tokens and let the caller fail normally
+          return null;
+        }
+
+        return await storeTokens(await res.json());
+      } catch {
+        // Offline - keep tokens for the next attempt
+        return null;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// Get a usable access token, refreshing it first if it is about to expire
+async function getAccessToken(): Promise<string | null> {
+  const tokens = await getStoredTokens();
+  if (!tokens) return null;
+
+  if (
+    tokens.accessTokenExpiresAt - ACCESS_TOKEN_REFRESH_MARGIN_MS <=
+    Date.now()
+  ) {
+    const refreshed = await refreshTokens();
+    return refreshed?.accessToken ?? tokens.accessToken;
+  }
+  return tokens.accessToken;
+}
+
+// ============================================================================
+// ACTIVE SITE
+// ============================================================================
+// The plant selected in the site switcher (SiteContext). Every request carries
+// it as X-Site-Id so list endpoints and analytics only return its data.
+
+let activeSiteId: string | null = null;
+
+export function setActiveSiteId(siteId: string | null) {
+  activeSiteId = siteId;
+}
+
+// fetch with bearer authentication; retries once after refreshing on 401
+async function authorizedFetch(
+  url: URL,
+  init: RequestInit & { headers: Record<string, string> },
+): Promise<Response> {
+  if (activeSiteId) {
+    init.headers["X-Site-Id"] = activeSiteId;
+  }
+
+  const accessToken = await getAccessToken();
+  if (accessToken) {
+    init.headers["Authorization"] = `Bearer ${accessToken}`;
+  }
+
+  const res = await fetch(url, init);
+  if (res.status !== 401 || !accessToken) {
+    return res;
+  }
+
+  const refreshed = await refreshTokens();
+  if (!refreshed) {
+    return res;
+  }
+
+  init.headers["Authorization"] = `Bearer ${refreshed.accessToken}`;
+  return fetch(url, init);
+}
+
 // Custom error class for API errors with detailed info
 export class ApiError extends Error {
   status: number;
@@ -68,6 +203,7 @@ export class ApiError extends Error {
   url: string;
   isHtmlResponse: boolean;
   isNetworkError: boolean;
+  data: any; // Parsed JSON error body, if any
 
   constructor(options: {
     message: string;
@@ -76,6 +212,7 @@ export class ApiError extends Error {
     url: string;
     isHtmlResponse?: boolean;
     isNetworkError?: boolean;
+    data?: any;
   }) {
     super(options.message);
     this.name = "ApiError";
@@ -84,6 +221,12 @@ export class ApiError extends Error {
     this.url = options.url;
     this.isHtmlResponse = options.isHtmlResponse || false;
     this.isNetworkError = options.isNetworkError || false;
+    this.data = options.data ?? null;
+  }
+
+  /** The request lost against a concurrent change (optimistic concurrency) */
+  get isVersionConflict(): boolean {
+    return this.status === 409 && this.data?.code === "VERSION_CONFLICT";
   }
 
   toUserMessage(): string {
@@ -102,6 +245,13 @@ export class ApiError extends Error {
     if (this.status === 404) {
       return `Nicht gefunden.`;
     }
+    if (this.status === 409) {
+      return this.message.replace(/^409: /, "");
+    }
+    if (this.status === 429) {
+      // Login throttling - the server message says how long to wait
+      return this.message.replace(/^429: /, "");
+    }
     if (this.status >= 500) {
       return `Serverfehler (${this.status}). Bitte später erneut versuchen.`;
     }
@@ -132,11 +282,12 @@ async function handleResponse(
 
   if (!res.ok) {
     let errorMessage = res.statusText;
+    let errorData: any;
 
     // Try to extract error message from JSON response
     if (contentType.includes("application/json")) {
       try {
-        const errorData = await res.json();
+        errorData = await res.json();
         errorMessage =
           errorData.error ||
           errorData.message ||
@@ -163,6 +314,7 @@ async function handleResponse(
       status: res.status,
       statusText: res.statusText,
       url,
+      data: errorData,
     });
   }
 
@@ -173,6 +325,7 @@ export async function apiRequest(
   method: string,
   route: string,
   data?: unknown | undefined,
+  options: { idempotencyKey?: string } = {},
 ): Promise<Response> {
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
@@ -180,21 +333,17 @@ export async function apiRequest(
 
   logApi(method, urlString);
 
-  // Build headers with authentication
   const headers: Record<string, string> = {};
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-
-  // Include user ID for authentication on protected routes
-  const userId = await getStoredUserId();
-  if (userId) {
-    headers["x-user-id"] = userId;
+  if (options.idempotencyKey) {
+    headers["Idempotency-Key"] = options.idempotencyKey;
   }
 
   let res: Response;
   try {
-    res = await fetch(url, {
+    res = await authorizedFetch(url, {
       method,
       headers,
       body: data ? JSON.stringify(data) : undefined,
@@ -239,17 +388,10 @@ export const getQueryFn: <T>(options: {
     const urlString = url.toString();
     logApi("GET", urlString);
 
-    // Build headers with authentication
-    const headers: Record<string, string> = {};
-    const userId = await getStoredUserId();
-    if (userId) {
-      headers["x-user-id"] = userId;
-    }
-
     let res: Response;
     try {
-      res = await fetch(url, {
-        headers,
+      res = await authorizedFetch(url, {
+        headers: {},
         credentials: "include",
       });
     } catch (error) {
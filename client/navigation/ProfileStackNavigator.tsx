@@ -5,6 +5,8 @@ import AdminDashboardScreen from "@/screens/AdminDashboardScreen";
 import ManageDriversScreen from "@/screens/ManageDriversScreen";
 import AutomotiveManagementScreen from "@/screens/AutomotiveManagementScreen";
 import DepartmentManagementScreen from "@/screens/DepartmentManagementScreen";
+import SiteManagementScreen from "@/screens/SiteManagementScreen";
+import ApiKeyManagementScreen from "@/screens/ApiKeyManagementScreen";
 import ActivityScreen from "@/screens/ActivityScreen";
 import AnalyticsScreen from "@/screens/AnalyticsScreen";
 import ScheduleManagementScreen from "@/screens/ScheduleManagementScreen";
@@ -22,7 +24,11 @@ export type ProfileStackParamList = {
   ManageDrivers: undefined;
   AutomotiveManagement: undefined;
   DepartmentManagement: undefined;
-  Activity: undefined;
+  SiteManagement: undefined;
+  ApiKeyManagement: undefined;
+  Activity:
+    | { taskId?: string; boxId?: string; standId?: string; title?: string }
+    | undefined;
   Analytics: undefined;
   ScheduleManagement: undefined;
   ManualTask: undefined;
@@ -62,6 +68,16 @@ export default function ProfileStackNavigator() {
             component={DepartmentManagementScreen}
             options={{ headerTitle: "Abteilungen" }}
           />
+          <Stack.Screen
+            name="SiteManagement"
+            component={SiteManagementScreen}
+            options={{ headerTitle: "Standorte" }}
+          />
+          <Stack.Screen
+            name="ApiKeyManagement"
+            component={ApiKeyManagementScreen}
+            options={{ headerTitle: "API-Schlüssel" }}
+          />
           <Stack.Screen
             name="Activity"
             component={ActivityScreen}
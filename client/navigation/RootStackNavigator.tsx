@@ -2,6 +2,7 @@ import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import LoginScreen from "@/screens/LoginScreen";
+import QuickSwitchScreen from "@/screens/QuickSwitchScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useAuth } from "@/contexts/AuthContext";
 import { View, ActivityIndicator, StyleSheet } from "react-native";
@@ -12,6 +13,7 @@ import { NetworkStatusBar } from "@/components/NetworkStatusBar";
 export type RootStackParamList = {
   Main: undefined;
   Login: undefined;
+  QuickSwitch: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -66,11 +68,18 @@ export default function RootStackNavigator() {
           options={{ headerShown: false }}
         />
       ) : (
-        <Stack.Screen
-          name="Login"
-          component={LoginScreen}
-          options={{ headerShown: false }}
-        />
+        <>
+          <Stack.Screen
+            name="Login"
+            component={LoginScreen}
+            options={{ headerShown: false }}
+          />
+          <Stack.Screen
+            name="QuickSwitch"
+            component={QuickSwitchScreen}
+            options={{ headerShown: false }}
+          />
+        </>
       )}
     </Stack.Navigator>
   );
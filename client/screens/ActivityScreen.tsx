@@ -7,25 +7,32 @@ import {
   ActivityIndicator,
   ScrollView,
   Pressable,
+  Modal,
 } from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
 import { useQuery } from "@tanstack/react-query";
 import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
+import { Button } from "@/components/Button";
 import { FilterChip } from "@/components/FilterChip";
 import { EmptyState } from "@/components/EmptyState";
 import { LoadingScreen } from "@/components/LoadingScreen";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import type { ProfileStackParamList } from "@/navigation/ProfileStackNavigator";
 
 const ACTION_LABELS: Record<string, string> = {
   STATUS_CHANGED: "Status geändert",
   TASK_CREATED: "Aufgabe erstellt",
   WEIGHT_RECORDED: "Gewicht erfasst",
   PLACEMENT_CHANGED: "Standort geändert",
+  BOX_PLACED: "Box abgestellt",
+  BOX_UNPLACED: "Box entfernt",
+  BOX_POSITIONED: "Box positioniert",
   STATUS_OPEN: "Geöffnet",
   STATUS_PICKED_UP: "Abgeholt",
   STATUS_IN_TRANSIT: "Transport",
@@ -33,6 +40,13 @@ const ACTION_LABELS: Record<string, string> = {
   STATUS_TAKEN_OVER: "Übernommen",
   STATUS_WEIGHED: "Verwogen",
   STATUS_DISPOSED: "Entsorgt",
+  ENTITY_CREATED: "Stammdaten angelegt",
+  ENTITY_UPDATED: "Stammdaten geändert",
+  ENTITY_DELETED: "Stammdaten gelöscht",
+  TASK_ACCEPT_AT_CUSTOMER: "Scan beim Kunden",
+  TASK_PICKUP: "Abhol-Scan",
+  TASK_COMPLETE_AT_WAREHOUSE: "Scan im Lager",
+  WAREHOUSE_INFO: "Info-Scan",
 };
 
 const ACTION_ICONS: Record<string, keyof typeof Feather.glyphMap> = {
@@ -40,6 +54,8 @@ const ACTION_ICONS: Record<string, keyof typeof Feather.glyphMap> = {
   TASK_CREATED: "plus-circle",
   WEIGHT_RECORDED: "activity",
   PLACEMENT_CHANGED: "map-pin",
+  BOX_PLACED: "download",
+  BOX_UNPLACED: "upload",
   STATUS_OPEN: "inbox",
   STATUS_PICKED_UP: "package",
   STATUS_IN_TRANSIT: "truck",
@@ -47,31 +63,83 @@ const ACTION_ICONS: Record<string, keyof typeof Feather.glyphMap> = {
   STATUS_TAKEN_OVER: "user-check",
   STATUS_WEIGHED: "activity",
   STATUS_DISPOSED: "check-circle",
+  ENTITY_CREATED: "plus-square",
+  ENTITY_UPDATED: "edit-2",
+  ENTITY_DELETED: "trash-2",
+};
+
+const SOURCE_ICONS: Record<TimelineSource, keyof typeof Feather.glyphMap> = {
+  activity: "message-square",
+  task_event: "git-commit",
+  scan_event: "maximize",
+};
+
+const SOURCE_LABELS: Record<TimelineSource, string> = {
+  activity: "Protokoll",
+  task_event: "Ereignisse",
+  scan_event: "Scans",
+};
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  material: "Material",
+  hall: "Halle",
+  station: "Station",
+  stand: "Stellplatz",
+  box: "Box",
+  user: "Benutzer",
+  department: "Abteilung",
+  site: "Standort",
 };
 
 type DateRangeFilter = "today" | "7days" | "30days";
+type TimelineSource = "activity" | "task_event" | "scan_event";
 
-interface ActivityEvent {
+interface TimelineEntry {
+  source: TimelineSource;
   id: string;
-  action: string;
   timestamp: string;
+  action: string;
+  message: string | null;
   userId: string | null;
   userName: string | null;
-  userRole: string | null;
-  departmentName: string | null;
-  materialName: string | null;
+  taskId: string | null;
+  boxId: string | null;
+  boxSerial: string | null;
+  standId: string | null;
+  standIdentifier: string | null;
+  stationId: string | null;
   stationName: string | null;
+  hallId: string | null;
   hallName: string | null;
-  boxSerial: string | null;
-  details: Record<string, unknown> | null;
+  materialId: string | null;
+  materialName: string | null;
+  entityType: string | null;
+  entityId: string | null;
+  data: {
+    metaJson?: { changedFields?: string[] } | null;
+    [key: string]: unknown;
+  } | null;
+}
+
+interface TimelineResponse {
+  entries: TimelineEntry[];
+  nextCursor: string | null;
+}
+
+interface NamedItem {
+  id: string;
+  name: string;
+}
+
+interface StationItem extends NamedItem {
+  hallId: string;
 }
 
-interface ActivityResponse {
-  events: ActivityEvent[];
-  total: number;
-  page: number;
-  limit: number;
-  hasMore: boolean;
+interface EntityFilters {
+  hallId?: string;
+  stationId?: string;
+  materialId?: string;
+  userId?: string;
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -80,114 +148,148 @@ export default function ActivityScreen() {
   const headerHeight = useHeaderHeight();
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
+  const route = useRoute<RouteProp<ProfileStackParamList, "Activity">>();
+  const presetFilter = route.params;
 
   const [dateRange, setDateRange] = useState<DateRangeFilter>("7days");
-  const [page, setPage] = useState(1);
-  const [allEvents, setAllEvents] = useState<ActivityEvent[]>([]);
-
-  const getDateRange = useCallback(() => {
+  const [source, setSource] = useState<TimelineSource | null>(null);
+  const [entityFilters, setEntityFilters] = useState<EntityFilters>({});
+  const [filterModalVisible, setFilterModalVisible] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [allEntries, setAllEntries] = useState<TimelineEntry[]>([]);
+
+  const { data: halls = [] } = useQuery<NamedItem[]>({
+    queryKey: ["/api/halls"],
+  });
+  const { data: stations = [] } = useQuery<StationItem[]>({
+    queryKey: ["/api/stations"],
+  });
+  const { data: materials = [] } = useQuery<NamedItem[]>({
+    queryKey: ["/api/materials"],
+  });
+  const { data: users = [] } = useQuery<NamedItem[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { from, to } = useMemo(() => {
     const now = new Date();
-    const to = now.toISOString();
-    let from: string;
-
-    switch (dateRange) {
-      case "today":
-        const todayStart = new Date(
-          now.getFullYear(),
-          now.getMonth(),
-          now.getDate(),
-        );
-        from = todayStart.toISOString();
-        break;
-      case "7days":
-        const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        from = sevenDaysAgo.toISOString();
-        break;
-      case "30days":
-        const thirtyDaysAgo = new Date(
-          now.getTime() - 30 * 24 * 60 * 60 * 1000,
-        );
-        from = thirtyDaysAgo.toISOString();
-        break;
-      default:
-        const defaultFrom = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        from = defaultFrom.toISOString();
-    }
-
-    return { from, to };
+    const dayMs = 24 * 60 * 60 * 1000;
+    const start =
+      dateRange === "today"
+        ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        : new Date(now.getTime() - (dateRange === "30days" ? 30 : 7) * dayMs);
+    return { from: start.toISOString(), to: now.toISOString() };
   }, [dateRange]);
 
-  const { from, to } = getDateRange();
-
-  const queryParams = useMemo(
-    () => ({
+  // Everything except the cursor; a change starts the list from the top
+  const baseParams = useMemo(() => {
+    const params: Record<string, string> = {
       from,
       to,
-      page: String(page),
       limit: String(ITEMS_PER_PAGE),
-    }),
-    [from, to, page],
+    };
+    if (source) params.sources = source;
+    if (presetFilter?.taskId) params.taskId = presetFilter.taskId;
+    if (presetFilter?.boxId) params.boxId = presetFilter.boxId;
+    if (presetFilter?.standId) params.standId = presetFilter.standId;
+    for (const [key, value] of Object.entries(entityFilters)) {
+      if (value) params[key] = value;
+    }
+    return params;
+  }, [from, to, source, entityFilters, presetFilter]);
+
+  const queryParams = useMemo(
+    () => (cursor ? { ...baseParams, cursor } : baseParams),
+    [baseParams, cursor],
   );
 
   const { data, isLoading, refetch, isRefetching, isFetching } =
-    useQuery<ActivityResponse>({
-      queryKey: ["/api/activity", queryParams],
+    useQuery<TimelineResponse>({
+      queryKey: ["/api/audit/timeline", queryParams],
     });
 
   React.useEffect(() => {
-    if (data?.events) {
-      if (page === 1) {
-        setAllEvents(data.events);
-      } else {
-        setAllEvents((prev) => {
-          const existingIds = new Set(prev.map((e) => e.id));
-          const newEvents = data.events.filter((e) => !existingIds.has(e.id));
-          return [...prev, ...newEvents];
-        });
-      }
+    if (!data?.entries) return;
+    if (!cursor) {
+      setAllEntries(data.entries);
+    } else {
+      setAllEntries((prev) => {
+        const existingIds = new Set(prev.map((e) => e.id));
+        return [...prev, ...data.entries.filter((e) => !existingIds.has(e.id))];
+      });
     }
-  }, [data, page]);
+  }, [data, cursor]);
 
   React.useEffect(() => {
-    setPage(1);
-    setAllEvents([]);
-  }, [dateRange]);
+    setCursor(null);
+    setAllEntries([]);
+  }, [baseParams]);
 
   const handleRefresh = useCallback(() => {
-    setPage(1);
-    setAllEvents([]);
+    setCursor(null);
+    setAllEntries([]);
     refetch();
   }, [refetch]);
 
   const handleLoadMore = useCallback(() => {
-    if (data?.hasMore && !isFetching) {
-      setPage((prev) => prev + 1);
+    if (data?.nextCursor && !isFetching) {
+      setCursor(data.nextCursor);
     }
-  }, [data?.hasMore, isFetching]);
+  }, [data?.nextCursor, isFetching]);
+
+  const updateEntityFilter = (key: keyof EntityFilters, id: string) => {
+    setEntityFilters((prev) => {
+      const next = { ...prev, [key]: prev[key] === id ? undefined : id };
+      // A station belongs to one hall; drop it when the hall changes
+      if (key === "hallId") next.stationId = undefined;
+      return next;
+    });
+  };
+
+  const activeFilterCount = Object.values(entityFilters).filter(Boolean).length;
 
   const formatTimestamp = (timestamp: string) => {
-    const date = new Date(timestamp);
-    const day = String(date.getDate()).padStart(2, "0");
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const year = date.getFullYear();
-    const hours = String(date.getHours()).padStart(2, "0");
-    const minutes = String(date.getMinutes()).padStart(2, "0");
-    const seconds = String(date.getSeconds()).padStart(2, "0");
-    return `${day}.${month}.${year} ${hours}:${minutes}:${seconds}`;
+    return new Date(timestamp).toLocaleString("de-DE", {
+      timeZone: "Europe/Berlin",
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
   };
 
-  const getActionLabel = (action: string) => {
-    return ACTION_LABELS[action] || action;
+  const getEntryTitle = (entry: TimelineEntry) => {
+    if (entry.source === "activity") return entry.message || entry.action;
+    const label = ACTION_LABELS[entry.action] || entry.action;
+    if (entry.source === "task_event" && entry.action.startsWith("ENTITY_")) {
+      const entityLabel = entry.entityType
+        ? ENTITY_TYPE_LABELS[entry.entityType] || entry.entityType
+        : null;
+      return entityLabel ? `${label}: ${entityLabel}` : label;
+    }
+    return label;
   };
 
-  const getActionIcon = (action: string): keyof typeof Feather.glyphMap => {
-    return ACTION_ICONS[action] || "circle";
+  const getEntryDetail = (entry: TimelineEntry) => {
+    if (entry.source === "scan_event") return entry.message;
+    if (entry.source === "activity") {
+      return ACTION_LABELS[entry.action] || null;
+    }
+    const changedFields = entry.data?.metaJson?.changedFields;
+    return changedFields?.length
+      ? `Geändert: ${changedFields.join(", ")}`
+      : null;
   };
 
   const getActionColor = (action: string) => {
     if (action.includes("DISPOSED") || action.includes("COMPLETED")) {
       return theme.statusCompleted;
     }
+    if (action.includes("DELETED")) {
+      return theme.error;
+    }
     if (action.includes("TRANSIT") || action.includes("PICKED_UP")) {
       return theme.warning;
     }
@@ -200,46 +302,33 @@ export default function ActivityScreen() {
     return theme.primary;
   };
 
-  const buildContextString = (event: ActivityEvent) => {
+  const buildContextString = (entry: TimelineEntry) => {
     const parts: string[] = [];
 
-    if (event.materialName) {
-      parts.push(event.materialName);
+    if (entry.materialName) {
+      parts.push(entry.materialName);
     }
-    if (event.hallName && event.stationName) {
-      parts.push(`${event.hallName} / ${event.stationName}`);
-    } else if (event.stationName) {
-      parts.push(event.stationName);
-    } else if (event.hallName) {
-      parts.push(event.hallName);
+    if (entry.hallName && entry.stationName) {
+      parts.push(`${entry.hallName} / ${entry.stationName}`);
+    } else if (entry.stationName) {
+      parts.push(entry.stationName);
+    } else if (entry.hallName) {
+      parts.push(entry.hallName);
     }
-    if (event.boxSerial) {
-      parts.push(`Box ${event.boxSerial}`);
+    if (entry.standIdentifier) {
+      parts.push(`Stellplatz ${entry.standIdentifier}`);
     }
-
-    return parts.length > 0 ? parts.join(" • ") : null;
-  };
-
-  const buildActorString = (event: ActivityEvent) => {
-    const parts: string[] = [];
-
-    if (event.userName) {
-      parts.push(event.userName);
-    }
-    if (event.userRole) {
-      parts.push(event.userRole);
-    }
-    if (event.departmentName) {
-      parts.push(event.departmentName);
+    if (entry.boxSerial) {
+      parts.push(`Box ${entry.boxSerial}`);
     }
 
-    return parts.length > 0 ? parts.join(" • ") : "System";
+    return parts.length > 0 ? parts.join(" • ") : null;
   };
 
-  const renderEvent = ({ item }: { item: ActivityEvent }) => {
+  const renderEntry = ({ item }: { item: TimelineEntry }) => {
     const actionColor = getActionColor(item.action);
+    const detail = getEntryDetail(item);
     const contextString = buildContextString(item);
-    const actorString = buildActorString(item);
 
     return (
       <Card style={styles.eventCard}>
@@ -248,7 +337,7 @@ export default function ActivityScreen() {
             style={[styles.timelineIndicator, { backgroundColor: actionColor }]}
           >
             <Feather
-              name={getActionIcon(item.action)}
+              name={ACTION_ICONS[item.action] || SOURCE_ICONS[item.source]}
               size={16}
               color="#FFFFFF"
             />
@@ -261,15 +350,38 @@ export default function ActivityScreen() {
               >
                 {formatTimestamp(item.timestamp)}
               </ThemedText>
+              <View
+                style={[
+                  styles.sourceBadge,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {SOURCE_LABELS[item.source]}
+                </ThemedText>
+              </View>
             </View>
 
             <ThemedText
               type="bodyBold"
               style={{ color: theme.text, marginTop: Spacing.xs }}
             >
-              {getActionLabel(item.action)}
+              {getEntryTitle(item)}
             </ThemedText>
 
+            {detail ? (
+              <ThemedText
+                type="small"
+                numberOfLines={2}
+                style={{ color: theme.textSecondary }}
+              >
+                {detail}
+              </ThemedText>
+            ) : null}
+
             <View style={styles.actorRow}>
               <Feather name="user" size={12} color={theme.textSecondary} />
               <ThemedText
@@ -282,7 +394,7 @@ export default function ActivityScreen() {
                   flex: 1,
                 }}
               >
-                {actorString}
+                {item.userName || "System"}
               </ThemedText>
             </View>
 
@@ -310,7 +422,7 @@ export default function ActivityScreen() {
   };
 
   const renderFooter = () => {
-    if (!isFetching || page === 1) return null;
+    if (!isFetching || !cursor) return null;
     return (
       <View style={styles.footerLoader}>
         <ActivityIndicator size="small" color={theme.primary} />
@@ -336,10 +448,37 @@ export default function ActivityScreen() {
     />
   );
 
-  if (isLoading && page === 1 && allEvents.length === 0) {
+  const renderFilterSection = (
+    title: string,
+    key: keyof EntityFilters,
+    items: NamedItem[],
+  ) => (
+    <View style={styles.filterGroup}>
+      <ThemedText type="h4" style={styles.filterGroupTitle}>
+        {title}
+      </ThemedText>
+      <View style={styles.filterChipWrap}>
+        {items.map((item) => (
+          <FilterChip
+            key={item.id}
+            label={item.name}
+            selected={entityFilters[key] === item.id}
+            onPress={() => updateEntityFilter(key, item.id)}
+            small
+          />
+        ))}
+      </View>
+    </View>
+  );
+
+  if (isLoading && !cursor && allEntries.length === 0) {
     return <LoadingScreen message="Aktivitäten werden geladen..." />;
   }
 
+  const visibleStations = entityFilters.hallId
+    ? stations.filter((station) => station.hallId === entityFilters.hallId)
+    : stations;
+
   return (
     <ThemedView style={styles.container}>
       <View
@@ -374,29 +513,82 @@ export default function ActivityScreen() {
           />
         </ScrollView>
 
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={[styles.filterScroll, styles.sourceRow]}
+        >
+          <FilterChip
+            label="Alle"
+            selected={source === null}
+            onPress={() => setSource(null)}
+            small
+          />
+          {(Object.keys(SOURCE_LABELS) as TimelineSource[]).map((key) => (
+            <FilterChip
+              key={key}
+              label={SOURCE_LABELS[key]}
+              selected={source === key}
+              onPress={() => setSource(key)}
+              small
+            />
+          ))}
+        </ScrollView>
+
         <View style={styles.countInfo}>
           <Feather name="list" size={14} color={theme.textSecondary} />
           <ThemedText
             type="caption"
-            style={{ color: theme.textSecondary, marginLeft: Spacing.xs }}
+            style={{
+              color: theme.textSecondary,
+              marginLeft: Spacing.xs,
+              flex: 1,
+            }}
           >
-            {data?.total !== undefined ? `${data.total} Ereignisse` : "..."}
+            {presetFilter?.title
+              ? presetFilter.title
+              : `${allEntries.length}${data?.nextCursor ? "+" : ""} Ereignisse`}
           </ThemedText>
+          <Pressable
+            onPress={() => setFilterModalVisible(true)}
+            style={styles.filterButton}
+            hitSlop={8}
+          >
+            <Feather
+              name="filter"
+              size={14}
+              color={
+                activeFilterCount > 0 ? theme.primary : theme.textSecondary
+              }
+            />
+            <ThemedText
+              type="caption"
+              style={{
+                color:
+                  activeFilterCount > 0 ? theme.primary : theme.textSecondary,
+                marginLeft: Spacing.xs,
+              }}
+            >
+              {activeFilterCount > 0
+                ? `Filter (${activeFilterCount})`
+                : "Filter"}
+            </ThemedText>
+          </Pressable>
         </View>
       </View>
 
       <FlatList
-        data={allEvents}
-        keyExtractor={(item) => item.id}
-        renderItem={renderEvent}
+        data={allEntries}
+        keyExtractor={(item) => `${item.source}:${item.id}`}
+        renderItem={renderEntry}
         contentContainerStyle={[
           styles.listContent,
           { paddingBottom: insets.bottom + Spacing.xl },
-          allEvents.length === 0 && styles.emptyListContent,
+          allEntries.length === 0 && styles.emptyListContent,
         ]}
         refreshControl={
           <RefreshControl
-            refreshing={isRefetching && page === 1}
+            refreshing={isRefetching && !cursor}
             onRefresh={handleRefresh}
             tintColor={theme.primary}
           />
@@ -408,6 +600,60 @@ export default function ActivityScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
         showsVerticalScrollIndicator={true}
       />
+
+      <Modal
+        visible={filterModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setFilterModalVisible(false)}
+      >
+        <View style={[styles.modalOverlay, { backgroundColor: theme.overlay }]}>
+          <View
+            style={[
+              styles.modalContent,
+              {
+                paddingBottom: insets.bottom + Spacing.lg,
+                backgroundColor: theme.backgroundRoot,
+              },
+            ]}
+          >
+            <View
+              style={[styles.modalHeader, { borderBottomColor: theme.border }]}
+            >
+              <ThemedText type="h3">Filter</ThemedText>
+              <Pressable
+                onPress={() => setFilterModalVisible(false)}
+                style={styles.closeButton}
+              >
+                <Feather name="x" size={24} color={theme.text} />
+              </Pressable>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalScrollContent}>
+              {renderFilterSection("Halle", "hallId", halls)}
+              {renderFilterSection("Station", "stationId", visibleStations)}
+              {renderFilterSection("Material", "materialId", materials)}
+              {renderFilterSection("Mitarbeiter", "userId", users)}
+
+              <View style={styles.modalActions}>
+                <Button
+                  variant="tertiary"
+                  onPress={() => setEntityFilters({})}
+                  style={styles.modalButton}
+                >
+                  Zurücksetzen
+                </Button>
+                <Button
+                  onPress={() => setFilterModalVisible(false)}
+                  style={styles.modalButton}
+                >
+                  Anwenden
+                </Button>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -424,11 +670,18 @@ const styles = StyleSheet.create({
     gap: Spacing.sm,
     paddingRight: Spacing.lg,
   },
+  sourceRow: {
+    marginTop: Spacing.sm,
+  },
   countInfo: {
     flexDirection: "row",
     alignItems: "center",
     marginTop: Spacing.sm,
   },
+  filterButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   listContent: {
     paddingHorizontal: Spacing.lg,
     paddingTop: Spacing.md,
@@ -461,6 +714,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "space-between",
   },
+  sourceBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
   actorRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -477,4 +735,46 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: Spacing.lg,
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.xl,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  modalScrollContent: {
+    padding: Spacing.xl,
+    gap: Spacing.lg,
+  },
+  filterGroup: {
+    gap: Spacing.sm,
+  },
+  filterGroupTitle: {
+    marginBottom: Spacing.xs,
+  },
+  filterChipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  modalButton: {
+    flex: 1,
+  },
 });
@@ -11,7 +11,7 @@ import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
@@ -20,6 +20,7 @@ import { Button } from "@/components/Button";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, IndustrialDesign } from "@/constants/theme";
 import { ProfileStackParamList } from "@/navigation/ProfileStackNavigator";
+import { apiRequest, queryClient } from "@/lib/query-client";
 
 type NavigationProp = NativeStackNavigationProp<
   ProfileStackParamList,
@@ -39,6 +40,37 @@ interface DashboardStats {
   totalTasks: number;
 }
 
+interface RetentionPolicyStatus {
+  tableName: string;
+  hotMonths: number;
+  mode: "ARCHIVE_TABLE" | "NDJSON";
+  isEnabled: boolean;
+  status: "IDLE" | "RUNNING" | "FAILED";
+  pendingRows: number;
+  processedRows: number;
+  remainingRows: number;
+  totalArchivedRows: number;
+  hotRows: number;
+  lastRunFinishedAt: string | null;
+  lastError: string | null;
+}
+
+interface RetentionOverview {
+  running: boolean;
+  policies: RetentionPolicyStatus[];
+}
+
+const RETENTION_TABLE_LABELS: Record<string, string> = {
+  scan_events: "Scan-Ereignisse",
+  activity_logs: "Aktivitätsprotokoll",
+  task_events: "Auftragsereignisse",
+};
+
+const RETENTION_MODE_LABELS: Record<string, string> = {
+  ARCHIVE_TABLE: "Archivtabelle",
+  NDJSON: "NDJSON-Datei",
+};
+
 export default function AdminDashboardScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
@@ -66,6 +98,22 @@ export default function AdminDashboardScreen() {
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: retention, refetch: refetchRetention } =
+    useQuery<RetentionOverview>({
+      queryKey: ["/api/admin/retention"],
+      // Follow the progress while a run is in progress
+      refetchInterval: (query) => (query.state.data?.running ? 5000 : false),
+    });
+
+  const runRetentionMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/retention/run");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention"] });
+    },
+  });
+
   const StatCard = ({
     icon,
     label,
@@ -134,7 +182,10 @@ export default function AdminDashboardScreen() {
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
-            onRefresh={refetch}
+            onRefresh={() => {
+              refetch();
+              refetchRetention();
+            }}
             tintColor={theme.accent}
           />
         }
@@ -244,6 +295,130 @@ export default function AdminDashboardScreen() {
           </Card>
         </View>
 
+        {retention ? (
+          <>
+            <ThemedText
+              type="h4"
+              style={[styles.sectionTitle, { color: theme.primary }]}
+            >
+              Datenaufbewahrung
+            </ThemedText>
+
+            <Card style={{ backgroundColor: theme.cardSurface }}>
+              {retention.policies.map((policy) => {
+                const progress =
+                  policy.pendingRows > 0
+                    ? Math.min(1, policy.processedRows / policy.pendingRows)
+                    : 1;
+                const statusColor =
+                  policy.status === "FAILED"
+                    ? theme.error
+                    : policy.status === "RUNNING"
+                      ? theme.warning
+                      : theme.success;
+
+                return (
+                  <View key={policy.tableName} style={styles.retentionRow}>
+                    <View style={styles.retentionHeader}>
+                      <ThemedText type="body" style={styles.retentionTitle}>
+                        {RETENTION_TABLE_LABELS[policy.tableName] ||
+                          policy.tableName}
+                      </ThemedText>
+                      <ThemedText type="small" style={{ color: statusColor }}>
+                        {!policy.isEnabled
+                          ? "Deaktiviert"
+                          : policy.status === "RUNNING"
+                            ? "Läuft"
+                            : policy.status === "FAILED"
+                              ? "Fehler"
+                              : "Bereit"}
+                      </ThemedText>
+                    </View>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {policy.hotMonths} Monate aktiv ·{" "}
+                      {RETENTION_MODE_LABELS[policy.mode] || policy.mode} ·{" "}
+                      {policy.hotRows.toLocaleString("de-DE")} aktiv ·{" "}
+                      {policy.totalArchivedRows.toLocaleString("de-DE")}{" "}
+                      archiviert
+                    </ThemedText>
+                    <View
+                      style={[
+                        styles.progressTrack,
+                        { backgroundColor: theme.backgroundSecondary },
+                      ]}
+                    >
+                      <View
+                        style={[
+                          styles.progressFill,
+                          {
+                            width: `${Math.round(progress * 100)}%`,
+                            backgroundColor: statusColor,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textTertiary }}
+                    >
+                      {policy.remainingRows > 0
+                        ? `${policy.remainingRows.toLocaleString("de-DE")} Einträge ausstehend`
+                        : "Keine Einträge ausstehend"}
+                      {policy.lastRunFinishedAt
+                        ? ` · Letzter Lauf ${new Date(
+                            policy.lastRunFinishedAt,
+                          ).toLocaleString("de-DE", {
+                            timeZone: "Europe/Berlin",
+                            day: "2-digit",
+                            month: "2-digit",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}`
+                        : ""}
+                    </ThemedText>
+                    {policy.status === "FAILED" && policy.lastError ? (
+                      <ThemedText type="caption" style={{ color: theme.error }}>
+                        {policy.lastError}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                );
+              })}
+
+              <Button
+                style={[
+                  styles.secondaryButton,
+                  {
+                    backgroundColor: theme.cardSurface,
+                    borderColor: theme.border,
+                  },
+                ]}
+                disabled={retention.running || runRetentionMutation.isPending}
+                onPress={() => runRetentionMutation.mutate()}
+              >
+                <View style={styles.actionContent}>
+                  {retention.running ? (
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  ) : (
+                    <Feather name="archive" size={20} color={theme.primary} />
+                  )}
+                  <ThemedText
+                    type="body"
+                    style={[styles.secondaryText, { color: theme.primary }]}
+                  >
+                    {retention.running
+                      ? "Archivierung läuft..."
+                      : "Jetzt archivieren"}
+                  </ThemedText>
+                </View>
+              </Button>
+            </Card>
+          </>
+        ) : null}
+
         <ThemedText
           type="h4"
           style={[styles.sectionTitle, { color: theme.primary }]}
@@ -325,6 +500,42 @@ export default function AdminDashboardScreen() {
             </View>
           </Button>
 
+          <Button
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.cardSurface, borderColor: theme.border },
+            ]}
+            onPress={() => navigation.navigate("SiteManagement")}
+          >
+            <View style={styles.actionContent}>
+              <Feather name="map-pin" size={20} color={theme.primary} />
+              <ThemedText
+                type="body"
+                style={[styles.secondaryText, { color: theme.primary }]}
+              >
+                Standorte
+              </ThemedText>
+            </View>
+          </Button>
+
+          <Button
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.cardSurface, borderColor: theme.border },
+            ]}
+            onPress={() => navigation.navigate("ApiKeyManagement")}
+          >
+            <View style={styles.actionContent}>
+              <Feather name="key" size={20} color={theme.primary} />
+              <ThemedText
+                type="body"
+                style={[styles.secondaryText, { color: theme.primary }]}
+              >
+                API-Schlüssel
+              </ThemedText>
+            </View>
+          </Button>
+
           <Button
             style={[
               styles.secondaryButton,
@@ -520,6 +731,26 @@ const styles = StyleSheet.create({
   alertLabel: {
     fontWeight: "500",
   },
+  retentionRow: {
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  retentionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  retentionTitle: {
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
   actionsGrid: {
     gap: Spacing.md,
   },
@@ -0,0 +1,780 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Modal,
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  Share,
+  Alert,
+} from "react-native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Button } from "@/components/Button";
+import { TextInput } from "@/components/TextInput";
+import { FilterChip } from "@/components/FilterChip";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { apiRequest } from "@/lib/query-client";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS } from "@shared/schema";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  userId: string;
+  createdById: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyRequest {
+  id: string;
+  method: string;
+  path: string;
+  statusCode: number | null;
+  ip: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+const DEFAULT_EXPIRY_DAYS = "365";
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "–";
+  return new Date(value).toLocaleString("de-DE", {
+    timeZone: "Europe/Berlin",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function isExpired(apiKey: ApiKey): boolean {
+  return !!apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date();
+}
+
+export default function ApiKeyManagementScreen() {
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const queryClient = useQueryClient();
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiryDays, setExpiryDays] = useState(DEFAULT_EXPIRY_DAYS);
+  const [actingUserId, setActingUserId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<ApiKey | null>(null);
+
+  const {
+    data: apiKeys = [],
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useQuery<ApiKey[]>({
+    queryKey: ["/api/admin/api-keys"],
+  });
+
+  const { data: users = [] } = useQuery<UserOption[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: requests = [], isLoading: isLoadingRequests } = useQuery<
+    ApiKeyRequest[]
+  >({
+    queryKey: [`/api/admin/api-keys/${selectedKey?.id}/requests`],
+    enabled: !!selectedKey,
+  });
+
+  const userNames = new Map(users.map((u) => [u.id, u.name]));
+
+  const openCreateModal = () => {
+    setName("");
+    setScopes([]);
+    setExpiryDays(DEFAULT_EXPIRY_DAYS);
+    setActingUserId(user?.id || null);
+    setError("");
+    setCreatedKey(null);
+    setShowCreateModal(true);
+  };
+
+  const toggleScope = (scope: string) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope],
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError("Name ist erforderlich");
+      return;
+    }
+    if (scopes.length === 0) {
+      setError("Mindestens eine Berechtigung auswählen");
+      return;
+    }
+    const days = expiryDays.trim() ? parseInt(expiryDays, 10) : null;
+    if (days !== null && (isNaN(days) || days <= 0)) {
+      setError("Gültigkeit muss eine positive Anzahl Tage sein");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await apiRequest("POST", "/api/admin/api-keys", {
+        name: name.trim(),
+        scopes,
+        userId: actingUserId,
+        expiresAt: days
+          ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      });
+      const data = await response.json();
+      setCreatedKey(data.key);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-keys"] });
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "API-Schlüssel konnte nicht erstellt werden",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    Alert.alert(
+      "Schlüssel widerrufen",
+      `"${apiKey.name}" wird sofort ungültig. Fortfahren?`,
+      [
+        { text: "Abbrechen", style: "cancel" },
+        {
+          text: "Widerrufen",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await apiRequest("DELETE", `/api/admin/api-keys/${apiKey.id}`);
+              queryClient.invalidateQueries({
+                queryKey: ["/api/admin/api-keys"],
+              });
+              setSelectedKey(null);
+            } catch (err) {
+              console.error("Failed to revoke API key:", err);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderStatusBadge = (apiKey: ApiKey) => {
+    if (!apiKey.revokedAt && !isExpired(apiKey)) return null;
+    return (
+      <View style={[styles.badge, { backgroundColor: theme.errorLight }]}>
+        <ThemedText
+          type="caption"
+          style={{ color: theme.error, fontWeight: "700" }}
+        >
+          {apiKey.revokedAt ? "WIDERRUFEN" : "ABGELAUFEN"}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  const renderApiKey = ({ item }: { item: ApiKey }) => {
+    const inactive = !!item.revokedAt || isExpired(item);
+    return (
+      <Card
+        style={{
+          ...styles.keyCard,
+          backgroundColor: theme.cardSurface,
+          ...(inactive ? styles.inactiveCard : {}),
+        }}
+        onPress={() => setSelectedKey(item)}
+      >
+        <View style={styles.keyHeader}>
+          <View
+            style={[
+              styles.iconContainer,
+              {
+                backgroundColor: inactive ? theme.textTertiary : theme.primary,
+              },
+            ]}
+          >
+            <Feather name="key" size={20} color={theme.textOnPrimary} />
+          </View>
+          <View style={styles.keyDetails}>
+            <View style={styles.nameRow}>
+              <ThemedText type="h4" style={{ color: theme.text }}>
+                {item.name}
+              </ThemedText>
+              {renderStatusBadge(item)}
+            </View>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {item.keyPrefix}… · handelt als{" "}
+              {userNames.get(item.userId) || "Unbekannt"}
+            </ThemedText>
+            <View style={styles.scopeRow}>
+              {item.scopes.map((scope) => (
+                <View
+                  key={scope}
+                  style={[
+                    styles.badge,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary, fontWeight: "600" }}
+                  >
+                    {API_KEY_SCOPE_LABELS[scope] || scope}
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+            <ThemedText type="caption" style={{ color: theme.textTertiary }}>
+              Zuletzt verwendet: {formatDateTime(item.lastUsedAt)} · Gültig bis:{" "}
+              {item.expiresAt ? formatDateTime(item.expiresAt) : "unbegrenzt"}
+            </ThemedText>
+          </View>
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <ThemedView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+    >
+      <View
+        style={[
+          styles.header,
+          { marginTop: headerHeight, backgroundColor: theme.backgroundDefault },
+        ]}
+      >
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          {apiKeys.length} Schlüssel
+        </ThemedText>
+        <Button
+          style={[styles.addButton, { backgroundColor: theme.accent }]}
+          onPress={openCreateModal}
+        >
+          <View style={styles.addContent}>
+            <Feather name="plus" size={18} color={theme.textOnAccent} />
+            <ThemedText
+              type="small"
+              style={[styles.addText, { color: theme.textOnAccent }]}
+            >
+              Hinzufügen
+            </ThemedText>
+          </View>
+        </Button>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.accent} />
+        </View>
+      ) : (
+        <FlatList
+          data={apiKeys}
+          keyExtractor={(item) => item.id}
+          renderItem={renderApiKey}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: tabBarHeight + Spacing.xl },
+          ]}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="key" size={48} color={theme.textSecondary} />
+              <ThemedText type="h4" style={{ color: theme.text }}>
+                Keine API-Schlüssel
+              </ThemedText>
+              <ThemedText
+                type="body"
+                style={[styles.emptySubtitle, { color: theme.textSecondary }]}
+              >
+                Schlüssel verbinden Waagen, MES und Reporting-Tools mit
+                ContainerFlow
+              </ThemedText>
+            </View>
+          }
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={theme.accent}
+            />
+          }
+        />
+      )}
+
+      <Modal
+        visible={showCreateModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowCreateModal(false)}
+      >
+        <View style={[styles.modalOverlay, { backgroundColor: theme.overlay }]}>
+          <KeyboardAwareScrollViewCompat
+            contentContainerStyle={styles.modalScrollContent}
+          >
+            <View
+              style={[
+                styles.modalContent,
+                { backgroundColor: theme.backgroundRoot },
+              ]}
+            >
+              <View style={styles.modalHeader}>
+                <ThemedText type="h3" style={{ color: theme.text }}>
+                  {createdKey ? "Schlüssel erstellt" : "Neuer API-Schlüssel"}
+                </ThemedText>
+                <Pressable
+                  onPress={() => setShowCreateModal(false)}
+                  style={styles.closeButton}
+                >
+                  <Feather name="x" size={24} color={theme.text} />
+                </Pressable>
+              </View>
+
+              {createdKey ? (
+                <View style={styles.form}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Der Schlüssel wird nur jetzt angezeigt. Bitte sicher im
+                    Zielsystem hinterlegen.
+                  </ThemedText>
+                  <View
+                    style={[
+                      styles.keyBox,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      selectable
+                      style={{ color: theme.text, fontFamily: "monospace" }}
+                    >
+                      {createdKey}
+                    </ThemedText>
+                  </View>
+                  <Button
+                    style={{ backgroundColor: theme.accent }}
+                    onPress={() => Share.share({ message: createdKey })}
+                  >
+                    Teilen
+                  </Button>
+                </View>
+              ) : (
+                <View style={styles.form}>
+                  <TextInput
+                    label="Name"
+                    value={name}
+                    onChangeText={setName}
+                    placeholder="z.B. Waage Halle 3"
+                  />
+
+                  <View>
+                    <ThemedText
+                      type="small"
+                      style={[styles.label, { color: theme.textSecondary }]}
+                    >
+                      Berechtigungen
+                    </ThemedText>
+                    <View style={styles.chipRow}>
+                      {API_KEY_SCOPES.map((scope) => (
+                        <FilterChip
+                          key={scope}
+                          label={API_KEY_SCOPE_LABELS[scope]}
+                          selected={scopes.includes(scope)}
+                          onPress={() => toggleScope(scope)}
+                          small
+                        />
+                      ))}
+                    </View>
+                  </View>
+
+                  <View>
+                    <ThemedText
+                      type="small"
+                      style={[styles.label, { color: theme.textSecondary }]}
+                    >
+                      Handelt als Benutzer
+                    </ThemedText>
+                    <View style={styles.chipRow}>
+                      {users
+                        .filter((u) => u.isActive)
+                        .map((u) => (
+                          <FilterChip
+                            key={u.id}
+                            label={u.name}
+                            selected={actingUserId === u.id}
+                            onPress={() => setActingUserId(u.id)}
+                            small
+                          />
+                        ))}
+                    </View>
+                  </View>
+
+                  <TextInput
+                    label="Gültigkeit in Tagen (leer = unbegrenzt)"
+                    value={expiryDays}
+                    onChangeText={setExpiryDays}
+                    placeholder={DEFAULT_EXPIRY_DAYS}
+                    keyboardType="number-pad"
+                  />
+
+                  {error ? (
+                    <View
+                      style={[
+                        styles.errorBanner,
+                        { backgroundColor: theme.errorLight },
+                      ]}
+                    >
+                      <Feather
+                        name="alert-circle"
+                        size={16}
+                        color={theme.error}
+                      />
+                      <ThemedText
+                        type="small"
+                        style={{ color: theme.error, flex: 1 }}
+                      >
+                        {error}
+                      </ThemedText>
+                    </View>
+                  ) : null}
+
+                  <View style={styles.modalActions}>
+                    <Button
+                      style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.backgroundSecondary },
+                      ]}
+                      onPress={() => setShowCreateModal(false)}
+                    >
+                      Abbrechen
+                    </Button>
+                    <Button
+                      style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.accent },
+                      ]}
+                      onPress={handleCreate}
+                      disabled={isSubmitting}
+                    >
+                      {isSubmitting ? (
+                        <ActivityIndicator
+                          size="small"
+                          color={theme.textOnAccent}
+                        />
+                      ) : (
+                        <ThemedText
+                          type="body"
+                          style={{
+                            color: theme.textOnAccent,
+                            fontWeight: "600",
+                          }}
+                        >
+                          Erstellen
+                        </ThemedText>
+                      )}
+                    </Button>
+                  </View>
+                </View>
+              )}
+            </View>
+          </KeyboardAwareScrollViewCompat>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!selectedKey}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setSelectedKey(null)}
+      >
+        <View style={[styles.modalOverlay, { backgroundColor: theme.overlay }]}>
+          <View
+            style={[
+              styles.modalContent,
+              styles.detailContent,
+              { backgroundColor: theme.backgroundRoot },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <ThemedText type="h3" style={{ color: theme.text }}>
+                {selectedKey?.name}
+              </ThemedText>
+              <Pressable
+                onPress={() => setSelectedKey(null)}
+                style={styles.closeButton}
+              >
+                <Feather name="x" size={24} color={theme.text} />
+              </Pressable>
+            </View>
+
+            <ThemedText
+              type="small"
+              style={[styles.label, { color: theme.textSecondary }]}
+            >
+              Letzte Aufrufe
+            </ThemedText>
+            {isLoadingRequests ? (
+              <ActivityIndicator size="small" color={theme.accent} />
+            ) : (
+              <FlatList
+                data={requests}
+                keyExtractor={(item) => item.id}
+                style={styles.requestList}
+                ListEmptyComponent={
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textTertiary }}
+                  >
+                    Noch keine Aufrufe
+                  </ThemedText>
+                }
+                renderItem={({ item }) => (
+                  <View
+                    style={[
+                      styles.requestRow,
+                      { borderBottomColor: theme.divider },
+                    ]}
+                  >
+                    <ThemedText
+                      type="caption"
+                      style={{
+                        color:
+                          item.statusCode && item.statusCode < 400
+                            ? theme.success
+                            : theme.error,
+                        fontWeight: "700",
+                      }}
+                    >
+                      {item.statusCode ?? "–"}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.text, flex: 1 }}
+                      numberOfLines={1}
+                    >
+                      {item.method} {item.path}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textTertiary }}
+                    >
+                      {formatDateTime(item.createdAt)}
+                    </ThemedText>
+                  </View>
+                )}
+              />
+            )}
+
+            {selectedKey && !selectedKey.revokedAt ? (
+              <Button
+                style={[
+                  styles.revokeButton,
+                  { backgroundColor: theme.errorLight },
+                ]}
+                onPress={() => handleRevoke(selectedKey)}
+              >
+                <ThemedText
+                  type="body"
+                  style={{ color: theme.error, fontWeight: "600" }}
+                >
+                  Widerrufen
+                </ThemedText>
+              </Button>
+            ) : null}
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  addButton: {
+    paddingHorizontal: Spacing.md,
+    height: 40,
+  },
+  addContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  addText: {
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  listContent: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  keyCard: {
+    padding: Spacing.lg,
+  },
+  inactiveCard: {
+    opacity: 0.75,
+  },
+  keyHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  keyDetails: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    flexWrap: "wrap",
+  },
+  scopeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: Spacing["5xl"],
+    gap: Spacing.md,
+  },
+  emptySubtitle: {
+    textAlign: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalScrollContent: {
+    flexGrow: 1,
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  detailContent: {
+    maxHeight: "80%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  form: {
+    gap: Spacing.lg,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    fontWeight: "600",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  keyBox: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+  },
+  errorBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  requestList: {
+    flexGrow: 0,
+  },
+  requestRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  revokeButton: {
+    marginTop: Spacing.lg,
+  },
+});
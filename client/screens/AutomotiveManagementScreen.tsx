@@ -22,6 +22,10 @@ import { TextInput } from "@/components/TextInput";
 import { FilterChip } from "@/components/FilterChip";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { StatusBadge } from "@/components/StatusBadge";
+import {
+  EntityHistoryList,
+  type HistoryEntityType,
+} from "@/components/EntityHistoryList";
 import { useToast } from "@/components/Toast";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
@@ -142,6 +146,14 @@ const TAB_LABELS: Record<EntityTab, string> = {
   boxes: "Boxen",
 };
 
+const TAB_ENTITY_TYPES: Record<EntityTab, HistoryEntityType> = {
+  materials: "material",
+  halls: "hall",
+  stations: "station",
+  stands: "stand",
+  boxes: "box",
+};
+
 export default function AutomotiveManagementScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
@@ -561,6 +573,7 @@ export default function AutomotiveManagementScreen() {
         queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
         setSelectedBox({ ...selectedBox, isActive: !selectedBox.isActive });
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/entity-events"] });
       showToast("Status wurde aktualisiert", "success");
     } catch (err) {
       console.error("Failed to toggle active:", err);
@@ -1457,6 +1470,16 @@ export default function AutomotiveManagementScreen() {
             </>
           ) : null}
         </View>
+
+        <Card style={styles.detailCard}>
+          <ThemedText type="h4" style={styles.formSectionTitle}>
+            Verlauf
+          </ThemedText>
+          <EntityHistoryList
+            entityType={TAB_ENTITY_TYPES[activeTab]}
+            entityId={selectedItem.id}
+          />
+        </Card>
       </ScrollView>
     );
   };
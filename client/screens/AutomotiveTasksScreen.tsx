@@ -21,7 +21,11 @@ import { LoadingScreen } from "@/components/LoadingScreen";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { TasksStackParamList } from "@/navigation/TasksStackNavigator";
-import { AUTOMOTIVE_TASK_STATUS_LABELS } from "@shared/schema";
+import {
+  AUTOMOTIVE_TASK_STATUS_LABELS,
+  resolveClaimTtlMinutes,
+  type ClaimTtlRule,
+} from "@shared/schema";
 
 type NavigationProp = NativeStackNavigationProp<TasksStackParamList, "Tasks">;
 
@@ -61,8 +65,6 @@ const CATEGORY_CONFIG: Record<
   geplant: { label: "Geplant", statuses: [], icon: "calendar" },
 };
 
-const CLAIM_TTL_MINUTES = 30;
-
 interface TaskWithDetails {
   id: string;
   title?: string | null;
@@ -101,6 +103,10 @@ export default function AutomotiveTasksScreen() {
     queryKey: ["/api/automotive/tasks"],
   });
 
+  const { data: claimTtl } = useQuery<{ rules: ClaimTtlRule[] }>({
+    queryKey: ["/api/claim-ttl-rules"],
+  });
+
   const today = useMemo(() => {
     const d = new Date();
     d.setHours(0, 0, 0, 0);
@@ -227,7 +233,8 @@ export default function AutomotiveTasksScreen() {
 
     const claimedAt = new Date(task.claimedAt);
     const expiryTime = new Date(
-      claimedAt.getTime() + CLAIM_TTL_MINUTES * 60 * 1000,
+      claimedAt.getTime() +
+        resolveClaimTtlMinutes(claimTtl?.rules || [], task) * 60 * 1000,
     );
     const now = new Date();
     const remainingMs = expiryTime.getTime() - now.getTime();
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -7,6 +7,8 @@ import {
   Image,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { BlurView } from "expo-blur";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
@@ -16,6 +18,8 @@ import { TextInput } from "@/components/TextInput";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, AnimationConfig } from "@/constants/theme";
 import { useAuth } from "@/contexts/AuthContext";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { ApiError, apiRequest } from "@/lib/query-client";
 import { Feather } from "@expo/vector-icons";
 import Animated, {
   useAnimatedStyle,
@@ -25,15 +29,103 @@ import Animated, {
   FadeInDown,
 } from "react-native-reanimated";
 
+type LoginMode = "login" | "forgot" | "reset";
+
 export default function LoginScreen() {
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useTheme();
-  const { login } = useAuth();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList, "Login">>();
+  const { login, getQuickSwitchUsers } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  const [mode, setMode] = useState<LoginMode>("login");
+  const [resetCode, setResetCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [notice, setNotice] = useState("");
+  const [hasQuickSwitchUsers, setHasQuickSwitchUsers] = useState(false);
+
+  useEffect(() => {
+    // Shared scanners: offer the PIN quick switch if anyone set it up here
+    getQuickSwitchUsers()
+      .then((users) => setHasQuickSwitchUsers(users.length > 0))
+      .catch(() => setHasQuickSwitchUsers(false));
+  }, [getQuickSwitchUsers]);
+
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError("");
+    setNotice("");
+  };
+
+  const handleRequestReset = async () => {
+    if (!email.trim()) {
+      setError("Bitte geben Sie Ihre E-Mail-Adresse ein");
+      return;
+    }
+
+    setError("");
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", {
+        email: email.trim(),
+      });
+      setMode("reset");
+      setNotice(
+        "Falls ein Konto zu dieser Adresse existiert, wurde ein Code per E-Mail versendet.",
+      );
+    } catch (err) {
+      setError(
+        err instanceof ApiError
+          ? err.toUserMessage()
+          : "Anfrage fehlgeschlagen",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetCode.trim() || !newPassword) {
+      setError("Bitte geben Sie Code und neues Passwort ein");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Die Passwörter stimmen nicht überein");
+      return;
+    }
+
+    setError("");
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", {
+        token: resetCode.trim(),
+        newPassword,
+      });
+      setResetCode("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setPassword("");
+      setMode("login");
+      setNotice(
+        "Passwort geändert. Bitte melden Sie sich mit dem neuen Passwort an.",
+      );
+    } catch (err) {
+      setError(
+        err instanceof ApiError
+          ? err.toUserMessage().replace(/^\d{3}: /, "")
+          : "Zurücksetzen fehlgeschlagen",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleLogin = async () => {
     if (!email.trim() || !password.trim()) {
@@ -42,12 +134,19 @@ export default function LoginScreen() {
     }
 
     setError("");
+    setNotice("");
     setIsLoading(true);
 
     try {
       await login(email.trim(), password);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Anmeldung fehlgeschlagen");
+      if (err instanceof ApiError && err.status === 429) {
+        setError(err.toUserMessage());
+      } else {
+        setError(
+          err instanceof Error ? err.message : "Anmeldung fehlgeschlagen",
+        );
+      }
     } finally {
       setIsLoading(false);
     }
@@ -114,44 +213,101 @@ export default function LoginScreen() {
             type="h4"
             style={[styles.formTitle, { color: theme.text }]}
           >
-            Anmeldung
+            {mode === "login" ? "Anmeldung" : "Passwort zurücksetzen"}
           </ThemedText>
 
           <View style={styles.form}>
-            <TextInput
-              label="E-Mail-Adresse"
-              value={email}
-              onChangeText={setEmail}
-              placeholder="name@firma.de"
-              keyboardType="email-address"
-              autoCapitalize="none"
-              autoComplete="email"
-            />
-
-            <View style={styles.passwordContainer}>
+            {mode !== "reset" ? (
               <TextInput
-                label="Passwort"
-                value={password}
-                onChangeText={setPassword}
-                placeholder="Passwort eingeben"
-                secureTextEntry={!showPassword}
-                autoComplete="password"
+                label="E-Mail-Adresse"
+                value={email}
+                onChangeText={setEmail}
+                placeholder="name@firma.de"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
               />
-              <Pressable
+            ) : null}
+
+            {mode === "login" ? (
+              <View style={styles.passwordContainer}>
+                <TextInput
+                  label="Passwort"
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="Passwort eingeben"
+                  secureTextEntry={!showPassword}
+                  autoComplete="password"
+                />
+                <Pressable
+                  style={[
+                    styles.eyeButton,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                  onPress={() => setShowPassword(!showPassword)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Feather
+                    name={showPassword ? "eye-off" : "eye"}
+                    size={20}
+                    color={theme.textSecondary}
+                  />
+                </Pressable>
+              </View>
+            ) : null}
+
+            {mode === "reset" ? (
+              <>
+                <TextInput
+                  label="Code aus der E-Mail"
+                  value={resetCode}
+                  onChangeText={setResetCode}
+                  placeholder="XXXXX-XXXXX"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <TextInput
+                  label="Neues Passwort"
+                  value={newPassword}
+                  onChangeText={setNewPassword}
+                  placeholder="Mindestens 8 Zeichen"
+                  secureTextEntry
+                  autoComplete="password-new"
+                />
+                <TextInput
+                  label="Neues Passwort wiederholen"
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  placeholder="Passwort wiederholen"
+                  secureTextEntry
+                  autoComplete="password-new"
+                />
+              </>
+            ) : null}
+
+            {notice && !error ? (
+              <View
                 style={[
-                  styles.eyeButton,
+                  styles.errorContainer,
                   { backgroundColor: theme.backgroundSecondary },
                 ]}
-                onPress={() => setShowPassword(!showPassword)}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
               >
-                <Feather
-                  name={showPassword ? "eye-off" : "eye"}
-                  size={20}
-                  color={theme.textSecondary}
-                />
-              </Pressable>
-            </View>
+                <View
+                  style={[
+                    styles.errorIconContainer,
+                    { backgroundColor: theme.info },
+                  ]}
+                >
+                  <Feather name="mail" size={14} color={theme.textOnPrimary} />
+                </View>
+                <ThemedText
+                  type="small"
+                  style={[styles.errorText, { color: theme.text }]}
+                >
+                  {notice}
+                </ThemedText>
+              </View>
+            ) : null}
 
             {error ? (
               <View
@@ -182,17 +338,68 @@ export default function LoginScreen() {
             ) : null}
 
             <Button
-              onPress={handleLogin}
+              onPress={
+                mode === "login"
+                  ? handleLogin
+                  : mode === "forgot"
+                    ? handleRequestReset
+                    : handleResetPassword
+              }
               disabled={isLoading}
               variant="primary"
               style={styles.loginButton}
             >
               {isLoading ? (
                 <ActivityIndicator size="small" color={theme.textOnPrimary} />
-              ) : (
+              ) : mode === "login" ? (
                 "Anmelden"
+              ) : mode === "forgot" ? (
+                "Code anfordern"
+              ) : (
+                "Passwort speichern"
               )}
             </Button>
+
+            {mode === "login" && hasQuickSwitchUsers ? (
+              <Button
+                onPress={() => navigation.navigate("QuickSwitch")}
+                variant="secondary"
+              >
+                Benutzer wechseln (PIN)
+              </Button>
+            ) : null}
+
+            {mode === "login" ? (
+              <Pressable
+                onPress={() => switchMode("forgot")}
+                style={styles.linkButton}
+              >
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Passwort vergessen?
+                </ThemedText>
+              </Pressable>
+            ) : (
+              <View style={styles.linkRow}>
+                {mode === "forgot" ? (
+                  <Pressable onPress={() => switchMode("reset")}>
+                    <ThemedText type="small" style={{ color: theme.primary }}>
+                      Code bereits erhalten
+                    </ThemedText>
+                  </Pressable>
+                ) : (
+                  <Pressable onPress={() => switchMode("forgot")}>
+                    <ThemedText type="small" style={{ color: theme.primary }}>
+                      Neuen Code anfordern
+                    </ThemedText>
+                  </Pressable>
+                )}
+                <Pressable onPress={() => switchMode("login")}>
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    Zurück zur Anmeldung
+                  </ThemedText>
+                </Pressable>
+              </View>
+            )}
           </View>
         </Animated.View>
 
@@ -303,6 +510,15 @@ const styles = StyleSheet.create({
   loginButton: {
     marginTop: Spacing.sm,
   },
+  linkButton: {
+    alignSelf: "center",
+    paddingVertical: Spacing.xs,
+  },
+  linkRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+  },
   infoContainer: {
     flexDirection: "row",
     alignItems: "flex-start",
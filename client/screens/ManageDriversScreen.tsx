@@ -7,6 +7,7 @@ import {
   ActivityIndicator,
   Pressable,
   ScrollView,
+  Alert,
 } from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -20,8 +21,17 @@ import { TextInput } from "@/components/TextInput";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { apiRequest } from "@/lib/query-client";
+import { downloadApiFile } from "@/lib/download";
 import { useAuth } from "@/contexts/AuthContext";
-import { User, Task, ActivityLog } from "@shared/schema";
+import { useSite } from "@/contexts/SiteContext";
+import { FilterChip } from "@/components/FilterChip";
+import { DeviceSessionList } from "@/components/DeviceSessionList";
+import {
+  User,
+  Task,
+  ActivityLog,
+  AUTOMOTIVE_USER_ROLE_LABELS,
+} from "@shared/schema";
 import { useTheme } from "@/hooks/useTheme";
 
 const OPEN_STATUSES = ["OFFEN", "PLANNED", "ASSIGNED"];
@@ -33,8 +43,17 @@ const IN_PROGRESS_STATUSES = [
 ];
 const COMPLETED_STATUSES = ["COMPLETED"];
 const CANCELLED_STATUSES = ["CANCELLED"];
+const GRANTABLE_AUTOMOTIVE_ROLES = ["PICKUP_DRIVER", "WAREHOUSE", "DISPOSAL"];
+
+type UserWithoutPassword = Omit<User, "password"> & { siteIds?: string[] };
 
-type UserWithoutPassword = Omit<User, "password">;
+interface LoginLockout {
+  scope: string;
+  key: string;
+  failedCount: number;
+  lockedUntil: string;
+  userId: string | null;
+}
 
 interface DriverStats {
   tasksCompletedToday: number;
@@ -47,6 +66,7 @@ export default function ManageDriversScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const queryClient = useQueryClient();
   const { isAdmin } = useAuth();
+  const { sites } = useSite();
   const { theme, isDark } = useTheme();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -64,10 +84,13 @@ export default function ManageDriversScreen() {
     email: "",
     password: "",
     role: "driver" as "driver" | "admin",
+    automotiveRoles: [] as string[],
+    siteIds: [] as string[],
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const [editError, setEditError] = useState("");
+  const [isPrivacyActionRunning, setIsPrivacyActionRunning] = useState(false);
 
   const { data: users = [], isLoading } = useQuery<UserWithoutPassword[]>({
     queryKey: ["/api/users"],
@@ -81,8 +104,21 @@ export default function ManageDriversScreen() {
     queryKey: ["/api/activity-logs"],
   });
 
+  const { data: loginLockouts = [] } = useQuery<LoginLockout[]>({
+    queryKey: ["/api/admin/login-lockouts"],
+    enabled: isAdmin,
+  });
+
   const drivers = users.filter((u) => u.role === "driver");
 
+  const lockoutByUserId = useMemo(() => {
+    const map = new Map<string, LoginLockout>();
+    loginLockouts.forEach((lockout) => {
+      if (lockout.userId) map.set(lockout.userId, lockout);
+    });
+    return map;
+  }, [loginLockouts]);
+
   const driverStatsMap = useMemo(() => {
     const statsMap = new Map<string, DriverStats>();
     const today = new Date();
@@ -229,12 +265,35 @@ export default function ManageDriversScreen() {
 
       await apiRequest("PATCH", `/api/users/${selectedDriver.id}`, updateData);
 
+      const currentRoles = [...(selectedDriver.automotiveRoles || [])].sort();
+      const nextRoles = [...editFormData.automotiveRoles].sort();
+      if (isAdmin && currentRoles.join(",") !== nextRoles.join(",")) {
+        await apiRequest("PUT", `/api/users/${selectedDriver.id}/roles`, {
+          automotiveRoles: nextRoles,
+        });
+      }
+
+      const currentSiteIds = [...(selectedDriver.siteIds || [])].sort();
+      const nextSiteIds = [...editFormData.siteIds].sort();
+      if (isAdmin && currentSiteIds.join(",") !== nextSiteIds.join(",")) {
+        await apiRequest("PUT", `/api/users/${selectedDriver.id}/sites`, {
+          siteIds: nextSiteIds,
+        });
+      }
+
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/drivers/overview"] });
       setShowEditModal(false);
       setSelectedDriver(null);
-      setEditFormData({ name: "", email: "", password: "", role: "driver" });
+      setEditFormData({
+        name: "",
+        email: "",
+        password: "",
+        role: "driver",
+        automotiveRoles: [],
+        siteIds: [],
+      });
     } catch (err) {
       setEditError(
         err instanceof Error
@@ -257,6 +316,61 @@ export default function ManageDriversScreen() {
     }
   };
 
+  const unlockDriver = async (userId: string) => {
+    try {
+      await apiRequest("POST", `/api/users/${userId}/unlock`);
+      queryClient.invalidateQueries({
+        queryKey: ["/api/admin/login-lockouts"],
+      });
+    } catch (err) {
+      console.error("Failed to unlock driver:", err);
+    }
+  };
+
+  const exportDriverData = async (driver: UserWithoutPassword) => {
+    setIsPrivacyActionRunning(true);
+    try {
+      await downloadApiFile(
+        `/api/users/${driver.id}/data-export`,
+        `personendaten-${driver.id.slice(0, 8)}.zip`,
+        "application/zip",
+      );
+    } catch (err) {
+      console.error("Failed to export driver data:", err);
+      Alert.alert("Fehler", "Datenexport fehlgeschlagen.");
+    } finally {
+      setIsPrivacyActionRunning(false);
+    }
+  };
+
+  const anonymizeDriver = (driver: UserWithoutPassword) => {
+    Alert.alert(
+      "Fahrer anonymisieren",
+      `Name, E-Mail, Telefon, PIN, Geräte und Scan-Standorte von "${driver.name}" werden endgültig entfernt. Aufträge und Gewichte bleiben für Statistiken erhalten. Dies kann nicht rückgängig gemacht werden.`,
+      [
+        { text: "Abbrechen", style: "cancel" },
+        {
+          text: "Anonymisieren",
+          style: "destructive",
+          onPress: async () => {
+            setIsPrivacyActionRunning(true);
+            try {
+              await apiRequest("POST", `/api/users/${driver.id}/anonymize`);
+              queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+              setShowDetailModal(false);
+              setSelectedDriver(null);
+            } catch (err) {
+              console.error("Failed to anonymize driver:", err);
+              Alert.alert("Fehler", "Anonymisierung fehlgeschlagen.");
+            } finally {
+              setIsPrivacyActionRunning(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const openEditModal = (driver: UserWithoutPassword) => {
     setSelectedDriver(driver);
     setEditFormData({
@@ -264,11 +378,42 @@ export default function ManageDriversScreen() {
       email: driver.email,
       password: "",
       role: driver.role as "driver" | "admin",
+      automotiveRoles: driver.automotiveRoles || [],
+      siteIds: driver.siteIds || [],
     });
     setEditError("");
     setShowEditModal(true);
   };
 
+  const toggleSite = (siteId: string) => {
+    const siteIds = editFormData.siteIds;
+    setEditFormData({
+      ...editFormData,
+      siteIds: siteIds.includes(siteId)
+        ? siteIds.filter((id) => id !== siteId)
+        : [...siteIds, siteId],
+    });
+  };
+
+  const toggleAutomotiveRole = (role: string) => {
+    const roles = editFormData.automotiveRoles;
+    setEditFormData({
+      ...editFormData,
+      automotiveRoles: roles.includes(role)
+        ? roles.filter((r) => r !== role)
+        : [...roles, role],
+    });
+  };
+
+  const formatAutomotiveRoles = (roles: string[] | null | undefined) => {
+    // Drivers without granted roles act as pickup drivers (server fallback)
+    const effectiveRoles =
+      roles && roles.length > 0 ? roles : ["PICKUP_DRIVER"];
+    return effectiveRoles
+      .map((role) => AUTOMOTIVE_USER_ROLE_LABELS[role] || role)
+      .join(", ");
+  };
+
   const openDetailModal = (driver: UserWithoutPassword) => {
     setSelectedDriver(driver);
     setShowDetailModal(true);
@@ -317,6 +462,7 @@ export default function ManageDriversScreen() {
 
   const renderDriver = ({ item }: { item: UserWithoutPassword }) => {
     const stats = driverStatsMap.get(item.id);
+    const lockout = lockoutByUserId.get(item.id);
 
     return (
       <Card
@@ -372,6 +518,21 @@ export default function ManageDriversScreen() {
                     </ThemedText>
                   </View>
                 ) : null}
+                {lockout ? (
+                  <View
+                    style={[
+                      styles.inactiveBadge,
+                      { backgroundColor: theme.warningLight },
+                    ]}
+                  >
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.warning, fontWeight: "700" }}
+                    >
+                      GESPERRT
+                    </ThemedText>
+                  </View>
+                ) : null}
               </View>
               <ThemedText
                 type="small"
@@ -441,6 +602,31 @@ export default function ManageDriversScreen() {
         </View>
 
         <View style={[styles.statusRow, { borderTopColor: theme.divider }]}>
+          {lockout ? (
+            <Pressable
+              style={[
+                styles.statusButton,
+                { backgroundColor: theme.warningLight },
+              ]}
+              onPress={(e) => {
+                e.stopPropagation();
+                unlockDriver(item.id);
+              }}
+            >
+              <Feather name="unlock" size={16} color={theme.warning} />
+              <ThemedText
+                type="small"
+                style={[styles.statusText, { color: theme.warning }]}
+              >
+                Entsperren (bis{" "}
+                {new Date(lockout.lockedUntil).toLocaleTimeString("de-DE", {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+                )
+              </ThemedText>
+            </Pressable>
+          ) : null}
           <Pressable
             style={[
               styles.statusButton,
@@ -847,6 +1033,64 @@ export default function ManageDriversScreen() {
                   </View>
                 ) : null}
 
+                {isAdmin && editFormData.role === "driver" ? (
+                  <View style={styles.roleSection}>
+                    <ThemedText
+                      type="small"
+                      style={[styles.roleLabel, { color: theme.textSecondary }]}
+                    >
+                      Betriebsrollen
+                    </ThemedText>
+                    <View style={styles.automotiveRoleChips}>
+                      {GRANTABLE_AUTOMOTIVE_ROLES.map((role) => (
+                        <FilterChip
+                          key={role}
+                          label={AUTOMOTIVE_USER_ROLE_LABELS[role]}
+                          selected={editFormData.automotiveRoles.includes(role)}
+                          onPress={() => toggleAutomotiveRole(role)}
+                          small
+                        />
+                      ))}
+                    </View>
+                    <ThemedText
+                      type="caption"
+                      style={[styles.roleLabel, { color: theme.textTertiary }]}
+                    >
+                      Ohne Auswahl gilt die Rolle Abholfahrer
+                    </ThemedText>
+                  </View>
+                ) : null}
+
+                {isAdmin &&
+                editFormData.role === "driver" &&
+                sites.length > 1 ? (
+                  <View style={styles.roleSection}>
+                    <ThemedText
+                      type="small"
+                      style={[styles.roleLabel, { color: theme.textSecondary }]}
+                    >
+                      Standorte
+                    </ThemedText>
+                    <View style={styles.automotiveRoleChips}>
+                      {sites.map((site) => (
+                        <FilterChip
+                          key={site.id}
+                          label={site.name}
+                          selected={editFormData.siteIds.includes(site.id)}
+                          onPress={() => toggleSite(site.id)}
+                          small
+                        />
+                      ))}
+                    </View>
+                    <ThemedText
+                      type="caption"
+                      style={[styles.roleLabel, { color: theme.textTertiary }]}
+                    >
+                      Ohne Auswahl hat der Fahrer Zugriff auf alle Standorte
+                    </ThemedText>
+                  </View>
+                ) : null}
+
                 {editError ? (
                   <View
                     style={[
@@ -999,7 +1243,11 @@ export default function ManageDriversScreen() {
                         fontWeight: "600",
                       }}
                     >
-                      {selectedDriver.isActive ? "Aktiv" : "Inaktiv"}
+                      {selectedDriver.anonymizedAt
+                        ? "Anonymisiert"
+                        : selectedDriver.isActive
+                          ? "Aktiv"
+                          : "Inaktiv"}
                     </ThemedText>
                   </View>
                 </View>
@@ -1168,6 +1416,23 @@ export default function ManageDriversScreen() {
                   )}
                 </View>
 
+                {isAdmin ? (
+                  <View
+                    style={[
+                      styles.detailSection,
+                      { borderTopColor: theme.divider },
+                    ]}
+                  >
+                    <ThemedText
+                      type="h4"
+                      style={[styles.sectionTitle, { color: theme.text }]}
+                    >
+                      Geräte
+                    </ThemedText>
+                    <DeviceSessionList userId={selectedDriver.id} />
+                  </View>
+                ) : null}
+
                 <View
                   style={[
                     styles.detailSection,
@@ -1196,6 +1461,22 @@ export default function ManageDriversScreen() {
                         : "Fahrer"}
                     </ThemedText>
                   </View>
+                  {selectedDriver.role !== "admin" ? (
+                    <View style={styles.infoRow}>
+                      <ThemedText
+                        type="small"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        Betriebsrollen
+                      </ThemedText>
+                      <ThemedText
+                        type="small"
+                        style={{ color: theme.text, fontWeight: "600" }}
+                      >
+                        {formatAutomotiveRoles(selectedDriver.automotiveRoles)}
+                      </ThemedText>
+                    </View>
+                  ) : null}
                   <View style={styles.infoRow}>
                     <ThemedText
                       type="small"
@@ -1219,30 +1500,111 @@ export default function ManageDriversScreen() {
                   </View>
                 </View>
 
-                <Button
-                  style={[
-                    styles.editFromDetailButton,
-                    { backgroundColor: theme.primary },
-                  ]}
-                  onPress={() => {
-                    setShowDetailModal(false);
-                    openEditModal(selectedDriver);
-                  }}
-                >
-                  <View style={styles.addContent}>
-                    <Feather
-                      name="edit-2"
-                      size={18}
-                      color={theme.textOnPrimary}
-                    />
+                {isAdmin ? (
+                  <View
+                    style={[
+                      styles.detailSection,
+                      { borderTopColor: theme.divider },
+                    ]}
+                  >
                     <ThemedText
-                      type="small"
-                      style={[styles.addText, { color: theme.textOnPrimary }]}
+                      type="h4"
+                      style={[styles.sectionTitle, { color: theme.text }]}
                     >
-                      Fahrer bearbeiten
+                      Datenschutz
                     </ThemedText>
+                    <View style={styles.privacyActions}>
+                      <Button
+                        style={[
+                          styles.privacyButton,
+                          {
+                            backgroundColor: theme.backgroundSecondary,
+                            borderColor: theme.border,
+                          },
+                        ]}
+                        disabled={isPrivacyActionRunning}
+                        onPress={() => exportDriverData(selectedDriver)}
+                      >
+                        <View style={styles.addContent}>
+                          <Feather
+                            name="download"
+                            size={18}
+                            color={theme.primary}
+                          />
+                          <ThemedText
+                            type="small"
+                            style={[styles.addText, { color: theme.primary }]}
+                          >
+                            Daten exportieren
+                          </ThemedText>
+                        </View>
+                      </Button>
+                      {!selectedDriver.isActive &&
+                      !selectedDriver.anonymizedAt ? (
+                        <Button
+                          style={[
+                            styles.privacyButton,
+                            {
+                              backgroundColor: theme.errorLight,
+                              borderColor: theme.error,
+                            },
+                          ]}
+                          disabled={isPrivacyActionRunning}
+                          onPress={() => anonymizeDriver(selectedDriver)}
+                        >
+                          <View style={styles.addContent}>
+                            <Feather
+                              name="user-x"
+                              size={18}
+                              color={theme.error}
+                            />
+                            <ThemedText
+                              type="small"
+                              style={[styles.addText, { color: theme.error }]}
+                            >
+                              Anonymisieren
+                            </ThemedText>
+                          </View>
+                        </Button>
+                      ) : null}
+                    </View>
+                    {selectedDriver.isActive ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textTertiary }}
+                      >
+                        Zum Anonymisieren den Fahrer zuerst deaktivieren.
+                      </ThemedText>
+                    ) : null}
                   </View>
-                </Button>
+                ) : null}
+
+                {!selectedDriver.anonymizedAt ? (
+                  <Button
+                    style={[
+                      styles.editFromDetailButton,
+                      { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => {
+                      setShowDetailModal(false);
+                      openEditModal(selectedDriver);
+                    }}
+                  >
+                    <View style={styles.addContent}>
+                      <Feather
+                        name="edit-2"
+                        size={18}
+                        color={theme.textOnPrimary}
+                      />
+                      <ThemedText
+                        type="small"
+                        style={[styles.addText, { color: theme.textOnPrimary }]}
+                      >
+                        Fahrer bearbeiten
+                      </ThemedText>
+                    </View>
+                  </Button>
+                ) : null}
               </ScrollView>
             ) : null}
           </View>
@@ -1352,6 +1714,7 @@ const styles = StyleSheet.create({
   statusRow: {
     flexDirection: "row",
     justifyContent: "flex-end",
+    gap: Spacing.sm,
     paddingTop: Spacing.md,
     marginTop: Spacing.md,
     borderTopWidth: 1,
@@ -1444,6 +1807,11 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     borderWidth: 1.5,
   },
+  automotiveRoleChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
   errorBanner: {
     flexDirection: "row",
     alignItems: "center",
@@ -1540,4 +1908,13 @@ const styles = StyleSheet.create({
   editFromDetailButton: {
     marginTop: Spacing.xl,
   },
+  privacyActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  privacyButton: {
+    flex: 1,
+    borderWidth: 1,
+  },
 });
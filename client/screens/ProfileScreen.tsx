@@ -1,5 +1,13 @@
-import React from "react";
-import { View, StyleSheet, ScrollView, Pressable, Switch } from "react-native";
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Switch,
+  Modal,
+  ActivityIndicator,
+} from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
@@ -8,10 +16,16 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
+import { DeviceSessionList } from "@/components/DeviceSessionList";
+import { FilterChip } from "@/components/FilterChip";
+import { useSite } from "@/contexts/SiteContext";
 import { Button } from "@/components/Button";
+import { TextInput } from "@/components/TextInput";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/hooks/useTheme";
+import { apiRequest, ApiError } from "@/lib/query-client";
 import { ProfileStackParamList } from "@/navigation/ProfileStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<
@@ -23,8 +37,73 @@ export default function ProfileScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
-  const { user, logout, isAdmin } = useAuth();
+  const { user, logout, isAdmin, updateUser } = useAuth();
+  const { sites, activeSite, switchSite } = useSite();
   const { theme, isDark, themeMode, setThemeMode } = useTheme();
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pin, setPin] = useState("");
+  const [pinConfirm, setPinConfirm] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [pinError, setPinError] = useState("");
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  const openPinModal = () => {
+    setPin("");
+    setPinConfirm("");
+    setCurrentPassword("");
+    setPinError("");
+    setShowPinModal(true);
+  };
+
+  const handleSavePin = async () => {
+    if (!user) return;
+    if (!/^\d{4,6}$/.test(pin)) {
+      setPinError("Die PIN muss aus 4 bis 6 Ziffern bestehen");
+      return;
+    }
+    if (pin !== pinConfirm) {
+      setPinError("Die PINs stimmen nicht überein");
+      return;
+    }
+    if (!currentPassword) {
+      setPinError("Bitte aktuelles Passwort eingeben");
+      return;
+    }
+
+    setIsSavingPin(true);
+    setPinError("");
+    try {
+      const response = await apiRequest("PUT", `/api/users/${user.id}/pin`, {
+        pin,
+        currentPassword,
+      });
+      await updateUser(await response.json());
+      setShowPinModal(false);
+    } catch (err) {
+      setPinError(
+        err instanceof ApiError
+          ? err.message.replace(/^\d{3}: /, "")
+          : "PIN konnte nicht gespeichert werden",
+      );
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handleRemovePin = async () => {
+    if (!user) return;
+    setIsSavingPin(true);
+    setPinError("");
+    try {
+      const response = await apiRequest("DELETE", `/api/users/${user.id}/pin`);
+      await updateUser(await response.json());
+      setShowPinModal(false);
+    } catch {
+      setPinError("PIN konnte nicht entfernt werden");
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
 
   const handleLogout = async () => {
     await logout();
@@ -152,6 +231,31 @@ export default function ProfileScreen() {
           </View>
         </Card>
 
+        {sites.length > 0 ? (
+          <Card style={{ backgroundColor: theme.cardSurface }}>
+            <ThemedText
+              type="h4"
+              style={{ color: theme.primary, marginBottom: Spacing.sm }}
+            >
+              Standort
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Listen, Karten und Auswertungen zeigen nur Daten des gewählten
+              Werks.
+            </ThemedText>
+            <View style={styles.siteChips}>
+              {sites.map((site) => (
+                <FilterChip
+                  key={site.id}
+                  label={site.name}
+                  selected={site.id === activeSite?.id}
+                  onPress={() => switchSite(site.id)}
+                />
+              ))}
+            </View>
+          </Card>
+        ) : null}
+
         {isAdmin ? (
           <Card style={{ backgroundColor: theme.cardSurface }}>
             <ThemedText
@@ -256,6 +360,28 @@ export default function ProfileScreen() {
             />
           </Pressable>
 
+          <Pressable
+            style={[styles.menuItem, { borderBottomColor: theme.border }]}
+            onPress={openPinModal}
+          >
+            <View style={styles.menuItemLeft}>
+              <Feather name="lock" size={20} color={theme.textSecondary} />
+              <View>
+                <ThemedText type="body" style={{ color: theme.text }}>
+                  Schnellanmeldung (PIN)
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {user?.hasPin ? "Aktiv" : "Nicht eingerichtet"}
+                </ThemedText>
+              </View>
+            </View>
+            <Feather
+              name="chevron-right"
+              size={20}
+              color={theme.textSecondary}
+            />
+          </Pressable>
+
           <View
             style={[styles.themeToggle, { borderBottomColor: theme.border }]}
           >
@@ -387,6 +513,18 @@ export default function ProfileScreen() {
           </Pressable>
         </Card>
 
+        {user ? (
+          <Card style={{ backgroundColor: theme.cardSurface }}>
+            <ThemedText
+              type="h4"
+              style={{ color: theme.primary, marginBottom: Spacing.sm }}
+            >
+              Geräte
+            </ThemedText>
+            <DeviceSessionList userId={user.id} />
+          </Card>
+        ) : null}
+
         <Button
           onPress={handleLogout}
           style={[styles.logoutButton, { backgroundColor: theme.error }]}
@@ -409,6 +547,113 @@ export default function ProfileScreen() {
           ContainerFlow v1.0.0
         </ThemedText>
       </ScrollView>
+
+      <Modal
+        visible={showPinModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowPinModal(false)}
+      >
+        <View style={[styles.modalOverlay, { backgroundColor: theme.overlay }]}>
+          <KeyboardAwareScrollViewCompat
+            contentContainerStyle={styles.modalScrollContent}
+          >
+            <View
+              style={[
+                styles.modalContent,
+                { backgroundColor: theme.backgroundRoot },
+              ]}
+            >
+              <View style={styles.modalHeader}>
+                <ThemedText type="h3" style={{ color: theme.text }}>
+                  Schnellanmeldung (PIN)
+                </ThemedText>
+                <Pressable
+                  onPress={() => setShowPinModal(false)}
+                  style={styles.closeButton}
+                >
+                  <Feather name="x" size={24} color={theme.text} />
+                </Pressable>
+              </View>
+
+              <View style={styles.pinForm}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Mit der PIN wechseln Sie auf Geräten, auf denen Sie sich
+                  bereits mit Passwort angemeldet haben, schnell zu Ihrem Konto.
+                </ThemedText>
+                <TextInput
+                  label="Neue PIN (4–6 Ziffern)"
+                  value={pin}
+                  onChangeText={setPin}
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  maxLength={6}
+                />
+                <TextInput
+                  label="PIN wiederholen"
+                  value={pinConfirm}
+                  onChangeText={setPinConfirm}
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  maxLength={6}
+                />
+                <TextInput
+                  label="Aktuelles Passwort"
+                  value={currentPassword}
+                  onChangeText={setCurrentPassword}
+                  secureTextEntry
+                  autoComplete="password"
+                />
+
+                {pinError ? (
+                  <View
+                    style={[
+                      styles.errorBanner,
+                      { backgroundColor: theme.errorLight },
+                    ]}
+                  >
+                    <Feather
+                      name="alert-circle"
+                      size={16}
+                      color={theme.error}
+                    />
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.error, flex: 1 }}
+                    >
+                      {pinError}
+                    </ThemedText>
+                  </View>
+                ) : null}
+
+                <Button
+                  onPress={handleSavePin}
+                  disabled={isSavingPin}
+                  style={{ backgroundColor: theme.accent }}
+                >
+                  {isSavingPin ? (
+                    <ActivityIndicator
+                      size="small"
+                      color={theme.textOnAccent}
+                    />
+                  ) : (
+                    "PIN speichern"
+                  )}
+                </Button>
+                {user?.hasPin ? (
+                  <Button
+                    onPress={handleRemovePin}
+                    disabled={isSavingPin}
+                    variant="danger"
+                  >
+                    PIN entfernen
+                  </Button>
+                ) : null}
+              </View>
+            </View>
+          </KeyboardAwareScrollViewCompat>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -451,6 +696,12 @@ const styles = StyleSheet.create({
   infoContent: {
     flex: 1,
   },
+  siteChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
   menuItem: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -499,4 +750,36 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginTop: Spacing.md,
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalScrollContent: {
+    flexGrow: 1,
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  pinForm: {
+    gap: Spacing.lg,
+  },
+  errorBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+  },
 });
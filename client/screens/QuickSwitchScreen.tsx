@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth, type QuickSwitchUser } from "@/contexts/AuthContext";
+import { ApiError } from "@/lib/query-client";
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 6;
+const KEYPAD_ROWS = [
+  ["1", "2", "3"],
+  ["4", "5", "6"],
+  ["7", "8", "9"],
+  ["delete", "0", "submit"],
+];
+
+export default function QuickSwitchScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const { theme } = useTheme();
+  const { getQuickSwitchUsers, loginWithPin } = useAuth();
+
+  const [users, setUsers] = useState<QuickSwitchUser[]>([]);
+  const [isLoadingUsers, setIsLoadingUsers] = useState(true);
+  const [selectedUser, setSelectedUser] = useState<QuickSwitchUser | null>(
+    null,
+  );
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    getQuickSwitchUsers()
+      .then(setUsers)
+      .catch(() => setError("Benutzerliste konnte nicht geladen werden"))
+      .finally(() => setIsLoadingUsers(false));
+  }, [getQuickSwitchUsers]);
+
+  const selectUser = (user: QuickSwitchUser | null) => {
+    setSelectedUser(user);
+    setPin("");
+    setError("");
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedUser || pin.length < MIN_PIN_LENGTH) return;
+
+    setIsSubmitting(true);
+    setError("");
+    try {
+      await loginWithPin(selectedUser.id, pin);
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setPin("");
+      setError(
+        err instanceof ApiError
+          ? err.toUserMessage().replace(/^\d{3}: /, "")
+          : err instanceof Error
+            ? err.message
+            : "Anmeldung fehlgeschlagen",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (isSubmitting) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (key === "delete") {
+      setPin((current) => current.slice(0, -1));
+    } else if (key === "submit") {
+      handleSubmit();
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin((current) => current + key);
+    }
+  };
+
+  const renderKey = (key: string) => {
+    const disabled =
+      key === "submit" && (pin.length < MIN_PIN_LENGTH || isSubmitting);
+    return (
+      <Pressable
+        key={key}
+        onPress={() => handleKey(key)}
+        disabled={disabled}
+        style={({ pressed }) => [
+          styles.key,
+          {
+            backgroundColor:
+              key === "submit" ? theme.accent : theme.backgroundSecondary,
+            borderColor: theme.cardBorder,
+            opacity: disabled ? 0.4 : pressed ? 0.7 : 1,
+          },
+        ]}
+      >
+        {key === "delete" ? (
+          <Feather name="delete" size={28} color={theme.text} />
+        ) : key === "submit" ? (
+          isSubmitting ? (
+            <ActivityIndicator color={theme.textOnAccent} />
+          ) : (
+            <Feather name="check" size={28} color={theme.textOnAccent} />
+          )
+        ) : (
+          <ThemedText type="h2" style={{ color: theme.text }}>
+            {key}
+          </ThemedText>
+        )}
+      </Pressable>
+    );
+  };
+
+  const renderError = () =>
+    error ? (
+      <View
+        style={[styles.errorContainer, { backgroundColor: theme.errorLight }]}
+      >
+        <Feather name="alert-circle" size={16} color={theme.error} />
+        <ThemedText type="small" style={{ color: theme.error, flex: 1 }}>
+          {error}
+        </ThemedText>
+      </View>
+    ) : null;
+
+  return (
+    <ThemedView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+    >
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: insets.top + Spacing["3xl"],
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <ThemedText type="h2" style={[styles.title, { color: theme.primary }]}>
+          {selectedUser ? selectedUser.name : "Benutzer wechseln"}
+        </ThemedText>
+        <ThemedText
+          type="body"
+          style={[styles.subtitle, { color: theme.textSecondary }]}
+        >
+          {selectedUser
+            ? "PIN eingeben"
+            : "Wählen Sie Ihr Konto auf diesem Gerät"}
+        </ThemedText>
+
+        {selectedUser ? (
+          <>
+            <View style={styles.pinDots}>
+              {Array.from({ length: MAX_PIN_LENGTH }).map((_, index) => (
+                <View
+                  key={index}
+                  style={[
+                    styles.pinDot,
+                    {
+                      borderColor: theme.primary,
+                      backgroundColor:
+                        index < pin.length ? theme.primary : "transparent",
+                    },
+                  ]}
+                />
+              ))}
+            </View>
+
+            {renderError()}
+
+            <View style={styles.keypad}>
+              {KEYPAD_ROWS.map((row, index) => (
+                <View key={index} style={styles.keypadRow}>
+                  {row.map(renderKey)}
+                </View>
+              ))}
+            </View>
+
+            <Pressable
+              onPress={() => selectUser(null)}
+              style={styles.linkButton}
+            >
+              <ThemedText type="body" style={{ color: theme.primary }}>
+                Anderer Benutzer
+              </ThemedText>
+            </Pressable>
+          </>
+        ) : (
+          <>
+            {renderError()}
+            {isLoadingUsers ? (
+              <ActivityIndicator size="large" color={theme.accent} />
+            ) : users.length === 0 ? (
+              <ThemedText
+                type="body"
+                style={[styles.subtitle, { color: theme.textSecondary }]}
+              >
+                Auf diesem Gerät hat sich noch niemand mit aktivierter PIN
+                angemeldet. Die PIN wird im Profil eingerichtet.
+              </ThemedText>
+            ) : (
+              <View style={styles.userGrid}>
+                {users.map((user) => (
+                  <Pressable
+                    key={user.id}
+                    onPress={() => selectUser(user)}
+                    style={({ pressed }) => [
+                      styles.userTile,
+                      {
+                        backgroundColor: theme.cardSurface,
+                        borderColor: theme.cardBorder,
+                        opacity: pressed ? 0.7 : 1,
+                      },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.avatar,
+                        { backgroundColor: theme.primary },
+                      ]}
+                    >
+                      <Feather
+                        name={user.role === "admin" ? "shield" : "truck"}
+                        size={24}
+                        color={theme.textOnPrimary}
+                      />
+                    </View>
+                    <ThemedText
+                      type="body"
+                      numberOfLines={2}
+                      style={[styles.userName, { color: theme.text }]}
+                    >
+                      {user.name}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.linkButton}
+        >
+          <ThemedText type="body" style={{ color: theme.primary }}>
+            Mit E-Mail und Passwort anmelden
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    alignItems: "center",
+    gap: Spacing.lg,
+  },
+  title: {
+    textAlign: "center",
+  },
+  subtitle: {
+    textAlign: "center",
+  },
+  userGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.md,
+  },
+  userTile: {
+    width: 140,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  userName: {
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  pinDots: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginVertical: Spacing.md,
+  },
+  pinDot: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+  },
+  keypad: {
+    gap: Spacing.md,
+  },
+  keypadRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  key: {
+    width: 84,
+    height: 72,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  errorContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignSelf: "stretch",
+  },
+  linkButton: {
+    paddingVertical: Spacing.sm,
+  },
+});
@@ -1,8 +1,9 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import {
   View,
   StyleSheet,
   Pressable,
+  Alert,
   Modal,
   ActivityIndicator,
   Platform,
@@ -25,8 +26,8 @@ import { StatusBadge } from "@/components/StatusBadge";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
-import { apiRequest } from "@/lib/query-client";
-import { useQueryClient } from "@tanstack/react-query";
+import { ApiError, apiRequest } from "@/lib/query-client";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Box,
   Stand,
@@ -37,6 +38,12 @@ import {
   Task,
   AUTOMOTIVE_TASK_STATUS_LABELS,
   BOX_STATUS_LABELS,
+  DEFAULT_WORKFLOWS,
+  TASK_UNDO_WINDOW_MINUTES,
+  canPerformWorkflowTransition,
+  getEffectiveAutomotiveRoles,
+  getWorkflowTransitionsFrom,
+  type WorkflowDefinition,
 } from "@shared/schema";
 
 type ScanType = "box" | "stand" | "warehouse" | null;
@@ -64,43 +71,39 @@ interface WarehouseScanResult {
 
 type ScanResult = BoxScanResult | StandScanResult | WarehouseScanResult;
 
-const AUTOMOTIVE_STATUS_FLOW = [
-  "OPEN",
-  "PICKED_UP",
-  "IN_TRANSIT",
-  "DROPPED_OFF",
-  "TAKEN_OVER",
-  "WEIGHED",
-  "DISPOSED",
-];
+interface NextAction {
+  nextStatus: string;
+  label: string;
+  icon: string;
+  requiresWeight: boolean;
+}
 
+/**
+ * The scanner action for a task status, taken from the site's workflow.
+ * Cancelling and drop-offs (stand scan, see placement mode) are not offered
+ * here, nor steps the user's roles do not allow
+ */
 const getNextAction = (
+  workflow: WorkflowDefinition,
   status: string,
-): { nextStatus: string; label: string; icon: string } | null => {
-  switch (status) {
-    case "OPEN":
-      return { nextStatus: "PICKED_UP", label: "Abholen", icon: "package" };
-    case "PICKED_UP":
-      return {
-        nextStatus: "IN_TRANSIT",
-        label: "Transport starten",
-        icon: "truck",
-      };
-    case "IN_TRANSIT":
-      return { nextStatus: "DROPPED_OFF", label: "Absetzen", icon: "log-out" };
-    case "DROPPED_OFF":
-      return {
-        nextStatus: "TAKEN_OVER",
-        label: "Übernehmen",
-        icon: "check-square",
-      };
-    case "TAKEN_OVER":
-      return { nextStatus: "WEIGHED", label: "Wiegen", icon: "activity" };
-    case "WEIGHED":
-      return { nextStatus: "DISPOSED", label: "Entsorgen", icon: "trash-2" };
-    default:
-      return null;
-  }
+  roles: string[],
+): NextAction | null => {
+  const transition = getWorkflowTransitionsFrom(workflow, status).find(
+    (t) =>
+      t.to !== "CANCELLED" &&
+      !t.requiredScans?.includes("STAND") &&
+      canPerformWorkflowTransition(t, roles),
+  );
+  if (!transition) return null;
+  return {
+    nextStatus: transition.to,
+    label:
+      transition.label ||
+      workflow.states.find((state) => state.key === transition.to)?.label ||
+      transition.to,
+    icon: transition.icon || "arrow-right",
+    requiresWeight: !!transition.requiredFields?.includes("weightKg"),
+  };
 };
 
 export default function ScannerScreen() {
@@ -108,6 +111,8 @@ export default function ScannerScreen() {
   const { theme } = useTheme();
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { data: workflow = DEFAULT_WORKFLOWS.AUTOMOTIVE } =
+    useQuery<WorkflowDefinition>({ queryKey: ["/api/workflows/AUTOMOTIVE"] });
   const [permission, requestPermission] = useCameraPermissions();
   const [flashOn, setFlashOn] = useState(false);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
@@ -118,8 +123,23 @@ export default function ScannerScreen() {
   const [weightError, setWeightError] = useState<string | null>(null);
   const [pendingStandForPlacement, setPendingStandForPlacement] =
     useState<StandScanResult | null>(null);
+  // Last status change of this session, offered for undo while the window lasts
+  const [undoableTransition, setUndoableTransition] = useState<{
+    taskId: string;
+    status: string;
+  } | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
   const scanLock = useRef(false);
 
+  useEffect(() => {
+    if (!undoableTransition) return;
+    const timeout = setTimeout(
+      () => setUndoableTransition(null),
+      TASK_UNDO_WINDOW_MINUTES * 60 * 1000,
+    );
+    return () => clearTimeout(timeout);
+  }, [undoableTransition]);
+
   const parseQRCode = (rawData: string): string => {
     try {
       const parsed = JSON.parse(rawData);
@@ -261,8 +281,14 @@ export default function ScannerScreen() {
     }
   };
 
+  const getStatusLabel = (status: string) =>
+    workflow.states.find((state) => state.key === status)?.label ||
+    AUTOMOTIVE_TASK_STATUS_LABELS[status] ||
+    status;
+
   const updateTaskStatus = async (
-    taskId: string,
+    task: Task,
+    boxId: string,
     newStatus: string,
     weightKg?: number,
   ) => {
@@ -270,14 +296,20 @@ export default function ScannerScreen() {
     setError(null);
 
     try {
-      const body: any = { status: newStatus };
+      // The scanned box confirms the physical check the workflow requires;
+      // the version makes the server reject the change if the task moved on
+      const body: any = {
+        status: newStatus,
+        scannedBoxId: boxId,
+        version: task.version,
+      };
       if (weightKg !== undefined) {
         body.weightKg = weightKg;
       }
 
       const response = await apiRequest(
         "PUT",
-        `/api/automotive/tasks/${taskId}/status`,
+        `/api/automotive/tasks/${task.id}/status`,
         body,
       );
 
@@ -289,9 +321,8 @@ export default function ScannerScreen() {
       }
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      setSuccess(
-        `Status geändert: ${AUTOMOTIVE_TASK_STATUS_LABELS[newStatus] || newStatus}`,
-      );
+      setSuccess(`Status geändert: ${getStatusLabel(newStatus)}`);
+      setUndoableTransition({ taskId: task.id, status: newStatus });
 
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/automotive/boxes"] });
@@ -304,23 +335,77 @@ export default function ScannerScreen() {
         closeModal();
       }, 1500);
     } catch (err) {
+      if (err instanceof ApiError && err.isVersionConflict) {
+        // Another driver was faster: show the task as it is now
+        const current: Task | undefined = err.data.task;
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Warning,
+        );
+        if (current) {
+          setScanResult((prev) =>
+            prev?.type === "box" ? { ...prev, task: current } : prev,
+          );
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+        setError(
+          current
+            ? `${err.toUserMessage()} Aktueller Status: ${getStatusLabel(current.status)}.`
+            : err.toUserMessage(),
+        );
+        return;
+      }
       setError("Statusänderung fehlgeschlagen. Bitte erneut versuchen.");
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleActionPress = (taskId: string, nextStatus: string) => {
-    if (nextStatus === "WEIGHED") {
+  const undoLastTransition = async () => {
+    if (!undoableTransition || isUndoing) return;
+    setIsUndoing(true);
+    try {
+      const response = await apiRequest(
+        "POST",
+        `/api/tasks/${undoableTransition.taskId}/undo`,
+      );
+      const result = await response.json();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        "Rückgängig gemacht",
+        `Status wieder: ${getStatusLabel(result.toStatus)}`,
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/automotive/boxes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/automotive/stands"] });
+    } catch (err) {
+      Alert.alert(
+        "Fehler",
+        err instanceof ApiError
+          ? err.toUserMessage()
+          : "Rückgängig machen fehlgeschlagen.",
+      );
+    } finally {
+      setUndoableTransition(null);
+      setIsUndoing(false);
+    }
+  };
+
+  const handleActionPress = (
+    task: Task,
+    boxId: string,
+    nextAction: NextAction,
+  ) => {
+    const { nextStatus } = nextAction;
+    if (nextAction.requiresWeight) {
       const weight = parseFloat(weightInput);
       if (isNaN(weight) || weight <= 0) {
         setWeightError("Bitte geben Sie ein gültiges Gewicht ein (> 0 kg)");
         return;
       }
       setWeightError(null);
-      updateTaskStatus(taskId, nextStatus, weight);
+      updateTaskStatus(task, boxId, nextStatus, weight);
     } else {
-      updateTaskStatus(taskId, nextStatus);
+      updateTaskStatus(task, boxId, nextStatus);
     }
   };
 
@@ -449,8 +534,17 @@ export default function ScannerScreen() {
 
   const renderBoxContent = (result: BoxScanResult) => {
     const { box, task, stand } = result;
-    const nextAction = task ? getNextAction(task.status) : null;
-    const requiresWeight = nextAction?.nextStatus === "WEIGHED";
+    const nextAction = task
+      ? getNextAction(
+          workflow,
+          task.status,
+          getEffectiveAutomotiveRoles({
+            role: user?.role,
+            automotiveRoles: user?.automotiveRoles,
+          }),
+        )
+      : null;
+    const requiresWeight = !!nextAction?.requiresWeight;
 
     return (
       <>
@@ -515,8 +609,7 @@ export default function ScannerScreen() {
                   Aktive Aufgabe
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                  Status:{" "}
-                  {AUTOMOTIVE_TASK_STATUS_LABELS[task.status] || task.status}
+                  Status: {getStatusLabel(task.status)}
                 </ThemedText>
               </View>
             </View>
@@ -643,7 +736,7 @@ export default function ScannerScreen() {
           ) : null}
           {task && nextAction ? (
             <Button
-              onPress={() => handleActionPress(task.id, nextAction.nextStatus)}
+              onPress={() => handleActionPress(task, box.id, nextAction)}
               disabled={isProcessing}
               style={[styles.actionButton, { backgroundColor: theme.accent }]}
             >
@@ -1166,6 +1259,29 @@ export default function ScannerScreen() {
         <View
           style={[styles.footer, { paddingBottom: insets.bottom + Spacing.lg }]}
         >
+          {undoableTransition ? (
+            <Pressable
+              onPress={undoLastTransition}
+              disabled={isUndoing}
+              style={[styles.helpText, { backgroundColor: theme.warning }]}
+            >
+              {isUndoing ? (
+                <ActivityIndicator size="small" color={theme.textOnPrimary} />
+              ) : (
+                <Feather
+                  name="rotate-ccw"
+                  size={16}
+                  color={theme.textOnPrimary}
+                />
+              )}
+              <ThemedText
+                type="small"
+                style={{ color: theme.textOnPrimary, marginLeft: Spacing.xs }}
+              >
+                {`${getStatusLabel(undoableTransition.status)} – Rückgängig`}
+              </ThemedText>
+            </Pressable>
+          ) : null}
           {pendingStandForPlacement ? (
             <View style={[styles.helpText, { backgroundColor: theme.primary }]}>
               <Feather name="box" size={16} color={theme.textOnPrimary} />
@@ -25,7 +25,20 @@ import { LoadingScreen } from "@/components/LoadingScreen";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { Spacing, BorderRadius, IndustrialDesign } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
-import { apiRequest, getApiUrl } from "@/lib/query-client";
+import { apiRequest } from "@/lib/query-client";
+import {
+  SCHEDULE_CALENDAR_MODES,
+  SCHEDULE_CALENDAR_MODE_LABELS,
+  SCHEDULER_NAME_LABELS,
+  SCHEDULER_RUN_STATUS_LABELS,
+  SCHEDULER_RUN_TRIGGER_LABELS,
+  type ScheduleCalendarMode,
+  type SchedulerName,
+  type SchedulerRunError,
+  type SchedulerRunStatus,
+  type SchedulerRunTrigger,
+} from "@shared/schema";
+import { describeSchedule, parseRRule } from "@shared/rrule";
 
 interface Stand {
   id: string;
@@ -38,19 +51,25 @@ interface Station {
   name: string;
 }
 
+type ScheduleRuleType = "DAILY" | "WEEKLY" | "INTERVAL" | "RRULE";
+
 interface TaskSchedule {
   id: string;
   name: string;
   isActive: boolean;
   standId: string;
   stationId: string | null;
-  ruleType: "DAILY" | "WEEKLY" | "INTERVAL";
+  ruleType: ScheduleRuleType;
   timeLocal: string;
+  timesLocal: string[] | null;
+  rrule: string | null;
+  exdates: string[] | null;
   weekdays: number[] | null;
   everyNDays: number | null;
   startDate: string | null;
   timezone: string;
   createDaysAhead: number;
+  calendarMode: ScheduleCalendarMode;
   createdAt: string;
   stand?: Stand;
   station?: Station;
@@ -58,10 +77,95 @@ interface TaskSchedule {
 
 interface PreviewDate {
   date: string;
-  formattedDate: string;
-  dayOfWeek: string;
+  scheduledTime: string;
+  scheduledFor: string; // ISO instant
+  dayOfWeek: number;
+  status: "SCHEDULED" | "SHIFTED" | "SKIPPED";
+  originalDate?: string;
+  reason?: string;
 }
 
+interface SchedulePreview {
+  scheduleId: string;
+  scheduleName: string;
+  ruleType: string;
+  calendarMode: ScheduleCalendarMode;
+  previewDays: number;
+  dates: PreviewDate[];
+}
+
+interface SchedulerRun {
+  id: string;
+  scheduler: SchedulerName;
+  trigger: SchedulerRunTrigger;
+  scheduleId: string | null;
+  scheduleName: string | null;
+  status: SchedulerRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  createdCount: number;
+  skippedCount: number;
+  errorCount: number;
+  errors: SchedulerRunError[] | null;
+  error: string | null;
+}
+
+const formatRunTime = (value: string) =>
+  new Date(value).toLocaleString("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const RRULE_PRESETS = [
+  { label: "1. Montag im Monat", rrule: "FREQ=MONTHLY;BYDAY=1MO" },
+  { label: "Di/Do 14-tägig", rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH" },
+  {
+    label: "Letzter Werktag",
+    rrule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+  },
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const splitList = (value: string) =>
+  value
+    .split(/[,;\s]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+interface ScheduleFormData {
+  name: string;
+  standId: string;
+  ruleType: ScheduleRuleType;
+  timeLocal: string; // One or more times, comma-separated
+  weekdays: number[];
+  everyNDays: number;
+  startDate: string;
+  createDaysAhead: number;
+  calendarMode: ScheduleCalendarMode;
+  rrule: string;
+  exdates: string; // Comma-separated dates
+}
+
+/** Request body for create/update from the form */
+const toSchedulePayload = (data: ScheduleFormData) => {
+  const timesLocal = splitList(data.timeLocal);
+  return {
+    ...data,
+    timeLocal: timesLocal[0] ?? "",
+    timesLocal,
+    rrule: data.ruleType === "RRULE" ? data.rrule.trim() : undefined,
+    exdates: splitList(data.exdates),
+  };
+};
+
+const formatPreviewDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  return `${day}.${month}.${year}`;
+};
+
 const WEEKDAY_NAMES = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
 const WEEKDAY_FULL = [
   "Montag",
@@ -89,16 +193,25 @@ export default function ScheduleManagementScreen() {
     null,
   );
 
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<ScheduleFormData>({
     name: "",
     standId: "",
-    ruleType: "DAILY" as "DAILY" | "WEEKLY" | "INTERVAL",
+    ruleType: "DAILY",
     timeLocal: "06:00",
-    weekdays: [] as number[],
+    weekdays: [],
     everyNDays: 7,
     startDate: "",
     createDaysAhead: 7,
+    calendarMode: "IGNORE",
+    rrule: "",
+    exdates: "",
   });
+  const schedulePayload = toSchedulePayload(formData);
+  const scheduleSummary = describeSchedule(schedulePayload);
+  const rruleErrors =
+    formData.ruleType === "RRULE" && formData.rrule.trim()
+      ? parseRRule(formData.rrule).errors
+      : [];
 
   const [taskFormData, setTaskFormData] = useState({
     title: "",
@@ -121,24 +234,35 @@ export default function ScheduleManagementScreen() {
     queryKey: ["/api/automotive/stands"],
   });
 
-  const { data: previewDates, isLoading: isLoadingPreview } = useQuery<
-    PreviewDate[]
+  const { data: preview, isLoading: isLoadingPreview } =
+    useQuery<SchedulePreview>({
+      queryKey: ["/api/admin/schedules", previewScheduleId, "preview"],
+      enabled: !!previewScheduleId,
+      queryFn: async () => {
+        const response = await apiRequest(
+          "GET",
+          `/api/admin/schedules/${previewScheduleId}/preview?days=14`,
+        );
+        return response.json();
+      },
+    });
+  const previewDates = preview?.dates;
+
+  const { data: schedulerRuns = [], refetch: refetchRuns } = useQuery<
+    SchedulerRun[]
   >({
-    queryKey: ["/api/admin/schedules", previewScheduleId, "preview"],
-    enabled: !!previewScheduleId,
-    queryFn: async () => {
-      const url = new URL(
-        `/api/admin/schedules/${previewScheduleId}/preview?days=14`,
-        getApiUrl(),
-      );
-      const response = await fetch(url.toString(), { credentials: "include" });
-      if (!response.ok) throw new Error("Failed to fetch preview");
-      return response.json();
-    },
+    queryKey: ["/api/admin/scheduler-runs"],
+  });
+  const lastRunFailed = schedulerRuns[0]?.status === "FAILED";
+
+  const { data: leaderData, refetch: refetchLeader } = useQuery<{
+    leader: { holderId: string; acquiredAt: string } | null;
+  }>({
+    queryKey: ["/api/admin/scheduler-leader"],
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (data: ReturnType<typeof toSchedulePayload>) => {
       const res = await apiRequest("POST", "/api/admin/schedules", data);
       return res.json();
     },
@@ -161,7 +285,7 @@ export default function ScheduleManagementScreen() {
       data,
     }: {
       id: string;
-      data: Partial<typeof formData>;
+      data: ReturnType<typeof toSchedulePayload>;
     }) => {
       const res = await apiRequest("PATCH", `/api/admin/schedules/${id}`, data);
       return res.json();
@@ -204,8 +328,14 @@ export default function ScheduleManagementScreen() {
     onSuccess: (data) => {
       Alert.alert("Erfolg", `${data.tasksCreated} Aufgabe(n) erstellt`);
       queryClient.invalidateQueries({ queryKey: ["/api/admin/schedules"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/admin/scheduler-runs"],
+      });
     },
     onError: (error: Error) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/admin/scheduler-runs"],
+      });
       Alert.alert(
         "Fehler",
         error.message || "Zeitplan konnte nicht ausgeführt werden",
@@ -248,6 +378,9 @@ export default function ScheduleManagementScreen() {
       everyNDays: 7,
       startDate: new Date().toISOString().split("T")[0],
       createDaysAhead: 7,
+      calendarMode: "IGNORE",
+      rrule: "",
+      exdates: "",
     });
   };
 
@@ -304,11 +437,17 @@ export default function ScheduleManagementScreen() {
       name: schedule.name,
       standId: schedule.standId,
       ruleType: schedule.ruleType,
-      timeLocal: schedule.timeLocal,
+      timeLocal: (schedule.timesLocal?.length
+        ? schedule.timesLocal
+        : [schedule.timeLocal]
+      ).join(", "),
       weekdays: schedule.weekdays || [],
       everyNDays: schedule.everyNDays || 7,
       startDate: schedule.startDate || new Date().toISOString().split("T")[0],
       createDaysAhead: schedule.createDaysAhead,
+      calendarMode: schedule.calendarMode || "IGNORE",
+      rrule: schedule.rrule || "",
+      exdates: (schedule.exdates || []).join(", "),
     });
     setEditingSchedule(schedule);
     setShowModal(true);
@@ -332,11 +471,25 @@ export default function ScheduleManagementScreen() {
       Alert.alert("Fehler", "Bitte wählen Sie mindestens einen Wochentag aus");
       return;
     }
+    if (formData.ruleType === "RRULE" && !scheduleSummary) {
+      Alert.alert(
+        "Fehler",
+        rruleErrors[0] || "Bitte geben Sie eine Wiederholungsregel ein",
+      );
+      return;
+    }
+    if (
+      schedulePayload.timesLocal.length === 0 ||
+      !schedulePayload.timesLocal.every((time) => TIME_PATTERN.test(time))
+    ) {
+      Alert.alert("Fehler", "Bitte geben Sie gültige Uhrzeiten (HH:MM) ein");
+      return;
+    }
 
     if (editingSchedule) {
-      updateMutation.mutate({ id: editingSchedule.id, data: formData });
+      updateMutation.mutate({ id: editingSchedule.id, data: schedulePayload });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(schedulePayload);
     }
   };
 
@@ -395,26 +548,15 @@ export default function ScheduleManagementScreen() {
         return "Wöchentlich";
       case "INTERVAL":
         return "Intervall";
+      case "RRULE":
+        return "Erweitert";
       default:
         return ruleType;
     }
   };
 
-  const getScheduleDescription = (schedule: TaskSchedule) => {
-    switch (schedule.ruleType) {
-      case "DAILY":
-        return `Täglich um ${schedule.timeLocal}`;
-      case "WEEKLY":
-        const days = (schedule.weekdays || [])
-          .map((d) => WEEKDAY_NAMES[d - 1])
-          .join(", ");
-        return `${days} um ${schedule.timeLocal}`;
-      case "INTERVAL":
-        return `Alle ${schedule.everyNDays} Tage um ${schedule.timeLocal}`;
-      default:
-        return schedule.timeLocal;
-    }
-  };
+  const getScheduleDescription = (schedule: TaskSchedule) =>
+    describeSchedule(schedule) ?? schedule.timeLocal;
 
   const renderScheduleItem = ({ item }: { item: TaskSchedule }) => (
     <Card
@@ -544,6 +686,114 @@ export default function ScheduleManagementScreen() {
     </Card>
   );
 
+  const getRunStatusColor = (status: SchedulerRunStatus) => {
+    switch (status) {
+      case "FAILED":
+        return theme.error;
+      case "PARTIAL":
+        return theme.warning;
+      case "RUNNING":
+        return theme.textSecondary;
+      default:
+        return theme.success;
+    }
+  };
+
+  const showRunErrors = (run: SchedulerRun) => {
+    const lines = [
+      ...(run.error ? [run.error] : []),
+      ...(run.errors || []).map((error) =>
+        [error.date && formatPreviewDate(error.date), error.time, error.message]
+          .filter(Boolean)
+          .join(" "),
+      ),
+    ];
+    if (lines.length === 0) return;
+    const more = run.errorCount - (run.errors?.length ?? 0);
+    Alert.alert(
+      `${SCHEDULER_NAME_LABELS[run.scheduler]} – ${formatRunTime(run.startedAt)}`,
+      lines.join("\n") + (more > 0 ? `\n… und ${more} weitere` : ""),
+    );
+  };
+
+  const renderRunHistory = () => (
+    <Card style={styles.runCard}>
+      <View style={styles.scheduleTitleRow}>
+        <Feather name="activity" size={18} color={theme.primary} />
+        <ThemedText
+          type="bodyBold"
+          style={{ color: theme.text, marginLeft: Spacing.sm, flex: 1 }}
+        >
+          Letzte Läufe
+        </ThemedText>
+      </View>
+      {leaderData ? (
+        <ThemedText
+          type="small"
+          numberOfLines={1}
+          style={{ color: theme.textSecondary }}
+        >
+          {leaderData.leader
+            ? `Aktive Instanz: ${leaderData.leader.holderId}`
+            : "Keine aktive Instanz – Hintergrundjobs laufen nicht"}
+        </ThemedText>
+      ) : null}
+      {lastRunFailed ? (
+        <View
+          style={[
+            styles.runBanner,
+            { backgroundColor: isDark ? theme.errorLight : `${theme.error}15` },
+          ]}
+        >
+          <Feather name="alert-triangle" size={14} color={theme.error} />
+          <ThemedText
+            type="small"
+            style={{ color: theme.error, marginLeft: Spacing.xs, flex: 1 }}
+          >
+            Der letzte Scheduler-Lauf ist fehlgeschlagen
+          </ThemedText>
+        </View>
+      ) : null}
+      {schedulerRuns.length === 0 ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Noch keine Läufe aufgezeichnet
+        </ThemedText>
+      ) : (
+        schedulerRuns.slice(0, 5).map((run) => (
+          <Pressable
+            key={run.id}
+            style={styles.runRow}
+            onPress={() => showRunErrors(run)}
+            disabled={!run.error && !run.errors?.length}
+          >
+            <View style={{ flex: 1 }}>
+              <ThemedText
+                type="small"
+                numberOfLines={1}
+                style={{ color: theme.text }}
+              >
+                {formatRunTime(run.startedAt)} ·{" "}
+                {SCHEDULER_NAME_LABELS[run.scheduler]} ·{" "}
+                {SCHEDULER_RUN_TRIGGER_LABELS[run.trigger]}
+                {run.scheduleName ? ` · ${run.scheduleName}` : ""}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {run.createdCount} erstellt · {run.skippedCount} übersprungen ·{" "}
+                {run.errorCount} Fehler
+              </ThemedText>
+            </View>
+            <ThemedText
+              type="small"
+              style={{ color: getRunStatusColor(run.status) }}
+            >
+              {SCHEDULER_RUN_STATUS_LABELS[run.status]}
+            </ThemedText>
+          </Pressable>
+        ))
+      )}
+    </Card>
+  );
+
   const renderEmptyState = () => (
     <EmptyState
       icon="clock"
@@ -573,11 +823,16 @@ export default function ScheduleManagementScreen() {
             paddingBottom: tabBarHeight + Spacing.xl + 80,
           },
         ]}
+        ListHeaderComponent={renderRunHistory}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
-            onRefresh={refetch}
+            onRefresh={() => {
+              refetch();
+              refetchRuns();
+              refetchLeader();
+            }}
             tintColor={theme.accent}
           />
         }
@@ -718,39 +973,41 @@ export default function ScheduleManagementScreen() {
                 Regeltyp
               </ThemedText>
               <View style={styles.ruleTypePicker}>
-                {(["DAILY", "WEEKLY", "INTERVAL"] as const).map((type) => (
-                  <Pressable
-                    key={type}
-                    style={[
-                      styles.ruleTypeOption,
-                      {
-                        backgroundColor:
-                          formData.ruleType === type
-                            ? theme.accent
-                            : theme.backgroundSecondary,
-                        borderColor:
-                          formData.ruleType === type
-                            ? theme.accent
-                            : theme.border,
-                      },
-                    ]}
-                    onPress={() =>
-                      setFormData((prev) => ({ ...prev, ruleType: type }))
-                    }
-                  >
-                    <ThemedText
-                      type="small"
-                      style={{
-                        color:
-                          formData.ruleType === type
-                            ? theme.textOnAccent
-                            : theme.text,
-                      }}
+                {(["DAILY", "WEEKLY", "INTERVAL", "RRULE"] as const).map(
+                  (type) => (
+                    <Pressable
+                      key={type}
+                      style={[
+                        styles.ruleTypeOption,
+                        {
+                          backgroundColor:
+                            formData.ruleType === type
+                              ? theme.accent
+                              : theme.backgroundSecondary,
+                          borderColor:
+                            formData.ruleType === type
+                              ? theme.accent
+                              : theme.border,
+                        },
+                      ]}
+                      onPress={() =>
+                        setFormData((prev) => ({ ...prev, ruleType: type }))
+                      }
                     >
-                      {getRuleTypeLabel(type)}
-                    </ThemedText>
-                  </Pressable>
-                ))}
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color:
+                            formData.ruleType === type
+                              ? theme.textOnAccent
+                              : theme.text,
+                        }}
+                      >
+                        {getRuleTypeLabel(type)}
+                      </ThemedText>
+                    </Pressable>
+                  ),
+                )}
               </View>
             </View>
 
@@ -825,31 +1082,98 @@ export default function ScheduleManagementScreen() {
                     placeholderTextColor={theme.textSecondary}
                   />
                 </View>
-                <View style={styles.formGroup}>
+              </>
+            ) : null}
+
+            {formData.ruleType === "RRULE" ? (
+              <View style={styles.formGroup}>
+                <ThemedText
+                  type="small"
+                  style={[styles.label, { color: theme.textSecondary }]}
+                >
+                  Wiederholungsregel (RRULE)
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                      borderColor:
+                        rruleErrors.length > 0 ? theme.error : theme.border,
+                    },
+                  ]}
+                  value={formData.rrule}
+                  onChangeText={(text) =>
+                    setFormData((prev) => ({ ...prev, rrule: text }))
+                  }
+                  placeholder="z.B. FREQ=MONTHLY;BYDAY=1MO"
+                  placeholderTextColor={theme.textSecondary}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                {rruleErrors.map((error) => (
                   <ThemedText
+                    key={error}
                     type="small"
-                    style={[styles.label, { color: theme.textSecondary }]}
+                    style={{ color: theme.error, marginTop: Spacing.xs }}
                   >
-                    Startdatum (YYYY-MM-DD)
+                    {error}
                   </ThemedText>
-                  <TextInput
-                    style={[
-                      styles.input,
-                      {
-                        backgroundColor: theme.backgroundSecondary,
-                        color: theme.text,
-                        borderColor: theme.border,
-                      },
-                    ]}
-                    value={formData.startDate}
-                    onChangeText={(text) =>
-                      setFormData((prev) => ({ ...prev, startDate: text }))
-                    }
-                    placeholder="z.B. 2024-12-15"
-                    placeholderTextColor={theme.textSecondary}
-                  />
+                ))}
+                <View style={[styles.ruleTypePicker, styles.presetPicker]}>
+                  {RRULE_PRESETS.map((preset) => (
+                    <Pressable
+                      key={preset.rrule}
+                      style={[
+                        styles.ruleTypeOption,
+                        {
+                          backgroundColor: theme.backgroundSecondary,
+                          borderColor: theme.border,
+                        },
+                      ]}
+                      onPress={() =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          rrule: preset.rrule,
+                        }))
+                      }
+                    >
+                      <ThemedText type="small" style={{ color: theme.text }}>
+                        {preset.label}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
                 </View>
-              </>
+              </View>
+            ) : null}
+
+            {formData.ruleType === "INTERVAL" ||
+            formData.ruleType === "RRULE" ? (
+              <View style={styles.formGroup}>
+                <ThemedText
+                  type="small"
+                  style={[styles.label, { color: theme.textSecondary }]}
+                >
+                  Startdatum (YYYY-MM-DD)
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundSecondary,
+                      color: theme.text,
+                      borderColor: theme.border,
+                    },
+                  ]}
+                  value={formData.startDate}
+                  onChangeText={(text) =>
+                    setFormData((prev) => ({ ...prev, startDate: text }))
+                  }
+                  placeholder="z.B. 2024-12-15"
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
             ) : null}
 
             <View style={styles.formGroup}>
@@ -857,7 +1181,7 @@ export default function ScheduleManagementScreen() {
                 type="small"
                 style={[styles.label, { color: theme.textSecondary }]}
               >
-                Uhrzeit (HH:MM)
+                Uhrzeit(en) (HH:MM, durch Komma getrennt)
               </ThemedText>
               <TextInput
                 style={[
@@ -872,11 +1196,55 @@ export default function ScheduleManagementScreen() {
                 onChangeText={(text) =>
                   setFormData((prev) => ({ ...prev, timeLocal: text }))
                 }
-                placeholder="06:00"
+                placeholder="z.B. 06:00, 14:00"
                 placeholderTextColor={theme.textSecondary}
               />
             </View>
 
+            <View style={styles.formGroup}>
+              <ThemedText
+                type="small"
+                style={[styles.label, { color: theme.textSecondary }]}
+              >
+                Ausnahmen (YYYY-MM-DD, durch Komma getrennt)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
+                ]}
+                value={formData.exdates}
+                onChangeText={(text) =>
+                  setFormData((prev) => ({ ...prev, exdates: text }))
+                }
+                placeholder="z.B. 2026-12-24, 2026-12-31"
+                placeholderTextColor={theme.textSecondary}
+                autoCorrect={false}
+              />
+            </View>
+
+            <View
+              style={[
+                styles.summaryBox,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <Feather name="repeat" size={16} color={theme.primary} />
+              <ThemedText
+                type="small"
+                style={{ color: theme.text, marginLeft: Spacing.sm, flex: 1 }}
+              >
+                {scheduleSummary ?? "Regel unvollständig"}
+              </ThemedText>
+            </View>
+
             <View style={styles.formGroup}>
               <ThemedText
                 type="small"
@@ -906,6 +1274,50 @@ export default function ScheduleManagementScreen() {
               />
             </View>
 
+            <View style={styles.formGroup}>
+              <ThemedText
+                type="small"
+                style={[styles.label, { color: theme.textSecondary }]}
+              >
+                Feiertage und Betriebsruhe
+              </ThemedText>
+              <View style={styles.ruleTypePicker}>
+                {SCHEDULE_CALENDAR_MODES.map((mode) => (
+                  <Pressable
+                    key={mode}
+                    style={[
+                      styles.ruleTypeOption,
+                      {
+                        backgroundColor:
+                          formData.calendarMode === mode
+                            ? theme.accent
+                            : theme.backgroundSecondary,
+                        borderColor:
+                          formData.calendarMode === mode
+                            ? theme.accent
+                            : theme.border,
+                      },
+                    ]}
+                    onPress={() =>
+                      setFormData((prev) => ({ ...prev, calendarMode: mode }))
+                    }
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{
+                        color:
+                          formData.calendarMode === mode
+                            ? theme.textOnAccent
+                            : theme.text,
+                      }}
+                    >
+                      {SCHEDULE_CALENDAR_MODE_LABELS[mode]}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
             <View style={{ height: Spacing["2xl"] }} />
           </KeyboardAwareScrollViewCompat>
         </ThemedView>
@@ -964,17 +1376,60 @@ export default function ScheduleManagementScreen() {
                   }}
                 >
                   <View style={styles.previewRow}>
-                    <Feather name="calendar" size={16} color={theme.primary} />
+                    <Feather
+                      name={
+                        date.status === "SKIPPED"
+                          ? "slash"
+                          : date.status === "SHIFTED"
+                            ? "corner-down-right"
+                            : "calendar"
+                      }
+                      size={16}
+                      color={
+                        date.status === "SKIPPED"
+                          ? theme.textSecondary
+                          : date.status === "SHIFTED"
+                            ? theme.warning
+                            : theme.primary
+                      }
+                    />
                     <View style={{ marginLeft: Spacing.md }}>
-                      <ThemedText type="bodyBold" style={{ color: theme.text }}>
-                        {date.formattedDate}
+                      <ThemedText
+                        type="bodyBold"
+                        style={{
+                          color:
+                            date.status === "SKIPPED"
+                              ? theme.textSecondary
+                              : theme.text,
+                          textDecorationLine:
+                            date.status === "SKIPPED" ? "line-through" : "none",
+                        }}
+                      >
+                        {formatPreviewDate(date.date)} · {date.scheduledTime}
                       </ThemedText>
                       <ThemedText
                         type="small"
                         style={{ color: theme.textSecondary }}
                       >
-                        {date.dayOfWeek}
+                        {WEEKDAY_FULL[date.dayOfWeek - 1]}
                       </ThemedText>
+                      {date.status === "SHIFTED" && date.originalDate ? (
+                        <ThemedText
+                          type="small"
+                          style={{ color: theme.warning }}
+                        >
+                          Verschoben vom {formatPreviewDate(date.originalDate)}
+                          {date.reason ? ` (${date.reason})` : ""}
+                        </ThemedText>
+                      ) : null}
+                      {date.status === "SKIPPED" ? (
+                        <ThemedText
+                          type="small"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          Entfällt{date.reason ? `: ${date.reason}` : ""}
+                        </ThemedText>
+                      ) : null}
                     </View>
                   </View>
                 </Card>
@@ -1234,6 +1689,20 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: Spacing.sm,
   },
+  runCard: {
+    gap: Spacing.sm,
+  },
+  runBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  runRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
   actionButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -1345,4 +1814,15 @@ const styles = StyleSheet.create({
     alignItems: "center",
     minWidth: 0,
   },
+  presetPicker: {
+    marginTop: Spacing.sm,
+  },
+  summaryBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
 });
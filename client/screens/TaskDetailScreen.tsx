@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   StyleSheet,
@@ -28,9 +28,13 @@ import {
   CustomerContainer,
   User,
   TASK_STATUS_LABELS,
+  AUTOMOTIVE_TASK_STATUS_LABELS,
+  resolveClaimTtlMinutes,
+  type ClaimTtlRule,
+  type TaskUndoInfo,
 } from "@shared/schema";
 import { openMapsNavigation } from "@/lib/navigation";
-import { apiRequest } from "@/lib/query-client";
+import { ApiError, apiRequest } from "@/lib/query-client";
 
 type UserWithoutPassword = Omit<User, "password">;
 
@@ -44,7 +48,6 @@ const ACTIVE_STATUSES = [
   "PICKED_UP",
   "IN_TRANSIT",
 ];
-const CLAIM_TTL_MINUTES = 30;
 
 export default function TaskDetailScreen() {
   const headerHeight = useHeaderHeight();
@@ -60,6 +63,7 @@ export default function TaskDetailScreen() {
   const [isReleasing, setIsReleasing] = useState(false);
   const [showHandoverModal, setShowHandoverModal] = useState(false);
   const [isHandingOver, setIsHandingOver] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
   const [claimTimeRemaining, setClaimTimeRemaining] = useState<number | null>(
     null,
   );
@@ -68,6 +72,16 @@ export default function TaskDetailScreen() {
     queryKey: [`/api/tasks/${taskId}`],
   });
 
+  // Refetched so the undo button disappears when the window closes
+  const { data: undoInfo } = useQuery<TaskUndoInfo>({
+    queryKey: [`/api/tasks/${taskId}/undo`],
+    refetchInterval: 30000,
+  });
+
+  const { data: claimTtl } = useQuery<{ rules: ClaimTtlRule[] }>({
+    queryKey: ["/api/claim-ttl-rules"],
+  });
+
   const { data: users = [] } = useQuery<UserWithoutPassword[]>({
     queryKey: ["/api/users"],
   });
@@ -76,15 +90,20 @@ export default function TaskDetailScreen() {
     .filter((u) => u.role === "DRIVER" || u.role === "driver")
     .filter((u) => u.isActive && u.id !== user?.id);
 
-  const getClaimTimeRemaining = (
-    claimedAt: Date | string | null,
-  ): number | null => {
-    if (!claimedAt) return null;
-    const claimTime = new Date(claimedAt).getTime();
-    const expiryTime = claimTime + CLAIM_TTL_MINUTES * 60 * 1000;
-    const remaining = expiryTime - Date.now();
-    return remaining > 0 ? Math.ceil(remaining / 60000) : 0;
-  };
+  const getClaimTimeRemaining = useCallback(
+    (claimedAt: Date | string | null): number | null => {
+      if (!claimedAt) return null;
+      const claimTime = new Date(claimedAt).getTime();
+      const ttlMinutes = resolveClaimTtlMinutes(
+        claimTtl?.rules || [],
+        task || {},
+      );
+      const expiryTime = claimTime + ttlMinutes * 60 * 1000;
+      const remaining = expiryTime - Date.now();
+      return remaining > 0 ? Math.ceil(remaining / 60000) : 0;
+    },
+    [claimTtl, task],
+  );
 
   const isClaimExpired = (claimedAt: Date | string | null): boolean => {
     if (!claimedAt) return true;
@@ -104,7 +123,7 @@ export default function TaskDetailScreen() {
     updateRemaining();
     const interval = setInterval(updateRemaining, 30000);
     return () => clearInterval(interval);
-  }, [task?.claimedAt, task?.claimedByUserId]);
+  }, [task?.claimedAt, task?.claimedByUserId, getClaimTimeRemaining]);
 
   const getClaimerName = (): string => {
     if (!task?.claimedByUserId) return "";
@@ -235,6 +254,41 @@ export default function TaskDetailScreen() {
     }
   };
 
+  const getStatusLabel = (status: string) =>
+    TASK_STATUS_LABELS[status] ||
+    AUTOMOTIVE_TASK_STATUS_LABELS[status] ||
+    status;
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/undo`);
+      const result = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}`] });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/tasks/${taskId}/undo`],
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      Alert.alert(
+        "Erfolg",
+        `Statuswechsel rückgängig gemacht: ${getStatusLabel(result.toStatus)}`,
+      );
+    } catch (error) {
+      Alert.alert(
+        "Fehler",
+        error instanceof ApiError
+          ? error.toUserMessage()
+          : "Rückgängig machen fehlgeschlagen.",
+      );
+      queryClient.invalidateQueries({
+        queryKey: [`/api/tasks/${taskId}/undo`],
+      });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
   const claimExpired = task?.claimedAt ? isClaimExpired(task.claimedAt) : true;
   const isClaimedByCurrentUser = task?.claimedByUserId === user?.id;
   const isClaimedByOther =
@@ -739,6 +793,51 @@ export default function TaskDetailScreen() {
           </Card>
         ) : null}
 
+        {undoInfo?.available ? (
+          <Card
+            style={{
+              ...styles.handoverCard,
+              backgroundColor: theme.cardSurface,
+            }}
+          >
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Statuswechsel rückgängig
+            </ThemedText>
+            <ThemedText
+              type="small"
+              style={{ color: theme.textSecondary, marginBottom: Spacing.md }}
+            >
+              {`${getStatusLabel(undoInfo.fromStatus || "")} zurück auf ${getStatusLabel(undoInfo.toStatus || "")} setzen.`}
+            </ThemedText>
+            <Button
+              onPress={handleUndo}
+              disabled={isUndoing}
+              style={[
+                styles.handoverButton,
+                { backgroundColor: theme.warning },
+              ]}
+            >
+              <View style={styles.buttonContent}>
+                {isUndoing ? (
+                  <ActivityIndicator size="small" color={theme.textOnPrimary} />
+                ) : (
+                  <Feather
+                    name="rotate-ccw"
+                    size={20}
+                    color={theme.textOnPrimary}
+                  />
+                )}
+                <ThemedText
+                  type="body"
+                  style={{ color: theme.textOnPrimary, fontWeight: "600" }}
+                >
+                  Rückgängig
+                </ThemedText>
+              </View>
+            </Button>
+          </Card>
+        ) : null}
+
         {canHandover ? (
           <Card
             style={{
@@ -0,0 +1,145 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+
+describe("audit hash chain", () => {
+  let testDb: TestDatabase;
+  let chain: typeof import("./audit-chain");
+  let db: typeof import("./db").db;
+  let schema: typeof import("@shared/schema");
+  let userId: string;
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    chain = await import("./audit-chain");
+    ({ db } = await import("./db"));
+    schema = await import("@shared/schema");
+    const { storage } = await import("./storage");
+    const user = await storage.createUser({
+      email: "fahrer@example.com",
+      password: "x",
+      name: "Fahrer",
+      role: "driver",
+    });
+    userId = user.id;
+  });
+
+  after(() => testDb.stop());
+
+  beforeEach(async () => {
+    await db.delete(schema.taskEvents);
+    await db.delete(schema.scanEvents);
+  });
+
+  async function appendTaskEvents(count: number) {
+    const events = [];
+    for (let i = 1; i <= count; i++) {
+      events.push(
+        await chain.appendTaskEvent({
+          actorUserId: userId,
+          action: "STATUS_CHANGED",
+          entityType: "task",
+          beforeData: { status: "OPEN" },
+          afterData: { status: "ACCEPTED", note: `Fahrt ${i}` },
+        }),
+      );
+    }
+    return events;
+  }
+
+  test("verify an untouched chain", async () => {
+    await appendTaskEvents(3);
+    const result = await chain.verifyChain("task_events");
+    assert.ok(result.valid);
+    assert.equal(result.checked, 3);
+    assert.equal(result.headSeq, 3);
+  });
+
+  test("stay valid after a redaction", async () => {
+    const [, second] = await appendTaskEvents(3);
+    const redacted = await chain.redactTaskEvents(
+      eq(schema.taskEvents.id, second.id),
+      () => ({ afterData: { status: "ACCEPTED", note: "[entfernt]" } }),
+    );
+    assert.equal(redacted, 1);
+
+    const result = await chain.verifyChain("task_events");
+    assert.ok(result.valid);
+    assert.equal(result.redacted, 1);
+    assert.deepEqual(result.redactedIds, [second.id]);
+  });
+
+  test("keep the original digest when redacting twice", async () => {
+    const [event] = await appendTaskEvents(2);
+    for (const note of ["[entfernt]", "[gelöscht]"]) {
+      await chain.redactTaskEvents(eq(schema.taskEvents.id, event.id), () => ({
+        afterData: { status: "ACCEPTED", note },
+      }));
+    }
+    assert.ok((await chain.verifyChain("task_events")).valid);
+  });
+
+  test("detect an edit without redaction", async () => {
+    const [, second] = await appendTaskEvents(3);
+    await db
+      .update(schema.taskEvents)
+      .set({ afterData: { status: "CANCELLED" } })
+      .where(eq(schema.taskEvents.id, second.id));
+
+    const result = await chain.verifyChain("task_events");
+    assert.ok(!result.valid);
+    assert.deepEqual(result.breaks, [
+      { chainSeq: 2, id: second.id, reason: "HASH_MISMATCH" },
+    ]);
+  });
+
+  test("detect a redaction that was not recorded in the chain", async () => {
+    const [, second] = await appendTaskEvents(3);
+    // Forged value, with the digest of the original passed off as redaction
+    await db
+      .update(schema.taskEvents)
+      .set({
+        afterData: { status: "CANCELLED" },
+        redactions: { afterData: chain.fieldDigest(second.afterData) },
+      })
+      .where(eq(schema.taskEvents.id, second.id));
+
+    const result = await chain.verifyChain("task_events");
+    assert.ok(!result.valid);
+    assert.deepEqual(result.breaks, [
+      { chainSeq: 2, id: second.id, reason: "UNRECORDED_REDACTION" },
+    ]);
+    assert.deepEqual(result.redactedIds, [second.id]);
+  });
+
+  test("stay valid after redacting scan locations", async () => {
+    const scans = [];
+    for (let i = 0; i < 2; i++) {
+      scans.push(
+        await chain.appendScanEvent({
+          containerId: "container-1",
+          containerType: "customer",
+          scannedByUserId: userId,
+          scanContext: "WAREHOUSE_INFO",
+          locationType: "WAREHOUSE",
+          geoLocation: { latitude: 49.48, longitude: 8.44, accuracy: 5 },
+        }),
+      );
+    }
+    await chain.redactScanEvents(eq(schema.scanEvents.id, scans[0].id), {
+      geoLocation: null,
+    });
+
+    const result = await chain.verifyChain("scan_events");
+    assert.ok(result.valid);
+    assert.deepEqual(result.redactedIds, [scans[0].id]);
+
+    const [record] = await db
+      .select()
+      .from(schema.taskEvents)
+      .where(eq(schema.taskEvents.entityId, scans[0].id));
+    assert.equal(record.action, chain.REDACTION_ACTION);
+    assert.equal(record.entityType, "scan_event");
+  });
+});
@@ -0,0 +1,542 @@
+import { createHash } from "crypto";
+import {
+  scanEvents,
+  taskEvents,
+  type ScanEvent,
+  type TaskEvent,
+} from "@shared/schema";
+import { db, type DbTransaction } from "./db";
+import { and, asc, eq, gt, inArray, isNull, sql, type SQL } from "drizzle-orm";
+
+// ============================================================================
+// AUDIT HASH CHAIN
+// ============================================================================
+// task_events and scan_events are append-only hash chains. Each row stores
+//   hash = sha256(prevHash + "\n" + canonical JSON of { field: sha256(value) })
+// over the fields in CHAIN_HASHED_FIELDS, where prevHash is the hash of the
+// row before it in chainSeq order (GENESIS_HASH for the first row). Editing
+// a hashed field, deleting or reordering rows breaks the chain at that row.
+// Appends are serialized per chain with a transaction-scoped advisory lock.
+// An append can join a caller's transaction; the lock is then held until
+// that transaction ends, so multi-step operations take all chain locks up
+// front (lockAuditChains) to keep a fixed lock order.
+//
+// Fields may be redacted later (scan events unlinked from a deleted task,
+// personal data of an anonymized user):
+// the digest of the original value moves to `redactions` and is used in
+// place of the current value, so the chain still verifies and the redaction
+// itself stays visible. `redactions` is not hashed, so every redaction is
+// also appended to task_events as a FIELDS_REDACTED event carrying the same
+// digests; verifyChain only accepts digests recorded that way.
+
+export type AuditChainName = "task_events" | "scan_events";
+
+export const AUDIT_CHAINS: AuditChainName[] = ["task_events", "scan_events"];
+
+/** Columns maintained by the chain, never set by callers */
+export type ChainColumns = "chainSeq" | "prevHash" | "hash" | "redactions";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// pg_advisory_xact_lock keys, one per chain
+const CHAIN_LOCK_KEYS: Record<AuditChainName, number> = {
+  task_events: 710_001,
+  scan_events: 710_002,
+};
+
+export const CHAIN_HASHED_FIELDS: Record<AuditChainName, string[]> = {
+  task_events: [
+    "id",
+    "chainSeq",
+    "taskId",
+    "actorUserId",
+    "actorRole",
+    "actorDepartmentId",
+    "action",
+    "entityType",
+    "entityId",
+    "beforeData",
+    "afterData",
+    "metaJson",
+    "timestamp",
+  ],
+  scan_events: [
+    "id",
+    "chainSeq",
+    "containerId",
+    "containerType",
+    "taskId",
+    "scannedByUserId",
+    "scannedAt",
+    "scanContext",
+    "locationType",
+    "locationDetails",
+    "geoLocation",
+    "scanResult",
+    "resultMessage",
+    "extraData",
+    "createdAt",
+  ],
+};
+
+/** task_events action that records a redaction in the chain */
+export const REDACTION_ACTION = "FIELDS_REDACTED";
+
+// entityType of the FIELDS_REDACTED event, per chain of the redacted row
+const REDACTED_ENTITY_TYPES: Record<AuditChainName, string> = {
+  task_events: "task_event",
+  scan_events: "scan_event",
+};
+
+type ChainRow = Record<string, unknown> & {
+  id: string;
+  chainSeq: number | null;
+  prevHash: string | null;
+  hash: string | null;
+  redactions: unknown;
+};
+
+export type NewTaskEvent = Omit<
+  typeof taskEvents.$inferInsert,
+  "id" | ChainColumns
+>;
+export type NewScanEvent = Omit<
+  typeof scanEvents.$inferInsert,
+  "id" | ChainColumns
+>;
+
+/**
+ * JSON with sorted object keys, matching what jsonb hands back
+ * (undefined object members are dropped, dates become ISO strings)
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+export function fieldDigest(value: unknown): string {
+  return sha256(canonicalJson(value));
+}
+
+export function computeChainHash(
+  chain: AuditChainName,
+  row: ChainRow,
+  prevHash: string,
+): string {
+  const redactions = (row.redactions as Record<string, string> | null) || {};
+  const digests: Record<string, string> = {};
+  for (const field of CHAIN_HASHED_FIELDS[chain]) {
+    digests[field] = redactions[field] ?? fieldDigest(row[field]);
+  }
+  return sha256(`${prevHash}\n${canonicalJson(digests)}`);
+}
+
+/**
+ * Takes the chain lock for the rest of the transaction and returns the
+ * current head of the chain
+ */
+async function lockChainHead(
+  tx: DbTransaction,
+  chain: AuditChainName,
+): Promise<{ chainSeq: number; hash: string }> {
+  await tx.execute(
+    sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEYS[chain]})`,
+  );
+  const result = await tx.execute(
+    sql`SELECT chain_seq, hash FROM ${sql.identifier(chain)}
+        WHERE chain_seq IS NOT NULL
+        ORDER BY chain_seq DESC LIMIT 1`,
+  );
+  const head = result.rows[0] as
+    | { chain_seq: number; hash: string }
+    | undefined;
+  return head
+    ? { chainSeq: Number(head.chain_seq), hash: head.hash }
+    : { chainSeq: 0, hash: GENESIS_HASH };
+}
+
+/**
+ * Takes the locks of all chains in a fixed order. Call first in a
+ * transaction that appends to more than one chain, so two such
+ * transactions cannot deadlock
+ */
+export async function lockAuditChains(tx: DbTransaction): Promise<void> {
+  for (const chain of AUDIT_CHAINS) {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEYS[chain]})`,
+    );
+  }
+}
+
+/** Runs `fn` in the caller's transaction, or in a new one without */
+function withTransaction<T>(
+  tx: DbTransaction | undefined,
+  fn: (tx: DbTransaction) => Promise<T>,
+): Promise<T> {
+  return tx ? fn(tx) : db.transaction(fn);
+}
+
+/**
+ * Appends a task event to the chain. The hash is computed from the row as
+ * stored (defaults and jsonb normalization applied), then written back.
+ * With `outerTx` the event commits (or rolls back) with that transaction
+ */
+export async function appendTaskEvent(
+  values: NewTaskEvent,
+  outerTx?: DbTransaction,
+): Promise<TaskEvent> {
+  return withTransaction(outerTx, async (tx) => {
+    const head = await lockChainHead(tx, "task_events");
+    const [inserted] = await tx
+      .insert(taskEvents)
+      .values({ ...values, chainSeq: head.chainSeq + 1, prevHash: head.hash })
+      .returning();
+    const hash = computeChainHash("task_events", inserted, head.hash);
+    const [event] = await tx
+      .update(taskEvents)
+      .set({ hash })
+      .where(eq(taskEvents.id, inserted.id))
+      .returning();
+    return event;
+  });
+}
+
+/** Appends a scan event to the chain, see appendTaskEvent */
+export async function appendScanEvent(
+  values: NewScanEvent,
+  outerTx?: DbTransaction,
+): Promise<ScanEvent> {
+  return withTransaction(outerTx, async (tx) => {
+    const head = await lockChainHead(tx, "scan_events");
+    const [inserted] = await tx
+      .insert(scanEvents)
+      .values({ ...values, chainSeq: head.chainSeq + 1, prevHash: head.hash })
+      .returning();
+    const hash = computeChainHash("scan_events", inserted, head.hash);
+    const [event] = await tx
+      .update(scanEvents)
+      .set({ hash })
+      .where(eq(scanEvents.id, inserted.id))
+      .returning();
+    return event;
+  });
+}
+
+/**
+ * Digests of the original values of `fields`, merged into the row's
+ * existing redactions. The first redaction of a field holds the digest of
+ * the value that was hashed
+ */
+function mergeRedactions(
+  row: ChainRow,
+  fields: string[],
+): Record<string, string> {
+  const redactions = {
+    ...((row.redactions as Record<string, string> | null) || {}),
+  };
+  for (const field of fields) {
+    redactions[field] ??= fieldDigest(row[field]);
+  }
+  return redactions;
+}
+
+/** Appends the FIELDS_REDACTED event for `fields` of a chained row */
+async function recordRedaction(
+  tx: DbTransaction,
+  chain: AuditChainName,
+  rowId: string,
+  redactions: Record<string, string>,
+  fields: string[],
+): Promise<void> {
+  await appendTaskEvent(
+    {
+      action: REDACTION_ACTION,
+      entityType: REDACTED_ENTITY_TYPES[chain],
+      entityId: rowId,
+      afterData: {
+        redactions: Object.fromEntries(
+          fields.map((field) => [field, redactions[field]]),
+        ),
+      },
+    },
+    tx,
+  );
+}
+
+/**
+ * Overwrites fields of chained scan events while keeping the digest of the
+ * original values in `redactions`. Returns the number of updated rows
+ */
+export async function redactScanEvents(
+  where: SQL,
+  values: Partial<Pick<ScanEvent, "taskId" | "geoLocation" | "extraData">>,
+): Promise<number> {
+  const fields = Object.keys(values);
+  const rows = await db.select().from(scanEvents).where(where);
+  for (const row of rows) {
+    const redactions = mergeRedactions(row as ChainRow, fields);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(scanEvents)
+        .set({ ...values, redactions })
+        .where(eq(scanEvents.id, row.id));
+      await recordRedaction(tx, "scan_events", row.id, redactions, fields);
+    });
+  }
+  return rows.length;
+}
+
+/**
+ * Overwrites data fields of chained task events, see redactScanEvents.
+ * `redact` returns the new values for a row, or null to leave it unchanged
+ */
+export async function redactTaskEvents(
+  where: SQL,
+  redact: (
+    event: TaskEvent,
+  ) => Partial<Pick<TaskEvent, "beforeData" | "afterData" | "metaJson">> | null,
+): Promise<number> {
+  const rows = await db.select().from(taskEvents).where(where);
+  let updated = 0;
+  for (const row of rows) {
+    const values = redact(row);
+    if (!values) continue;
+    const fields = Object.keys(values);
+    const redactions = mergeRedactions(row as ChainRow, fields);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(taskEvents)
+        .set({ ...values, redactions })
+        .where(eq(taskEvents.id, row.id));
+      await recordRedaction(tx, "task_events", row.id, redactions, fields);
+    });
+    updated++;
+  }
+  return updated;
+}
+
+/** Chained rows after `afterSeq`, e.g. for exports that carry the proofs */
+export async function getChainSegment(
+  chain: AuditChainName,
+  afterSeq: number,
+  limit: number,
+): Promise<ChainRow[]> {
+  if (chain === "task_events") {
+    return (await db
+      .select()
+      .from(taskEvents)
+      .where(gt(taskEvents.chainSeq, afterSeq))
+      .orderBy(asc(taskEvents.chainSeq))
+      .limit(limit)) as ChainRow[];
+  }
+  return (await db
+    .select()
+    .from(scanEvents)
+    .where(gt(scanEvents.chainSeq, afterSeq))
+    .orderBy(asc(scanEvents.chainSeq))
+    .limit(limit)) as ChainRow[];
+}
+
+/**
+ * Seals rows written before the chain existed (chainSeq null), oldest first.
+ * Their earlier history cannot be proven, but later edits become detectable
+ */
+export async function sealUnchainedEvents(
+  chain: AuditChainName,
+): Promise<number> {
+  const table = chain === "task_events" ? taskEvents : scanEvents;
+  const orderColumn =
+    chain === "task_events" ? taskEvents.timestamp : scanEvents.createdAt;
+  let sealed = 0;
+
+  for (;;) {
+    const count = await db.transaction(async (tx) => {
+      let head = await lockChainHead(tx, chain);
+      const rows = (await tx
+        .select()
+        .from(table)
+        .where(isNull(table.chainSeq))
+        .orderBy(asc(orderColumn), asc(table.id))
+        .limit(500)) as ChainRow[];
+
+      for (const row of rows) {
+        const chainSeq = head.chainSeq + 1;
+        const hash = computeChainHash(chain, { ...row, chainSeq }, head.hash);
+        await tx
+          .update(table)
+          .set({ chainSeq, prevHash: head.hash, hash })
+          .where(eq(table.id, row.id));
+        head = { chainSeq, hash };
+      }
+      return rows.length;
+    });
+
+    sealed += count;
+    if (count < 500) return sealed;
+  }
+}
+
+export type ChainBreakReason =
+  | "SEQUENCE_GAP"
+  | "PREV_HASH_MISMATCH"
+  | "HASH_MISMATCH"
+  | "UNRECORDED_REDACTION";
+
+export interface ChainBreak {
+  chainSeq: number;
+  id: string;
+  reason: ChainBreakReason;
+}
+
+export interface ChainVerification {
+  chain: AuditChainName;
+  valid: boolean;
+  checked: number;
+  firstSeq: number | null;
+  headSeq: number | null;
+  headHash: string | null;
+  redacted: number;
+  redactedIds: string[];
+  unsealed: number;
+  breaks: ChainBreak[];
+}
+
+const MAX_REPORTED_BREAKS = 100;
+
+/**
+ * Digests recorded by FIELDS_REDACTED events, per redacted row id.
+ * A row redacted several times has one entry per event
+ */
+async function getRecordedRedactions(
+  chain: AuditChainName,
+  rowIds: string[],
+): Promise<Map<string, Record<string, string>[]>> {
+  const recorded = new Map<string, Record<string, string>[]>();
+  if (rowIds.length === 0) return recorded;
+  const events = await db
+    .select({ entityId: taskEvents.entityId, afterData: taskEvents.afterData })
+    .from(taskEvents)
+    .where(
+      and(
+        eq(taskEvents.action, REDACTION_ACTION),
+        eq(taskEvents.entityType, REDACTED_ENTITY_TYPES[chain]),
+        inArray(taskEvents.entityId, rowIds),
+      ),
+    );
+  for (const event of events) {
+    const redactions = (
+      event.afterData as { redactions?: Record<string, string> } | null
+    )?.redactions;
+    if (!event.entityId || !redactions) continue;
+    recorded.set(event.entityId, [
+      ...(recorded.get(event.entityId) ?? []),
+      redactions,
+    ]);
+  }
+  return recorded;
+}
+
+/**
+ * Walks the chain in chainSeq order and recomputes every hash.
+ * A chain that no longer starts at 1 (archived head) is anchored at the
+ * prevHash of its first remaining row. Every redacted digest must match a
+ * FIELDS_REDACTED event, otherwise the row is reported as
+ * UNRECORDED_REDACTION
+ */
+export async function verifyChain(
+  chain: AuditChainName,
+): Promise<ChainVerification> {
+  const result: ChainVerification = {
+    chain,
+    valid: true,
+    checked: 0,
+    firstSeq: null,
+    headSeq: null,
+    headHash: null,
+    redacted: 0,
+    redactedIds: [],
+    unsealed: 0,
+    breaks: [],
+  };
+  const addBreak = (row: ChainRow, reason: ChainBreakReason) => {
+    result.valid = false;
+    if (result.breaks.length < MAX_REPORTED_BREAKS) {
+      result.breaks.push({ chainSeq: row.chainSeq!, id: row.id, reason });
+    }
+  };
+
+  let prevSeq: number | null = null;
+  let prevHash: string | null = null;
+
+  for (;;) {
+    const rows = await getChainSegment(chain, prevSeq ?? 0, 1000);
+    const recorded = await getRecordedRedactions(
+      chain,
+      rows.filter((row) => row.redactions).map((row) => row.id),
+    );
+    for (const row of rows) {
+      const chainSeq = row.chainSeq!;
+      if (result.firstSeq === null) {
+        result.firstSeq = chainSeq;
+        prevHash = chainSeq === 1 ? GENESIS_HASH : row.prevHash;
+      } else if (chainSeq !== prevSeq! + 1) {
+        addBreak(row, "SEQUENCE_GAP");
+      }
+
+      if (row.prevHash !== prevHash) {
+        addBreak(row, "PREV_HASH_MISMATCH");
+      }
+      if (
+        !row.hash ||
+        computeChainHash(chain, row, row.prevHash || "") !== row.hash
+      ) {
+        addBreak(row, "HASH_MISMATCH");
+      }
+      if (row.redactions) {
+        result.redacted++;
+        result.redactedIds.push(row.id);
+        const records = recorded.get(row.id) ?? [];
+        const unrecorded = Object.entries(
+          row.redactions as Record<string, string>,
+        ).some(
+          ([field, digest]) =>
+            !records.some((record) => record[field] === digest),
+        );
+        if (unrecorded) addBreak(row, "UNRECORDED_REDACTION");
+      }
+
+      // Continue from the stored hash so one edited row is reported once
+      prevSeq = chainSeq;
+      prevHash = row.hash;
+      result.checked++;
+    }
+    if (rows.length < 1000) break;
+  }
+
+  result.headSeq = prevSeq;
+  result.headHash = prevHash;
+
+  const table = chain === "task_events" ? taskEvents : scanEvents;
+  const [unsealed] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(table)
+    .where(isNull(table.chainSeq));
+  result.unsealed = unsealed?.count ?? 0;
+
+  return result;
+}
@@ -0,0 +1,247 @@
+import { db } from "./db";
+import { sql, type SQL } from "drizzle-orm";
+
+// ============================================================================
+// AUDIT TIMELINE
+// ============================================================================
+// One newest-first stream over the three history tables:
+//   activity   - activity_logs (human readable messages)
+//   task_event - task_events (before/after data, master-data changes)
+//   scan_event - scan_events (scan context)
+// Every row is resolved to user, task, box and stand; station, hall and
+// material follow from the stand (or the event's own metaJson). Paging uses
+// an opaque keyset cursor over (timestamp, id), so rows written while paging
+// neither shift nor repeat pages.
+
+export type TimelineSource = "activity" | "task_event" | "scan_event";
+
+export const TIMELINE_SOURCES: TimelineSource[] = [
+  "activity",
+  "task_event",
+  "scan_event",
+];
+
+export interface TimelineFilters {
+  sources?: TimelineSource[];
+  userId?: string;
+  taskId?: string;
+  boxId?: string;
+  standId?: string;
+  stationId?: string;
+  hallId?: string;
+  materialId?: string;
+  from?: Date;
+  to?: Date;
+  /** Active site; events that belong to another site are left out */
+  siteId?: string | null;
+}
+
+export interface TimelineEntry {
+  source: TimelineSource;
+  id: string;
+  timestamp: Date;
+  action: string;
+  message: string | null;
+  userId: string | null;
+  userName: string | null;
+  taskId: string | null;
+  boxId: string | null;
+  boxSerial: string | null;
+  standId: string | null;
+  standIdentifier: string | null;
+  stationId: string | null;
+  stationName: string | null;
+  hallId: string | null;
+  hallName: string | null;
+  materialId: string | null;
+  materialName: string | null;
+  entityType: string | null;
+  entityId: string | null;
+  data: Record<string, unknown> | null;
+}
+
+export interface TimelinePage {
+  entries: TimelineEntry[];
+  nextCursor: string | null;
+}
+
+// Columns: source, id, ts, action, message, user_id, task_id, box_id,
+// stand_id, station_id, hall_id, material_id, site_id, entity_type,
+// entity_id, data
+const TIMELINE_BRANCHES: Record<TimelineSource, SQL> = {
+  activity: sql`
+    SELECT 'activity' AS source, e.id, e.timestamp AS ts, e.type AS action,
+      e.message, e.user_id, e.task_id,
+      COALESCE(e.metadata->>'boxId', t.box_id) AS box_id,
+      COALESCE(e.metadata->>'standId', t.stand_id) AS stand_id,
+      e.metadata->>'stationId' AS station_id,
+      e.metadata->>'hallId' AS hall_id,
+      e.metadata->>'materialId' AS material_id,
+      t.site_id, NULL::text AS entity_type, e.container_id AS entity_id,
+      jsonb_build_object('metadata', e.metadata, 'details', e.details) AS data
+    FROM activity_logs e
+    LEFT JOIN tasks t ON t.id = e.task_id`,
+  task_event: sql`
+    SELECT 'task_event' AS source, e.id, e.timestamp AS ts, e.action,
+      NULL::text AS message, e.actor_user_id AS user_id, e.task_id,
+      COALESCE(e.meta_json->>'boxId',
+        CASE WHEN e.entity_type = 'box' THEN e.entity_id END, t.box_id) AS box_id,
+      COALESCE(e.meta_json->>'standId',
+        CASE WHEN e.entity_type = 'stand' THEN e.entity_id END, t.stand_id) AS stand_id,
+      COALESCE(e.meta_json->>'stationId',
+        CASE WHEN e.entity_type = 'station' THEN e.entity_id END) AS station_id,
+      COALESCE(e.meta_json->>'hallId',
+        CASE WHEN e.entity_type = 'hall' THEN e.entity_id END) AS hall_id,
+      COALESCE(e.meta_json->>'materialId',
+        CASE WHEN e.entity_type = 'material' THEN e.entity_id END) AS material_id,
+      t.site_id, e.entity_type, e.entity_id,
+      jsonb_build_object(
+        'beforeData', e.before_data,
+        'afterData', e.after_data,
+        'metaJson', e.meta_json
+      ) AS data
+    FROM task_events e
+    LEFT JOIN tasks t ON t.id = e.task_id`,
+  // geo_location is left out on purpose: the timeline is not a tracking view
+  scan_event: sql`
+    SELECT 'scan_event' AS source, e.id, e.scanned_at AS ts,
+      e.scan_context AS action, e.result_message AS message,
+      e.scanned_by_user_id AS user_id, e.task_id,
+      COALESCE(CASE WHEN e.container_type = 'box' THEN e.container_id END,
+        t.box_id) AS box_id,
+      COALESCE(e.extra_data->>'standId', t.stand_id) AS stand_id,
+      NULL::text AS station_id, NULL::text AS hall_id,
+      NULL::text AS material_id,
+      t.site_id, e.container_type AS entity_type, e.container_id AS entity_id,
+      jsonb_build_object(
+        'scanResult', e.scan_result,
+        'locationType', e.location_type,
+        'locationDetails', e.location_details,
+        'extraData', e.extra_data
+      ) AS data
+    FROM scan_events e
+    LEFT JOIN tasks t ON t.id = e.task_id`,
+};
+
+// Postgres text form of a timestamp, e.g. "2026-10-18 06:15:00.123456"
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+function encodeCursor(ts: string, id: string): string {
+  return Buffer.from(`${ts}|${id}`).toString("base64url");
+}
+
+/** Returns null for malformed cursors */
+export function decodeTimelineCursor(
+  cursor: string,
+): { ts: string; id: string } | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const separator = decoded.lastIndexOf("|");
+  if (separator <= 0) return null;
+  const ts = decoded.slice(0, separator);
+  if (!TIMESTAMP_TEXT.test(ts)) return null;
+  return { ts, id: decoded.slice(separator + 1) };
+}
+
+/**
+ * One page of the merged timeline, newest first.
+ * `cursor` is the nextCursor of the previous page
+ */
+export async function getAuditTimeline(
+  filters: TimelineFilters,
+  cursor: { ts: string; id: string } | null,
+  limit: number,
+): Promise<TimelinePage> {
+  const sources = filters.sources?.length ? filters.sources : TIMELINE_SOURCES;
+  const union = sql.join(
+    sources.map((source) => TIMELINE_BRANCHES[source]),
+    sql` UNION ALL `,
+  );
+
+  const conditions: SQL[] = [];
+  if (filters.userId) conditions.push(sql`tl.user_id = ${filters.userId}`);
+  if (filters.taskId) conditions.push(sql`tl.task_id = ${filters.taskId}`);
+  if (filters.boxId) conditions.push(sql`tl.box_id = ${filters.boxId}`);
+  if (filters.standId) conditions.push(sql`tl.stand_id = ${filters.standId}`);
+  if (filters.stationId) conditions.push(sql`st.id = ${filters.stationId}`);
+  if (filters.hallId) conditions.push(sql`h.id = ${filters.hallId}`);
+  if (filters.materialId) {
+    conditions.push(sql`m.id = ${filters.materialId}`);
+  }
+  // Timestamps are stored as UTC wall-clock time without zone
+  if (filters.from) {
+    conditions.push(sql`tl.ts >= ${filters.from.toISOString()}::timestamp`);
+  }
+  if (filters.to) {
+    conditions.push(sql`tl.ts <= ${filters.to.toISOString()}::timestamp`);
+  }
+  if (filters.siteId) {
+    conditions.push(
+      sql`COALESCE(tl.site_id, s.site_id, h.site_id) IS NULL
+        OR COALESCE(tl.site_id, s.site_id, h.site_id) = ${filters.siteId}`,
+    );
+  }
+  if (cursor) {
+    conditions.push(
+      sql`(tl.ts, tl.id) < (${cursor.ts}::timestamp, ${cursor.id})`,
+    );
+  }
+  const where = conditions.length
+    ? sql`WHERE ${sql.join(
+        conditions.map((condition) => sql`(${condition})`),
+        sql` AND `,
+      )}`
+    : sql``;
+
+  const result = await db.execute(sql`
+    SELECT tl.source, tl.id, tl.ts::text AS ts_text, tl.action,
+      tl.message, tl.user_id, u.name AS user_name, tl.task_id,
+      tl.box_id, b.serial AS box_serial,
+      tl.stand_id, s.identifier AS stand_identifier,
+      st.id AS station_id, st.name AS station_name,
+      h.id AS hall_id, h.name AS hall_name,
+      m.id AS material_id, m.name AS material_name,
+      tl.entity_type, tl.entity_id, tl.data
+    FROM (${union}) tl
+    LEFT JOIN users u ON u.id = tl.user_id
+    LEFT JOIN boxes b ON b.id = tl.box_id
+    LEFT JOIN stands s ON s.id = tl.stand_id
+    LEFT JOIN stations st ON st.id = COALESCE(s.station_id, tl.station_id)
+    LEFT JOIN halls h ON h.id = COALESCE(st.hall_id, tl.hall_id)
+    LEFT JOIN materials m ON m.id = COALESCE(s.material_id, tl.material_id)
+    ${where}
+    ORDER BY tl.ts DESC, tl.id DESC
+    LIMIT ${limit + 1}
+  `);
+
+  const rows = result.rows as Record<string, any>[];
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    entries: pageRows.map((row) => ({
+      source: row.source,
+      id: row.id,
+      timestamp: new Date(`${row.ts_text.replace(" ", "T")}Z`),
+      action: row.action,
+      message: row.message,
+      userId: row.user_id,
+      userName: row.user_name,
+      taskId: row.task_id,
+      boxId: row.box_id,
+      boxSerial: row.box_serial,
+      standId: row.stand_id,
+      standIdentifier: row.stand_identifier,
+      stationId: row.station_id,
+      stationName: row.station_name,
+      hallId: row.hall_id,
+      hallName: row.hall_name,
+      materialId: row.material_id,
+      materialName: row.material_name,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      data: row.data,
+    })),
+    nextCursor: hasMore && last ? encodeCursor(last.ts_text, last.id) : null,
+  };
+}
@@ -0,0 +1,153 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  generateRefreshToken,
+  getRefreshTokenExpiry,
+  hashPassword,
+  hashRefreshToken,
+  signAccessToken,
+  verifyAccessToken,
+  verifyPassword,
+} from "./auth";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+
+describe("access tokens", () => {
+  test("verify the payload of a freshly signed token", () => {
+    const payload = verifyAccessToken(signAccessToken("user-1", "session-1"));
+    assert.equal(payload?.sub, "user-1");
+    assert.equal(payload?.sid, "session-1");
+  });
+
+  test("reject a token with a modified payload", () => {
+    const [, signature] = signAccessToken("user-1", "session-1").split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "admin", sid: "session-1", iat: 0, exp: 9e9 }),
+    ).toString("base64url");
+    assert.equal(verifyAccessToken(`${forged}.${signature}`), null);
+  });
+
+  test("reject an expired token", (t) => {
+    const token = signAccessToken("user-1", "session-1");
+    const expiredAt = Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000;
+    t.mock.method(Date, "now", () => expiredAt);
+    assert.equal(verifyAccessToken(token), null);
+  });
+});
+
+describe("passwords", () => {
+  test("verify scrypt and legacy SHA-256 hashes", async () => {
+    const hash = await hashPassword("Geheim123");
+    assert.ok(await verifyPassword("Geheim123", hash));
+    assert.ok(!(await verifyPassword("geheim123", hash)));
+
+    // sha256("Geheim123")
+    const legacy =
+      "aaedd24ae9d95f171f297e9a592bfb32a0ecf06c70e77d760c4ca89aae2c8e32";
+    assert.ok(await verifyPassword("Geheim123", legacy));
+    assert.ok(!(await verifyPassword("geheim123", legacy)));
+  });
+});
+
+describe("refresh token rotation", () => {
+  let testDb: TestDatabase;
+  let storage: typeof import("./storage").storage;
+  let userId: string;
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    ({ storage } = await import("./storage"));
+    const user = await storage.createUser({
+      email: "fahrer@example.com",
+      password: await hashPassword("Geheim123"),
+      name: "Fahrer",
+      role: "driver",
+    });
+    userId = user.id;
+  });
+
+  after(() => testDb.stop());
+
+  async function createSession(refreshToken: string) {
+    return storage.createAuthSession({
+      userId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      expiresAt: getRefreshTokenExpiry(),
+      deviceName: "Zebra TC52",
+      platform: "android 33",
+      ipAddress: "10.0.0.1",
+      userAgent: null,
+    });
+  }
+
+  test("rotate a refresh token exactly once", async () => {
+    const first = generateRefreshToken();
+    const second = generateRefreshToken();
+    const session = await createSession(first);
+
+    const rotated = await storage.rotateAuthSession(
+      session.id,
+      hashRefreshToken(first),
+      hashRefreshToken(second),
+      getRefreshTokenExpiry(),
+      "10.0.0.2",
+    );
+    assert.equal(rotated?.refreshTokenHash, hashRefreshToken(second));
+    assert.equal(
+      await storage.getAuthSessionByRefreshTokenHash(hashRefreshToken(first)),
+      undefined,
+    );
+
+    const again = await storage.rotateAuthSession(
+      session.id,
+      hashRefreshToken(first),
+      hashRefreshToken(generateRefreshToken()),
+      getRefreshTokenExpiry(),
+      "10.0.0.2",
+    );
+    assert.equal(again, undefined);
+  });
+
+  test("revoke the session when a rotated token is reused", async () => {
+    const first = generateRefreshToken();
+    const second = generateRefreshToken();
+    const session = await createSession(first);
+    await storage.rotateAuthSession(
+      session.id,
+      hashRefreshToken(first),
+      hashRefreshToken(second),
+      getRefreshTokenExpiry(),
+      null,
+    );
+
+    const revoked = await storage.revokeAuthSessionByReusedRefreshToken(
+      hashRefreshToken(first),
+    );
+    assert.equal(revoked?.id, session.id);
+
+    // The current token of the session is no longer usable either
+    const current = await storage.getAuthSessionByRefreshTokenHash(
+      hashRefreshToken(second),
+    );
+    assert.ok(current?.revokedAt);
+    assert.equal(
+      await storage.rotateAuthSession(
+        session.id,
+        hashRefreshToken(second),
+        hashRefreshToken(generateRefreshToken()),
+        getRefreshTokenExpiry(),
+        null,
+      ),
+      undefined,
+    );
+  });
+
+  test("ignore unknown refresh tokens", async () => {
+    assert.equal(
+      await storage.revokeAuthSessionByReusedRefreshToken(
+        hashRefreshToken(generateRefreshToken()),
+      ),
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+
+// ============================================================================
+// PASSWORD HASHING
+// ============================================================================
+// Passwords are stored as salted scrypt hashes:
+//   scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+// Accounts created before this format carry an unsalted SHA-256 hex digest.
+// Those are still accepted and rehashed on the next successful login.
+
+const SCRYPT_PREFIX = "scrypt";
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_BYTES = 16;
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+function scryptAsync(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  params: { N: number; r: number; p: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes plus overhead
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)),
+    );
+  });
+}
+
+/**
+ * Hash a password with a random salt using scrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_BYTES);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scryptAsync(
+    password,
+    salt,
+    SCRYPT_KEY_LENGTH,
+    SCRYPT_PARAMS,
+  );
+  return [
+    SCRYPT_PREFIX,
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+/**
+ * Check if a stored hash is the legacy unsalted SHA-256 format
+ */
+export function isLegacyPasswordHash(storedHash: string): boolean {
+  return LEGACY_SHA256_PATTERN.test(storedHash);
+}
+
+/**
+ * Check if a stored hash should be replaced by a fresh hashPassword() result
+ * True for legacy hashes and for scrypt hashes with outdated parameters
+ */
+export function needsPasswordRehash(storedHash: string): boolean {
+  if (isLegacyPasswordHash(storedHash)) return true;
+  const [prefix, N, r, p] = storedHash.split("$");
+  return (
+    prefix !== SCRYPT_PREFIX ||
+    Number(N) !== SCRYPT_PARAMS.N ||
+    Number(r) !== SCRYPT_PARAMS.r ||
+    Number(p) !== SCRYPT_PARAMS.p
+  );
+}
+
+/**
+ * Verify a password against a stored hash (scrypt or legacy SHA-256)
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string,
+): Promise<boolean> {
+  if (isLegacyPasswordHash(storedHash)) {
+    const legacyHash = createHash("sha256").update(password).digest("hex");
+    return timingSafeEqual(Buffer.from(legacyHash), Buffer.from(storedHash));
+  }
+
+  const [prefix, N, r, p, saltB64, hashB64] = storedHash.split("$");
+  if (prefix !== SCRYPT_PREFIX || !saltB64 || !hashB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltB64, "base64"),
+    expected.length,
+    { N: Number(N), r: Number(r), p: Number(p) },
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+// ============================================================================
+// QUICK-SWITCH PINS
+// ============================================================================
+// PINs are hashed like passwords. They only work on devices where the user
+// has signed in with the password before (device_users, keyed by the hash of
+// a random device id the server issues and the app keeps in local storage).
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+/**
+ * Check if a PIN has the allowed format (4-6 digits)
+ */
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === "string" && PIN_PATTERN.test(pin);
+}
+
+/**
+ * Generate a new device id (handed to the app on its first password login)
+ */
+export function generateDeviceId(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hash a device id for storage and lookup
+ */
+export function hashDeviceId(deviceId: string): string {
+  return createHash("sha256").update(deviceId).digest("hex");
+}
+
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+// Access tokens are short-lived, HMAC-SHA256 signed and stateless:
+//   base64url(payload).base64url(signature)
+// Refresh tokens are random opaque strings. Only their SHA-256 hash is stored
+// (auth_sessions.refresh_token_hash) and they are rotated on every refresh.
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+const SESSION_SECRET = resolveSessionSecret();
+
+function resolveSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  // Without a configured secret every restart invalidates all access tokens.
+  // Clients recover through the refresh token, so this is acceptable in dev.
+  console.warn(
+    "[Auth] SESSION_SECRET is not set. Using a random per-process secret.",
+  );
+  return randomBytes(32).toString("hex");
+}
+
+export interface AccessTokenPayload {
+  sub: string; // User ID
+  sid: string; // Auth session ID
+  iat: number; // Issued at (seconds)
+  exp: number; // Expires at (seconds)
+}
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(data).digest("base64url");
+}
+
+/**
+ * Create a signed access token for the given user and session
+ */
+export function signAccessToken(userId: string, sessionId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AccessTokenPayload = {
+    sub: userId,
+    sid: sessionId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify an access token's signature and expiry
+ * Returns the payload, or null if the token is malformed, forged or expired
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8"),
+    ) as AccessTokenPayload;
+    if (!payload.sub || !payload.sid || typeof payload.exp !== "number") {
+      return null;
+    }
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a new opaque refresh token
+ */
+export function generateRefreshToken(): string {
+  return randomBytes(48).toString("base64url");
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+export function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Expiry timestamp for a refresh token issued now
+ */
+export function getRefreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Extract the bearer token from an Authorization header
+ */
+export function getBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const [scheme, token] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) return null;
+  return token.trim();
+}
+
+// ============================================================================
+// PASSWORD RESET TOKENS
+// ============================================================================
+// Reset tokens are sent by mail and typed into the app, so they use a short
+// unambiguous alphabet (no 0/O, 1/I/L) grouped as XXXXX-XXXXX (50 bits).
+// Like refresh tokens only their SHA-256 hash is stored.
+
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 30;
+
+const RESET_TOKEN_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const RESET_TOKEN_LENGTH = 10;
+
+/**
+ * Generate a new one-time password reset token
+ */
+export function generatePasswordResetToken(): string {
+  let token = "";
+  for (let i = 0; i < RESET_TOKEN_LENGTH; i++) {
+    token += RESET_TOKEN_ALPHABET[randomInt(RESET_TOKEN_ALPHABET.length)];
+  }
+  return `${token.slice(0, 5)}-${token.slice(5)}`;
+}
+
+/**
+ * Hash a password reset token for storage and lookup
+ * Case, spaces and dashes are ignored so typed tokens still match
+ */
+export function hashPasswordResetToken(token: string): string {
+  const normalized = token.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Expiry timestamp for a password reset token issued now
+ */
+export function getPasswordResetTokenExpiry(): Date {
+  return new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+}
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+// Format: cfk_<prefix>_<secret>. The prefix is stored in plain text so admins
+// can recognize a key; the full key is only shown once and stored hashed.
+
+const API_KEY_MARKER = "cfk";
+
+/**
+ * Generate a new API key and its visible prefix
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = `${API_KEY_MARKER}_${randomBytes(4).toString("hex")}`;
+  return {
+    key: `${prefix}_${randomBytes(32).toString("base64url")}`,
+    prefix,
+  };
+}
+
+/**
+ * Check if a bearer token looks like an API key (as opposed to an access token)
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(`${API_KEY_MARKER}_`);
+}
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,156 @@
+import {
+  DEFAULT_CLAIM_TTL_MINUTES,
+  claimTtlRules,
+  priorityEnum,
+  resolveClaimTtlMinutes,
+  taskTypeEnum,
+  tasks,
+  type ClaimTtlRule,
+  type Task,
+} from "@shared/schema";
+import { db } from "./db";
+import { and, isNotNull, lt } from "drizzle-orm";
+
+// ============================================================================
+// CLAIM TTL
+// ============================================================================
+// A claim reserves a task for one user for a limited time. The TTL depends
+// on task type and priority (claim_ttl_rules, resolveClaimTtlMinutes).
+// Expired claims are released by a periodic sweep (releaseExpiredClaimsJob
+// in routes.ts) and are treated as free by claim and transitions before
+// that. Rules are cached for a minute.
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export const MAX_CLAIM_TTL_MINUTES = 24 * 60;
+
+let rulesCache: { rules: ClaimTtlRule[]; expiresAt: number } | null = null;
+
+/** All configured rules */
+export async function listClaimTtlRules(): Promise<ClaimTtlRule[]> {
+  if (rulesCache && rulesCache.expiresAt > Date.now()) {
+    return rulesCache.rules;
+  }
+  const rules = await db.select().from(claimTtlRules);
+  rulesCache = { rules, expiresAt: Date.now() + CACHE_TTL_MS };
+  return rules;
+}
+
+/** When the task's claim expires, null if it is not claimed */
+export async function getClaimExpiry(
+  task: Pick<Task, "taskType" | "priority" | "claimedAt">,
+  claimedAt: Date | null = task.claimedAt,
+): Promise<Date | null> {
+  if (!claimedAt) return null;
+  const ttlMinutes = resolveClaimTtlMinutes(await listClaimTtlRules(), task);
+  return new Date(claimedAt.getTime() + ttlMinutes * 60 * 1000);
+}
+
+export async function isClaimExpired(
+  task: Pick<Task, "taskType" | "priority" | "claimedAt">,
+): Promise<boolean> {
+  const expiry = await getClaimExpiry(task);
+  return !expiry || expiry.getTime() < Date.now();
+}
+
+/**
+ * Claimed tasks whose claim has expired. Only rows older than the shortest
+ * TTL are loaded; the exact TTL is resolved per task
+ */
+export async function findExpiredClaims(now = new Date()): Promise<Task[]> {
+  const rules = await listClaimTtlRules();
+  const shortestTtl = Math.min(
+    DEFAULT_CLAIM_TTL_MINUTES,
+    ...rules.map((rule) => rule.ttlMinutes),
+  );
+  const candidates = await db
+    .select()
+    .from(tasks)
+    .where(
+      and(
+        isNotNull(tasks.claimedByUserId),
+        lt(tasks.claimedAt, new Date(now.getTime() - shortestTtl * 60 * 1000)),
+      ),
+    );
+  return candidates.filter(
+    (task) =>
+      task.claimedAt &&
+      task.claimedAt.getTime() +
+        resolveClaimTtlMinutes(rules, task) * 60 * 1000 <
+        now.getTime(),
+  );
+}
+
+export interface ClaimTtlRuleInput {
+  taskType: string | null;
+  priority: string | null;
+  ttlMinutes: number;
+}
+
+/**
+ * Checks a full rule list for the admin endpoint. Returns error messages,
+ * empty if the list is valid
+ */
+export function validateClaimTtlRules(rules: unknown): string[] {
+  if (!Array.isArray(rules)) return ["rules must be an array"];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  rules.forEach((rule: Partial<ClaimTtlRuleInput>, index) => {
+    const name = `rules[${index}]`;
+    const taskType = rule?.taskType ?? null;
+    const priority = rule?.priority ?? null;
+    if (
+      taskType !== null &&
+      !(taskTypeEnum.enumValues as readonly string[]).includes(taskType)
+    ) {
+      errors.push(`${name}: unknown taskType ${taskType}`);
+    }
+    if (
+      priority !== null &&
+      !(priorityEnum.enumValues as readonly string[]).includes(priority)
+    ) {
+      errors.push(`${name}: unknown priority ${priority}`);
+    }
+    if (
+      !Number.isInteger(rule?.ttlMinutes) ||
+      rule.ttlMinutes! < 1 ||
+      rule.ttlMinutes! > MAX_CLAIM_TTL_MINUTES
+    ) {
+      errors.push(
+        `${name}: ttlMinutes must be an integer between 1 and ${MAX_CLAIM_TTL_MINUTES}`,
+      );
+    }
+    const key = `${taskType}:${priority}`;
+    if (seen.has(key)) {
+      errors.push(`${name}: duplicate rule for ${taskType} / ${priority}`);
+    }
+    seen.add(key);
+  });
+  return errors;
+}
+
+/**
+ * Replaces all rules. The list must have passed validateClaimTtlRules
+ */
+export async function replaceClaimTtlRules(
+  rules: ClaimTtlRuleInput[],
+  userId: string,
+): Promise<ClaimTtlRule[]> {
+  const saved = await db.transaction(async (tx) => {
+    await tx.delete(claimTtlRules);
+    if (rules.length === 0) return [];
+    return tx
+      .insert(claimTtlRules)
+      .values(
+        rules.map((rule) => ({
+          taskType: rule.taskType ?? null,
+          priority: rule.priority ?? null,
+          ttlMinutes: rule.ttlMinutes,
+          updatedById: userId,
+        })),
+      )
+      .returning();
+  });
+  rulesCache = null;
+  return saved;
+}
@@ -32,6 +32,9 @@ const poolConfig: pg.PoolConfig = {
 export const pool = new Pool(poolConfig);
 export const db = drizzle(pool, { schema });
 
+/** The `tx` handed to db.transaction callbacks */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Health check function to verify database connectivity
 // Used by /api/health endpoint to confirm Supabase/PostgreSQL is reachable
 export async function checkDatabaseHealth(): Promise<{
@@ -0,0 +1,234 @@
+import {
+  FACTORY_CALENDAR_KINDS,
+  factoryCalendarEntries,
+  type FactoryCalendarEntry,
+  type ScheduleCalendarMode,
+} from "@shared/schema";
+import { db } from "./db";
+import { eq, isNull, or } from "drizzle-orm";
+import { addDays, getLocalWeekday } from "./zoned-time";
+
+// ============================================================================
+// FACTORY CALENDAR
+// ============================================================================
+// Decides whether a local date (YYYY-MM-DD) is a working day for a plant.
+// Not working: weekends, the public holidays of Rheinland-Pfalz and
+// HOLIDAY/SHUTDOWN entries. WORKING_DAY entries (e.g. special Saturdays)
+// override all of these. Used by both task schedulers.
+
+export interface CalendarDay {
+  working: boolean;
+  reason?: string; // Why the day is (not) a working day, e.g. holiday name
+}
+
+export interface FactoryCalendar {
+  checkDay(date: string): CalendarDay;
+  /** The next working day after `date`, null if none within `maxDays` */
+  nextWorkingDay(date: string, maxDays?: number): string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isValidDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    DATE_PATTERN.test(value) &&
+    formatDate(parseDate(value)) === value
+  );
+}
+
+/** Easter Sunday, anonymous Gregorian algorithm */
+function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Public holidays in Rheinland-Pfalz
+ */
+export function getPublicHolidays(
+  year: number,
+): { date: string; name: string }[] {
+  const easter = getEasterSunday(year);
+  return [
+    { date: `${year}-01-01`, name: "Neujahr" },
+    { date: addDays(easter, -2), name: "Karfreitag" },
+    { date: addDays(easter, 1), name: "Ostermontag" },
+    { date: `${year}-05-01`, name: "Tag der Arbeit" },
+    { date: addDays(easter, 39), name: "Christi Himmelfahrt" },
+    { date: addDays(easter, 50), name: "Pfingstmontag" },
+    { date: addDays(easter, 60), name: "Fronleichnam" },
+    { date: `${year}-10-03`, name: "Tag der Deutschen Einheit" },
+    { date: `${year}-11-01`, name: "Allerheiligen" },
+    { date: `${year}-12-25`, name: "1. Weihnachtstag" },
+    { date: `${year}-12-26`, name: "2. Weihnachtstag" },
+  ].sort((x, y) => x.date.localeCompare(y.date));
+}
+
+/**
+ * Calendar over the given entries (already filtered to one plant)
+ */
+export function createFactoryCalendar(
+  entries: Pick<
+    FactoryCalendarEntry,
+    "kind" | "name" | "startDate" | "endDate"
+  >[],
+): FactoryCalendar {
+  const holidaysByYear = new Map<number, Map<string, string>>();
+  const getHoliday = (date: string) => {
+    const year = Number(date.slice(0, 4));
+    if (!holidaysByYear.has(year)) {
+      holidaysByYear.set(
+        year,
+        new Map(getPublicHolidays(year).map((h) => [h.date, h.name])),
+      );
+    }
+    return holidaysByYear.get(year)!.get(date);
+  };
+  const findEntry = (date: string, kinds: string[]) =>
+    entries.find(
+      (entry) =>
+        kinds.includes(entry.kind) &&
+        entry.startDate <= date &&
+        date <= entry.endDate,
+    );
+
+  const checkDay = (date: string): CalendarDay => {
+    const workingDay = findEntry(date, ["WORKING_DAY"]);
+    if (workingDay) return { working: true, reason: workingDay.name };
+    const closed = findEntry(date, ["SHUTDOWN", "HOLIDAY"]);
+    if (closed) return { working: false, reason: closed.name };
+    const holiday = getHoliday(date);
+    if (holiday) return { working: false, reason: holiday };
+    if (getLocalWeekday(date) >= 6) {
+      return { working: false, reason: "Wochenende" };
+    }
+    return { working: true };
+  };
+
+  return {
+    checkDay,
+    nextWorkingDay(date, maxDays = 60) {
+      for (let offset = 1; offset <= maxDays; offset++) {
+        const candidate = addDays(date, offset);
+        if (checkDay(candidate).working) return candidate;
+      }
+      return null;
+    },
+  };
+}
+
+/** Loads the calendar of a plant (its own and the global entries) */
+export async function loadFactoryCalendar(
+  siteId: string | null,
+): Promise<FactoryCalendar> {
+  const entries = await db
+    .select()
+    .from(factoryCalendarEntries)
+    .where(
+      siteId
+        ? or(
+            isNull(factoryCalendarEntries.siteId),
+            eq(factoryCalendarEntries.siteId, siteId),
+          )
+        : isNull(factoryCalendarEntries.siteId),
+    );
+  return createFactoryCalendar(entries);
+}
+
+/**
+ * Loader that reads each plant's calendar once, for one scheduler run
+ */
+export function createFactoryCalendarLoader(): (
+  siteId: string | null,
+) => Promise<FactoryCalendar> {
+  const calendars = new Map<string, Promise<FactoryCalendar>>();
+  return (siteId) => {
+    const key = siteId || "";
+    if (!calendars.has(key)) {
+      calendars.set(key, loadFactoryCalendar(siteId));
+    }
+    return calendars.get(key)!;
+  };
+}
+
+export type CalendarResolution =
+  | { date: string; shiftedFrom?: string; reason?: string }
+  | { date: null; reason: string };
+
+/**
+ * The day a schedule occurrence is due on after applying the schedule's
+ * calendar mode; date null if it is skipped
+ */
+export function resolveScheduledDate(
+  date: string,
+  mode: ScheduleCalendarMode | string,
+  calendar: FactoryCalendar,
+): CalendarResolution {
+  if (mode !== "SKIP" && mode !== "SHIFT") return { date };
+  const day = calendar.checkDay(date);
+  if (day.working) return { date };
+  const reason = day.reason || "Kein Arbeitstag";
+  if (mode === "SKIP") return { date: null, reason };
+  const next = calendar.nextWorkingDay(date);
+  return next
+    ? { date: next, shiftedFrom: date, reason }
+    : { date: null, reason };
+}
+
+/**
+ * Checks an entry from the admin API. Returns error messages, empty if valid
+ */
+export function validateFactoryCalendarEntry(entry: {
+  kind?: unknown;
+  name?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+}): string[] {
+  const errors: string[] = [];
+  if (
+    !FACTORY_CALENDAR_KINDS.includes(
+      entry.kind as (typeof FACTORY_CALENDAR_KINDS)[number],
+    )
+  ) {
+    errors.push(`kind must be one of ${FACTORY_CALENDAR_KINDS.join(", ")}`);
+  }
+  if (typeof entry.name !== "string" || !entry.name.trim()) {
+    errors.push("name is required");
+  }
+  if (!isValidDate(entry.startDate)) {
+    errors.push("startDate must be a date (YYYY-MM-DD)");
+  }
+  if (!isValidDate(entry.endDate)) {
+    errors.push("endDate must be a date (YYYY-MM-DD)");
+  }
+  if (
+    isValidDate(entry.startDate) &&
+    isValidDate(entry.endDate) &&
+    entry.endDate < entry.startDate
+  ) {
+    errors.push("endDate must not be before startDate");
+  }
+  return errors;
+}
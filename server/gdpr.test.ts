@@ -0,0 +1,95 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+
+describe("user anonymization", () => {
+  let testDb: TestDatabase;
+  let db: typeof import("./db").db;
+  let schema: typeof import("@shared/schema");
+  let gdpr: typeof import("./gdpr");
+  let storage: typeof import("./storage").storage;
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    ({ db } = await import("./db"));
+    schema = await import("@shared/schema");
+    gdpr = await import("./gdpr");
+    ({ storage } = await import("./storage"));
+  });
+
+  after(() => testDb.stop());
+
+  test("replace whole words only", () => {
+    assert.equal(
+      gdpr.replaceWholeToken("Max hat Maximilian abgelöst", "Max", "X"),
+      "X hat Maximilian abgelöst",
+    );
+    assert.equal(
+      gdpr.replaceWholeToken("Jörg Jörgen", "Jörg", "X"),
+      "X Jörgen",
+    );
+  });
+
+  test("treat the token literally", () => {
+    assert.equal(
+      gdpr.replaceWholeToken("an max.m@example.com.", "max.m@example.com", "X"),
+      "an X.",
+    );
+    assert.equal(
+      gdpr.replaceWholeToken("maxym@example", "max.m", "X"),
+      "maxym@example",
+    );
+  });
+
+  test("scrub only log entries that belong to the user", async () => {
+    const max = await storage.createUser({
+      email: "max@example.com",
+      password: "x",
+      name: "Max",
+      role: "driver",
+    });
+    const other = await storage.createUser({
+      email: "maximilian@example.com",
+      password: "x",
+      name: "Maximilian",
+      role: "driver",
+    });
+    const [task] = await db
+      .insert(schema.tasks)
+      .values({ title: "Abholung", assignedTo: max.id })
+      .returning();
+
+    const log = (userId: string, message: string, taskId?: string) =>
+      storage.createActivityLog({
+        type: "TASK_UPDATED",
+        action: "TASK_UPDATED",
+        message,
+        userId,
+        taskId: taskId ?? null,
+      });
+    const own = await log(max.id, "Max hat die Box abgeholt");
+    const onTask = await log(other.id, "Maximilian übernimmt von Max", task.id);
+    const unrelated = await log(other.id, "Maximilian grüßt Max");
+
+    const result = await gdpr.anonymizeUser(max);
+    assert.equal(result.activityLogsScrubbed, 2);
+
+    const messageOf = async (id: string) =>
+      (
+        await db
+          .select()
+          .from(schema.activityLogs)
+          .where(eq(schema.activityLogs.id, id))
+      )[0].message;
+    assert.equal(
+      await messageOf(own.id),
+      `${result.pseudonym} hat die Box abgeholt`,
+    );
+    assert.equal(
+      await messageOf(onTask.id),
+      `Maximilian übernimmt von ${result.pseudonym}`,
+    );
+    assert.equal(await messageOf(unrelated.id), "Maximilian grüßt Max");
+  });
+});
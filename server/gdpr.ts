@@ -0,0 +1,545 @@
+import { randomBytes } from "crypto";
+import {
+  activityLogs,
+  apiKeys,
+  authSessions,
+  departments,
+  deviceUsers,
+  fillHistory,
+  loginThrottles,
+  mailOutbox,
+  passwordResetTokens,
+  scanEvents,
+  taskEvents,
+  tasks,
+  userSites,
+  users,
+  type TaskEvent,
+  type User,
+} from "@shared/schema";
+import { db } from "./db";
+import { fieldDigest, redactScanEvents, redactTaskEvents } from "./audit-chain";
+import { hashPassword } from "./auth";
+import { createZip, type ZipEntry } from "./zip";
+import {
+  and,
+  asc,
+  eq,
+  isNotNull,
+  isNull,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+
+// ============================================================================
+// PERSONAL DATA (GDPR)
+// ============================================================================
+// Export: everything tied to a user as a ZIP of JSON/CSV files (Art. 15/20).
+// Anonymize: scrubs name, email, phone, PIN, devices and scan geolocations
+// (Art. 17) but keeps tasks, weights and events, which now point to a
+// pseudonymous account, so statistics stay intact. Chained task and scan
+// events are changed through the audit-chain redactions, so the hash chains
+// still verify. Gzipped NDJSON archive files are not rewritten.
+
+/** User fields stored in master-data snapshots that identify the person */
+const PERSONAL_FIELDS = ["name", "email", "phone"] as const;
+
+/**
+ * Replaces `token` only where it stands as a whole word, so a name like
+ * "Max" leaves "Maximilian" alone
+ */
+export function replaceWholeToken(
+  text: string,
+  token: string,
+  replacement: string,
+): string {
+  if (!token) return text;
+  const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text.replace(
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, "gu"),
+    () => replacement,
+  );
+}
+
+/** Ids of tasks the user created, was assigned, claimed or acted on */
+function touchedTaskIds(userId: string): SQL {
+  return sql`(
+    SELECT ${tasks.id} FROM ${tasks}
+    WHERE ${tasks.createdBy} = ${userId}
+      OR ${tasks.assignedTo} = ${userId}
+      OR ${tasks.claimedByUserId} = ${userId}
+    UNION
+    SELECT ${taskEvents.taskId} FROM ${taskEvents}
+    WHERE ${taskEvents.actorUserId} = ${userId}
+      AND ${taskEvents.taskId} IS NOT NULL
+  )`;
+}
+
+/** Name and email of the user in a log message, as whole tokens */
+function scrubMessage(
+  message: string,
+  user: User,
+  { pseudonym, pseudonymEmail }: { pseudonym: string; pseudonymEmail: string },
+): string {
+  return replaceWholeToken(
+    replaceWholeToken(message, user.email, pseudonymEmail),
+    user.name,
+    pseudonym,
+  );
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with BOM (opens with umlauts in Excel) */
+function toCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "\uFEFF";
+  const columns = Object.keys(rows[0]);
+  const lines = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((key) => csvValue(row[key])).join(",")),
+  ];
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Builds the personal data export of a user as ZIP archive
+ */
+export async function buildUserDataExport(
+  user: User,
+  exportedById: string,
+): Promise<Buffer> {
+  const { password, pinHash, ...profile } = user;
+
+  const [department] = user.departmentId
+    ? await db
+        .select()
+        .from(departments)
+        .where(eq(departments.id, user.departmentId))
+    : [];
+  const sites = await db
+    .select({ siteId: userSites.siteId })
+    .from(userSites)
+    .where(eq(userSites.userId, user.id));
+
+  const sessions = await db
+    .select({
+      id: authSessions.id,
+      deviceName: authSessions.deviceName,
+      platform: authSessions.platform,
+      ipAddress: authSessions.ipAddress,
+      userAgent: authSessions.userAgent,
+      createdAt: authSessions.createdAt,
+      lastUsedAt: authSessions.lastUsedAt,
+      expiresAt: authSessions.expiresAt,
+      revokedAt: authSessions.revokedAt,
+    })
+    .from(authSessions)
+    .where(eq(authSessions.userId, user.id))
+    .orderBy(asc(authSessions.createdAt));
+
+  const devices = await db
+    .select({
+      deviceIdHash: deviceUsers.deviceIdHash,
+      lastLoginAt: deviceUsers.lastLoginAt,
+      createdAt: deviceUsers.createdAt,
+    })
+    .from(deviceUsers)
+    .where(eq(deviceUsers.userId, user.id));
+
+  const userTasks = await db
+    .select()
+    .from(tasks)
+    .where(
+      or(
+        eq(tasks.createdBy, user.id),
+        eq(tasks.assignedTo, user.id),
+        eq(tasks.claimedByUserId, user.id),
+        eq(tasks.weighedByUserId, user.id),
+      ),
+    )
+    .orderBy(asc(tasks.createdAt));
+
+  const events = await db
+    .select()
+    .from(taskEvents)
+    .where(
+      or(
+        eq(taskEvents.actorUserId, user.id),
+        and(
+          eq(taskEvents.entityType, "user"),
+          eq(taskEvents.entityId, user.id),
+        ),
+      ),
+    )
+    .orderBy(asc(taskEvents.timestamp));
+
+  const scans = await db
+    .select()
+    .from(scanEvents)
+    .where(eq(scanEvents.scannedByUserId, user.id))
+    .orderBy(asc(scanEvents.scannedAt));
+
+  const logs = await db
+    .select()
+    .from(activityLogs)
+    .where(eq(activityLogs.userId, user.id))
+    .orderBy(asc(activityLogs.timestamp));
+
+  const fills = await db
+    .select()
+    .from(fillHistory)
+    .where(eq(fillHistory.recordedByUserId, user.id))
+    .orderBy(asc(fillHistory.createdAt));
+
+  const keys = await db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      scopes: apiKeys.scopes,
+      expiresAt: apiKeys.expiresAt,
+      lastUsedAt: apiKeys.lastUsedAt,
+      lastUsedIp: apiKeys.lastUsedIp,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, user.id));
+
+  const mails = await db
+    .select()
+    .from(mailOutbox)
+    .where(eq(mailOutbox.recipient, user.email))
+    .orderBy(asc(mailOutbox.createdAt));
+
+  const archived = await db.execute(sql`
+    SELECT source_table, row_id, occurred_at, archived_at, data
+    FROM event_archive
+    WHERE data->>'user_id' = ${user.id}
+      OR data->>'actor_user_id' = ${user.id}
+      OR data->>'scanned_by_user_id' = ${user.id}
+      OR (data->>'entity_type' = 'user' AND data->>'entity_id' = ${user.id})
+    ORDER BY occurred_at
+  `);
+
+  const files: { name: string; rows: unknown[] | null; content: string }[] = [
+    {
+      name: "benutzer.json",
+      rows: null,
+      content: toJson({
+        ...profile,
+        department: department?.name ?? null,
+        siteIds: sites.map((site) => site.siteId),
+      }),
+    },
+    { name: "sitzungen.csv", rows: sessions, content: toCsv(sessions) },
+    { name: "geraete.csv", rows: devices, content: toCsv(devices) },
+    { name: "auftraege.csv", rows: userTasks, content: toCsv(userTasks) },
+    { name: "auftragsereignisse.json", rows: events, content: toJson(events) },
+    { name: "scans.csv", rows: scans, content: toCsv(scans) },
+    { name: "aktivitaetsprotokoll.csv", rows: logs, content: toCsv(logs) },
+    { name: "fuellhistorie.csv", rows: fills, content: toCsv(fills) },
+    { name: "api-schluessel.json", rows: keys, content: toJson(keys) },
+    { name: "e-mails.json", rows: mails, content: toJson(mails) },
+    {
+      name: "archiv.json",
+      rows: archived.rows,
+      content: toJson(archived.rows),
+    },
+  ];
+
+  const manifest = {
+    userId: user.id,
+    exportedAt: new Date(),
+    exportedById,
+    files: files.map((file) => ({
+      name: file.name,
+      rows: file.rows ? file.rows.length : 1,
+    })),
+    note: "Zeitstempel in UTC. Archivdateien im NDJSON-Format (ARCHIVE_DIR) sind nicht enthalten.",
+  };
+
+  const entries: ZipEntry[] = [
+    { name: "manifest.json", data: toJson(manifest) },
+    ...files.map((file) => ({ name: file.name, data: file.content })),
+  ];
+  return createZip(entries);
+}
+
+export interface AnonymizationResult {
+  userId: string;
+  anonymizedAt: Date;
+  pseudonym: string;
+  sessionsDeleted: number;
+  scanEventsRedacted: number;
+  taskEventsRedacted: number;
+  activityLogsScrubbed: number;
+  archivedEventsScrubbed: number;
+  apiKeysRevoked: number;
+}
+
+/**
+ * Scrubs the personal data of a user. Safe to run again (e.g. after an
+ * interruption); tasks, weights and event history are kept
+ */
+export async function anonymizeUser(user: User): Promise<AnonymizationResult> {
+  const anonymizedAt = user.anonymizedAt ?? new Date();
+  const pseudonym = `Ehemaliger Mitarbeiter ${user.id.slice(0, 8)}`;
+  const pseudonymEmail = `anonymisiert-${user.id}@invalid.local`;
+  const replacements: Record<(typeof PERSONAL_FIELDS)[number], unknown> = {
+    name: pseudonym,
+    email: pseudonymEmail,
+    phone: null,
+  };
+
+  // No new logins while the data is scrubbed
+  await db
+    .update(users)
+    .set({ isActive: false, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  // Devices, sessions (IP, user agent) and login traces
+  const sessions = await db
+    .delete(authSessions)
+    .where(eq(authSessions.userId, user.id))
+    .returning({ id: authSessions.id });
+  await db.delete(deviceUsers).where(eq(deviceUsers.userId, user.id));
+  await db
+    .delete(passwordResetTokens)
+    .where(eq(passwordResetTokens.userId, user.id));
+  await db
+    .delete(loginThrottles)
+    .where(
+      or(
+        and(
+          eq(loginThrottles.scope, "EMAIL"),
+          eq(loginThrottles.key, user.email.toLowerCase()),
+        ),
+        and(eq(loginThrottles.scope, "PIN"), eq(loginThrottles.key, user.id)),
+      ),
+    );
+  await db.delete(mailOutbox).where(eq(mailOutbox.recipient, user.email));
+  const keys = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.userId, user.id), isNull(apiKeys.revokedAt)))
+    .returning({ id: apiKeys.id });
+
+  // Scan geolocations (movement profile)
+  const scanEventsRedacted = await redactScanEvents(
+    and(
+      eq(scanEvents.scannedByUserId, user.id),
+      isNotNull(scanEvents.geoLocation),
+    )!,
+    { geoLocation: null },
+  );
+
+  // Master-data snapshots of the user record
+  const scrubSnapshot = (data: unknown) => {
+    if (!data || typeof data !== "object") return data;
+    const snapshot = { ...(data as Record<string, unknown>) };
+    for (const field of PERSONAL_FIELDS) {
+      if (field in snapshot) snapshot[field] = replacements[field];
+    }
+    return snapshot;
+  };
+  const taskEventsRedacted = await redactTaskEvents(
+    and(eq(taskEvents.entityType, "user"), eq(taskEvents.entityId, user.id))!,
+    (event: TaskEvent) => {
+      const beforeData = scrubSnapshot(event.beforeData);
+      const afterData = scrubSnapshot(event.afterData);
+      return fieldDigest(beforeData) === fieldDigest(event.beforeData) &&
+        fieldDigest(afterData) === fieldDigest(event.afterData)
+        ? null
+        : { beforeData, afterData };
+    },
+  );
+
+  // Activity log: locations of the user's entries, name and email in messages
+  await db
+    .update(activityLogs)
+    .set({ location: null })
+    .where(
+      and(eq(activityLogs.userId, user.id), isNotNull(activityLogs.location)),
+    );
+  // Only entries that belong to the user: their own, those about their
+  // account and those of tasks they worked on
+  const candidateLogs = await db
+    .select({ id: activityLogs.id, message: activityLogs.message })
+    .from(activityLogs)
+    .where(
+      and(
+        or(
+          eq(activityLogs.userId, user.id),
+          sql`${activityLogs.metadata}->>'targetUserId' = ${user.id}`,
+          sql`${activityLogs.taskId} IN ${touchedTaskIds(user.id)}`,
+        ),
+        or(
+          sql`strpos(${activityLogs.message}, ${user.name}) > 0`,
+          sql`strpos(${activityLogs.message}, ${user.email}) > 0`,
+        ),
+      ),
+    );
+  let activityLogsScrubbed = 0;
+  for (const log of candidateLogs) {
+    const message = scrubMessage(log.message, user, {
+      pseudonym,
+      pseudonymEmail,
+    });
+    if (message === log.message) continue;
+    await db
+      .update(activityLogs)
+      .set({ message })
+      .where(eq(activityLogs.id, log.id));
+    activityLogsScrubbed++;
+  }
+
+  const archivedEventsScrubbed = await scrubArchivedEvents(user, {
+    pseudonym,
+    pseudonymEmail,
+  });
+
+  // Account last, so an interrupted run can be repeated with the original
+  // name and email: unusable password, no PIN, cannot be reactivated
+  await db
+    .update(users)
+    .set({
+      name: pseudonym,
+      email: pseudonymEmail,
+      phone: null,
+      password: await hashPassword(randomBytes(32).toString("hex")),
+      pinHash: null,
+      pinUpdatedAt: null,
+      isActive: false,
+      anonymizedAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, user.id));
+
+  return {
+    userId: user.id,
+    anonymizedAt,
+    pseudonym,
+    sessionsDeleted: sessions.length,
+    scanEventsRedacted,
+    taskEventsRedacted,
+    activityLogsScrubbed,
+    archivedEventsScrubbed,
+    apiKeysRevoked: keys.length,
+  };
+}
+
+/** Digests of redacted fields kept by chained rows (see audit-chain) */
+type ArchivedRedactions = Record<string, string>;
+
+/**
+ * event_archive rows as read by scrubArchivedEvents. `data` is the archived
+ * row with its database column names, reduced to the columns scrubbed here
+ */
+type ArchivedEventRow =
+  | {
+      id: string;
+      source_table: "scan_events";
+      data: {
+        geo_location: unknown;
+        redactions?: ArchivedRedactions | null;
+      };
+    }
+  | {
+      id: string;
+      source_table: "task_events";
+      data: {
+        before_data: Record<string, unknown> | null;
+        after_data: Record<string, unknown> | null;
+        redactions?: ArchivedRedactions | null;
+      };
+    }
+  | {
+      id: string;
+      source_table: "activity_logs";
+      data: {
+        user_id: string | null;
+        location: unknown;
+        message: string | null;
+      };
+    };
+
+/**
+ * Applies the anonymization to rows already moved to event_archive.
+ * Chained rows get the same redactions as in the live tables
+ */
+async function scrubArchivedEvents(
+  user: User,
+  { pseudonym, pseudonymEmail }: { pseudonym: string; pseudonymEmail: string },
+): Promise<number> {
+  const result = await db.execute(sql`
+    SELECT id, source_table, data FROM event_archive
+    WHERE (source_table = 'scan_events'
+        AND data->>'scanned_by_user_id' = ${user.id}
+        AND data->'geo_location' <> 'null'::jsonb)
+      OR (source_table = 'task_events'
+        AND data->>'entity_type' = 'user' AND data->>'entity_id' = ${user.id})
+      OR (source_table = 'activity_logs'
+        AND (data->>'user_id' = ${user.id}
+          OR ((data->'metadata'->>'targetUserId' = ${user.id}
+              OR data->>'task_id' IN ${touchedTaskIds(user.id)})
+            AND (strpos(data->>'message', ${user.name}) > 0
+              OR strpos(data->>'message', ${user.email}) > 0))))
+  `);
+
+  let scrubbed = 0;
+  for (const row of result.rows as ArchivedEventRow[]) {
+    if (row.source_table === "scan_events") {
+      const redactions = { ...row.data.redactions };
+      redactions.geoLocation ??= fieldDigest(row.data.geo_location);
+      row.data = { ...row.data, geo_location: null, redactions };
+    } else if (row.source_table === "task_events") {
+      const data = { ...row.data };
+      const redactions = { ...data.redactions };
+      for (const [column, field] of [
+        ["before_data", "beforeData"],
+        ["after_data", "afterData"],
+      ] as const) {
+        const snapshot = data[column];
+        if (!snapshot || typeof snapshot !== "object") continue;
+        redactions[field] ??= fieldDigest(snapshot);
+        data[column] = {
+          ...snapshot,
+          ...("name" in snapshot ? { name: pseudonym } : {}),
+          ...("email" in snapshot ? { email: pseudonymEmail } : {}),
+          ...("phone" in snapshot ? { phone: null } : {}),
+        };
+      }
+      row.data = { ...data, redactions };
+    } else {
+      row.data = {
+        ...row.data,
+        location: row.data.user_id === user.id ? null : row.data.location,
+        message: scrubMessage(String(row.data.message ?? ""), user, {
+          pseudonym,
+          pseudonymEmail,
+        }),
+      };
+    }
+
+    await db.execute(
+      sql`UPDATE event_archive SET data = ${JSON.stringify(row.data)}::jsonb WHERE id = ${row.id}`,
+    );
+    scrubbed++;
+  }
+  return scrubbed;
+}
@@ -0,0 +1,200 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { eq } from "drizzle-orm";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+
+describe("idempotency keys", () => {
+  let testDb: TestDatabase;
+  let server: Server;
+  let baseUrl: string;
+  let db: typeof import("./db").db;
+  let idempotencyKeys: typeof import("@shared/schema").idempotencyKeys;
+  let PENDING_LOCK_TIMEOUT_MS: number;
+  let accessToken: string;
+
+  let handlerRuns = 0;
+  let responseStatus = 201;
+  // Called by the test to let the held requests answer
+  let heldRequests: (() => void)[] = [];
+  const releaseHeldRequests = () =>
+    heldRequests.forEach((release) => release());
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    const idempotencyModule = await import("./idempotency");
+    ({ PENDING_LOCK_TIMEOUT_MS } = idempotencyModule);
+    ({ db } = await import("./db"));
+    ({ idempotencyKeys } = await import("@shared/schema"));
+    const { signAccessToken } = await import("./auth");
+    accessToken = signAccessToken("user-1", "session-1");
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api", idempotencyModule.idempotency);
+    app.post("/api/deliveries", (req, res) => {
+      handlerRuns++;
+      res.status(responseStatus).json({ run: handlerRuns, ...req.body });
+    });
+    app.post("/api/held", async (_req, res) => {
+      const run = ++handlerRuns;
+      await new Promise<void>((resolve) => heldRequests.push(resolve));
+      res.status(201).json({ run });
+    });
+    app.post("/api/labels", (_req, res) => {
+      handlerRuns++;
+      res.type("text/csv").send("id;status\n1;DONE\n");
+    });
+
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await testDb.stop();
+  });
+
+  beforeEach(async () => {
+    await db.delete(idempotencyKeys);
+    handlerRuns = 0;
+    responseStatus = 201;
+    heldRequests = [];
+  });
+
+  function post(
+    path: string,
+    key: string,
+    body: unknown = {},
+    signal?: AbortSignal,
+    token: string | null = accessToken,
+  ) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": key,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async function waitFor(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  test("replay the stored response without running the handler again", async () => {
+    const first = await post("/api/deliveries", "key-1", { taskId: "t-1" });
+    assert.equal(first.status, 201);
+    assert.deepEqual(await first.json(), { run: 1, taskId: "t-1" });
+
+    const replay = await post("/api/deliveries", "key-1", { taskId: "t-1" });
+    assert.equal(replay.status, 201);
+    assert.equal(replay.headers.get("Idempotent-Replayed"), "true");
+    assert.deepEqual(await replay.json(), { run: 1, taskId: "t-1" });
+    assert.equal(handlerRuns, 1);
+  });
+
+  test("reject the same key for a different body", async () => {
+    await post("/api/deliveries", "key-1", { taskId: "t-1" });
+    const other = await post("/api/deliveries", "key-1", { taskId: "t-2" });
+    assert.equal(other.status, 422);
+    assert.equal((await other.json()).code, "IDEMPOTENCY_KEY_REUSED");
+    assert.equal(handlerRuns, 1);
+  });
+
+  test("answer 409 while the first request is running", async () => {
+    const first = post("/api/held", "key-1");
+    await waitFor(() => heldRequests.length === 1);
+
+    const concurrent = await post("/api/held", "key-1");
+    assert.equal(concurrent.status, 409);
+    assert.equal((await concurrent.json()).code, "IDEMPOTENCY_IN_PROGRESS");
+
+    releaseHeldRequests();
+    assert.equal((await first).status, 201);
+    assert.equal(handlerRuns, 1);
+  });
+
+  test("record the response when the client disconnected", async () => {
+    const controller = new AbortController();
+    const first = post("/api/held", "key-1", {}, controller.signal);
+    await waitFor(() => heldRequests.length === 1);
+    controller.abort();
+    await assert.rejects(first);
+
+    releaseHeldRequests();
+    let replay: Response;
+    do {
+      replay = await post("/api/held", "key-1");
+    } while (replay.status === 409);
+    assert.equal(replay.status, 201);
+    assert.equal(replay.headers.get("Idempotent-Replayed"), "true");
+    assert.deepEqual(await replay.json(), { run: 1 });
+    assert.equal(handlerRuns, 1);
+  });
+
+  test("take over a pending key once its lock has timed out", async () => {
+    const first = post("/api/held", "key-1");
+    await waitFor(() => heldRequests.length === 1);
+    // As if the first attempt had hung since before the timeout
+    await db
+      .update(idempotencyKeys)
+      .set({ lockedAt: new Date(Date.now() - PENDING_LOCK_TIMEOUT_MS - 1000) })
+      .where(eq(idempotencyKeys.key, "key-1"));
+
+    const takeover = post("/api/held", "key-1");
+    await waitFor(() => heldRequests.length === 2);
+    releaseHeldRequests();
+    assert.deepEqual(await (await takeover).json(), { run: 2 });
+    assert.equal((await first).status, 201);
+
+    // The late first attempt does not overwrite the stored response
+    const replay = await post("/api/held", "key-1");
+    assert.equal(replay.headers.get("Idempotent-Replayed"), "true");
+    assert.deepEqual(await replay.json(), { run: 2 });
+    assert.equal(handlerRuns, 2);
+  });
+
+  test("store no key for unauthenticated requests", async () => {
+    for (const token of [null, "expired.token"]) {
+      const response = await post(
+        "/api/deliveries",
+        "key-1",
+        {},
+        undefined,
+        token,
+      );
+      assert.equal(response.headers.get("Idempotent-Replayed"), null);
+    }
+    assert.equal(handlerRuns, 2);
+    assert.equal((await db.select().from(idempotencyKeys)).length, 0);
+  });
+
+  test("run the handler again after a server error", async () => {
+    responseStatus = 500;
+    assert.equal((await post("/api/deliveries", "key-1")).status, 500);
+
+    responseStatus = 201;
+    const retry = await post("/api/deliveries", "key-1");
+    assert.equal(retry.status, 201);
+    assert.equal(retry.headers.get("Idempotent-Replayed"), null);
+    assert.equal(handlerRuns, 2);
+  });
+
+  test("replay text bodies with their content type", async () => {
+    await post("/api/labels", "key-1");
+    const replay = await post("/api/labels", "key-1");
+    assert.equal(replay.headers.get("Idempotent-Replayed"), "true");
+    assert.match(replay.headers.get("Content-Type") ?? "", /^text\/csv/);
+    assert.equal(await replay.text(), "id;status\n1;DONE\n");
+    assert.equal(handlerRuns, 1);
+  });
+});
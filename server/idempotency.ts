@@ -0,0 +1,277 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import { idempotencyKeys } from "@shared/schema";
+import { db } from "./db";
+import { and, eq, lt } from "drizzle-orm";
+import { canonicalJson } from "./audit-chain";
+import {
+  getBearerToken,
+  hashApiKey,
+  isApiKey,
+  verifyAccessToken,
+} from "./auth";
+
+// ============================================================================
+// IDEMPOTENCY KEYS
+// ============================================================================
+// A mutating request with an `Idempotency-Key` header is executed once per
+// authenticated caller and key; requests without a valid access token or
+// API key pass through without a key. The response is stored; a replay of the same request gets
+// the stored response (header `Idempotent-Replayed: true`) instead of
+// running the handler again. The same key with a different method, path or
+// body is rejected (422), a replay while the first request is still running
+// gets 409. Server errors, 401 and 429 are not stored, so the request can
+// be retried. Keys are kept for IDEMPOTENCY_KEY_TTL_DAYS.
+//
+// The outcome is written when the handler calls res.json / res.send, before
+// the response goes out, so it is recorded even if the client has already
+// disconnected. Text bodies are stored with their Content-Type; Buffer and
+// streamed bodies (res.write / res.end) only store the status. A key whose
+// handler never answered (e.g. server restart) stays PENDING; once its lock
+// is older than PENDING_LOCK_TIMEOUT_MS the next request takes it over and
+// runs the handler. The outcome is only written by the attempt that still
+// holds the lock, so a late first attempt cannot overwrite it.
+
+export const IDEMPOTENCY_KEY_TTL_DAYS = 7;
+
+export const PENDING_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Responses here carry credentials and must not be stored
+const EXCLUDED_PATH_PREFIXES = ["/api/auth/", "/api/admin/api-keys"];
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Who sent the request, without a database lookup. Access tokens rotate,
+ * so the user id from the token is used rather than the token itself.
+ * Null without a token or with an invalid or expired access token
+ */
+function getPrincipal(req: Request): string | null {
+  const headerApiKey = req.headers["x-api-key"];
+  const token =
+    getBearerToken(req.headers.authorization) ||
+    (typeof headerApiKey === "string" ? headerApiKey.trim() : null);
+  if (!token) return null;
+  if (isApiKey(token)) return `apikey:${hashApiKey(token)}`;
+  const payload = verifyAccessToken(token);
+  return payload ? `user:${payload.sub}` : null;
+}
+
+function isStorableStatus(status: number): boolean {
+  return status < 500 && status !== 401 && status !== 429;
+}
+
+interface StoredResponse {
+  body: unknown;
+  contentType: string | null; // null for JSON bodies
+}
+
+/**
+ * Mark the key COMPLETED with the response, or remove it when the status
+ * must not be stored so the request can be retried. Does nothing once
+ * another request has taken over the key (lockedAt changed)
+ */
+async function recordOutcome(
+  recordId: string,
+  lockedAt: Date,
+  status: number,
+  response: StoredResponse,
+): Promise<void> {
+  const heldLock = and(
+    eq(idempotencyKeys.id, recordId),
+    eq(idempotencyKeys.lockedAt, lockedAt),
+  );
+  try {
+    if (isStorableStatus(status)) {
+      await db
+        .update(idempotencyKeys)
+        .set({
+          status: "COMPLETED",
+          responseStatus: status,
+          responseBody: response.body,
+          responseContentType: response.contentType,
+          completedAt: new Date(),
+        })
+        .where(heldLock);
+    } else {
+      await db.delete(idempotencyKeys).where(heldLock);
+    }
+  } catch (error) {
+    console.error("[Idempotency] Failed to store response:", error);
+  }
+}
+
+/**
+ * Takes over a PENDING key whose lock has timed out. Returns the key with
+ * the new lock, or undefined if it is still locked or was taken by another
+ * request first
+ */
+async function takeOverStalePending(recordId: string) {
+  const [record] = await db
+    .update(idempotencyKeys)
+    .set({ lockedAt: new Date() })
+    .where(
+      and(
+        eq(idempotencyKeys.id, recordId),
+        eq(idempotencyKeys.status, "PENDING"),
+        lt(
+          idempotencyKeys.lockedAt,
+          new Date(Date.now() - PENDING_LOCK_TIMEOUT_MS),
+        ),
+      ),
+    )
+    .returning();
+  return record;
+}
+
+/**
+ * Express middleware for /api. Requests without the header or without
+ * authentication pass through
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const key = req.header("Idempotency-Key");
+  const path = `${req.baseUrl}${req.path}`;
+  if (
+    !key ||
+    !MUTATING_METHODS.has(req.method) ||
+    EXCLUDED_PATH_PREFIXES.some((prefix) => path.startsWith(prefix))
+  ) {
+    return next();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const principal = getPrincipal(req);
+  // The route answers 401 itself; nothing worth replaying
+  if (!principal) return next();
+
+  try {
+    const requestHash = createHash("sha256")
+      .update(`${req.method}\n${path}\n${canonicalJson(req.body ?? null)}`)
+      .digest("hex");
+
+    let [record] = await db
+      .insert(idempotencyKeys)
+      .values({
+        principal,
+        key,
+        method: req.method,
+        path,
+        requestHash,
+        lockedAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!record) {
+      const [existing] = await db
+        .select()
+        .from(idempotencyKeys)
+        .where(
+          and(
+            eq(idempotencyKeys.principal, principal),
+            eq(idempotencyKeys.key, key),
+          ),
+        );
+      if (existing && existing.requestHash !== requestHash) {
+        return res.status(422).json({
+          error:
+            "Idempotency-Key wurde bereits für eine andere Anfrage verwendet",
+          code: "IDEMPOTENCY_KEY_REUSED",
+        });
+      }
+      if (existing?.status === "COMPLETED") {
+        res.setHeader("Idempotent-Replayed", "true");
+        res.status(existing.responseStatus ?? 200);
+        if (existing.responseBody === null) return res.end();
+        if (existing.responseContentType) {
+          return res
+            .type(existing.responseContentType)
+            .send(existing.responseBody);
+        }
+        return res.json(existing.responseBody);
+      }
+      // The first attempt never answered: this request runs instead
+      record = existing && (await takeOverStalePending(existing.id));
+      if (!record) {
+        // Still running, or removed in between (failed first attempt): the
+        // client retries later
+        return res.status(409).json({
+          error: "Anfrage wird noch verarbeitet. Bitte erneut versuchen.",
+          code: "IDEMPOTENCY_IN_PROGRESS",
+        });
+      }
+    }
+
+    // res.json calls res.send and res.send with an object calls res.json:
+    // whichever comes first records the outcome, the inner call passes through
+    const { id: recordId, lockedAt } = record;
+    let recorded = false;
+    const sendAfterRecording = (response: StoredResponse, send: () => void) => {
+      recorded = true;
+      void recordOutcome(recordId, lockedAt, res.statusCode, response).finally(
+        send,
+      );
+      return res;
+    };
+
+    const originalJson = res.json.bind(res);
+    const originalSend = res.send.bind(res);
+    res.json = (body?: any) => {
+      if (recorded) return originalJson(body);
+      return sendAfterRecording({ body: body ?? null, contentType: null }, () =>
+        originalJson(body),
+      );
+    };
+    res.send = (body?: any) => {
+      if (recorded) return originalSend(body);
+      const response: StoredResponse =
+        typeof body === "string"
+          ? {
+              body,
+              contentType:
+                res.get("Content-Type") ?? "text/html; charset=utf-8",
+            }
+          : body !== null && typeof body === "object" && !Buffer.isBuffer(body)
+            ? { body, contentType: null }
+            : { body: null, contentType: null };
+      return sendAfterRecording(response, () => originalSend(body));
+    };
+
+    // Streamed responses bypass res.send: record them once they are written
+    res.on("finish", () => {
+      if (recorded) return;
+      recorded = true;
+      void recordOutcome(recordId, lockedAt, res.statusCode, {
+        body: null,
+        contentType: null,
+      });
+    });
+
+    next();
+  } catch (error) {
+    console.error("[Idempotency] Key lookup failed:", error);
+    res.status(500).json({ error: "Idempotency check failed" });
+  }
+}
+
+/** Deletes keys older than the TTL. Returns the number of deleted keys */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - IDEMPOTENCY_KEY_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const deleted = await db
+    .delete(idempotencyKeys)
+    .where(lt(idempotencyKeys.createdAt, cutoff))
+    .returning({ id: idempotencyKeys.id });
+  return deleted.length;
+}
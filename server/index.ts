@@ -1,6 +1,9 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
+import type { Server } from "http";
 import { registerRoutes } from "./routes";
+import { stopLeaderLoop } from "./scheduler-leader";
+import { pool } from "./db";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -40,7 +43,7 @@ function setupCors(app: express.Application) {
         );
         res.header(
           "Access-Control-Allow-Headers",
-          "Content-Type, Authorization, x-user-id, x-replit-user-id, x-replit-user-name, x-replit-user-roles",
+          "Content-Type, Authorization, X-API-Key, X-Site-Id, Idempotency-Key, x-replit-user-id, x-replit-user-name, x-replit-user-roles",
         );
         res.header("Access-Control-Allow-Credentials", "true");
       }
@@ -52,7 +55,7 @@ function setupCors(app: express.Application) {
       );
       res.header(
         "Access-Control-Allow-Headers",
-        "Content-Type, Authorization, x-replit-user-id, x-replit-user-name, x-replit-user-roles",
+        "Content-Type, Authorization, X-API-Key, X-Site-Id, Idempotency-Key, x-replit-user-id, x-replit-user-name, x-replit-user-roles",
       );
     }
 
@@ -233,6 +236,42 @@ function setupErrorHandler(app: express.Application) {
   });
 }
 
+// Requests still running after this are cut off
+const SHUTDOWN_TIMEOUT_MS = 15_000;
+
+/**
+ * Graceful shutdown on SIGTERM/SIGINT: stop the background jobs and hand
+ * over the scheduler lease, let running requests finish, then close the
+ * database pool
+ */
+function setupGracefulShutdown(server: Server) {
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log(`${signal} received, shutting down`);
+    setTimeout(() => {
+      console.error("Shutdown timed out, exiting");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    try {
+      await stopLeaderLoop();
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+      await pool.end();
+      process.exit(0);
+    } catch (error) {
+      console.error("Shutdown failed:", error);
+      process.exit(1);
+    }
+  };
+
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+}
+
 (async () => {
   // Log database configuration at startup (show host only, no credentials)
   try {
@@ -242,6 +281,9 @@ function setupErrorHandler(app: express.Application) {
     log(`Using Supabase PostgreSQL via DATABASE_URL`);
   }
 
+  // Behind the Replit proxy: take req.ip from the first X-Forwarded-For hop
+  app.set("trust proxy", 1);
+
   setupCors(app);
   setupBodyParsing(app);
   setupRequestLogging(app);
@@ -263,4 +305,6 @@ function setupErrorHandler(app: express.Application) {
       log(`express server serving on port ${port}`);
     },
   );
+
+  setupGracefulShutdown(server);
 })();
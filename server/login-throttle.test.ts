@@ -0,0 +1,115 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+import type { ThrottleKey } from "./login-throttle";
+
+describe("login throttle", () => {
+  let testDb: TestDatabase;
+  let throttle: typeof import("./login-throttle");
+  let db: typeof import("./db").db;
+  let loginThrottles: typeof import("@shared/schema").loginThrottles;
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    throttle = await import("./login-throttle");
+    ({ db } = await import("./db"));
+    ({ loginThrottles } = await import("@shared/schema"));
+  });
+
+  after(() => testDb.stop());
+
+  beforeEach(async () => {
+    await db.delete(loginThrottles);
+  });
+
+  async function getFailedCount(key: ThrottleKey): Promise<number> {
+    const rows = await db.select().from(loginThrottles);
+    return (
+      rows.find((row) => row.scope === key.scope && row.key === key.key)
+        ?.failedCount ?? 0
+    );
+  }
+
+  // Skip the progressive delay so the next attempt is allowed right away
+  async function expireDelays(): Promise<void> {
+    await db.update(loginThrottles).set({ blockedUntil: null });
+  }
+
+  test("count parallel guesses one by one", async () => {
+    const pinKey: ThrottleKey = { scope: "PIN", key: "user-1" };
+    const attempts = await Promise.all(
+      Array.from({ length: 10 }, () => throttle.acquireLoginAttempt([pinKey])),
+    );
+
+    // 2 free attempts, the 3rd starts the delay and blocks the rest
+    assert.equal(attempts.filter((attempt) => attempt.allowed).length, 3);
+    assert.equal(await getFailedCount(pinKey), 3);
+  });
+
+  test("lock a PIN after 5 failed attempts", async () => {
+    const pinKey: ThrottleKey = { scope: "PIN", key: "user-1" };
+    for (let i = 1; i <= 4; i++) {
+      const attempt = await throttle.acquireLoginAttempt([pinKey]);
+      assert.ok(attempt.allowed);
+      assert.deepEqual(attempt.lockouts, []);
+      await expireDelays();
+    }
+
+    const fifth = await throttle.acquireLoginAttempt([pinKey]);
+    assert.ok(fifth.allowed);
+    assert.equal(fifth.lockouts.length, 1);
+    assert.equal(fifth.lockouts[0].failedCount, 5);
+
+    await expireDelays();
+    const sixth = await throttle.acquireLoginAttempt([pinKey]);
+    assert.ok(!sixth.allowed);
+    assert.ok(sixth.locked);
+    assert.ok(sixth.retryAfterSeconds > 25 * 60);
+    assert.equal(await getFailedCount(pinKey), 5);
+  });
+
+  test("count nothing when one of the keys is locked", async () => {
+    const pinKey: ThrottleKey = { scope: "PIN", key: "user-1" };
+    const pinIpKey: ThrottleKey = { scope: "PIN_IP", key: "10.0.0.1" };
+    await db.insert(loginThrottles).values({
+      ...pinKey,
+      failedCount: 5,
+      lockedUntil: new Date(Date.now() + 60 * 1000),
+    });
+
+    const attempt = await throttle.acquireLoginAttempt([pinIpKey, pinKey]);
+    assert.ok(!attempt.allowed);
+    assert.equal(await getFailedCount(pinIpKey), 0);
+  });
+
+  test("keep password logins open when PINs from the address are locked", async () => {
+    const ip = "10.0.0.1";
+    for (let i = 0; i < 30; i++) {
+      await throttle.acquireLoginAttempt([{ scope: "PIN_IP", key: ip }]);
+      await expireDelays();
+    }
+    const pinAttempt = await throttle.acquireLoginAttempt([
+      { scope: "PIN_IP", key: ip },
+    ]);
+    assert.ok(pinAttempt.locked);
+
+    const passwordAttempt = await throttle.acquireLoginAttempt([
+      { scope: "EMAIL", key: "fahrer@example.com" },
+      { scope: "IP", key: ip },
+    ]);
+    assert.ok(passwordAttempt.allowed);
+  });
+
+  test("take back successful attempts", async () => {
+    const emailKey: ThrottleKey = { scope: "EMAIL", key: "fahrer@example.com" };
+    const ipKey: ThrottleKey = { scope: "IP", key: "10.0.0.1" };
+    await throttle.acquireLoginAttempt([emailKey, ipKey]);
+    await throttle.acquireLoginAttempt([emailKey, ipKey]);
+
+    await throttle.clearLoginThrottle(emailKey);
+    await throttle.releaseLoginAttempt([ipKey]);
+
+    assert.equal(await getFailedCount(emailKey), 0);
+    assert.equal(await getFailedCount(ipKey), 1);
+  });
+});
@@ -0,0 +1,286 @@
+import { loginThrottles, type LoginThrottle } from "@shared/schema";
+import { db, type DbTransaction } from "./db";
+import { and, eq, gt, sql, TransactionRollbackError } from "drizzle-orm";
+
+// ============================================================================
+// LOGIN THROTTLING
+// ============================================================================
+// Failed logins are counted per scope/key (e.g. EMAIL + address, IP + address,
+// PIN + user id, PIN_IP + address).
+// After `freeAttempts` failures each further attempt is delayed progressively
+// (1s, 2s, 4s, ... up to maxDelaySeconds). Reaching `lockoutThreshold` locks
+// the key for `lockoutMinutes`. Counters reset after `windowMinutes` without
+// a lockout and on successful login.
+//
+// acquireLoginAttempt() counts an attempt as failed before the credentials
+// are checked, with one conditional upsert per key. Parallel guesses therefore
+// each get their own count and cannot pass the limits together. Successful
+// attempts are taken back with clearLoginThrottle() / releaseLoginAttempt().
+
+export type ThrottleScope = "EMAIL" | "IP" | "PIN" | "PIN_IP";
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  lockoutThreshold: number;
+  lockoutMinutes: number;
+  windowMinutes: number;
+  maxDelaySeconds: number;
+}
+
+const THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  EMAIL: {
+    freeAttempts: 3,
+    lockoutThreshold: 10,
+    lockoutMinutes: 15,
+    windowMinutes: 15,
+    maxDelaySeconds: 30,
+  },
+  // Higher limits: several drivers share one plant network / NAT address
+  IP: {
+    freeAttempts: 10,
+    lockoutThreshold: 50,
+    lockoutMinutes: 15,
+    windowMinutes: 15,
+    maxDelaySeconds: 10,
+  },
+  // A 4-digit PIN has only 10,000 combinations: lock early and for longer
+  PIN: {
+    freeAttempts: 2,
+    lockoutThreshold: 5,
+    lockoutMinutes: 30,
+    windowMinutes: 30,
+    maxDelaySeconds: 5,
+  },
+  // PIN guesses across all users of one terminal / depot network. Kept apart
+  // from IP so wrong PINs never block password logins from the same address
+  PIN_IP: {
+    freeAttempts: 10,
+    lockoutThreshold: 30,
+    lockoutMinutes: 30,
+    windowMinutes: 30,
+    maxDelaySeconds: 10,
+  },
+};
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  key: string;
+}
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface ThrottleLockout {
+  scope: ThrottleScope;
+  key: string;
+  failedCount: number;
+  lockedUntil: Date;
+}
+
+export interface LoginAttempt extends ThrottleStatus {
+  // Keys this attempt locks if it fails (for the ACCOUNT_LOCKED log)
+  lockouts: ThrottleLockout[];
+}
+
+async function getThrottle(
+  { scope, key }: ThrottleKey,
+  executor: DbTransaction | typeof db = db,
+): Promise<LoginThrottle | undefined> {
+  const [row] = await executor
+    .select()
+    .from(loginThrottles)
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  return row || undefined;
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+async function getThrottleStatus(
+  keys: ThrottleKey[],
+  now: Date,
+  executor: DbTransaction | typeof db = db,
+): Promise<ThrottleStatus> {
+  const status: ThrottleStatus = {
+    allowed: true,
+    locked: false,
+    retryAfterSeconds: 0,
+  };
+
+  for (const throttleKey of keys) {
+    const row = await getThrottle(throttleKey, executor);
+    if (!row) continue;
+
+    if (row.lockedUntil && row.lockedUntil > now) {
+      status.allowed = false;
+      status.locked = true;
+      status.retryAfterSeconds = Math.max(
+        status.retryAfterSeconds,
+        secondsUntil(row.lockedUntil, now),
+      );
+    } else if (row.blockedUntil && row.blockedUntil > now) {
+      status.allowed = false;
+      status.retryAfterSeconds = Math.max(
+        status.retryAfterSeconds,
+        secondsUntil(row.blockedUntil, now),
+      );
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Check whether an attempt is currently allowed for all given keys without
+ * counting it (for requests that are not guesses, e.g. reset mail requests)
+ */
+export async function checkLoginThrottle(
+  keys: ThrottleKey[],
+): Promise<ThrottleStatus> {
+  return getThrottleStatus(keys, new Date());
+}
+
+/**
+ * Count one attempt for a key unless the key is currently delayed or locked
+ * Returns the updated row, or undefined if the attempt is not allowed
+ *
+ * Timestamps are passed as ISO strings: the columns are timestamps without
+ * time zone holding UTC, like the values Drizzle writes.
+ */
+async function countAttempt(
+  tx: DbTransaction,
+  throttleKey: ThrottleKey,
+  now: Date,
+): Promise<LoginThrottle | undefined> {
+  const policy = THROTTLE_POLICIES[throttleKey.scope];
+  const t = loginThrottles;
+  const nowValue = now.toISOString();
+  const windowStart = new Date(
+    now.getTime() - policy.windowMinutes * 60 * 1000,
+  ).toISOString();
+
+  // Rows that pass the conflict condition are not locked, so a lockedUntil
+  // still set means an expired lockout: start a new window
+  const startNewWindow = sql`(${t.lockedUntil} IS NOT NULL OR ${t.firstFailedAt} IS NULL OR ${t.firstFailedAt} < ${windowStart}::timestamp)`;
+  const failedCount = sql`(CASE WHEN ${startNewWindow} THEN 1 ELSE ${t.failedCount} + 1 END)`;
+
+  const [row] = await tx
+    .insert(loginThrottles)
+    .values({
+      ...throttleKey,
+      failedCount: 1,
+      firstFailedAt: now,
+      lastFailedAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [t.scope, t.key],
+      set: {
+        failedCount: sql`${failedCount}`,
+        firstFailedAt: sql`CASE WHEN ${startNewWindow} THEN ${nowValue}::timestamp ELSE ${t.firstFailedAt} END`,
+        lastFailedAt: now,
+        blockedUntil: sql`CASE WHEN ${failedCount} > ${policy.freeAttempts}::int THEN ${nowValue}::timestamp + LEAST(POWER(2, ${failedCount} - ${policy.freeAttempts}::int - 1), ${policy.maxDelaySeconds}::int) * INTERVAL '1 second' END`,
+        lockedUntil: sql`CASE WHEN ${failedCount} >= ${policy.lockoutThreshold}::int THEN ${nowValue}::timestamp + ${policy.lockoutMinutes}::int * INTERVAL '1 minute' END`,
+        updatedAt: now,
+      },
+      setWhere: sql`(${t.lockedUntil} IS NULL OR ${t.lockedUntil} <= ${nowValue}::timestamp) AND (${t.blockedUntil} IS NULL OR ${t.blockedUntil} <= ${nowValue}::timestamp)`,
+    })
+    .returning();
+  return row || undefined;
+}
+
+/**
+ * Count a login attempt for all given keys before the credentials are checked
+ * If any key is delayed or locked, nothing is counted and the attempt is
+ * denied. Allowed attempts stay counted as failures until the caller takes
+ * them back on success (clearLoginThrottle / releaseLoginAttempt).
+ */
+export async function acquireLoginAttempt(
+  keys: ThrottleKey[],
+): Promise<LoginAttempt> {
+  const now = new Date();
+  const attempt: LoginAttempt = {
+    allowed: true,
+    locked: false,
+    retryAfterSeconds: 0,
+    lockouts: [],
+  };
+
+  try {
+    await db.transaction(async (tx) => {
+      for (const throttleKey of keys) {
+        const row = await countAttempt(tx, throttleKey, now);
+        if (!row) {
+          Object.assign(attempt, await getThrottleStatus(keys, now, tx), {
+            lockouts: [],
+          });
+          return tx.rollback();
+        }
+        if (row.lockedUntil) {
+          attempt.lockouts.push({
+            ...throttleKey,
+            failedCount: row.failedCount,
+            lockedUntil: row.lockedUntil,
+          });
+        }
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) {
+      throw error;
+    }
+  }
+
+  return attempt;
+}
+
+/**
+ * Take back an allowed attempt that turned out not to be a failure
+ * For keys that are not reset on success, e.g. the client IP
+ */
+export async function releaseLoginAttempt(keys: ThrottleKey[]): Promise<void> {
+  const now = new Date();
+  for (const throttleKey of keys) {
+    const policy = THROTTLE_POLICIES[throttleKey.scope];
+    const t = loginThrottles;
+    const failedCount = sql`GREATEST(${t.failedCount} - 1, 0)`;
+    await db
+      .update(loginThrottles)
+      .set({
+        failedCount: sql`${failedCount}`,
+        blockedUntil: sql`CASE WHEN ${failedCount} > ${policy.freeAttempts}::int THEN ${t.blockedUntil} END`,
+        lockedUntil: sql`CASE WHEN ${failedCount} >= ${policy.lockoutThreshold}::int THEN ${t.lockedUntil} END`,
+        updatedAt: now,
+      })
+      .where(and(eq(t.scope, throttleKey.scope), eq(t.key, throttleKey.key)));
+  }
+}
+
+/**
+ * Reset the counter for a key (successful login or admin unlock)
+ * Returns true if the key was locked at the time
+ */
+export async function clearLoginThrottle({
+  scope,
+  key,
+}: ThrottleKey): Promise<boolean> {
+  const [row] = await db
+    .delete(loginThrottles)
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+    .returning();
+  return !!row?.lockedUntil && row.lockedUntil > new Date();
+}
+
+/**
+ * List all keys that are currently locked out
+ */
+export async function getActiveLockouts(): Promise<LoginThrottle[]> {
+  return db
+    .select()
+    .from(loginThrottles)
+    .where(gt(loginThrottles.lockedUntil, new Date()));
+}
@@ -0,0 +1,123 @@
+import { mailOutbox, type MailOutboxEntry } from "@shared/schema";
+import { db } from "./db";
+import { eq } from "drizzle-orm";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+// ============================================================================
+// MAIL OUTBOX
+// ============================================================================
+// Outgoing mail is always recorded in the mail_outbox table first and then
+// handed to the active transport. The default "file" transport writes each
+// mail as a .eml file to MAIL_OUTBOX_DIR, a stand-in until a real SMTP relay
+// is configured. Other transports can be plugged in via setMailTransport().
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { id: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "ContainerFlow <no-reply@localhost>";
+
+/**
+ * Transport that writes each mail as an RFC 822 style .eml file
+ */
+export function createFileMailTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+    async send({ id, to, subject, body }) {
+      await mkdir(directory, { recursive: true });
+      const content = [
+        `Message-ID: <${id}@containerflow>`,
+        `Date: ${new Date().toUTCString()}`,
+        `From: ${MAIL_FROM}`,
+        `To: ${to}`,
+        `Subject: ${subject}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        body,
+      ].join("\r\n");
+      const fileName = `${Date.now()}-${id}.eml`;
+      await writeFile(path.join(directory, fileName), content, "utf8");
+    },
+  };
+}
+
+/**
+ * Transport that only prints the mail to the server log
+ */
+export function createConsoleMailTransport(): MailTransport {
+  return {
+    name: "console",
+    async send({ to, subject, body }) {
+      console.log(`[Mail] To: ${to} | ${subject}\n${body}`);
+    },
+  };
+}
+
+function resolveDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "console") {
+    return createConsoleMailTransport();
+  }
+  return createFileMailTransport(
+    process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), ".mail-outbox"),
+  );
+}
+
+let activeTransport: MailTransport = resolveDefaultTransport();
+
+/**
+ * Replace the transport used for all subsequent mails
+ */
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
+
+/**
+ * Record a mail in the outbox and try to deliver it right away
+ * Delivery failures are stored on the outbox row and never thrown
+ */
+export async function sendMail(message: MailMessage): Promise<MailOutboxEntry> {
+  const [entry] = await db
+    .insert(mailOutbox)
+    .values({
+      recipient: message.to,
+      subject: message.subject,
+      body: message.body,
+    })
+    .returning();
+
+  try {
+    await activeTransport.send({ ...message, id: entry.id });
+    const [sent] = await db
+      .update(mailOutbox)
+      .set({
+        status: "SENT",
+        transport: activeTransport.name,
+        attempts: entry.attempts + 1,
+        sentAt: new Date(),
+      })
+      .where(eq(mailOutbox.id, entry.id))
+      .returning();
+    return sent;
+  } catch (error) {
+    console.error(`[Mail] Delivery of ${entry.id} failed:`, error);
+    const [failed] = await db
+      .update(mailOutbox)
+      .set({
+        status: "FAILED",
+        transport: activeTransport.name,
+        attempts: entry.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(mailOutbox.id, entry.id))
+      .returning();
+    return failed;
+  }
+}
@@ -0,0 +1,311 @@
+import { retentionPolicies, type RetentionPolicy } from "@shared/schema";
+import { db } from "./db";
+import { assertLeadership, type LeaderLease } from "./scheduler-leader";
+import { asc, eq, sql, type SQL } from "drizzle-orm";
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import { gzip } from "zlib";
+
+// ============================================================================
+// DATA RETENTION
+// ============================================================================
+// scan_events, activity_logs and task_events keep `hotMonths` of history in
+// the live table. Older rows are moved out in batches by the hourly job:
+//   ARCHIVE_TABLE - into event_archive (full row as jsonb)
+//   NDJSON        - appended to gzipped NDJSON files in ARCHIVE_DIR,
+//                   one file per table and month of the run
+// Each batch is one transaction (copy + delete), so a row is never lost and
+// never in both places. Every run moves at most MAX_ROWS_PER_RUN rows per
+// table; a large backlog is worked off over several hours.
+//
+// The audit chains (task_events, scan_events) are archived as a prefix in
+// chainSeq order and the chain head always stays hot, so the remaining rows
+// still verify from their first row (see verifyChain).
+
+export type RetentionTable = "scan_events" | "activity_logs" | "task_events";
+
+export const RETENTION_TABLES: RetentionTable[] = [
+  "scan_events",
+  "activity_logs",
+  "task_events",
+];
+
+export type RetentionMode = "ARCHIVE_TABLE" | "NDJSON";
+
+export const RETENTION_MODES: RetentionMode[] = ["ARCHIVE_TABLE", "NDJSON"];
+
+const TABLE_TIME_COLUMNS: Record<RetentionTable, string> = {
+  scan_events: "scanned_at",
+  activity_logs: "timestamp",
+  task_events: "timestamp",
+};
+
+const CHAINED_TABLES = new Set<RetentionTable>(["scan_events", "task_events"]);
+
+const BATCH_SIZE = 1000;
+const MAX_ROWS_PER_RUN = 50_000;
+
+const ARCHIVE_DIR =
+  process.env.ARCHIVE_DIR || path.resolve(process.cwd(), "archive");
+
+const gzipAsync = promisify(gzip);
+
+let retentionRunning = false;
+
+export function isRetentionRunning(): boolean {
+  return retentionRunning;
+}
+
+/**
+ * Creates the default policy (24 months hot, archive table) for every
+ * event table that has none yet
+ */
+export async function initializeRetentionPolicies(): Promise<void> {
+  await db
+    .insert(retentionPolicies)
+    .values(RETENTION_TABLES.map((tableName) => ({ tableName })))
+    .onConflictDoNothing();
+}
+
+export function getRetentionCutoff(hotMonths: number, now = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - hotMonths);
+  return cutoff;
+}
+
+/**
+ * Rows of `table` that are due for archiving.
+ * For chained tables this is the chain prefix before the first row newer
+ * than the cutoff; the head row is always kept
+ */
+async function getDuePredicate(
+  table: RetentionTable,
+  cutoff: Date,
+): Promise<SQL> {
+  const time = sql.identifier(TABLE_TIME_COLUMNS[table]);
+  const cutoffValue = sql`${cutoff.toISOString()}::timestamp`;
+  if (!CHAINED_TABLES.has(table)) {
+    return sql`${time} < ${cutoffValue}`;
+  }
+
+  const result = await db.execute(sql`
+    SELECT LEAST(
+      (SELECT MIN(chain_seq) FROM ${sql.identifier(table)}
+        WHERE ${time} >= ${cutoffValue}),
+      (SELECT MAX(chain_seq) FROM ${sql.identifier(table)})
+    ) AS boundary
+  `);
+  const boundary = (result.rows[0] as { boundary: number | null } | undefined)
+    ?.boundary;
+  return boundary === null || boundary === undefined
+    ? sql`FALSE`
+    : sql`chain_seq < ${Number(boundary)}`;
+}
+
+function getArchiveFile(table: RetentionTable, runStartedAt: Date): string {
+  const month = runStartedAt.toISOString().slice(0, 7);
+  return path.join(ARCHIVE_DIR, table, `${table}-${month}.ndjson.gz`);
+}
+
+/**
+ * Moves one batch of due rows out of `table`. Returns the number of rows
+ * moved (0 when nothing is due anymore)
+ */
+async function archiveBatch(
+  policy: RetentionPolicy,
+  due: SQL,
+  runStartedAt: Date,
+  lease?: LeaderLease,
+): Promise<number> {
+  const table = policy.tableName as RetentionTable;
+  const source = sql.identifier(table);
+  const time = sql.identifier(TABLE_TIME_COLUMNS[table]);
+  const order = CHAINED_TABLES.has(table) ? sql`chain_seq` : sql`${time}, id`;
+
+  return db.transaction(async (tx) => {
+    if (lease) await assertLeadership(tx, lease);
+    const batch = await tx.execute(sql`
+      SELECT id FROM ${source}
+      WHERE ${due}
+      ORDER BY ${order}
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    `);
+    const ids = (batch.rows as { id: string }[]).map((row) => row.id);
+    if (ids.length === 0) return 0;
+    const idList = sql`(${sql.join(
+      ids.map((id) => sql`${id}`),
+      sql`, `,
+    )})`;
+
+    // Activity logs keep the id of their archived scan in metadata
+    if (table === "scan_events") {
+      await tx.execute(sql`
+        UPDATE activity_logs
+        SET metadata = COALESCE(metadata, '{}'::jsonb)
+              || jsonb_build_object('archivedScanEventId', scan_event_id),
+            scan_event_id = NULL
+        WHERE scan_event_id IN ${idList}
+      `);
+    }
+
+    if (policy.mode === "NDJSON") {
+      const rows = await tx.execute(sql`
+        SELECT to_jsonb(src) AS data FROM ${source} src
+        WHERE src.id IN ${idList}
+        ORDER BY ${order}
+      `);
+      const lines = (rows.rows as { data: unknown }[])
+        .map((row) => `${JSON.stringify(row.data)}\n`)
+        .join("");
+      // Written before the delete commits; if the transaction fails the
+      // rows stay hot and are written again (recognizable by id)
+      const file = getArchiveFile(table, runStartedAt);
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, await gzipAsync(lines));
+    } else {
+      await tx.execute(sql`
+        INSERT INTO event_archive (source_table, row_id, occurred_at, data)
+        SELECT ${table}::text, src.id, src.${time}, to_jsonb(src)
+        FROM ${source} src
+        WHERE src.id IN ${idList}
+        ON CONFLICT (source_table, row_id) DO NOTHING
+      `);
+    }
+
+    await tx.execute(sql`DELETE FROM ${source} WHERE id IN ${idList}`);
+    return ids.length;
+  });
+}
+
+/**
+ * Archives the due rows of one table, recording progress on the policy row
+ */
+async function runPolicy(
+  policy: RetentionPolicy,
+  lease?: LeaderLease,
+): Promise<number> {
+  const table = policy.tableName as RetentionTable;
+  const runStartedAt = new Date();
+  const due = await getDuePredicate(
+    table,
+    getRetentionCutoff(policy.hotMonths, runStartedAt),
+  );
+
+  const [pending] = (
+    await db.execute(
+      sql`SELECT count(*)::int AS count FROM ${sql.identifier(table)} WHERE ${due}`,
+    )
+  ).rows as { count: number }[];
+
+  await db
+    .update(retentionPolicies)
+    .set({
+      status: "RUNNING",
+      pendingRows: pending?.count ?? 0,
+      processedRows: 0,
+      lastRunStartedAt: runStartedAt,
+      lastError: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(retentionPolicies.id, policy.id));
+
+  let processed = 0;
+  try {
+    while (processed < MAX_ROWS_PER_RUN) {
+      const moved = await archiveBatch(policy, due, runStartedAt, lease);
+      if (moved === 0) break;
+      processed += moved;
+      await db
+        .update(retentionPolicies)
+        .set({ processedRows: processed, updatedAt: new Date() })
+        .where(eq(retentionPolicies.id, policy.id));
+    }
+
+    await db
+      .update(retentionPolicies)
+      .set({
+        status: "IDLE",
+        processedRows: processed,
+        totalArchivedRows: sql`${retentionPolicies.totalArchivedRows} + ${processed}`,
+        lastRunFinishedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(retentionPolicies.id, policy.id));
+  } catch (error) {
+    console.error(`[Retention] Archiving ${table} failed:`, error);
+    await db
+      .update(retentionPolicies)
+      .set({
+        status: "FAILED",
+        processedRows: processed,
+        totalArchivedRows: sql`${retentionPolicies.totalArchivedRows} + ${processed}`,
+        lastRunFinishedAt: new Date(),
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(retentionPolicies.id, policy.id));
+  }
+  return processed;
+}
+
+/**
+ * Runs all enabled policies one after another. Returns the number of rows
+ * moved per table, or null when a run is already in progress. With the
+ * leader's lease every batch checks that it is still held
+ */
+export async function runRetention(
+  lease?: LeaderLease,
+): Promise<Partial<Record<RetentionTable, number>> | null> {
+  if (retentionRunning) return null;
+  retentionRunning = true;
+  try {
+    const policies = await db
+      .select()
+      .from(retentionPolicies)
+      .where(eq(retentionPolicies.isEnabled, true))
+      .orderBy(asc(retentionPolicies.tableName));
+
+    const archived: Partial<Record<RetentionTable, number>> = {};
+    for (const policy of policies) {
+      archived[policy.tableName as RetentionTable] = await runPolicy(
+        policy,
+        lease,
+      );
+    }
+    return archived;
+  } finally {
+    retentionRunning = false;
+  }
+}
+
+export interface RetentionStatus extends RetentionPolicy {
+  cutoff: Date;
+  hotRows: number;
+  remainingRows: number;
+}
+
+/** Policies with the current table sizes, for the admin dashboard */
+export async function getRetentionStatus(): Promise<RetentionStatus[]> {
+  const policies = await db
+    .select()
+    .from(retentionPolicies)
+    .orderBy(asc(retentionPolicies.tableName));
+
+  const statuses: RetentionStatus[] = [];
+  for (const policy of policies) {
+    const [hot] = (
+      await db.execute(
+        sql`SELECT count(*)::int AS count FROM ${sql.identifier(policy.tableName)}`,
+      )
+    ).rows as { count: number }[];
+    statuses.push({
+      ...policy,
+      cutoff: getRetentionCutoff(policy.hotMonths),
+      hotRows: hot?.count ?? 0,
+      remainingRows: Math.max(0, policy.pendingRows - policy.processedRows),
+    });
+  }
+  return statuses;
+}
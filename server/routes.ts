@@ -1,8 +1,130 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "node:http";
-import { storage } from "./storage";
+import { eventSiteCondition, storage, type ActivityLogCursor } from "./storage";
 import { createHash } from "crypto";
-import { checkDatabaseHealth, db } from "./db";
+import { checkDatabaseHealth, db, type DbTransaction } from "./db";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  generateApiKey,
+  generateDeviceId,
+  generatePasswordResetToken,
+  generateRefreshToken,
+  getBearerToken,
+  getPasswordResetTokenExpiry,
+  getRefreshTokenExpiry,
+  hashApiKey,
+  hashDeviceId,
+  hashPassword,
+  hashPasswordResetToken,
+  hashRefreshToken,
+  isApiKey,
+  isLegacyPasswordHash,
+  isValidPin,
+  needsPasswordRehash,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  signAccessToken,
+  verifyAccessToken,
+  verifyPassword,
+} from "./auth";
+import {
+  acquireLoginAttempt,
+  checkLoginThrottle,
+  clearLoginThrottle,
+  getActiveLockouts,
+  releaseLoginAttempt,
+  type LoginAttempt,
+  type ThrottleKey,
+} from "./login-throttle";
+import { sendMail } from "./mailer";
+import { anonymizeUser, buildUserDataExport } from "./gdpr";
+import {
+  AUDIT_CHAINS,
+  CHAIN_HASHED_FIELDS,
+  GENESIS_HASH,
+  REDACTION_ACTION,
+  appendScanEvent,
+  appendTaskEvent,
+  getChainSegment,
+  lockAuditChains,
+  sealUnchainedEvents,
+  verifyChain,
+  type AuditChainName,
+} from "./audit-chain";
+import {
+  TIMELINE_SOURCES,
+  decodeTimelineCursor,
+  getAuditTimeline,
+  type TimelineFilters,
+  type TimelineSource,
+} from "./audit-timeline";
+import {
+  RETENTION_MODES,
+  RETENTION_TABLES,
+  getRetentionStatus,
+  initializeRetentionPolicies,
+  isRetentionRunning,
+  runRetention,
+} from "./retention";
+import {
+  checkWorkflowTransition,
+  countTasksInStates,
+  deleteWorkflowOverride,
+  getInheritedWorkflow,
+  getWorkflow,
+  listWorkflowOverrides,
+  saveWorkflowOverride,
+} from "./workflows";
+import {
+  buildTaskUndoSnapshot,
+  getTaskUndoInfo,
+  pickBoxUndoState,
+  undoLastTaskTransition,
+} from "./task-undo";
+import { idempotency, purgeExpiredIdempotencyKeys } from "./idempotency";
+import {
+  findExpiredClaims,
+  getClaimExpiry,
+  isClaimExpired,
+  listClaimTtlRules,
+  replaceClaimTtlRules,
+  validateClaimTtlRules,
+} from "./claims";
+import {
+  createFactoryCalendarLoader,
+  getPublicHolidays,
+  loadFactoryCalendar,
+  resolveScheduledDate,
+  validateFactoryCalendarEntry,
+} from "./factory-calendar";
+import {
+  BERLIN_TIMEZONE,
+  addDays,
+  diffDays,
+  formatZonedDate,
+  getLocalWeekday,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from "./zoned-time";
+import {
+  cleanupSchedulerRuns,
+  getDueSchedulerTrigger,
+  listSchedulerRuns,
+  recordSchedulerRun,
+  toSchedulerRunError,
+} from "./scheduler-runs";
+import {
+  assertLeadership,
+  getSchedulerLeader,
+  LeadershipLostError,
+  startLeaderLoop,
+  type LeaderLease,
+} from "./scheduler-leader";
+import {
+  expandRRule,
+  formatRRule,
+  isValidLocalDate,
+  parseRRule,
+} from "@shared/rrule";
 import {
   materials,
   halls,
@@ -15,10 +137,21 @@ import {
   users,
   departments,
   taskSchedules,
-  scanEvents,
+  factoryCalendarEntries,
   activityLogs,
-  assertAutomotiveTransition,
-  getAutomotiveTimestampFieldForStatus,
+  retentionPolicies,
+  getWorkflowTimestampField,
+  validateWorkflowDefinition,
+  automotiveUserRoleEnum,
+  DEFAULT_WORKFLOWS,
+  WORKFLOW_KEYS,
+  DEFAULT_CLAIM_TTL_MINUTES,
+  SCHEDULE_CALENDAR_MODES,
+  type WorkflowDefinition,
+  type WorkflowKey,
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyScope,
   type Material,
   type Hall,
   type Station,
@@ -26,6 +159,11 @@ import {
   type Box,
   type TaskEvent,
   type TaskSchedule,
+  type Site,
+  type User,
+  type ActivityLog,
+  type SchedulerRunError,
+  type SchedulerRunTrigger,
 } from "@shared/schema";
 import {
   eq,
@@ -42,42 +180,178 @@ import {
   avg,
   or,
   ilike,
+  like,
+  type SQL,
 } from "drizzle-orm";
-
-function hashPassword(password: string): string {
-  return createHash("sha256").update(password).digest("hex");
-}
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 
 // ============================================================================
 // AUTHORIZATION MIDDLEWARE
 // ============================================================================
 
 /**
- * Middleware to check if the request has a valid user ID
- * Note: In production, this should verify a session token
- * For now, we check x-user-id header or userId in body
+ * Mark a route as usable with API keys holding at least one of the scopes
+ * Must be placed before requireAuth; routes without it reject API keys
  */
-async function requireAuth(req: Request, res: Response, next: NextFunction) {
-  const userId = (req.headers["x-user-id"] as string) || req.body?.userId;
+function allowApiKey(...scopes: ApiKeyScope[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    (req as any).apiKeyScopes = scopes;
+    next();
+  };
+}
 
-  if (!userId) {
-    return res.status(401).json({ error: "Authentication required" });
+/**
+ * Authenticate a request made with an API key (see requireAuth)
+ * Every request with a known key is recorded in api_key_requests
+ */
+async function authenticateApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  key: string,
+) {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+  if (!apiKey) {
+    return res.status(401).json({ error: "Invalid API key" });
   }
 
-  const user = await storage.getUser(userId);
-  if (!user) {
-    return res.status(401).json({ error: "Invalid user" });
+  const startedAt = Date.now();
+  const ip = getClientIp(req);
+  res.on("finish", () => {
+    storage
+      .createApiKeyRequest({
+        apiKeyId: apiKey.id,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        statusCode: res.statusCode,
+        ip,
+        durationMs: Date.now() - startedAt,
+      })
+      .catch((error) =>
+        console.error("[ApiKey] Failed to record request:", error),
+      );
+  });
+
+  if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+    return res.status(401).json({ error: "API key is revoked or expired" });
+  }
+
+  const allowedScopes: ApiKeyScope[] | undefined = (req as any).apiKeyScopes;
+  if (!allowedScopes) {
+    return res
+      .status(403)
+      .json({ error: "API keys are not accepted for this endpoint" });
+  }
+  if (!apiKey.scopes.some((scope) => allowedScopes.includes(scope as any))) {
+    return res.status(403).json({
+      error: "API key lacks the required scope",
+      requiredScopes: allowedScopes,
+    });
+  }
+
+  const user = await storage.getUser(apiKey.userId);
+  if (!user || !user.isActive) {
+    return res.status(403).json({ error: "API key user is deactivated" });
   }
 
-  if (!user.isActive) {
-    return res.status(403).json({ error: "Account is deactivated" });
+  if (!(await resolveSiteScope(req, res, user))) {
+    return;
   }
 
-  // Attach user to request for downstream handlers
+  await storage.touchApiKey(apiKey.id, ip);
+
   (req as any).authUser = user;
+  (req as any).authApiKey = apiKey;
   next();
 }
 
+/**
+ * Check a specific scope inside a handler that accepts several scopes
+ * No-op for user sessions; sends a 403 and returns false for API keys
+ * without the scope
+ */
+function ensureApiKeyScope(
+  req: Request,
+  res: Response,
+  scope: ApiKeyScope,
+): boolean {
+  const apiKey = (req as any).authApiKey;
+  if (!apiKey || apiKey.scopes.includes(scope)) {
+    return true;
+  }
+  res.status(403).json({
+    error: "API key lacks the required scope",
+    requiredScopes: [scope],
+  });
+  return false;
+}
+
+/**
+ * Middleware to verify the bearer access token on the request
+ * The token's session must still be active (not revoked) and the user active
+ * API keys (Authorization: Bearer cfk_... or X-API-Key) are accepted on
+ * routes marked with allowApiKey()
+ */
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const headerApiKey = req.headers["x-api-key"];
+    const token =
+      getBearerToken(req.headers.authorization) ||
+      (typeof headerApiKey === "string" ? headerApiKey.trim() : null);
+    if (!token) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (isApiKey(token)) {
+      return await authenticateApiKey(req, res, next, token);
+    }
+
+    const payload = verifyAccessToken(token);
+    if (!payload) {
+      return res
+        .status(401)
+        .json({ error: "Invalid or expired token", code: "TOKEN_EXPIRED" });
+    }
+
+    const session = await storage.getAuthSession(payload.sid);
+    if (!session || session.revokedAt || session.userId !== payload.sub) {
+      return res.status(401).json({ error: "Session is no longer valid" });
+    }
+
+    const user = await storage.getUser(payload.sub);
+    if (!user) {
+      return res.status(401).json({ error: "Invalid user" });
+    }
+
+    if (!user.isActive) {
+      return res.status(403).json({ error: "Account is deactivated" });
+    }
+
+    if (!(await resolveSiteScope(req, res, user))) {
+      return;
+    }
+
+    // Record activity for the device list, at most once per interval
+    const ip = getClientIp(req);
+    if (
+      !session.lastUsedAt ||
+      session.ipAddress !== ip ||
+      Date.now() - session.lastUsedAt.getTime() >
+        SESSION_ACTIVITY_INTERVAL_SECONDS * 1000
+    ) {
+      await storage.touchAuthSession(session.id, ip);
+    }
+
+    // Attach user to request for downstream handlers
+    (req as any).authUser = user;
+    (req as any).authSessionId = session.id;
+    next();
+  } catch (error) {
+    console.error("Auth middleware error:", error);
+    res.status(500).json({ error: "Authentication failed" });
+  }
+}
+
 /**
  * Middleware to check if the authenticated user has admin role
  * Must be used after requireAuth
@@ -97,6 +371,124 @@ function requireAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// ============================================================================
+// SITE SCOPE
+// ============================================================================
+
+/**
+ * Sites a user may work on; null means all sites
+ * Admins and users without site assignments are not restricted
+ */
+async function getAccessibleSiteIds(user: User): Promise<string[] | null> {
+  if (user.role?.toUpperCase() === "ADMIN") {
+    return null;
+  }
+  const siteIds = await storage.getUserSiteIds(user.id);
+  return siteIds.length > 0 ? siteIds : null;
+}
+
+/**
+ * Resolve the active site of an authenticated request (see requireAuth)
+ * Takes the X-Site-Id header, falls back to the first assigned site for
+ * restricted users and sends a 403 for sites the user is not assigned to
+ */
+async function resolveSiteScope(
+  req: Request,
+  res: Response,
+  user: User,
+): Promise<boolean> {
+  const header = req.headers["x-site-id"];
+  const requestedSiteId =
+    typeof header === "string" && header.trim() ? header.trim() : null;
+  const accessibleSiteIds = await getAccessibleSiteIds(user);
+
+  if (
+    requestedSiteId &&
+    accessibleSiteIds &&
+    !accessibleSiteIds.includes(requestedSiteId)
+  ) {
+    res.status(403).json({
+      error: "Kein Zugriff auf diesen Standort",
+      code: "SITE_FORBIDDEN",
+    });
+    return false;
+  }
+
+  (req as any).activeSiteId = requestedSiteId ?? accessibleSiteIds?.[0] ?? null;
+  return true;
+}
+
+// Plant of the original single-site installation (see /api/seed/kaiserslautern)
+const DEFAULT_SITE = {
+  code: "KL",
+  name: "Werk Kaiserslautern",
+  city: "Kaiserslautern",
+};
+
+/**
+ * Get or create the default Kaiserslautern site
+ */
+async function ensureDefaultSite(): Promise<Site> {
+  return (
+    (await storage.getSiteByCode(DEFAULT_SITE.code)) ??
+    (await storage.createSite(DEFAULT_SITE))
+  );
+}
+
+/**
+ * Startup migration: on the first start without any site, create the
+ * default site and move all existing records to it
+ */
+async function initializeSites(): Promise<void> {
+  const existingSites = await storage.getSites();
+  if (existingSites.length > 0) {
+    return;
+  }
+  const site = await ensureDefaultSite();
+  const updated = await storage.assignUnscopedRecordsToSite(site.id);
+  console.log(
+    `[Sites] Created default site ${site.code}, assigned ${updated} records`,
+  );
+}
+
+/**
+ * Active site of the request; null means no site filter
+ * Only requireAuth resolves it (see resolveSiteScope), so every site-scoped
+ * route must use requireAuth: the raw X-Site-Id header is never trusted
+ */
+function getActiveSiteId(req: Request): string | null {
+  return (req as any).activeSiteId ?? null;
+}
+
+/**
+ * Condition on a siteId column for the active site
+ * undefined (ignored by and()) when no site is selected
+ */
+function siteFilter(req: Request, column: AnyPgColumn): SQL | undefined {
+  const siteId = getActiveSiteId(req);
+  return siteId ? eq(column, siteId) : undefined;
+}
+
+/**
+ * Whether a single record passes siteFilter, for routes that load by id
+ */
+function isInActiveSite(req: Request, siteId: string | null): boolean {
+  const activeSiteId = getActiveSiteId(req);
+  return !activeSiteId || siteId === activeSiteId;
+}
+
+/**
+ * Condition on the taskId column of an event table for the active site
+ * (see eventSiteCondition), undefined when no site is selected
+ */
+function eventSiteFilter(
+  req: Request,
+  taskIdColumn: AnyPgColumn,
+): SQL | undefined {
+  const siteId = getActiveSiteId(req);
+  return siteId ? eventSiteCondition(taskIdColumn, siteId) : undefined;
+}
+
 // Normalize user role to lowercase for frontend consistency
 function normalizeUserRole<T extends { role?: string }>(user: T): T {
   return {
@@ -105,29 +497,162 @@ function normalizeUserRole<T extends { role?: string }>(user: T): T {
   };
 }
 
+// Create a new auth session for the user and issue its token pair
+// Device name and platform come from the login request body
+async function issueAuthTokens(
+  userId: string,
+  req: Request,
+): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}> {
+  const { deviceName, platform } = req.body || {};
+  const refreshToken = generateRefreshToken();
+  const session = await storage.createAuthSession({
+    userId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    expiresAt: getRefreshTokenExpiry(),
+    deviceName:
+      typeof deviceName === "string" ? deviceName.slice(0, 100) : null,
+    platform: typeof platform === "string" ? platform.slice(0, 50) : null,
+    ipAddress: getClientIp(req),
+    userAgent: req.get("user-agent")?.slice(0, 255) || null,
+  });
+  return {
+    accessToken: signAccessToken(userId, session.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+// Client IP for throttling (app trusts the first proxy hop, see index.ts)
+function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+// Log ACCOUNT_LOCKED for keys the failed attempt has locked
+// (the attempt itself was already counted by acquireLoginAttempt)
+async function handleFailedLogin(
+  attempt: LoginAttempt,
+  user: User | undefined,
+): Promise<void> {
+  for (const lockout of attempt.lockouts) {
+    const lockedUntil = lockout.lockedUntil.toLocaleString("de-DE", {
+      timeZone: "Europe/Berlin",
+    });
+    const subject =
+      lockout.scope === "EMAIL"
+        ? `Konto ${lockout.key}`
+        : lockout.scope === "PIN"
+          ? `PIN-Anmeldung für ${user?.email || lockout.key}`
+          : lockout.scope === "PIN_IP"
+            ? `PIN-Anmeldungen von IP ${lockout.key}`
+            : `Anmeldungen von IP ${lockout.key}`;
+    const isAddressScope = lockout.scope === "IP" || lockout.scope === "PIN_IP";
+    await storage.createActivityLog({
+      type: "ACCOUNT_LOCKED",
+      action: "ACCOUNT_LOCKED",
+      message: `${subject} nach ${lockout.failedCount} Fehlversuchen gesperrt bis ${lockedUntil}`,
+      userId: !isAddressScope && user ? user.id : null,
+      taskId: null,
+      containerId: null,
+      scanEventId: null,
+      location: null,
+      timestamp: new Date(),
+      details: null,
+      metadata: {
+        scope: lockout.scope,
+        key: lockout.key,
+        failedCount: lockout.failedCount,
+        lockedUntil: lockout.lockedUntil.toISOString(),
+      },
+    });
+  }
+}
+
+// A refresh token that was already rotated is presented again: either the
+// legitimate client or an attacker holds a stolen copy. Revoke the session so
+// both have to log in again, and log it for the admins.
+async function handleRefreshTokenReuse(
+  refreshTokenHash: string,
+  req: Request,
+): Promise<void> {
+  const session =
+    await storage.revokeAuthSessionByReusedRefreshToken(refreshTokenHash);
+  if (!session) {
+    return;
+  }
+  const user = await storage.getUser(session.userId);
+  console.warn(
+    `[Auth] Reused refresh token for session ${session.id}, session revoked`,
+  );
+  await storage.createActivityLog({
+    type: "REFRESH_TOKEN_REUSED",
+    action: "REFRESH_TOKEN_REUSED",
+    message: `Sitzung von ${user?.email || session.userId} beendet: bereits verwendeter Refresh-Token erneut eingereicht`,
+    userId: session.userId,
+    taskId: null,
+    containerId: null,
+    scanEventId: null,
+    location: null,
+    timestamp: new Date(),
+    details: null,
+    metadata: {
+      sessionId: session.id,
+      deviceName: session.deviceName,
+      ip: getClientIp(req),
+    },
+  });
+}
+
+// Wait until a response that returned false from write() can take more data
+// Also resolves when the client disconnects, as drain never fires then
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    if (res.destroyed) {
+      return resolve();
+    }
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.once("drain", done);
+    res.once("close", done);
+  });
+}
+
+// Minimum time between two "last activity" updates of a session
+const SESSION_ACTIVITY_INTERVAL_SECONDS = 60;
+
+// Minimum time between two reset mails for the same account
+const PASSWORD_RESET_RESEND_SECONDS = 60;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Profile fields non-admins may change on their own account (PATCH /api/users/:id)
+const SELF_EDITABLE_USER_FIELDS = ["name", "phone", "password"] as const;
+
 // Helper to prepare user for API response (without password, with normalized role)
-function prepareUserResponse<T extends { password?: string; role?: string }>(
-  user: T,
-): Omit<T, "password"> {
-  const { password, ...userWithoutPassword } = user;
-  return normalizeUserRole(userWithoutPassword);
+// The PIN hash is replaced by a hasPin flag
+function prepareUserResponse<
+  T extends { password?: string; pinHash?: string | null; role?: string },
+>(user: T): Omit<T, "password" | "pinHash"> & { hasPin: boolean } {
+  const { password, pinHash, ...userWithoutPassword } = user;
+  return { ...normalizeUserRole(userWithoutPassword), hasPin: !!pinHash };
 }
 
 // ============================================================================
-// BERLIN TIMEZONE HELPERS (Europe/Berlin)
+// BERLIN TIMEZONE HELPERS (Europe/Berlin, see zoned-time.ts)
 // ============================================================================
 
+/** Midnight of the current day in Berlin */
 function getTodayBerlin(): Date {
-  const berlinDateStr = new Date().toLocaleString("en-US", {
-    timeZone: "Europe/Berlin",
-  });
-  const berlinDate = new Date(berlinDateStr);
-  berlinDate.setHours(0, 0, 0, 0);
-  return berlinDate;
+  return startOfZonedDay(formatDateBerlin(new Date()), BERLIN_TIMEZONE);
 }
 
 function formatDateBerlin(date: Date): string {
-  return date.toLocaleDateString("en-CA", { timeZone: "Europe/Berlin" });
+  return formatZonedDate(date, BERLIN_TIMEZONE);
 }
 
 // ============================================================================
@@ -135,7 +660,7 @@ function formatDateBerlin(date: Date): string {
 // ============================================================================
 
 interface AuditEventParams {
-  taskId: string;
+  taskId?: string;
   actorUserId?: string;
   actorRole?: string;
   actorDepartmentId?: string;
@@ -160,19 +685,23 @@ interface AuditEventParams {
 /**
  * Creates a comprehensive audit event in the taskEvents table
  * Automatically fetches actor's role and departmentId if actorUserId is provided
+ * With `tx` the event is written in that transaction and errors propagate
  */
-async function createAuditEvent({
-  taskId,
-  actorUserId,
-  actorRole,
-  actorDepartmentId,
-  action,
-  entityType,
-  entityId,
-  beforeData,
-  afterData,
-  metaJson,
-}: AuditEventParams): Promise<void> {
+async function createAuditEvent(
+  {
+    taskId,
+    actorUserId,
+    actorRole,
+    actorDepartmentId,
+    action,
+    entityType,
+    entityId,
+    beforeData,
+    afterData,
+    metaJson,
+  }: AuditEventParams,
+  tx?: DbTransaction,
+): Promise<void> {
   try {
     let finalActorRole = actorRole;
     let finalActorDepartmentId = actorDepartmentId;
@@ -190,19 +719,24 @@ async function createAuditEvent({
       }
     }
 
-    await db.insert(taskEvents).values({
-      taskId,
-      actorUserId: actorUserId || null,
-      actorRole: finalActorRole || null,
-      actorDepartmentId: finalActorDepartmentId || null,
-      action,
-      entityType: entityType || null,
-      entityId: entityId || null,
-      beforeData: beforeData || null,
-      afterData: afterData || null,
-      metaJson: metaJson || null,
-    });
+    await appendTaskEvent(
+      {
+        taskId: taskId || null,
+        actorUserId: actorUserId || null,
+        actorRole: finalActorRole || null,
+        actorDepartmentId: finalActorDepartmentId || null,
+        action,
+        entityType: entityType || null,
+        entityId: entityId || null,
+        beforeData: beforeData || null,
+        afterData: afterData || null,
+        metaJson: metaJson || null,
+      },
+      tx,
+    );
   } catch (error) {
+    // Inside a transaction the event is part of the operation: roll back
+    if (tx) throw error;
     console.error("[AuditEvent] Failed to create audit event:", error);
     // Don't throw - audit logging should not break the main flow
   }
@@ -244,207 +778,693 @@ async function buildStandContextMeta(standId: string): Promise<{
   return meta;
 }
 
-// ============================================================================
-// CLAIM TTL HELPER
-// ============================================================================
-
-const CLAIM_TTL_MINUTES = 30;
-
-function isClaimExpired(claimedAt: Date | null): boolean {
-  if (!claimedAt) return true;
-  const now = new Date();
-  const expiry = new Date(claimedAt.getTime() + CLAIM_TTL_MINUTES * 60 * 1000);
-  return now > expiry;
+/**
+ * Seals events written before the hash chain existed
+ */
+async function initializeAuditChains(): Promise<void> {
+  for (const chain of AUDIT_CHAINS) {
+    const sealed = await sealUnchainedEvents(chain);
+    if (sealed > 0) {
+      console.log(`[AuditChain] Sealed ${sealed} existing ${chain} rows`);
+    }
+  }
 }
 
 // ============================================================================
-// DAILY TASK SCHEDULER
+// DATA RETENTION JOB
 // ============================================================================
 
-async function generateDailyTasksScheduled() {
+/**
+ * Moves event rows past their retention period to the archive
+ * (see server/retention.ts) and records the run in the activity log.
+ * The leader passes its lease, manual runs by an admin do not
+ */
+async function runRetentionJob(
+  userId: string | null = null,
+  lease?: LeaderLease,
+): Promise<void> {
   try {
-    console.log("[DailyTaskScheduler] Running scheduled task generation...");
-    const today = getTodayBerlin();
-    const todayStr = formatDateBerlin(new Date());
-
-    // Cancel previous OPEN daily tasks from earlier dates
-    const openDailyTasks = await db
-      .select()
-      .from(tasks)
-      .where(and(eq(tasks.taskType, "DAILY_FULL"), eq(tasks.status, "OPEN")));
-    let cancelledCount = 0;
-    for (const task of openDailyTasks) {
-      if (task.dedupKey && !task.dedupKey.endsWith(`:${todayStr}`)) {
-        const beforeStatus = task.status;
-        await db
-          .update(tasks)
-          .set({
-            status: "CANCELLED",
-            cancelledAt: new Date(),
-            cancellationReason: "Auto-cancelled: New daily task generated",
-            updatedAt: new Date(),
-          })
-          .where(eq(tasks.id, task.id));
-
-        // Audit log for auto-cancellation
-        const standMeta = task.standId
-          ? await buildStandContextMeta(task.standId)
-          : {};
-        await createAuditEvent({
-          taskId: task.id,
-          action: "STATUS_CHANGED",
-          entityType: "task",
-          entityId: task.id,
-          beforeData: { status: beforeStatus },
-          afterData: {
-            status: "CANCELLED",
-            reason: "Auto-cancelled: New daily task generated",
-          },
-          metaJson: {
-            ...standMeta,
-            boxId: task.boxId || undefined,
-            source: "DAILY_SCHEDULER",
-          },
-        });
-
-        cancelledCount++;
-      }
-    }
-    if (cancelledCount > 0) {
-      console.log(
-        `[DailyTaskScheduler] Auto-cancelled ${cancelledCount} previous OPEN daily tasks.`,
-      );
-    }
-
-    // Get dailyFull stands
-    const dailyFullStands = await db
-      .select()
-      .from(stands)
-      .where(and(eq(stands.dailyFull, true), eq(stands.isActive, true)));
-
-    let createdCount = 0;
-    let skippedCount = 0;
-    for (const stand of dailyFullStands) {
-      const dedupKey = `DAILY:${stand.id}:${todayStr}`;
-      try {
-        const [newTask] = await db
-          .insert(tasks)
-          .values({
-            title: `Tägliche Abholung - Stand ${stand.identifier}`,
-            description: `Automatisch generierte tägliche Abholung`,
-            containerID: null,
-            boxId: null,
-            standId: stand.id,
-            materialType: stand.materialId || null,
-            taskType: "DAILY_FULL",
-            status: "OPEN",
-            priority: "normal",
-            scheduledFor: today,
-            dedupKey,
-          })
-          .returning();
-
-        await db
-          .update(stands)
-          .set({
-            lastDailyTaskGeneratedAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(stands.id, stand.id));
-
-        // Audit log for daily task creation
-        const standMeta = await buildStandContextMeta(stand.id);
-        await createAuditEvent({
-          taskId: newTask.id,
-          action: "TASK_CREATED",
-          entityType: "task",
-          entityId: newTask.id,
-          beforeData: null,
-          afterData: {
-            status: "OPEN",
-            taskType: "DAILY_FULL",
-            standId: stand.id,
-          },
-          metaJson: {
-            ...standMeta,
-            source: "DAILY",
-          },
-        });
-
-        createdCount++;
-      } catch (e: any) {
-        if (e?.code === "23505") {
-          skippedCount++;
-          continue;
-        }
-        console.error(
-          `[DailyTaskScheduler] Failed to create task for stand ${stand.id}:`,
-          e,
-        );
-      }
-    }
-    console.log(
-      `[DailyTaskScheduler] Completed. Created: ${createdCount}, Skipped (duplicates): ${skippedCount}`,
-    );
+    const archived = await runRetention(lease);
+    if (!archived) return;
+    const total = Object.values(archived).reduce((sum, n) => sum + n, 0);
+    if (total === 0) return;
+
+    console.log(`[Retention] Archived ${total} rows`, archived);
+    await storage.createActivityLog({
+      type: "SYSTEM_EVENT",
+      action: "SYSTEM_EVENT",
+      message: `Datenaufbewahrung: ${total} Einträge archiviert`,
+      userId,
+      taskId: null,
+      containerId: null,
+      scanEventId: null,
+      location: null,
+      timestamp: new Date(),
+      details: null,
+      metadata: { event: "RETENTION_RUN", archived },
+    });
   } catch (error) {
-    console.error("[DailyTaskScheduler] Error:", error);
+    console.error("[Retention] Retention job failed:", error);
   }
 }
 
 // ============================================================================
-// FLEXIBLE TASK SCHEDULER
-// Generates tasks based on TaskSchedule rules (DAILY, WEEKLY, INTERVAL)
+// BACKGROUND JOBS
 // ============================================================================
 
-/**
- * Get date in specific timezone as a Date object with time set to midnight local
- */
-function getDateInTimezone(date: Date, timezone: string): Date {
-  const dateStr = date.toLocaleString("en-US", { timeZone: timezone });
-  const localDate = new Date(dateStr);
-  localDate.setHours(0, 0, 0, 0);
-  return localDate;
-}
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const HOUSEKEEPING_INTERVAL_MS = 60 * 60 * 1000;
 
-/**
- * Format date as YYYY-MM-DD in specified timezone
- */
-function formatDateInTimezone(date: Date, timezone: string): string {
-  return date.toLocaleDateString("en-CA", { timeZone: timezone });
-}
+let schedulersRunning = false;
+let lastHousekeepingAt = 0;
 
 /**
- * Get day of week (1=Monday, 7=Sunday) in specified timezone
+ * Runs the daily and flexible scheduler when due. Due-ness comes from
+ * scheduler_runs, so a new leader continues the previous leader's rhythm and
+ * runs missed after downtime are caught up once (trigger CATCH_UP). A catch-up
+ * creates today's and upcoming tasks; past days are not backfilled
  */
-function getDayOfWeekInTimezone(date: Date, timezone: string): number {
-  const dateStr = date.toLocaleString("en-US", { timeZone: timezone });
-  const localDate = new Date(dateStr);
-  const day = localDate.getDay();
-  return day === 0 ? 7 : day; // Convert Sunday from 0 to 7
+async function runDueSchedulers(lease: LeaderLease): Promise<void> {
+  if (schedulersRunning) return;
+  schedulersRunning = true;
+  try {
+    const schedulers = [
+      ["DAILY", generateDailyTasksScheduled],
+      ["FLEXIBLE", generateFlexibleScheduledTasks],
+    ] as const;
+    for (const [scheduler, generate] of schedulers) {
+      if (lease.signal.aborted) return;
+      const trigger = await getDueSchedulerTrigger(
+        scheduler,
+        SCHEDULER_INTERVAL_MS,
+      );
+      if (trigger) await generate(trigger, lease);
+    }
+  } catch (error) {
+    console.error("[Schedulers] Failed to run due schedulers:", error);
+  } finally {
+    schedulersRunning = false;
+  }
 }
 
 /**
- * Calculate days between two dates (ignoring time)
+ * Called every minute on the leader instance and awaited by the leader loop,
+ * which skips ticks until all jobs have finished. Their writes check the
+ * lease (see assertLeadership)
  */
-function daysBetween(date1: Date, date2: Date): number {
-  const d1 = new Date(date1);
-  const d2 = new Date(date2);
-  d1.setHours(0, 0, 0, 0);
-  d2.setHours(0, 0, 0, 0);
-  const diffTime = d2.getTime() - d1.getTime();
-  return Math.floor(diffTime / (1000 * 60 * 60 * 24));
+async function runLeaderJobs(
+  lease: LeaderLease,
+  becameLeader: boolean,
+): Promise<void> {
+  const jobs: Promise<unknown>[] = [
+    releaseExpiredClaimsJob(lease),
+    runDueSchedulers(lease),
+  ];
+
+  const now = Date.now();
+  if (becameLeader || now - lastHousekeepingAt >= HOUSEKEEPING_INTERVAL_MS) {
+    lastHousekeepingAt = now;
+    jobs.push(
+      runRetentionJob(null, lease),
+      // Also marks runs interrupted by a shutdown as FAILED
+      cleanupSchedulerRuns().catch((error) =>
+        console.error("[SchedulerRuns] Cleanup failed:", error),
+      ),
+      purgeExpiredIdempotencyKeys().catch((error) =>
+        console.error("[Idempotency] Cleanup failed:", error),
+      ),
+    );
+  }
+  await Promise.all(jobs);
 }
 
-/**
- * Check if a task should be generated for a specific date based on schedule rule
+// ============================================================================
+// CLAIM SWEEPER
+// ============================================================================
+
+let claimSweepRunning = false;
+
+/**
+ * Releases expired task claims (TTL per task type and priority, see
+ * server/claims.ts), logs AUTO_RELEASE and mails the previous claimer
+ */
+async function releaseExpiredClaimsJob(lease: LeaderLease): Promise<void> {
+  if (claimSweepRunning) return;
+  claimSweepRunning = true;
+  try {
+    let releasedCount = 0;
+    for (const task of await findExpiredClaims()) {
+      try {
+        const expiresAt = await getClaimExpiry(task);
+        const standMeta = task.standId
+          ? await buildStandContextMeta(task.standId)
+          : {};
+        const released = await db.transaction(async (tx) => {
+          await assertLeadership(tx, lease);
+          // Conditional: a claim renewed or released meanwhile stays as it is
+          const [released] = await tx
+            .update(tasks)
+            .set({
+              claimedByUserId: null,
+              claimedAt: null,
+              version: sql`${tasks.version} + 1`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(tasks.id, task.id), eq(tasks.version, task.version)))
+            .returning();
+          if (!released) return undefined;
+          await createAuditEvent(
+            {
+              taskId: task.id,
+              action: "AUTO_RELEASE",
+              entityType: "task",
+              entityId: task.id,
+              beforeData: {
+                claimedByUserId: task.claimedByUserId,
+                claimedAt: task.claimedAt,
+              },
+              afterData: { claimedByUserId: null, claimedAt: null },
+              metaJson: {
+                ...standMeta,
+                boxId: task.boxId || undefined,
+                reason: "Claim expired after TTL",
+                source: "CLAIM_SWEEPER",
+              },
+            },
+            tx,
+          );
+          return released;
+        });
+        if (!released) continue;
+        releasedCount++;
+
+        const claimer = await storage.getUser(task.claimedByUserId!);
+        if (claimer?.isActive && claimer.email) {
+          const expiredAt = (expiresAt || new Date()).toLocaleString("de-DE", {
+            timeZone: "Europe/Berlin",
+          });
+          await sendMail({
+            to: claimer.email,
+            subject: "ContainerFlow: Reservierung abgelaufen",
+            body: [
+              `Hallo ${claimer.name},`,
+              "",
+              `Ihre Reservierung für den Auftrag "${task.title || task.id}" ist am ${expiredAt} abgelaufen und wurde automatisch freigegeben.`,
+              "Der Auftrag kann jetzt von anderen übernommen werden. Wenn Sie ihn weiter bearbeiten, beanspruchen Sie ihn bitte erneut.",
+            ].join("\n"),
+          });
+        }
+      } catch (error) {
+        if (error instanceof LeadershipLostError) throw error;
+        console.error(`[ClaimSweeper] Failed to release ${task.id}:`, error);
+      }
+    }
+    if (releasedCount > 0) {
+      console.log(`[ClaimSweeper] Released ${releasedCount} expired claims`);
+    }
+  } catch (error) {
+    console.error("[ClaimSweeper] Sweep failed:", error);
+  } finally {
+    claimSweepRunning = false;
+  }
+}
+
+// ============================================================================
+// ENTITY AUDIT LOG
+// ============================================================================
+
+type AuditedEntityType =
+  | "material"
+  | "hall"
+  | "station"
+  | "stand"
+  | "box"
+  | "user"
+  | "department"
+  | "site"
+  | "factory_calendar";
+
+type EntitySnapshot = Record<string, unknown>;
+
+const AUDIT_SNAPSHOT_LOADERS: Record<
+  AuditedEntityType,
+  (id: string) => Promise<EntitySnapshot | undefined>
+> = {
+  material: async (id) =>
+    (await db.select().from(materials).where(eq(materials.id, id)))[0],
+  hall: async (id) =>
+    (await db.select().from(halls).where(eq(halls.id, id)))[0],
+  station: async (id) =>
+    (await db.select().from(stations).where(eq(stations.id, id)))[0],
+  stand: async (id) =>
+    (await db.select().from(stands).where(eq(stands.id, id)))[0],
+  box: async (id) => (await db.select().from(boxes).where(eq(boxes.id, id)))[0],
+  user: async (id) => {
+    const user = await storage.getUser(id);
+    if (!user) return undefined;
+    return { ...user, siteIds: await storage.getUserSiteIds(id) };
+  },
+  department: (id) => storage.getDepartment(id),
+  site: (id) => storage.getSite(id),
+  factory_calendar: async (id) =>
+    (
+      await db
+        .select()
+        .from(factoryCalendarEntries)
+        .where(eq(factoryCalendarEntries.id, id))
+    )[0],
+};
+
+// Touched on every write, not a change of its own
+const AUDIT_IGNORED_FIELDS = new Set(["updatedAt"]);
+// Listed as changed, but their values never reach the audit log
+const AUDIT_REDACTED_FIELDS = ["password", "pinHash"];
+
+function getChangedFields(
+  before: EntitySnapshot | undefined,
+  after: EntitySnapshot | undefined,
+): string[] {
+  const fields = new Set(
+    Object.keys(before ?? {}).concat(Object.keys(after ?? {})),
+  );
+  return Array.from(fields).filter(
+    (field) =>
+      !AUDIT_IGNORED_FIELDS.has(field) &&
+      JSON.stringify(before?.[field] ?? null) !==
+        JSON.stringify(after?.[field] ?? null),
+  );
+}
+
+function redactSnapshot(
+  snapshot: EntitySnapshot | undefined,
+): EntitySnapshot | null {
+  if (!snapshot) return null;
+  const redacted = { ...snapshot };
+  for (const field of AUDIT_REDACTED_FIELDS) {
+    delete redacted[field];
+  }
+  return redacted;
+}
+
+/**
+ * Route middleware that writes ENTITY_CREATED / ENTITY_UPDATED /
+ * ENTITY_DELETED events (without taskId) for master-data routes.
+ * The before snapshot is read ahead of the handler, the after snapshot once
+ * a successful response has been sent. Create routes have no id param, their
+ * id is taken from the JSON response
+ */
+function auditEntity(entityType: AuditedEntityType, idParam = "id") {
+  const loadSnapshot = AUDIT_SNAPSHOT_LOADERS[entityType];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const paramId: string | undefined = req.params[idParam];
+    let beforeData: EntitySnapshot | undefined;
+    let responseId: string | undefined;
+
+    if (paramId) {
+      try {
+        beforeData = await loadSnapshot(paramId);
+      } catch (error) {
+        console.error("[EntityAudit] Failed to load snapshot:", error);
+      }
+    }
+
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (body && typeof body.id === "string") {
+        responseId = body.id;
+      }
+      return originalJson(body);
+    };
+
+    res.on("finish", async () => {
+      const entityId = paramId || responseId;
+      if (res.statusCode >= 400 || !entityId) return;
+
+      try {
+        const afterData = await loadSnapshot(entityId);
+        const changedFields = getChangedFields(beforeData, afterData);
+        if (changedFields.length === 0) return;
+
+        await createAuditEvent({
+          actorUserId: (req as any).authUser?.id,
+          action:
+            req.method === "DELETE"
+              ? "ENTITY_DELETED"
+              : paramId
+                ? "ENTITY_UPDATED"
+                : "ENTITY_CREATED",
+          entityType,
+          entityId,
+          beforeData: redactSnapshot(beforeData),
+          afterData: redactSnapshot(afterData),
+          metaJson: { source: "MASTER_DATA", changedFields },
+        });
+      } catch (error) {
+        console.error("[EntityAudit] Failed to record change:", error);
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Sends the 409 for a task update that lost against a concurrent change,
+ * with the task as it is now so the client can refresh
+ */
+async function sendTaskVersionConflict(
+  res: Response,
+  taskId: string,
+): Promise<void> {
+  const current = await storage.getTask(taskId);
+  res.status(409).json({
+    error:
+      "Der Auftrag wurde inzwischen von jemand anderem geändert. " +
+      "Bitte prüfen und erneut versuchen.",
+    code: "VERSION_CONFLICT",
+    currentStatus: current?.status,
+    currentVersion: current?.version,
+    task: current,
+  });
+}
+
+// ============================================================================
+// DAILY TASK SCHEDULER
+// ============================================================================
+
+/**
+ * Creates today's task for every dailyFull stand (recorded in scheduler_runs)
+ */
+function generateDailyTasksScheduled(
+  trigger: SchedulerRunTrigger,
+  lease: LeaderLease,
+) {
+  return recordSchedulerRun({ scheduler: "DAILY", trigger }, async () => {
+    console.log("[DailyTaskScheduler] Running scheduled task generation...");
+    const today = getTodayBerlin();
+    const todayStr = formatDateBerlin(new Date());
+    const getCalendar = createFactoryCalendarLoader();
+    const isWorkingToday = async (siteId: string | null) =>
+      (await getCalendar(siteId)).checkDay(todayStr).working;
+
+    // Cancel previous OPEN daily tasks from earlier dates. On non-working
+    // days they stay open until the next working day's task replaces them.
+    // Tasks of the flexible scheduler (SCHED: keys) are left alone
+    const openDailyTasks = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.taskType, "DAILY_FULL"), eq(tasks.status, "OPEN")));
+    let cancelledCount = 0;
+    for (const task of openDailyTasks) {
+      if (
+        task.dedupKey?.startsWith("DAILY:") &&
+        !task.dedupKey.endsWith(`:${todayStr}`) &&
+        (await isWorkingToday(task.siteId))
+      ) {
+        const beforeStatus = task.status;
+        const standMeta = task.standId
+          ? await buildStandContextMeta(task.standId)
+          : {};
+        const cancelled = await db.transaction(async (tx) => {
+          await assertLeadership(tx, lease);
+          const [cancelled] = await tx
+            .update(tasks)
+            .set({
+              status: "CANCELLED",
+              cancelledAt: new Date(),
+              cancellationReason: "Auto-cancelled: New daily task generated",
+              version: sql`${tasks.version} + 1`,
+              updatedAt: new Date(),
+            })
+            .where(and(eq(tasks.id, task.id), eq(tasks.version, task.version)))
+            .returning({ id: tasks.id });
+          // Picked up by a driver meanwhile
+          if (!cancelled) return undefined;
+
+          // Audit log for auto-cancellation
+          await createAuditEvent(
+            {
+              taskId: task.id,
+              action: "STATUS_CHANGED",
+              entityType: "task",
+              entityId: task.id,
+              beforeData: { status: beforeStatus },
+              afterData: {
+                status: "CANCELLED",
+                reason: "Auto-cancelled: New daily task generated",
+              },
+              metaJson: {
+                ...standMeta,
+                boxId: task.boxId || undefined,
+                source: "DAILY_SCHEDULER",
+              },
+            },
+            tx,
+          );
+          return cancelled;
+        });
+        if (!cancelled) continue;
+
+        cancelledCount++;
+      }
+    }
+    if (cancelledCount > 0) {
+      console.log(
+        `[DailyTaskScheduler] Auto-cancelled ${cancelledCount} previous OPEN daily tasks.`,
+      );
+    }
+
+    // Get dailyFull stands
+    const dailyFullStands = await db
+      .select()
+      .from(stands)
+      .where(and(eq(stands.dailyFull, true), eq(stands.isActive, true)));
+
+    let createdCount = 0;
+    let skippedCount = 0;
+    let nonWorkingCount = 0;
+    const errors: SchedulerRunError[] = [];
+    for (const stand of dailyFullStands) {
+      if (!(await isWorkingToday(stand.siteId))) {
+        nonWorkingCount++;
+        continue;
+      }
+      const dedupKey = `DAILY:${stand.id}:${todayStr}`;
+      try {
+        const standMeta = await buildStandContextMeta(stand.id);
+        await db.transaction(async (tx) => {
+          await assertLeadership(tx, lease);
+          const [newTask] = await tx
+            .insert(tasks)
+            .values({
+              title: `Tägliche Abholung - Stand ${stand.identifier}`,
+              description: `Automatisch generierte tägliche Abholung`,
+              containerID: null,
+              boxId: null,
+              siteId: stand.siteId,
+              standId: stand.id,
+              materialType: stand.materialId || null,
+              taskType: "DAILY_FULL",
+              status: "OPEN",
+              priority: "normal",
+              scheduledFor: today,
+              dedupKey,
+            })
+            .returning();
+
+          await tx
+            .update(stands)
+            .set({
+              lastDailyTaskGeneratedAt: new Date(),
+              updatedAt: new Date(),
+            })
+            .where(eq(stands.id, stand.id));
+
+          // Audit log for daily task creation
+          await createAuditEvent(
+            {
+              taskId: newTask.id,
+              action: "TASK_CREATED",
+              entityType: "task",
+              entityId: newTask.id,
+              beforeData: null,
+              afterData: {
+                status: "OPEN",
+                taskType: "DAILY_FULL",
+                standId: stand.id,
+              },
+              metaJson: {
+                ...standMeta,
+                source: "DAILY",
+              },
+            },
+            tx,
+          );
+        });
+
+        createdCount++;
+      } catch (e: any) {
+        if (e instanceof LeadershipLostError) throw e;
+        if (e?.code === "23505") {
+          skippedCount++;
+          continue;
+        }
+        console.error(
+          `[DailyTaskScheduler] Failed to create task for stand ${stand.id}:`,
+          e,
+        );
+        errors.push(
+          toSchedulerRunError(e, { standId: stand.id, date: todayStr }),
+        );
+      }
+    }
+    console.log(
+      `[DailyTaskScheduler] Completed. Created: ${createdCount}, Skipped (duplicates): ${skippedCount}, Skipped (non-working day): ${nonWorkingCount}, Errors: ${errors.length}`,
+    );
+    return {
+      createdCount,
+      skippedCount: skippedCount + nonWorkingCount,
+      errors,
+    };
+  });
+}
+
+// ============================================================================
+// FLEXIBLE TASK SCHEDULER
+// Generates tasks based on TaskSchedule rules (DAILY, WEEKLY, INTERVAL).
+// Occurrences on non-working days are kept, skipped or moved to the next
+// working day depending on the schedule's calendarMode (factory-calendar.ts)
+// ============================================================================
+
+/**
+ * Start date of a schedule request: a local date (YYYY-MM-DD) is stored as
+ * midnight in the schedule's timezone
+ */
+function parseScheduleStartDate(startDate: string, timezone: string): Date {
+  return isValidLocalDate(startDate)
+    ? startOfZonedDay(startDate, timezone)
+    : new Date(startDate);
+}
+
+/**
+ * Times of day (HH:MM) a schedule creates tasks at
+ */
+function getScheduleTimes(schedule: TaskSchedule): string[] {
+  return schedule.timesLocal?.length
+    ? schedule.timesLocal
+    : [schedule.timeLocal || "06:00"];
+}
+
+/**
+ * Dedup key of a scheduled task: one per schedule, local date and time
+ */
+function getScheduleDedupKey(
+  scheduleId: string,
+  dateStr: string,
+  timeLocal: string,
+): string {
+  return `${getLegacyScheduleDedupKey(scheduleId, dateStr)}:${timeLocal}`;
+}
+
+/**
+ * Day-level dedup key, used by manual runs and by scheduled tasks of
+ * single-time schedules created before the time was part of the key
+ */
+function getLegacyScheduleDedupKey(scheduleId: string, dateStr: string) {
+  return `SCHED:${scheduleId}:${dateStr}`;
+}
+
+/**
+ * Time of day already covered by a task with the day-level key: the time it
+ * was scheduled for, or the first time of the day for manual runs and times
+ * that were changed since. Null if there is no such task
+ */
+async function getLegacyScheduleSlot(
+  scheduleId: string,
+  dateStr: string,
+  times: string[],
+  timezone: string,
+): Promise<string | null> {
+  const [legacyTask] = await db
+    .select({ scheduledFor: tasks.scheduledFor })
+    .from(tasks)
+    .where(eq(tasks.dedupKey, getLegacyScheduleDedupKey(scheduleId, dateStr)));
+  if (!legacyTask) return null;
+  return (
+    times.find(
+      (timeLocal) =>
+        zonedTimeToUtc(dateStr, timeLocal, timezone).getTime() ===
+        legacyTask.scheduledFor?.getTime(),
+    ) ?? times[0]
+  );
+}
+
+const SCHEDULE_RULE_TYPES = ["DAILY", "WEEKLY", "INTERVAL", "RRULE"];
+const TIME_LOCAL_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Checks the RRULE, times and EXDATEs of a schedule request. Returns error
+ * messages, empty if valid
+ */
+function validateScheduleRecurrence({
+  ruleType,
+  rrule,
+  timesLocal,
+  exdates,
+}: {
+  ruleType: string;
+  rrule?: unknown;
+  timesLocal?: unknown;
+  exdates?: unknown;
+}): string[] {
+  const errors: string[] = [];
+  if (ruleType === "RRULE") {
+    if (typeof rrule !== "string" || !rrule.trim()) {
+      errors.push("rrule is required for RRULE rule type");
+    } else {
+      errors.push(...parseRRule(rrule).errors);
+    }
+  }
+  if (
+    timesLocal !== undefined &&
+    timesLocal !== null &&
+    (!Array.isArray(timesLocal) ||
+      timesLocal.length === 0 ||
+      timesLocal.some((time) => !TIME_LOCAL_PATTERN.test(String(time))))
+  ) {
+    errors.push("timesLocal must be a non-empty list of times (HH:MM)");
+  }
+  if (
+    exdates !== undefined &&
+    exdates !== null &&
+    (!Array.isArray(exdates) || !exdates.every(isValidLocalDate))
+  ) {
+    errors.push("exdates must be a list of dates (YYYY-MM-DD)");
+  }
+  return errors;
+}
+
+/** Sorted, without duplicates */
+function normalizeTimesLocal(timesLocal: string[]): string[] {
+  return Array.from(new Set(timesLocal)).sort();
+}
+
+/**
+ * Check if a task should be generated for a local date (YYYY-MM-DD in the
+ * schedule's timezone) based on schedule rule
  */
 function shouldGenerateForDate(
   schedule: TaskSchedule,
-  targetDate: Date,
+  dateStr: string,
   timezone: string,
 ): boolean {
   const { ruleType, weekdays, everyNDays, startDate } = schedule;
 
+  if (schedule.exdates?.includes(dateStr)) {
+    return false;
+  }
+
   switch (ruleType) {
     case "DAILY":
       return true;
@@ -453,16 +1473,28 @@ function shouldGenerateForDate(
       if (!weekdays || !Array.isArray(weekdays) || weekdays.length === 0) {
         return false;
       }
-      const dayOfWeek = getDayOfWeekInTimezone(targetDate, timezone);
-      return weekdays.includes(dayOfWeek);
+      return weekdays.includes(getLocalWeekday(dateStr));
 
     case "INTERVAL":
       if (!everyNDays || everyNDays < 1 || !startDate) {
         return false;
       }
-      const days = daysBetween(startDate, targetDate);
+      const days = diffDays(formatZonedDate(startDate, timezone), dateStr);
       return days >= 0 && days % everyNDays === 0;
 
+    case "RRULE": {
+      const { rule } = parseRRule(schedule.rrule || "");
+      if (!rule) {
+        return false;
+      }
+      // DTSTART is the start date, otherwise the day the schedule was created
+      const dtstart = formatZonedDate(
+        startDate || schedule.createdAt,
+        timezone,
+      );
+      return expandRRule(rule, dtstart, dateStr, dateStr).length > 0;
+    }
+
     default:
       return false;
   }
@@ -472,8 +1504,11 @@ function shouldGenerateForDate(
  * Main flexible scheduler function
  * Runs through all active schedules and generates tasks for upcoming days
  */
-async function generateFlexibleScheduledTasks() {
-  try {
+function generateFlexibleScheduledTasks(
+  trigger: SchedulerRunTrigger,
+  lease: LeaderLease,
+) {
+  return recordSchedulerRun({ scheduler: "FLEXIBLE", trigger }, async () => {
     console.log("[FlexibleScheduler] Running scheduled task generation...");
 
     // Get all active schedules
@@ -484,12 +1519,14 @@ async function generateFlexibleScheduledTasks() {
 
     if (activeSchedules.length === 0) {
       console.log("[FlexibleScheduler] No active schedules found.");
-      return;
+      return { createdCount: 0, skippedCount: 0, errors: [] };
     }
 
     let totalCreated = 0;
     let totalSkipped = 0;
-    let totalErrors = 0;
+    let totalNonWorking = 0;
+    const errors: SchedulerRunError[] = [];
+    const getCalendar = createFactoryCalendarLoader();
 
     for (const schedule of activeSchedules) {
       const timezone = schedule.timezone || "Europe/Berlin";
@@ -506,93 +1543,134 @@ async function generateFlexibleScheduledTasks() {
         );
         continue;
       }
+      const calendar = await getCalendar(stand.siteId);
 
-      // Generate tasks for today + createDaysAhead days
-      const now = new Date();
+      // Generate tasks for today + createDaysAhead days (local dates)
+      const todayLocal = formatZonedDate(new Date(), timezone);
       for (let dayOffset = 0; dayOffset <= createDaysAhead; dayOffset++) {
-        const targetDate = new Date(now);
-        targetDate.setDate(targetDate.getDate() + dayOffset);
+        const targetDateStr = addDays(todayLocal, dayOffset);
 
         // Check if this date should have a task based on rule type
-        if (!shouldGenerateForDate(schedule, targetDate, timezone)) {
+        if (!shouldGenerateForDate(schedule, targetDateStr, timezone)) {
           continue;
         }
 
-        const dateStr = formatDateInTimezone(targetDate, timezone);
-        const dedupKey = `SCHED:${schedule.id}:${dateStr}`;
+        const resolved = resolveScheduledDate(
+          targetDateStr,
+          schedule.calendarMode,
+          calendar,
+        );
+        if (!resolved.date) {
+          totalNonWorking++;
+          continue;
+        }
+        // Keyed by the resolved day, so a shifted occurrence merges with
+        // one that is due on that day anyway
+        const dateStr = resolved.date;
 
-        // Create scheduled date at the specified time
-        const [hours, minutes] = (schedule.timeLocal || "06:00")
-          .split(":")
-          .map(Number);
-        const scheduledFor = getDateInTimezone(targetDate, timezone);
-        scheduledFor.setHours(hours || 6, minutes || 0, 0, 0);
+        const times = getScheduleTimes(schedule);
+        const legacySlot = await getLegacyScheduleSlot(
+          schedule.id,
+          dateStr,
+          times,
+          timezone,
+        );
+        for (const timeLocal of times) {
+          if (timeLocal === legacySlot) {
+            totalSkipped++;
+            continue;
+          }
+          // One task per time of day
+          const dedupKey = getScheduleDedupKey(schedule.id, dateStr, timeLocal);
+          const scheduledFor = zonedTimeToUtc(dateStr, timeLocal, timezone);
 
-        try {
-          const [newTask] = await db
-            .insert(tasks)
-            .values({
-              title: `${schedule.name} - Stand ${stand.identifier}`,
-              description: `Automatisch generiert durch Zeitplan: ${schedule.name}`,
-              containerID: null,
-              boxId: null,
-              standId: stand.id,
-              materialType: stand.materialId || null,
-              taskType: "DAILY_FULL",
-              source: "SCHEDULED",
-              scheduleId: schedule.id,
-              status: "OPEN",
-              priority: "normal",
-              scheduledFor,
-              dedupKey,
-            })
-            .returning();
-
-          // Audit log for task creation
-          const standMeta = await buildStandContextMeta(stand.id);
-          await createAuditEvent({
-            taskId: newTask.id,
-            action: "TASK_CREATED",
-            entityType: "task",
-            entityId: newTask.id,
-            beforeData: null,
-            afterData: {
-              status: "OPEN",
-              taskType: "DAILY_FULL",
-              source: "SCHEDULED",
-              scheduleId: schedule.id,
-              standId: stand.id,
-              scheduledFor: scheduledFor.toISOString(),
-            },
-            metaJson: {
-              ...standMeta,
-              source: "FLEXIBLE_SCHEDULER",
-              ruleType: schedule.ruleType,
-            },
-          });
+          try {
+            const standMeta = await buildStandContextMeta(stand.id);
+            await db.transaction(async (tx) => {
+              await assertLeadership(tx, lease);
+              const [newTask] = await tx
+                .insert(tasks)
+                .values({
+                  title: `${schedule.name} - Stand ${stand.identifier}`,
+                  description: `Automatisch generiert durch Zeitplan: ${schedule.name}`,
+                  containerID: null,
+                  boxId: null,
+                  siteId: stand.siteId,
+                  standId: stand.id,
+                  materialType: stand.materialId || null,
+                  taskType: "DAILY_FULL",
+                  source: "SCHEDULED",
+                  scheduleId: schedule.id,
+                  status: "OPEN",
+                  priority: "normal",
+                  scheduledFor,
+                  dedupKey,
+                })
+                .returning();
+
+              // Audit log for task creation
+              await createAuditEvent(
+                {
+                  taskId: newTask.id,
+                  action: "TASK_CREATED",
+                  entityType: "task",
+                  entityId: newTask.id,
+                  beforeData: null,
+                  afterData: {
+                    status: "OPEN",
+                    taskType: "DAILY_FULL",
+                    source: "SCHEDULED",
+                    scheduleId: schedule.id,
+                    standId: stand.id,
+                    scheduledFor: scheduledFor.toISOString(),
+                  },
+                  metaJson: {
+                    ...standMeta,
+                    source: "FLEXIBLE_SCHEDULER",
+                    ruleType: schedule.ruleType,
+                    rrule: schedule.rrule || undefined,
+                    shiftedFrom: resolved.shiftedFrom,
+                    reason: resolved.shiftedFrom ? resolved.reason : undefined,
+                  },
+                },
+                tx,
+              );
+            });
 
-          totalCreated++;
-        } catch (e: any) {
-          if (e?.code === "23505") {
-            // Duplicate key - task already exists for this schedule+date
-            totalSkipped++;
-            continue;
+            totalCreated++;
+          } catch (e: any) {
+            if (e instanceof LeadershipLostError) throw e;
+            if (e?.code === "23505") {
+              // Duplicate key - task already exists for this schedule+date+time
+              totalSkipped++;
+              continue;
+            }
+            console.error(
+              `[FlexibleScheduler] Failed to create task for schedule ${schedule.id}, date ${dateStr} ${timeLocal}:`,
+              e,
+            );
+            errors.push(
+              toSchedulerRunError(e, {
+                scheduleId: schedule.id,
+                standId: stand.id,
+                date: dateStr,
+                time: timeLocal,
+              }),
+            );
           }
-          console.error(
-            `[FlexibleScheduler] Failed to create task for schedule ${schedule.id}, date ${dateStr}:`,
-            e,
-          );
-          totalErrors++;
         }
       }
     }
 
     console.log(
-      `[FlexibleScheduler] Completed. Created: ${totalCreated}, Skipped (duplicates): ${totalSkipped}, Errors: ${totalErrors}`,
+      `[FlexibleScheduler] Completed. Created: ${totalCreated}, Skipped (duplicates): ${totalSkipped}, Skipped (non-working day): ${totalNonWorking}, Errors: ${errors.length}`,
     );
-  } catch (error) {
-    console.error("[FlexibleScheduler] Error:", error);
-  }
+    return {
+      createdCount: totalCreated,
+      skippedCount: totalSkipped + totalNonWorking,
+      errors,
+    };
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -622,6 +1700,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   });
 
+  // Replays stored responses for repeated Idempotency-Key requests
+  app.use("/api", idempotency);
+
   // Quick ping endpoint - no database, instant response for connectivity testing
   app.get("/api/debug/ping", (req, res) => {
     res.json({
@@ -710,7 +1791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         user = await storage.createUser({
           email: replitEmail,
-          password: hashPassword(`replit-${userId}-${Date.now()}`),
+          password: await hashPassword(`replit-${userId}-${Date.now()}`),
           name: userName as string,
           role: isFirstUser ? "admin" : "driver",
         });
@@ -720,108 +1801,1298 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Account is deactivated" });
       }
 
-      res.json({ user: prepareUserResponse(user) });
-    } catch (error) {
-      console.error("Replit auth error:", error);
-      res.status(500).json({ error: "Replit login failed" });
-    }
-  });
+      const tokens = await issueAuthTokens(user.id, req);
+      res.json({ user: prepareUserResponse(user), ...tokens });
+    } catch (error) {
+      console.error("Replit auth error:", error);
+      res.status(500).json({ error: "Replit login failed" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { email, password, deviceId } = req.body;
+
+      if (!email || !password) {
+        return res
+          .status(400)
+          .json({ error: "Email and password are required" });
+      }
+
+      const throttleKeys: ThrottleKey[] = [
+        { scope: "EMAIL", key: String(email).trim().toLowerCase() },
+        { scope: "IP", key: getClientIp(req) },
+      ];
+      const throttle = await acquireLoginAttempt(throttleKeys);
+      if (!throttle.allowed) {
+        res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          error: throttle.locked
+            ? `Zu viele Fehlversuche. Anmeldung gesperrt für ${Math.ceil(throttle.retryAfterSeconds / 60)} Min.`
+            : `Zu viele Fehlversuche. Bitte ${throttle.retryAfterSeconds} Sek. warten.`,
+          locked: throttle.locked,
+          retryAfterSeconds: throttle.retryAfterSeconds,
+        });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        await handleFailedLogin(throttle, undefined);
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      const passwordValid = await verifyPassword(password, user.password);
+      if (!passwordValid) {
+        await handleFailedLogin(throttle, user);
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      // The attempt stays counted as failed until the login succeeds
+      if (!user.isActive) {
+        return res.status(403).json({ error: "Account is deactivated" });
+      }
+
+      // Remember the device so the user can switch back with the PIN later
+      const device =
+        typeof deviceId === "string" && deviceId
+          ? deviceId
+          : generateDeviceId();
+      await storage.linkDeviceUser(hashDeviceId(device), user.id);
+
+      // Transparently upgrade legacy SHA-256 hashes now that we know the password
+      if (needsPasswordRehash(user.password)) {
+        try {
+          await storage.updateUser(user.id, {
+            password: await hashPassword(password),
+          });
+        } catch (error) {
+          console.error("Failed to rehash password on login:", error);
+        }
+      }
+
+      const tokens = await issueAuthTokens(user.id, req);
+      await clearLoginThrottle(throttleKeys[0]);
+      await releaseLoginAttempt(throttleKeys.slice(1));
+      res.json({
+        user: prepareUserResponse(user),
+        ...tokens,
+        deviceId: device,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // Exchange a refresh token for a new token pair (refresh token rotation)
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== "string") {
+        return res.status(400).json({ error: "refreshToken is required" });
+      }
+
+      const currentHash = hashRefreshToken(refreshToken);
+      const session =
+        await storage.getAuthSessionByRefreshTokenHash(currentHash);
+      if (!session) {
+        await handleRefreshTokenReuse(currentHash, req);
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+      if (session.revokedAt || session.expiresAt < new Date()) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      const user = await storage.getUser(session.userId);
+      if (!user || !user.isActive) {
+        await storage.revokeAuthSession(session.id);
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      const nextRefreshToken = generateRefreshToken();
+      const rotated = await storage.rotateAuthSession(
+        session.id,
+        currentHash,
+        hashRefreshToken(nextRefreshToken),
+        getRefreshTokenExpiry(),
+        getClientIp(req),
+      );
+      if (!rotated) {
+        // Rotated by a concurrent request with the same token in between
+        await handleRefreshTokenReuse(currentHash, req);
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      res.json({
+        user: prepareUserResponse(user),
+        accessToken: signAccessToken(user.id, session.id),
+        refreshToken: nextRefreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      });
+    } catch (error) {
+      console.error("Token refresh error:", error);
+      res.status(500).json({ error: "Token refresh failed" });
+    }
+  });
+
+  // Revoke the session belonging to the given refresh token
+  // Works without a valid access token so expired clients can still log out
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (refreshToken && typeof refreshToken === "string") {
+        const session = await storage.getAuthSessionByRefreshTokenHash(
+          hashRefreshToken(refreshToken),
+        );
+        if (session) {
+          await storage.revokeAuthSession(session.id);
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ error: "Logout failed" });
+    }
+  });
+
+  // Users that can quick-switch on this device (signed in there before)
+  // POST so the device id does not end up in URLs and access logs
+  app.post("/api/auth/device-users", async (req, res) => {
+    try {
+      const { deviceId } = req.body;
+      if (!deviceId || typeof deviceId !== "string") {
+        return res.status(400).json({ error: "deviceId is required" });
+      }
+
+      const deviceUsersList = await storage.getDeviceUsers(
+        hashDeviceId(deviceId),
+      );
+      res.json(
+        deviceUsersList
+          .filter((user) => user.isActive && user.pinHash)
+          .map((user) => ({
+            id: user.id,
+            name: user.name,
+            role: user.role.toLowerCase(),
+          })),
+      );
+    } catch (error) {
+      console.error("Failed to fetch device users:", error);
+      res.status(500).json({ error: "Failed to fetch device users" });
+    }
+  });
+
+  // Quick switch: sign in with the PIN on a device the user has used before
+  app.post("/api/auth/pin-login", async (req, res) => {
+    try {
+      const { deviceId, userId, pin } = req.body;
+
+      if (!deviceId || !userId || !pin) {
+        return res
+          .status(400)
+          .json({ error: "deviceId, userId and pin are required" });
+      }
+
+      // PIN-only scopes: wrong PINs on a shared terminal must not lock
+      // password logins from the same depot address
+      const throttleKeys: ThrottleKey[] = [
+        { scope: "PIN", key: String(userId) },
+        { scope: "PIN_IP", key: getClientIp(req) },
+      ];
+      const throttle = await acquireLoginAttempt(throttleKeys);
+      if (!throttle.allowed) {
+        res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          error: throttle.locked
+            ? `Zu viele falsche PINs. PIN-Anmeldung gesperrt für ${Math.ceil(throttle.retryAfterSeconds / 60)} Min. Bitte mit Passwort anmelden.`
+            : `Zu viele falsche PINs. Bitte ${throttle.retryAfterSeconds} Sek. warten.`,
+          locked: throttle.locked,
+          retryAfterSeconds: throttle.retryAfterSeconds,
+        });
+      }
+
+      const deviceIdHash = hashDeviceId(String(deviceId));
+      const user = await storage.getUser(String(userId));
+      if (
+        !user ||
+        !user.pinHash ||
+        !(await storage.isDeviceUser(deviceIdHash, user.id))
+      ) {
+        // Not a PIN guess: take the attempt back
+        await releaseLoginAttempt(throttleKeys);
+        return res.status(401).json({
+          error: "PIN-Anmeldung auf diesem Gerät nicht verfügbar",
+        });
+      }
+
+      if (!isValidPin(pin) || !(await verifyPassword(pin, user.pinHash))) {
+        await handleFailedLogin(throttle, user);
+        return res.status(401).json({ error: "Falsche PIN" });
+      }
+
+      // The attempt stays counted as failed until the login succeeds
+      if (!user.isActive) {
+        return res.status(403).json({ error: "Account is deactivated" });
+      }
+
+      await storage.linkDeviceUser(deviceIdHash, user.id);
+      const tokens = await issueAuthTokens(user.id, req);
+      await clearLoginThrottle(throttleKeys[0]);
+      await releaseLoginAttempt(throttleKeys.slice(1));
+      res.json({ user: prepareUserResponse(user), ...tokens });
+    } catch (error) {
+      console.error("PIN login error:", error);
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // Request a password reset token by mail
+  // Always answers with success so the endpoint does not reveal which
+  // email addresses have an account
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ error: "Email is required" });
+      }
+
+      const throttle = await checkLoginThrottle([
+        { scope: "IP", key: getClientIp(req) },
+      ]);
+      if (!throttle.allowed) {
+        res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          error: `Zu viele Anfragen. Bitte ${Math.ceil(throttle.retryAfterSeconds / 60)} Min. warten.`,
+          retryAfterSeconds: throttle.retryAfterSeconds,
+        });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      if (user && user.isActive) {
+        const latest = await storage.getLatestPasswordResetToken(user.id);
+        const recentlySent =
+          latest &&
+          !latest.usedAt &&
+          Date.now() - latest.createdAt.getTime() <
+            PASSWORD_RESET_RESEND_SECONDS * 1000;
+
+        if (!recentlySent) {
+          const token = generatePasswordResetToken();
+          await storage.invalidatePasswordResetTokens(user.id);
+          await storage.createPasswordResetToken({
+            userId: user.id,
+            tokenHash: hashPasswordResetToken(token),
+            expiresAt: getPasswordResetTokenExpiry(),
+            requestedIp: getClientIp(req),
+          });
+          await sendMail({
+            to: user.email,
+            subject: "ContainerFlow: Passwort zurücksetzen",
+            body: [
+              `Hallo ${user.name},`,
+              "",
+              "für Ihr ContainerFlow-Konto wurde das Zurücksetzen des Passworts angefordert.",
+              `Ihr Code lautet: ${token}`,
+              "",
+              `Der Code ist ${PASSWORD_RESET_TOKEN_TTL_MINUTES} Minuten gültig und kann nur einmal verwendet werden.`,
+              "Falls Sie dies nicht angefordert haben, können Sie diese E-Mail ignorieren.",
+            ].join("\n"),
+          });
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "Password reset request failed" });
+    }
+  });
+
+  // Set a new password with a one-time reset token
+  // Revokes all existing sessions of the user
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (!token || typeof token !== "string" || !newPassword) {
+        return res
+          .status(400)
+          .json({ error: "Code und neues Passwort sind erforderlich" });
+      }
+      if (String(newPassword).length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({
+          error: `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein`,
+        });
+      }
+
+      // Wrong codes count against the IP like failed logins (guessing)
+      const throttleKeys: ThrottleKey[] = [
+        { scope: "IP", key: getClientIp(req) },
+      ];
+      const throttle = await acquireLoginAttempt(throttleKeys);
+      if (!throttle.allowed) {
+        res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          error: `Zu viele Fehlversuche. Bitte ${Math.ceil(throttle.retryAfterSeconds / 60)} Min. warten.`,
+          retryAfterSeconds: throttle.retryAfterSeconds,
+        });
+      }
+
+      const resetToken = await storage.consumePasswordResetToken(
+        hashPasswordResetToken(token),
+      );
+      const user = resetToken
+        ? await storage.getUser(resetToken.userId)
+        : undefined;
+      if (!resetToken || !user || !user.isActive) {
+        await handleFailedLogin(throttle, undefined);
+        return res
+          .status(400)
+          .json({ error: "Code ist ungültig oder abgelaufen" });
+      }
+
+      await storage.updateUser(user.id, {
+        password: await hashPassword(String(newPassword)),
+      });
+      const revokedSessions = await storage.revokeAllAuthSessions(user.id);
+      await releaseLoginAttempt(throttleKeys);
+      // A successful reset also lifts a lockout caused by the forgotten password
+      await clearLoginThrottle({
+        scope: "EMAIL",
+        key: user.email.toLowerCase(),
+      });
+
+      await storage.createActivityLog({
+        type: "PASSWORD_RESET",
+        action: "PASSWORD_RESET",
+        message: `Passwort für ${user.email} wurde per E-Mail-Code zurückgesetzt`,
+        userId: user.id,
+        taskId: null,
+        containerId: null,
+        scanEventId: null,
+        location: null,
+        timestamp: new Date(),
+        details: null,
+        metadata: { revokedSessions, requestedIp: resetToken.requestedIp },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Password reset failed" });
+    }
+  });
+
+  app.get("/api/users", requireAuth, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      const siteIdsByUser = await storage.getUserSiteIdsByUser();
+      const activeSiteId = getActiveSiteId(req);
+
+      // Users without site assignments work on every site
+      const usersWithoutPasswords = users
+        .map((user) => ({
+          ...prepareUserResponse(user),
+          siteIds: siteIdsByUser.get(user.id) ?? [],
+        }))
+        .filter(
+          (user) =>
+            !activeSiteId ||
+            user.siteIds.length === 0 ||
+            user.siteIds.includes(activeSiteId),
+        );
+      res.json(usersWithoutPasswords);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(prepareUserResponse(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch user" });
+    }
+  });
+
+  // Admin-only: Create new user
+  app.post(
+    "/api/users",
+    requireAuth,
+    requireAdmin,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const { email, password, name, role } = req.body;
+
+        if (!email || !password || !name) {
+          return res
+            .status(400)
+            .json({ error: "Email, password, and name are required" });
+        }
+
+        const existingUser = await storage.getUserByEmail(email);
+        if (existingUser) {
+          return res.status(409).json({ error: "Email already exists" });
+        }
+
+        const hashedPassword = await hashPassword(password);
+        const user = await storage.createUser({
+          email,
+          password: hashedPassword,
+          name,
+          role: role || "driver",
+        });
+
+        res.status(201).json(prepareUserResponse(user));
+      } catch (error) {
+        res.status(500).json({ error: "Failed to create user" });
+      }
+    },
+  );
+
+  // Admins may edit any user. Other users may only change their own name and
+  // phone, and their own password when they also send the current one.
+  app.patch(
+    "/api/users/:id",
+    requireAuth,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const isSelf = authUser.id === req.params.id;
+        const isAdmin = authUser.role?.toUpperCase() === "ADMIN";
+        if (!isSelf && !isAdmin) {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        // Automotive roles are only granted through PUT /api/users/:id/roles,
+        // PINs only through PUT /api/users/:id/pin
+        const {
+          automotiveRoles,
+          pinHash,
+          pinUpdatedAt,
+          anonymizedAt,
+          currentPassword,
+          ...body
+        } = req.body;
+        const updateData: Record<string, unknown> = isAdmin
+          ? body
+          : Object.fromEntries(
+              SELF_EDITABLE_USER_FIELDS.filter((field) => field in body).map(
+                (field) => [field, body[field]],
+              ),
+            );
+
+        const existing = await storage.getUser(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (existing.anonymizedAt) {
+          return res.status(409).json({
+            error: "Anonymisierte Benutzer können nicht geändert werden",
+          });
+        }
+        if (updateData.password) {
+          if (
+            !isAdmin &&
+            (!currentPassword ||
+              !(await verifyPassword(
+                String(currentPassword),
+                existing.password,
+              )))
+          ) {
+            return res
+              .status(403)
+              .json({ error: "Aktuelles Passwort ist falsch" });
+          }
+          updateData.password = await hashPassword(String(updateData.password));
+        }
+        const user = await storage.updateUser(
+          req.params.id,
+          updateData as Partial<User>,
+        );
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        // Like a reset: a new password signs out every other session
+        if (updateData.password) {
+          await storage.revokeAllAuthSessions(
+            user.id,
+            isSelf ? (req as any).authSessionId : undefined,
+          );
+        }
+        res.json(prepareUserResponse(user));
+      } catch (error) {
+        res.status(500).json({ error: "Failed to update user" });
+      }
+    },
+  );
+
+  // Admin-only: Report how many accounts still use the legacy SHA-256 hash
+  app.get(
+    "/api/admin/password-hash-report",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const allUsers = await db
+          .select({
+            id: users.id,
+            email: users.email,
+            name: users.name,
+            password: users.password,
+            isActive: users.isActive,
+          })
+          .from(users);
+
+        const legacyUsers = allUsers.filter((user) =>
+          isLegacyPasswordHash(user.password),
+        );
+
+        res.json({
+          totalUsers: allUsers.length,
+          legacyHashCount: legacyUsers.length,
+          upgradedHashCount: allUsers.length - legacyUsers.length,
+          activeLegacyHashCount: legacyUsers.filter((user) => user.isActive)
+            .length,
+          legacyUsers: legacyUsers.map(({ id, email, name, isActive }) => ({
+            id,
+            email,
+            name,
+            isActive,
+          })),
+        });
+      } catch (error) {
+        console.error("Failed to build password hash report:", error);
+        res.status(500).json({ error: "Failed to build password hash report" });
+      }
+    },
+  );
+
+  // Admin-only: List login keys (accounts and IPs) that are currently locked out
+  app.get(
+    "/api/admin/login-lockouts",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const lockouts = await getActiveLockouts();
+        const allUsers = await storage.getUsers();
+        res.json(
+          lockouts.map((lockout) => ({
+            scope: lockout.scope,
+            key: lockout.key,
+            failedCount: lockout.failedCount,
+            lastFailedAt: lockout.lastFailedAt,
+            lockedUntil: lockout.lockedUntil,
+            userId:
+              lockout.scope === "EMAIL"
+                ? allUsers.find((u) => u.email.toLowerCase() === lockout.key)
+                    ?.id || null
+                : lockout.scope === "PIN"
+                  ? lockout.key
+                  : null,
+          })),
+        );
+      } catch (error) {
+        console.error("Failed to fetch login lockouts:", error);
+        res.status(500).json({ error: "Failed to fetch login lockouts" });
+      }
+    },
+  );
+
+  // Admin-only: Lift a login lockout for a user account
+  app.post(
+    "/api/users/:id/unlock",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const emailWasLocked = await clearLoginThrottle({
+          scope: "EMAIL",
+          key: user.email.toLowerCase(),
+        });
+        const pinWasLocked = await clearLoginThrottle({
+          scope: "PIN",
+          key: user.id,
+        });
+        const wasLocked = emailWasLocked || pinWasLocked;
+
+        if (wasLocked) {
+          await storage.createActivityLog({
+            type: "ACCOUNT_UNLOCKED",
+            action: "ACCOUNT_UNLOCKED",
+            message: `Konto ${user.email} wurde von ${authUser.name} entsperrt`,
+            userId: authUser.id,
+            taskId: null,
+            containerId: null,
+            scanEventId: null,
+            location: null,
+            timestamp: new Date(),
+            details: null,
+            metadata: {
+              scopes: [
+                ...(emailWasLocked ? ["EMAIL"] : []),
+                ...(pinWasLocked ? ["PIN"] : []),
+              ],
+              targetUserId: user.id,
+            },
+          });
+        }
+
+        res.json({ success: true, wasLocked });
+      } catch (error) {
+        console.error("Failed to unlock user:", error);
+        res.status(500).json({ error: "Failed to unlock user" });
+      }
+    },
+  );
+
+  // ============================================================================
+  // PERSONAL DATA (GDPR)
+  // ============================================================================
+
+  // Admin-only: Download everything tied to a user as ZIP of JSON/CSV files
+  app.get(
+    "/api/users/:id/data-export",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const zip = await buildUserDataExport(user, authUser.id);
+
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `Personenbezogene Daten von ${user.name} wurden von ${authUser.name} exportiert`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: { event: "USER_DATA_EXPORTED", targetUserId: user.id },
+        });
+
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename=personendaten-${user.id.slice(0, 8)}-${new Date().toISOString().split("T")[0]}.zip`,
+        );
+        res.send(zip);
+      } catch (error) {
+        console.error("Failed to export user data:", error);
+        res.status(500).json({ error: "Failed to export user data" });
+      }
+    },
+  );
+
+  /**
+   * POST /api/users/:id/anonymize - Scrub a departed user's personal data (admin only)
+   * Name, email, phone, PIN, devices and scan geolocations are removed;
+   * tasks, weights and events stay for statistics. Cannot be undone
+   */
+  app.post(
+    "/api/users/:id/anonymize",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        if (req.params.id === authUser.id) {
+          return res
+            .status(400)
+            .json({ error: "Sie können sich nicht selbst anonymisieren" });
+        }
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const result = await anonymizeUser(user);
+
+        await createAuditEvent({
+          actorUserId: authUser.id,
+          action: "USER_ANONYMIZED",
+          entityType: "user",
+          entityId: user.id,
+          beforeData: null,
+          afterData: { anonymizedAt: result.anonymizedAt, isActive: false },
+          metaJson: { source: "GDPR", ...result },
+        });
+
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `${result.pseudonym} wurde von ${authUser.name} anonymisiert`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: { event: "USER_ANONYMIZED", targetUserId: user.id },
+        });
+
+        res.json(result);
+      } catch (error) {
+        console.error("Failed to anonymize user:", error);
+        res.status(500).json({ error: "Failed to anonymize user" });
+      }
+    },
+  );
+
+  // ============================================================================
+  // SESSIONS / DEVICES
+  // ============================================================================
+
+  // Users see their own devices, admins those of everyone
+  const canManageSessions = (authUser: User, userId: string) =>
+    authUser.id === userId || authUser.role?.toUpperCase() === "ADMIN";
+
+  app.get("/api/users/:id/sessions", requireAuth, async (req, res) => {
+    try {
+      const authUser = (req as any).authUser;
+      const authSessionId = (req as any).authSessionId;
+      if (!canManageSessions(authUser, req.params.id)) {
+        return res.status(403).json({ error: "Keine Berechtigung" });
+      }
+
+      const sessions = await storage.getActiveAuthSessions(req.params.id);
+      res.json(
+        sessions.map(({ refreshTokenHash, ...session }) => ({
+          ...session,
+          isCurrent: session.id === authSessionId,
+        })),
+      );
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out a single device (e.g. a lost scanner)
+  app.delete(
+    "/api/users/:id/sessions/:sessionId",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        if (!canManageSessions(authUser, req.params.id)) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+
+        const session = await storage.getAuthSession(req.params.sessionId);
+        if (!session || session.userId !== req.params.id) {
+          return res.status(404).json({ error: "Session not found" });
+        }
+        await storage.revokeAuthSession(session.id);
+
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `Gerät "${session.deviceName || "Unbekannt"}" von ${authUser.name} abgemeldet`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: {
+            event: "SESSION_REVOKED",
+            sessionId: session.id,
+            targetUserId: session.userId,
+          },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Failed to revoke session:", error);
+        res.status(500).json({ error: "Failed to revoke session" });
+      }
+    },
+  );
+
+  // Sign out all devices of a user except the one making the request
+  app.delete("/api/users/:id/sessions", requireAuth, async (req, res) => {
+    try {
+      const authUser = (req as any).authUser;
+      const authSessionId = (req as any).authSessionId;
+      if (!canManageSessions(authUser, req.params.id)) {
+        return res.status(403).json({ error: "Keine Berechtigung" });
+      }
+
+      const sessions = await storage.getActiveAuthSessions(req.params.id);
+      let revoked = 0;
+      for (const session of sessions) {
+        if (session.id === authSessionId) continue;
+        if (await storage.revokeAuthSession(session.id)) revoked++;
+      }
+
+      if (revoked > 0) {
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `${revoked} Gerät(e) von ${authUser.name} abgemeldet`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: {
+            event: "SESSIONS_REVOKED",
+            revoked,
+            targetUserId: req.params.id,
+          },
+        });
+      }
+
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Failed to revoke sessions:", error);
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  // Set or change the quick-switch PIN
+  // Users set their own PIN (current password required), admins any PIN
+  app.put(
+    "/api/users/:id/pin",
+    requireAuth,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const { pin, currentPassword } = req.body;
+        const isSelf = authUser.id === req.params.id;
+        const isAdmin = authUser.role?.toUpperCase() === "ADMIN";
+
+        if (!isSelf && !isAdmin) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+        if (!isValidPin(pin)) {
+          return res
+            .status(400)
+            .json({ error: "Die PIN muss aus 4 bis 6 Ziffern bestehen" });
+        }
+
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (
+          isSelf &&
+          (!currentPassword ||
+            !(await verifyPassword(String(currentPassword), user.password)))
+        ) {
+          return res
+            .status(403)
+            .json({ error: "Aktuelles Passwort ist falsch" });
+        }
+
+        const updated = await storage.updateUser(user.id, {
+          pinHash: await hashPassword(pin),
+          pinUpdatedAt: new Date(),
+        });
+        if (!updated) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        await clearLoginThrottle({ scope: "PIN", key: user.id });
+
+        res.json(prepareUserResponse(updated));
+      } catch (error) {
+        console.error("Failed to set PIN:", error);
+        res.status(500).json({ error: "Failed to set PIN" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/users/:id/pin",
+    requireAuth,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const isSelf = authUser.id === req.params.id;
+        const isAdmin = authUser.role?.toUpperCase() === "ADMIN";
+
+        if (!isSelf && !isAdmin) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+
+        const updated = await storage.updateUser(req.params.id, {
+          pinHash: null,
+          pinUpdatedAt: new Date(),
+        });
+        if (!updated) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        res.json(prepareUserResponse(updated));
+      } catch (error) {
+        console.error("Failed to remove PIN:", error);
+        res.status(500).json({ error: "Failed to remove PIN" });
+      }
+    },
+  );
+
+  // Admin-only: Grant automotive roles (PICKUP_DRIVER, WAREHOUSE, DISPOSAL)
+  app.put(
+    "/api/users/:id/roles",
+    requireAuth,
+    requireAdmin,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const { automotiveRoles } = req.body;
+
+        if (!Array.isArray(automotiveRoles)) {
+          return res
+            .status(400)
+            .json({ error: "automotiveRoles must be an array" });
+        }
+
+        // ADMIN is granted through users.role, not as an automotive role
+        const grantableRoles = automotiveUserRoleEnum.enumValues.filter(
+          (role) => role !== "ADMIN",
+        ) as string[];
+        const invalidRoles = automotiveRoles.filter(
+          (role: unknown) =>
+            typeof role !== "string" || !grantableRoles.includes(role),
+        );
+        if (invalidRoles.length > 0) {
+          return res.status(400).json({
+            error: `Invalid roles: ${invalidRoles.join(", ")}`,
+            allowedRoles: grantableRoles,
+          });
+        }
+
+        const user = await storage.updateUser(req.params.id, {
+          automotiveRoles: Array.from(new Set(automotiveRoles as string[])),
+        });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        res.json(prepareUserResponse(user));
+      } catch (error) {
+        console.error("Failed to update user roles:", error);
+        res.status(500).json({ error: "Failed to update user roles" });
+      }
+    },
+  );
+
+  // Admin-only: Assign the sites a user may work on (empty = all sites)
+  app.put(
+    "/api/users/:id/sites",
+    requireAuth,
+    requireAdmin,
+    auditEntity("user"),
+    async (req, res) => {
+      try {
+        const { siteIds } = req.body;
+
+        if (
+          !Array.isArray(siteIds) ||
+          siteIds.some((siteId: unknown) => typeof siteId !== "string")
+        ) {
+          return res.status(400).json({ error: "siteIds must be an array" });
+        }
+
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const knownSiteIds = (await storage.getSites()).map((site) => site.id);
+        const unknownSiteIds = siteIds.filter(
+          (siteId: string) => !knownSiteIds.includes(siteId),
+        );
+        if (unknownSiteIds.length > 0) {
+          return res.status(400).json({
+            error: `Unknown sites: ${unknownSiteIds.join(", ")}`,
+          });
+        }
+
+        const uniqueSiteIds = Array.from(new Set(siteIds as string[]));
+        await storage.setUserSites(user.id, uniqueSiteIds);
+        res.json({ siteIds: uniqueSiteIds });
+      } catch (error) {
+        console.error("Failed to update user sites:", error);
+        res.status(500).json({ error: "Failed to update user sites" });
+      }
+    },
+  );
+
+  // ============================================================================
+  // API KEYS (Admin only)
+  // ============================================================================
+
+  // Strip the key hash before sending an API key to the client
+  const prepareApiKeyResponse = ({ keyHash, ...apiKey }: ApiKey) => apiKey;
+
+  app.get(
+    "/api/admin/api-keys",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const keys = await storage.getApiKeys();
+        res.json(keys.map(prepareApiKeyResponse));
+      } catch (error) {
+        console.error("Failed to fetch API keys:", error);
+        res.status(500).json({ error: "Failed to fetch API keys" });
+      }
+    },
+  );
+
+  // Create a key; the plain key is only part of this response
+  app.post(
+    "/api/admin/api-keys",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const { name, scopes, expiresAt, userId } = req.body;
+
+        if (!name || typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ error: "name is required" });
+        }
+        if (
+          !Array.isArray(scopes) ||
+          scopes.length === 0 ||
+          scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+        ) {
+          return res.status(400).json({
+            error: "scopes must be a non-empty list of valid scopes",
+            validScopes: API_KEY_SCOPES,
+          });
+        }
+
+        let expiry: Date | null = null;
+        if (expiresAt) {
+          expiry = new Date(expiresAt);
+          if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+            return res
+              .status(400)
+              .json({ error: "expiresAt must be a future date" });
+          }
+        }
+
+        const actingUserId = userId || authUser.id;
+        const actingUser = await storage.getUser(actingUserId);
+        if (!actingUser) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const { key, prefix } = generateApiKey();
+        const apiKey = await storage.createApiKey({
+          name: name.trim(),
+          keyPrefix: prefix,
+          keyHash: hashApiKey(key),
+          scopes: Array.from(new Set<string>(scopes)),
+          userId: actingUser.id,
+          createdById: authUser.id,
+          expiresAt: expiry,
+        });
 
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const { email, password } = req.body;
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `API-Schlüssel "${apiKey.name}" (${apiKey.keyPrefix}) von ${authUser.name} erstellt`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: {
+            event: "API_KEY_CREATED",
+            apiKeyId: apiKey.id,
+            scopes: apiKey.scopes,
+            actingUserId: actingUser.id,
+            expiresAt: apiKey.expiresAt?.toISOString() || null,
+          },
+        });
 
-      if (!email || !password) {
-        return res
-          .status(400)
-          .json({ error: "Email and password are required" });
+        res.status(201).json({ ...prepareApiKeyResponse(apiKey), key });
+      } catch (error) {
+        console.error("Failed to create API key:", error);
+        res.status(500).json({ error: "Failed to create API key" });
       }
+    },
+  );
 
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(401).json({ error: "Invalid credentials" });
-      }
+  app.delete(
+    "/api/admin/api-keys/:id",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const apiKey = await storage.revokeApiKey(req.params.id);
+        if (!apiKey) {
+          return res
+            .status(404)
+            .json({ error: "API key not found or already revoked" });
+        }
 
-      const hashedPassword = hashPassword(password);
-      if (user.password !== hashedPassword) {
-        return res.status(401).json({ error: "Invalid credentials" });
+        await storage.createActivityLog({
+          type: "SYSTEM_EVENT",
+          action: "SYSTEM_EVENT",
+          message: `API-Schlüssel "${apiKey.name}" (${apiKey.keyPrefix}) von ${authUser.name} widerrufen`,
+          userId: authUser.id,
+          taskId: null,
+          containerId: null,
+          scanEventId: null,
+          location: null,
+          timestamp: new Date(),
+          details: null,
+          metadata: { event: "API_KEY_REVOKED", apiKeyId: apiKey.id },
+        });
+
+        res.json(prepareApiKeyResponse(apiKey));
+      } catch (error) {
+        console.error("Failed to revoke API key:", error);
+        res.status(500).json({ error: "Failed to revoke API key" });
       }
+    },
+  );
 
-      if (!user.isActive) {
-        return res.status(403).json({ error: "Account is deactivated" });
+  // Recent requests made with a key (audit trail)
+  app.get(
+    "/api/admin/api-keys/:id/requests",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const apiKey = await storage.getApiKey(req.params.id);
+        if (!apiKey) {
+          return res.status(404).json({ error: "API key not found" });
+        }
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+        res.json(await storage.getApiKeyRequests(apiKey.id, limit));
+      } catch (error) {
+        console.error("Failed to fetch API key requests:", error);
+        res.status(500).json({ error: "Failed to fetch API key requests" });
       }
+    },
+  );
 
-      res.json({ user: prepareUserResponse(user) });
-    } catch (error) {
-      res.status(500).json({ error: "Login failed" });
-    }
-  });
+  // ============================================================================
+  // SITES (plants)
+  // ============================================================================
 
-  app.get("/api/users", async (req, res) => {
+  // Sites the current user may switch to (all active sites for admins)
+  app.get("/api/sites", requireAuth, async (req, res) => {
     try {
-      const users = await storage.getUsers();
-      const usersWithoutPasswords = users.map((user) =>
-        prepareUserResponse(user),
+      const authUser = (req as any).authUser as User;
+      const accessibleSiteIds = await getAccessibleSiteIds(authUser);
+      const includeInactive =
+        req.query.includeInactive === "true" &&
+        authUser.role?.toUpperCase() === "ADMIN";
+
+      const siteList = (await storage.getSites()).filter(
+        (site) =>
+          (includeInactive || site.isActive) &&
+          (!accessibleSiteIds || accessibleSiteIds.includes(site.id)),
       );
-      res.json(usersWithoutPasswords);
+      res.json(siteList);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch users" });
+      console.error("Failed to fetch sites:", error);
+      res.status(500).json({ error: "Failed to fetch sites" });
     }
   });
 
-  app.get("/api/users/:id", async (req, res) => {
-    try {
-      const user = await storage.getUser(req.params.id);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      res.json(prepareUserResponse(user));
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch user" });
-    }
-  });
+  app.post(
+    "/api/sites",
+    requireAuth,
+    requireAdmin,
+    auditEntity("site"),
+    async (req, res) => {
+      try {
+        const { name, code, city, timezone } = req.body;
 
-  // Admin-only: Create new user
-  app.post("/api/users", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { email, password, name, role } = req.body;
+        if (!name || !code) {
+          return res.status(400).json({ error: "Name and code are required" });
+        }
 
-      if (!email || !password || !name) {
-        return res
-          .status(400)
-          .json({ error: "Email, password, and name are required" });
-      }
+        const site = await storage.createSite({
+          name,
+          code: String(code).trim().toUpperCase(),
+          city: city || null,
+          timezone: timezone || undefined,
+        });
 
-      const existingUser = await storage.getUserByEmail(email);
-      if (existingUser) {
-        return res.status(409).json({ error: "Email already exists" });
+        res.status(201).json(site);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("unique")) {
+          return res.status(409).json({ error: "Site code already exists" });
+        }
+        console.error("Failed to create site:", error);
+        res.status(500).json({ error: "Failed to create site" });
       }
+    },
+  );
 
-      const hashedPassword = hashPassword(password);
-      const user = await storage.createUser({
-        email,
-        password: hashedPassword,
-        name,
-        role: role || "driver",
-      });
-
-      res.status(201).json(prepareUserResponse(user));
-    } catch (error) {
-      res.status(500).json({ error: "Failed to create user" });
-    }
-  });
+  app.patch(
+    "/api/sites/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("site"),
+    async (req, res) => {
+      try {
+        const { name, code, city, timezone, isActive } = req.body;
+        const updateData: Partial<Site> = {};
+        if (name !== undefined) updateData.name = name;
+        if (code !== undefined) {
+          updateData.code = String(code).trim().toUpperCase();
+        }
+        if (city !== undefined) updateData.city = city || null;
+        if (timezone !== undefined) updateData.timezone = timezone;
+        if (isActive !== undefined) updateData.isActive = !!isActive;
 
-  app.patch("/api/users/:id", async (req, res) => {
-    try {
-      const user = await storage.updateUser(req.params.id, req.body);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+        const site = await storage.updateSite(req.params.id, updateData);
+        if (!site) {
+          return res.status(404).json({ error: "Site not found" });
+        }
+        res.json(site);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("unique")) {
+          return res.status(409).json({ error: "Site code already exists" });
+        }
+        console.error("Failed to update site:", error);
+        res.status(500).json({ error: "Failed to update site" });
       }
-      res.json(prepareUserResponse(user));
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update user" });
-    }
-  });
+    },
+  );
 
   // ============================================================================
   // DEPARTMENTS
@@ -848,35 +3119,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/departments", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { name, code, description } = req.body;
+  app.post(
+    "/api/departments",
+    requireAuth,
+    requireAdmin,
+    auditEntity("department"),
+    async (req, res) => {
+      try {
+        const { name, code, description } = req.body;
 
-      if (!name || !code) {
-        return res.status(400).json({ error: "Name and code are required" });
-      }
+        if (!name || !code) {
+          return res.status(400).json({ error: "Name and code are required" });
+        }
 
-      const department = await storage.createDepartment({
-        name,
-        code,
-        description: description || null,
-      });
+        const department = await storage.createDepartment({
+          name,
+          code,
+          description: description || null,
+        });
 
-      res.status(201).json(department);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes("unique")) {
-        return res
-          .status(409)
-          .json({ error: "Department code already exists" });
+        res.status(201).json(department);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("unique")) {
+          return res
+            .status(409)
+            .json({ error: "Department code already exists" });
+        }
+        res.status(500).json({ error: "Failed to create department" });
       }
-      res.status(500).json({ error: "Failed to create department" });
-    }
-  });
+    },
+  );
 
   app.patch(
     "/api/departments/:id",
     requireAuth,
     requireAdmin,
+    auditEntity("department"),
     async (req, res) => {
       try {
         const department = await storage.updateDepartment(
@@ -902,6 +3180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/departments/:id",
     requireAuth,
     requireAdmin,
+    auditEntity("department"),
     async (req, res) => {
       try {
         const deleted = await storage.deleteDepartment(req.params.id);
@@ -1001,18 +3280,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
           startDate,
           timezone,
           createDaysAhead,
+          calendarMode,
+          rrule,
+          timesLocal,
+          exdates,
         } = req.body;
 
-        if (!name || !standId || !ruleType || !timeLocal) {
+        if (
+          !name ||
+          !standId ||
+          !ruleType ||
+          (!timeLocal && !timesLocal?.length)
+        ) {
           return res.status(400).json({
             error: "Name, standId, ruleType, and timeLocal are required",
           });
         }
 
-        if (!["DAILY", "WEEKLY", "INTERVAL"].includes(ruleType)) {
-          return res
-            .status(400)
-            .json({ error: "ruleType must be DAILY, WEEKLY, or INTERVAL" });
+        if (!SCHEDULE_RULE_TYPES.includes(ruleType)) {
+          return res.status(400).json({
+            error: "ruleType must be DAILY, WEEKLY, INTERVAL, or RRULE",
+          });
+        }
+
+        const recurrenceErrors = validateScheduleRecurrence({
+          ruleType,
+          rrule,
+          timesLocal,
+          exdates,
+        });
+        if (recurrenceErrors.length > 0) {
+          return res.status(400).json({
+            error: recurrenceErrors[0],
+            details: recurrenceErrors,
+          });
         }
 
         if (
@@ -1030,6 +3331,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
+        if (
+          calendarMode !== undefined &&
+          !SCHEDULE_CALENDAR_MODES.includes(calendarMode)
+        ) {
+          return res.status(400).json({
+            error: `calendarMode must be ${SCHEDULE_CALENDAR_MODES.join(", ")}`,
+          });
+        }
+
         const [stand] = await db
           .select()
           .from(stands)
@@ -1039,6 +3349,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         const resolvedStationId = stationId || stand.stationId;
+        const times = timesLocal?.length
+          ? normalizeTimesLocal(timesLocal)
+          : null;
 
         const [newSchedule] = await db
           .insert(taskSchedules)
@@ -1047,13 +3360,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
             standId,
             stationId: resolvedStationId,
             ruleType,
-            timeLocal,
+            timeLocal: times ? times[0] : timeLocal,
+            timesLocal: times,
             weekdays: ruleType === "WEEKLY" ? weekdays : null,
             everyNDays: ruleType === "INTERVAL" ? everyNDays : null,
             startDate:
-              ruleType === "INTERVAL" && startDate ? new Date(startDate) : null,
+              (ruleType === "INTERVAL" || ruleType === "RRULE") && startDate
+                ? parseScheduleStartDate(startDate, timezone || "Europe/Berlin")
+                : null,
+            rrule:
+              ruleType === "RRULE"
+                ? formatRRule(parseRRule(rrule).rule!)
+                : null,
+            exdates: exdates?.length
+              ? Array.from(new Set<string>(exdates)).sort()
+              : null,
             timezone: timezone || "Europe/Berlin",
             createDaysAhead: createDaysAhead ?? 7,
+            calendarMode: calendarMode ?? "IGNORE",
             createdById: authUser.id,
             isActive: true,
           })
@@ -1085,6 +3409,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           startDate,
           timezone,
           createDaysAhead,
+          calendarMode,
+          rrule,
+          timesLocal,
+          exdates,
           isActive,
         } = req.body;
 
@@ -1097,11 +3425,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         const finalRuleType = ruleType ?? existing.ruleType;
+        const finalTimezone = timezone ?? existing.timezone;
 
-        if (ruleType && !["DAILY", "WEEKLY", "INTERVAL"].includes(ruleType)) {
-          return res
-            .status(400)
-            .json({ error: "ruleType must be DAILY, WEEKLY, or INTERVAL" });
+        if (ruleType && !SCHEDULE_RULE_TYPES.includes(ruleType)) {
+          return res.status(400).json({
+            error: "ruleType must be DAILY, WEEKLY, INTERVAL, or RRULE",
+          });
+        }
+
+        const finalRrule = rrule ?? existing.rrule;
+        const recurrenceErrors = validateScheduleRecurrence({
+          ruleType: finalRuleType,
+          rrule: finalRrule,
+          timesLocal,
+          exdates,
+        });
+        if (recurrenceErrors.length > 0) {
+          return res.status(400).json({
+            error: recurrenceErrors[0],
+            details: recurrenceErrors,
+          });
+        }
+
+        if (
+          calendarMode !== undefined &&
+          !SCHEDULE_CALENDAR_MODES.includes(calendarMode)
+        ) {
+          return res.status(400).json({
+            error: `calendarMode must be ${SCHEDULE_CALENDAR_MODES.join(", ")}`,
+          });
         }
 
         const updateData: Partial<typeof taskSchedules.$inferInsert> = {
@@ -1112,10 +3464,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (standId !== undefined) updateData.standId = standId;
         if (stationId !== undefined) updateData.stationId = stationId;
         if (ruleType !== undefined) updateData.ruleType = ruleType;
-        if (timeLocal !== undefined) updateData.timeLocal = timeLocal;
+        if (timesLocal?.length) {
+          updateData.timesLocal = normalizeTimesLocal(timesLocal);
+          updateData.timeLocal = updateData.timesLocal[0];
+        } else if (timeLocal !== undefined) {
+          // A single time replaces any list of times
+          updateData.timeLocal = timeLocal;
+          updateData.timesLocal = null;
+        }
+        if (exdates !== undefined) {
+          updateData.exdates = exdates?.length
+            ? Array.from(new Set<string>(exdates)).sort()
+            : null;
+        }
         if (timezone !== undefined) updateData.timezone = timezone;
         if (createDaysAhead !== undefined)
           updateData.createDaysAhead = createDaysAhead;
+        if (calendarMode !== undefined) updateData.calendarMode = calendarMode;
         if (isActive !== undefined) updateData.isActive = isActive;
 
         if (finalRuleType === "WEEKLY") {
@@ -1125,13 +3490,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else if (finalRuleType === "INTERVAL") {
           if (everyNDays !== undefined) updateData.everyNDays = everyNDays;
           if (startDate !== undefined)
-            updateData.startDate = startDate ? new Date(startDate) : null;
+            updateData.startDate = startDate
+              ? parseScheduleStartDate(startDate, finalTimezone)
+              : null;
           updateData.weekdays = null;
         } else if (finalRuleType === "DAILY") {
           updateData.weekdays = null;
           updateData.everyNDays = null;
           updateData.startDate = null;
+        } else if (finalRuleType === "RRULE") {
+          updateData.rrule = formatRRule(parseRRule(finalRrule!).rule!);
+          if (startDate !== undefined)
+            updateData.startDate = startDate
+              ? parseScheduleStartDate(startDate, finalTimezone)
+              : null;
+          updateData.weekdays = null;
+          updateData.everyNDays = null;
         }
+        if (finalRuleType !== "RRULE") updateData.rrule = null;
 
         const [updated] = await db
           .update(taskSchedules)
@@ -1206,12 +3582,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const today = getTodayBerlin();
         const todayStr = formatDateBerlin(new Date());
-        const dedupKey = `SCHED:${schedule.schedule.id}:${todayStr}`;
+        const dedupKey = getLegacyScheduleDedupKey(
+          schedule.schedule.id,
+          todayStr,
+        );
 
+        // Any task of the schedule today, with or without time in the key
         const [existingTask] = await db
           .select()
           .from(tasks)
-          .where(eq(tasks.dedupKey, dedupKey));
+          .where(
+            or(
+              eq(tasks.dedupKey, dedupKey),
+              like(tasks.dedupKey, `${dedupKey}:%`),
+            ),
+          );
         if (existingTask) {
           return res.status(409).json({
             error: "Task already exists for this schedule today",
@@ -1219,47 +3604,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
-        const standIdentifier = schedule.stand?.identifier || "Unknown";
-        const [newTask] = await db
-          .insert(tasks)
-          .values({
-            title: `${schedule.schedule.name} - Stand ${standIdentifier}`,
-            description: `Manuell ausgelöst von ${authUser.name}`,
-            containerID: schedule.schedule.standId,
-            standId: schedule.schedule.standId,
-            materialType: schedule.stand?.materialId || null,
-            taskType: "MANUAL",
-            source: "SCHEDULED",
-            scheduleId: schedule.schedule.id,
-            status: "OPEN",
-            priority: "normal",
-            scheduledFor: today,
-            dedupKey,
-            createdBy: authUser.id,
-          })
-          .returning();
-
-        const standMeta = await buildStandContextMeta(
-          schedule.schedule.standId,
-        );
-        await createAuditEvent({
-          taskId: newTask.id,
-          actorUserId: authUser.id,
-          action: "TASK_CREATED",
-          entityType: "task",
-          entityId: newTask.id,
-          beforeData: null,
-          afterData: {
-            status: "OPEN",
-            taskType: "MANUAL",
-            source: "SCHEDULED",
+        let newTask: typeof tasks.$inferSelect | undefined;
+        const outcome = await recordSchedulerRun(
+          {
+            scheduler: "FLEXIBLE",
+            trigger: "MANUAL",
             scheduleId: schedule.schedule.id,
+            triggeredById: authUser.id,
           },
-          metaJson: {
-            ...standMeta,
-            source: "MANUAL_TRIGGER",
+          async () => {
+            const standIdentifier = schedule.stand?.identifier || "Unknown";
+            [newTask] = await db
+              .insert(tasks)
+              .values({
+                title: `${schedule.schedule.name} - Stand ${standIdentifier}`,
+                description: `Manuell ausgelöst von ${authUser.name}`,
+                containerID: schedule.schedule.standId,
+                standId: schedule.schedule.standId,
+                siteId: schedule.stand?.siteId ?? null,
+                materialType: schedule.stand?.materialId || null,
+                taskType: "MANUAL",
+                source: "SCHEDULED",
+                scheduleId: schedule.schedule.id,
+                status: "OPEN",
+                priority: "normal",
+                scheduledFor: today,
+                dedupKey,
+                createdBy: authUser.id,
+              })
+              .returning();
+
+            const standMeta = await buildStandContextMeta(
+              schedule.schedule.standId,
+            );
+            await createAuditEvent({
+              taskId: newTask.id,
+              actorUserId: authUser.id,
+              action: "TASK_CREATED",
+              entityType: "task",
+              entityId: newTask.id,
+              beforeData: null,
+              afterData: {
+                status: "OPEN",
+                taskType: "MANUAL",
+                source: "SCHEDULED",
+                scheduleId: schedule.schedule.id,
+              },
+              metaJson: {
+                ...standMeta,
+                source: "MANUAL_TRIGGER",
+              },
+            });
+            return { createdCount: 1, skippedCount: 0, errors: [] };
           },
-        });
+        );
+        if (outcome.status === "FAILED") throw outcome.error;
 
         res.status(201).json(newTask);
       } catch (error: any) {
@@ -1274,9 +3673,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // ============================================================================
+  // SCHEDULER RUNS
+  // Run history of the task schedulers, latest first
+  // ============================================================================
+
+  app.get(
+    "/api/admin/scheduler-runs",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const scheduleId =
+          typeof req.query.scheduleId === "string"
+            ? req.query.scheduleId
+            : undefined;
+        const runs = await listSchedulerRuns({ limit, scheduleId });
+        res.json(runs);
+      } catch (error) {
+        console.error("[SchedulerRuns] Failed to fetch runs:", error);
+        res.status(500).json({ error: "Failed to fetch scheduler runs" });
+      }
+    },
+  );
+
+  // The instance currently running the background jobs
+  app.get(
+    "/api/admin/scheduler-leader",
+    requireAuth,
+    requireAdmin,
+    async (_req, res) => {
+      try {
+        res.json({ leader: await getSchedulerLeader() });
+      } catch (error) {
+        console.error("[SchedulerLeader] Failed to fetch leader:", error);
+        res.status(500).json({ error: "Failed to fetch scheduler leader" });
+      }
+    },
+  );
+
   // ============================================================================
   // SCHEDULE PREVIEW ENDPOINT
-  // Returns upcoming task dates based on schedule rules
+  // Returns upcoming task dates based on schedule rules, with the effect of
+  // the factory calendar (status SCHEDULED, SHIFTED or SKIPPED)
   // ============================================================================
 
   app.get(
@@ -1297,42 +3737,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         const timezone = schedule.timezone || "Europe/Berlin";
-        const now = new Date();
+        const todayLocal = formatZonedDate(new Date(), timezone);
+        const [stand] = await db
+          .select({ siteId: stands.siteId })
+          .from(stands)
+          .where(eq(stands.id, schedule.standId));
+        const calendar = await loadFactoryCalendar(stand?.siteId ?? null);
         const previewDates: {
           date: string;
           scheduledTime: string;
+          scheduledFor: string;
           dayOfWeek: number;
+          status: "SCHEDULED" | "SHIFTED" | "SKIPPED";
+          originalDate?: string;
+          reason?: string;
         }[] = [];
 
         for (let dayOffset = 0; dayOffset < days; dayOffset++) {
-          const targetDate = new Date(now);
-          targetDate.setDate(targetDate.getDate() + dayOffset);
-
-          // For INTERVAL rules with future startDate, skip dates before start
-          if (schedule.ruleType === "INTERVAL" && schedule.startDate) {
-            const startDateLocal = getDateInTimezone(
-              schedule.startDate,
-              timezone,
+          const dateStr = addDays(todayLocal, dayOffset);
+
+          if (shouldGenerateForDate(schedule, dateStr, timezone)) {
+            const resolved = resolveScheduledDate(
+              dateStr,
+              schedule.calendarMode,
+              calendar,
             );
-            const targetDateLocal = getDateInTimezone(targetDate, timezone);
-            if (targetDateLocal < startDateLocal) {
-              continue;
+
+            let occurrence: Omit<
+              (typeof previewDates)[number],
+              "scheduledTime" | "scheduledFor"
+            >;
+            if (!resolved.date) {
+              occurrence = {
+                date: dateStr,
+                dayOfWeek: getLocalWeekday(dateStr),
+                status: "SKIPPED",
+                reason: resolved.reason,
+              };
+            } else if (resolved.shiftedFrom) {
+              occurrence = {
+                date: resolved.date,
+                dayOfWeek: getLocalWeekday(resolved.date),
+                status: "SHIFTED",
+                originalDate: dateStr,
+                reason: resolved.reason,
+              };
+            } else {
+              occurrence = {
+                date: dateStr,
+                dayOfWeek: getLocalWeekday(dateStr),
+                status: "SCHEDULED",
+              };
             }
-          }
 
-          if (shouldGenerateForDate(schedule, targetDate, timezone)) {
-            const dateStr = formatDateInTimezone(targetDate, timezone);
-            const [hours, minutes] = (schedule.timeLocal || "06:00")
-              .split(":")
-              .map(Number);
-            const scheduledTime = `${String(hours || 6).padStart(2, "0")}:${String(minutes || 0).padStart(2, "0")}`;
-            const dayOfWeek = getDayOfWeekInTimezone(targetDate, timezone);
-
-            previewDates.push({
-              date: dateStr,
-              scheduledTime,
-              dayOfWeek,
-            });
+            for (const timeLocal of getScheduleTimes(schedule)) {
+              const [hours, minutes] = timeLocal.split(":").map(Number);
+              const scheduledTime = `${String(hours || 6).padStart(2, "0")}:${String(minutes || 0).padStart(2, "0")}`;
+              previewDates.push({
+                ...occurrence,
+                scheduledTime,
+                scheduledFor: zonedTimeToUtc(
+                  occurrence.date,
+                  scheduledTime,
+                  timezone,
+                ).toISOString(),
+              });
+            }
           }
         }
 
@@ -1340,6 +3810,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           scheduleId: schedule.id,
           scheduleName: schedule.name,
           ruleType: schedule.ruleType,
+          rrule: schedule.rrule,
+          calendarMode: schedule.calendarMode,
           previewDays: days,
           dates: previewDates,
         });
@@ -1350,6 +3822,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // ============================================================================
+  // FACTORY CALENDAR - Holidays, plant shutdowns and special working days
+  // consulted by both schedulers. Entries without siteId apply to all sites
+  // ============================================================================
+
+  /**
+   * GET /api/admin/factory-calendar - Entries overlapping a year, plus the
+   * built-in public holidays of that year
+   * Query: year (default: current year), siteId (also returns global entries)
+   */
+  app.get(
+    "/api/admin/factory-calendar",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const year =
+          parseInt(req.query.year as string) ||
+          Number(formatDateBerlin(new Date()).slice(0, 4));
+        const siteId = req.query.siteId as string | undefined;
+
+        const conditions = [
+          lte(factoryCalendarEntries.startDate, `${year}-12-31`),
+          gte(factoryCalendarEntries.endDate, `${year}-01-01`),
+        ];
+        if (siteId) {
+          conditions.push(
+            or(
+              isNull(factoryCalendarEntries.siteId),
+              eq(factoryCalendarEntries.siteId, siteId),
+            )!,
+          );
+        }
+        const entries = await db
+          .select()
+          .from(factoryCalendarEntries)
+          .where(and(...conditions))
+          .orderBy(factoryCalendarEntries.startDate);
+
+        res.json({
+          year,
+          entries,
+          publicHolidays: getPublicHolidays(year),
+        });
+      } catch (error) {
+        console.error("[FactoryCalendar] Failed to fetch entries:", error);
+        res.status(500).json({ error: "Failed to fetch factory calendar" });
+      }
+    },
+  );
+
+  /**
+   * POST /api/admin/factory-calendar - Create an entry
+   * Body: kind (HOLIDAY, SHUTDOWN, WORKING_DAY), name, startDate, endDate
+   * (YYYY-MM-DD, inclusive), siteId (optional, null = all sites)
+   */
+  app.post(
+    "/api/admin/factory-calendar",
+    requireAuth,
+    requireAdmin,
+    auditEntity("factory_calendar"),
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const { kind, name, startDate, siteId } = req.body;
+        const endDate = req.body.endDate || startDate;
+        const errors = validateFactoryCalendarEntry({
+          kind,
+          name,
+          startDate,
+          endDate,
+        });
+        if (errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: "Ungültiger Kalendereintrag", details: errors });
+        }
+        if (siteId && !(await storage.getSite(siteId))) {
+          return res.status(404).json({ error: "Site not found" });
+        }
+
+        const [entry] = await db
+          .insert(factoryCalendarEntries)
+          .values({
+            siteId: siteId || null,
+            kind,
+            name: name.trim(),
+            startDate,
+            endDate,
+            createdById: authUser.id,
+          })
+          .returning();
+        res.status(201).json(entry);
+      } catch (error) {
+        console.error("[FactoryCalendar] Failed to create entry:", error);
+        res.status(500).json({ error: "Failed to create calendar entry" });
+      }
+    },
+  );
+
+  // PATCH /api/admin/factory-calendar/:id - Update an entry
+  app.patch(
+    "/api/admin/factory-calendar/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("factory_calendar"),
+    async (req, res) => {
+      try {
+        const [existing] = await db
+          .select()
+          .from(factoryCalendarEntries)
+          .where(eq(factoryCalendarEntries.id, req.params.id));
+        if (!existing) {
+          return res.status(404).json({ error: "Calendar entry not found" });
+        }
+
+        const merged = {
+          kind: req.body.kind ?? existing.kind,
+          name: req.body.name ?? existing.name,
+          startDate: req.body.startDate ?? existing.startDate,
+          endDate: req.body.endDate ?? existing.endDate,
+        };
+        const errors = validateFactoryCalendarEntry(merged);
+        if (errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: "Ungültiger Kalendereintrag", details: errors });
+        }
+        const siteId =
+          req.body.siteId !== undefined
+            ? req.body.siteId || null
+            : existing.siteId;
+        if (siteId && !(await storage.getSite(siteId))) {
+          return res.status(404).json({ error: "Site not found" });
+        }
+
+        const [updated] = await db
+          .update(factoryCalendarEntries)
+          .set({
+            ...merged,
+            name: merged.name.trim(),
+            siteId,
+            updatedAt: new Date(),
+          })
+          .where(eq(factoryCalendarEntries.id, existing.id))
+          .returning();
+        res.json(updated);
+      } catch (error) {
+        console.error("[FactoryCalendar] Failed to update entry:", error);
+        res.status(500).json({ error: "Failed to update calendar entry" });
+      }
+    },
+  );
+
+  // DELETE /api/admin/factory-calendar/:id - Delete an entry
+  app.delete(
+    "/api/admin/factory-calendar/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("factory_calendar"),
+    async (req, res) => {
+      try {
+        const [deleted] = await db
+          .delete(factoryCalendarEntries)
+          .where(eq(factoryCalendarEntries.id, req.params.id))
+          .returning({ id: factoryCalendarEntries.id });
+        if (!deleted) {
+          return res.status(404).json({ error: "Calendar entry not found" });
+        }
+        res.json({ success: true });
+      } catch (error) {
+        console.error("[FactoryCalendar] Failed to delete entry:", error);
+        res.status(500).json({ error: "Failed to delete calendar entry" });
+      }
+    },
+  );
+
   // ============================================================================
   // MANUAL TASK CREATION
   // Create ad-hoc tasks not tied to schedules
@@ -1402,6 +4051,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           title,
           description: description || null,
           containerID: standId,
+          siteId: stand.siteId,
           standId,
           materialType: stand.materialId || null,
           taskType: "MANUAL",
@@ -1573,17 +4223,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/customers/:id", async (req, res) => {
-    try {
-      const customer = await storage.updateCustomer(req.params.id, req.body);
-      if (!customer) {
-        return res.status(404).json({ error: "Customer not found" });
+  app.patch(
+    "/api/customers/:id",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const customer = await storage.updateCustomer(req.params.id, req.body);
+        if (!customer) {
+          return res.status(404).json({ error: "Customer not found" });
+        }
+        res.json(customer);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to update customer" });
       }
-      res.json(customer);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update customer" });
-    }
-  });
+    },
+  );
 
   // ============================================================================
   // CUSTOMER CONTAINERS (LEGACY - Original waste container management)
@@ -1658,24 +4313,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  app.patch("/api/containers/customer/:id", async (req, res) => {
-    try {
-      // IMPORTANT: Never allow qrCode to be changed via regular update
-      // QR codes must remain stable - use regenerate endpoint for explicit changes
-      const { qrCode, ...updateData } = req.body;
+  app.patch(
+    "/api/containers/customer/:id",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        // IMPORTANT: Never allow qrCode to be changed via regular update
+        // QR codes must remain stable - use regenerate endpoint for explicit changes
+        const { qrCode, ...updateData } = req.body;
 
-      const container = await storage.updateCustomerContainer(
-        req.params.id,
-        updateData,
-      );
-      if (!container) {
-        return res.status(404).json({ error: "Container not found" });
+        const container = await storage.updateCustomerContainer(
+          req.params.id,
+          updateData,
+        );
+        if (!container) {
+          return res.status(404).json({ error: "Container not found" });
+        }
+        res.json(container);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to update container" });
       }
-      res.json(container);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update container" });
-    }
-  });
+    },
+  );
 
   // Admin-only: Regenerate QR code for customer container
   app.post(
@@ -1684,7 +4344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireAdmin,
     async (req, res) => {
       try {
-        const { userId } = req.body;
+        const userId = (req as any).authUser.id;
 
         const existingContainer = await storage.getCustomerContainer(
           req.params.id,
@@ -1734,9 +4394,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WAREHOUSE CONTAINERS
   // ============================================================================
 
-  app.get("/api/containers/warehouse", async (req, res) => {
+  app.get("/api/containers/warehouse", requireAuth, async (req, res) => {
     try {
-      const containers = await storage.getWarehouseContainers();
+      const containers = await storage.getWarehouseContainers(
+        getActiveSiteId(req),
+      );
       res.json(containers);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch warehouse containers" });
@@ -1792,6 +4454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const container = await storage.createWarehouseContainer({
           id,
           ...rest,
+          siteId: rest.siteId || getActiveSiteId(req),
           qrCode: stableQrCode, // Always use stable QR code
         });
         res.status(201).json(container);
@@ -1802,27 +4465,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  app.patch("/api/containers/warehouse/:id", async (req, res) => {
-    try {
-      // IMPORTANT: Never allow qrCode to be changed via regular update
-      // QR codes must remain stable - use regenerate endpoint for explicit changes
-      const { qrCode, ...updateData } = req.body;
+  app.patch(
+    "/api/containers/warehouse/:id",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        // IMPORTANT: Never allow qrCode to be changed via regular update
+        // QR codes must remain stable - use regenerate endpoint for explicit changes
+        const { qrCode, ...updateData } = req.body;
 
-      const container = await storage.updateWarehouseContainer(
-        req.params.id,
-        updateData,
-      );
-      if (!container) {
-        return res.status(404).json({ error: "Container not found" });
+        const container = await storage.updateWarehouseContainer(
+          req.params.id,
+          updateData,
+        );
+        if (!container) {
+          return res.status(404).json({ error: "Container not found" });
+        }
+        res.json(container);
+      } catch (error) {
+        console.error("Error updating warehouse container:", error);
+        res.status(500).json({
+          error: "Failed to update container",
+          details: String(error),
+        });
       }
-      res.json(container);
-    } catch (error) {
-      console.error("Error updating warehouse container:", error);
-      res
-        .status(500)
-        .json({ error: "Failed to update container", details: String(error) });
-    }
-  });
+    },
+  );
 
   // Admin-only: Regenerate QR code for warehouse container
   app.post(
@@ -1831,7 +4500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireAdmin,
     async (req, res) => {
       try {
-        const { userId } = req.body;
+        const userId = (req as any).authUser.id;
 
         const existingContainer = await storage.getWarehouseContainer(
           req.params.id,
@@ -1982,63 +4651,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get tasks with role-based filtering:
   // - ADMIN: sees all tasks (default: open tasks, can filter by status)
   // - DRIVER: sees only their own tasks
-  app.get("/api/tasks", async (req, res) => {
-    try {
-      const { assignedTo, status, date, showAll } = req.query;
-      const userId =
-        (req.headers["x-user-id"] as string) || (req.query.userId as string);
-
-      // Get user to determine role
-      let userRole = "DRIVER"; // Default to driver if no user
-      if (userId) {
-        const user = await storage.getUser(userId);
-        if (user) {
-          userRole = user.role?.toUpperCase() || "DRIVER";
-        }
-      }
-
-      const filters: { assignedTo?: string; status?: string; date?: Date } = {};
-
-      // Role-based filtering
-      if (userRole === "ADMIN") {
-        // Admin sees all tasks, can optionally filter
-        if (assignedTo) filters.assignedTo = assignedTo as string;
-        // By default, show open tasks (non-completed, non-cancelled) unless showAll is true
-        if (status) {
-          filters.status = status as string;
-        }
-      } else {
-        // Driver only sees their own tasks
-        if (userId) {
+  app.get(
+    "/api/tasks",
+    allowApiKey("tasks:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { assignedTo, status, date, showAll } = req.query;
+        const authUser = (req as any).authUser;
+        const userId: string = authUser.id;
+        const userRole = authUser.role?.toUpperCase() || "DRIVER";
+
+        const filters: {
+          assignedTo?: string;
+          status?: string;
+          date?: Date;
+          siteId?: string | null;
+        } = { siteId: getActiveSiteId(req) };
+
+        // Role-based filtering
+        if (userRole === "ADMIN") {
+          // Admin sees all tasks, can optionally filter
+          if (assignedTo) filters.assignedTo = assignedTo as string;
+          // By default, show open tasks (non-completed, non-cancelled) unless showAll is true
+          if (status) {
+            filters.status = status as string;
+          }
+        } else {
+          // Driver only sees their own tasks
           filters.assignedTo = userId;
-        } else if (assignedTo) {
-          filters.assignedTo = assignedTo as string;
+          if (status) filters.status = status as string;
         }
-        if (status) filters.status = status as string;
-      }
 
-      if (date) filters.date = new Date(date as string);
+        if (date) filters.date = new Date(date as string);
 
-      let taskList = await storage.getTasks(
-        Object.keys(filters).length > 0 ? filters : undefined,
-      );
+        let taskList = await storage.getTasks(filters);
 
-      // For admin without specific status filter and not showAll, filter out completed/cancelled
-      if (userRole === "ADMIN" && !status && showAll !== "true") {
-        const FINAL_STATUSES = ["COMPLETED", "CANCELLED"];
-        taskList = taskList.filter((t) => !FINAL_STATUSES.includes(t.status));
-      }
+        // For admin without specific status filter and not showAll, filter out completed/cancelled
+        if (userRole === "ADMIN" && !status && showAll !== "true") {
+          const FINAL_STATUSES = ["COMPLETED", "CANCELLED"];
+          taskList = taskList.filter((t) => !FINAL_STATUSES.includes(t.status));
+        }
 
-      res.json(taskList);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch tasks" });
-    }
-  });
+        res.json(taskList);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to fetch tasks" });
+      }
+    },
+  );
 
-  app.get("/api/tasks/:id", async (req, res) => {
+  app.get("/api/tasks/:id", requireAuth, async (req, res) => {
     try {
       const task = await storage.getTask(req.params.id);
-      if (!task) {
+      if (!task || !isInActiveSite(req, task.siteId)) {
         return res.status(404).json({ error: "Task not found" });
       }
       res.json(task);
@@ -2135,13 +4800,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      if (!taskData.siteId) {
+        taskData.siteId = getActiveSiteId(req);
+      }
+
       const task = await storage.createTask(taskData as any);
 
       await storage.createActivityLog({
         type: "TASK_CREATED",
         action: "TASK_CREATED",
         message: `Auftrag erstellt für Container ${task.containerID}`,
-        userId: req.body.createdBy || null,
+        userId: (req as any).authUser.id,
         taskId: task.id,
         containerId: task.containerID,
         timestamp: new Date(),
@@ -2161,10 +4830,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tasks/:id", async (req, res) => {
+  // Optional body.version: only update if the task is still at that version
+  app.patch("/api/tasks/:id", requireAuth, async (req, res) => {
     try {
-      const task = await storage.updateTask(req.params.id, req.body);
+      const { version, ...data } = req.body;
+      const expectedVersion = typeof version === "number" ? version : undefined;
+      const task = await storage.updateTask(
+        req.params.id,
+        data,
+        expectedVersion,
+      );
       if (!task) {
+        if (
+          expectedVersion !== undefined &&
+          (await storage.getTask(req.params.id))
+        ) {
+          return sendTaskVersionConflict(res, req.params.id);
+        }
         return res.status(404).json({ error: "Task not found" });
       }
       res.json(task);
@@ -2222,46 +4904,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks/:id/assign", async (req, res) => {
-    try {
-      const { userId, assignedBy } = req.body;
-      const task = await storage.getTask(req.params.id);
+  // Admin-only: body.userId is the driver the task is assigned to
+  app.post(
+    "/api/tasks/:id/assign",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const { userId } = req.body;
+        const task = await storage.getTask(req.params.id);
 
-      if (!task) {
-        return res.status(404).json({ error: "Task not found" });
-      }
+        if (!task) {
+          return res.status(404).json({ error: "Task not found" });
+        }
 
-      const updatedTask = await storage.updateTaskStatus(
-        req.params.id,
-        "ASSIGNED",
-        userId,
-      );
-      if (!updatedTask) {
-        return res.status(400).json({ error: "Invalid status transition" });
-      }
+        const updatedTask = await storage.updateTaskStatus(
+          req.params.id,
+          "ASSIGNED",
+          userId,
+        );
+        if (!updatedTask) {
+          return res.status(400).json({ error: "Invalid status transition" });
+        }
 
-      const driver = await storage.getUser(userId);
-      const driverName = driver?.name || "Unbekannt";
+        const driver = await storage.getUser(userId);
+        const driverName = driver?.name || "Unbekannt";
 
-      await storage.createActivityLog({
-        type: "TASK_ASSIGNED",
-        action: "TASK_ASSIGNED",
-        message: `Auftrag ${task.id} wurde Fahrer ${driverName} zugewiesen`,
-        userId: assignedBy || null,
-        taskId: task.id,
-        containerId: task.containerID,
-        timestamp: new Date(),
-        details: null,
-        metadata: null,
-        location: null,
-        scanEventId: null,
-      });
+        await storage.createActivityLog({
+          type: "TASK_ASSIGNED",
+          action: "TASK_ASSIGNED",
+          message: `Auftrag ${task.id} wurde Fahrer ${driverName} zugewiesen`,
+          userId: authUser.id,
+          taskId: task.id,
+          containerId: task.containerID,
+          timestamp: new Date(),
+          details: null,
+          metadata: null,
+          location: null,
+          scanEventId: null,
+        });
 
-      res.json(updatedTask);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to assign task" });
-    }
-  });
+        res.json(updatedTask);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to assign task" });
+      }
+    },
+  );
 
   // ============================================================================
   // LEGACY TASK WORKFLOW ROUTES (Original waste container management)
@@ -2277,9 +4966,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Transitions: PLANNED/ASSIGNED -> ACCEPTED (auto-assigns if needed)
   // Role logic: ADMIN can accept any task, DRIVER can only accept their own
   // Idempotent: If already in ACCEPTED or later state, return current state
-  app.post("/api/tasks/:id/accept", async (req, res) => {
+  app.post("/api/tasks/:id/accept", requireAuth, async (req, res) => {
     try {
-      const { userId, location, geoLocation } = req.body;
+      const user = (req as any).authUser as User;
+      const userId = user.id;
+      const { location, geoLocation } = req.body;
       const task = await storage.getTask(req.params.id);
 
       if (!task) {
@@ -2287,11 +4978,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Role-based authorization
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ error: "Benutzer nicht gefunden" });
-      }
-
       const userRole = user.role?.toUpperCase() || "DRIVER";
       const isAdmin = userRole === "ADMIN";
       const isAssignedDriver = task.assignedTo === userId;
@@ -2438,13 +5124,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         extraData: null,
       });
 
-      const driver = await storage.getUser(userId);
-      const driverName = driver?.name || "Unbekannt";
-
       await storage.createActivityLog({
         type: "TASK_ACCEPTED",
         action: "TASK_ACCEPTED",
-        message: `Fahrer ${driverName} hat Auftrag ${task.id} beim Kunden angenommen`,
+        message: `Fahrer ${user.name} hat Auftrag ${task.id} beim Kunden angenommen`,
         userId,
         taskId: task.id,
         containerId: task.containerID,
@@ -2498,9 +5181,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Transitions: ACCEPTED -> PICKED_UP
   // Role logic: ADMIN can pickup any task, DRIVER can only pickup their own
   // Idempotent: If already picked up or in later state, return current state
-  app.post("/api/tasks/:id/pickup", async (req, res) => {
+  app.post("/api/tasks/:id/pickup", requireAuth, async (req, res) => {
     try {
-      const { userId, location, geoLocation } = req.body;
+      const user = (req as any).authUser as User;
+      const userId = user.id;
+      const { location, geoLocation } = req.body;
       const task = await storage.getTask(req.params.id);
 
       if (!task) {
@@ -2508,11 +5193,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Role-based authorization
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ error: "Benutzer nicht gefunden" });
-      }
-
       const userRole = user.role?.toUpperCase() || "DRIVER";
       const isAdmin = userRole === "ADMIN";
       const isAssignedDriver = task.assignedTo === userId;
@@ -2569,13 +5249,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         extraData: null,
       });
 
-      const driver = await storage.getUser(userId);
-      const driverName = driver?.name || "Unbekannt";
-
       await storage.createActivityLog({
         type: "TASK_PICKED_UP",
         action: "TASK_PICKED_UP",
-        message: `Fahrer ${driverName} hat Container ${task.containerID} abgeholt`,
+        message: `Fahrer ${user.name} hat Container ${task.containerID} abgeholt`,
         userId,
         taskId: task.id,
         containerId: task.containerID,
@@ -2596,10 +5273,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delivery endpoint - driver/admin scans warehouse container to complete delivery
   // Adds quantity to warehouse container and completes the task
   // Role logic: ADMIN can deliver any task, DRIVER can only deliver their own
-  app.post("/api/tasks/:id/delivery", async (req, res) => {
+  app.post("/api/tasks/:id/delivery", requireAuth, async (req, res) => {
     try {
-      const { userId, warehouseContainerId, amount, location, geoLocation } =
-        req.body;
+      const user = (req as any).authUser as User;
+      const userId = user.id;
+      const { warehouseContainerId, amount, location, geoLocation } = req.body;
       const task = await storage.getTask(req.params.id);
 
       if (!task) {
@@ -2607,11 +5285,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Role-based authorization
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ error: "Benutzer nicht gefunden" });
-      }
-
       const userRole = user.role?.toUpperCase() || "DRIVER";
       const isAdmin = userRole === "ADMIN";
       const isAssignedDriver = task.assignedTo === userId;
@@ -2645,110 +5318,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Determine quantity to add: prefer actual/measured, then planned, then estimated
-      const deliveredAmount =
-        amount || task.plannedQuantity || task.estimatedAmount || 0;
-
-      const availableSpace =
-        warehouseContainer.maxCapacity - warehouseContainer.currentAmount;
-      if (deliveredAmount > availableSpace) {
-        return res.status(400).json({
-          error:
-            "Zielcontainer hat nicht genug übriges Volumen für diese Menge.",
-          remainingCapacity: availableSpace,
-          requestedAmount: deliveredAmount,
-          unit: warehouseContainer.quantityUnit,
-        });
-      }
-
-      let updatedTask = await storage.updateTaskStatus(
-        req.params.id,
-        "DELIVERED",
-      );
-      if (!updatedTask) {
-        return res.status(400).json({ error: "Ungültiger Status-Übergang" });
-      }
-
-      await storage.updateTask(req.params.id, {
-        deliveryContainerID: warehouseContainerId,
-      });
-
-      const scanEvent = await storage.createScanEvent({
-        containerId: warehouseContainerId,
-        containerType: "warehouse",
-        taskId: task.id,
-        scannedByUserId: userId,
-        scannedAt: new Date(),
-        scanContext: "TASK_COMPLETE_AT_WAREHOUSE",
-        locationType: "WAREHOUSE",
-        locationDetails: warehouseContainer.warehouseZone || location,
-        geoLocation: geoLocation || null,
-        scanResult: "SUCCESS",
-        resultMessage: null,
-        extraData: null,
-      });
-
-      await storage.createActivityLog({
-        type: "TASK_DELIVERED",
-        action: "TASK_DELIVERED",
-        message: `Container ${task.containerID} wurde im Lager abgeliefert`,
-        userId,
+      // All writes (task, scan event, activity logs, fill level, fill
+      // history, customer container) commit together or not at all; the
+      // capacity is checked on the locked container row
+      const result = await storage.recordTaskDelivery({
         taskId: task.id,
-        containerId: warehouseContainerId,
-        scanEventId: scanEvent.id,
-        location: geoLocation || null,
-        timestamp: new Date(),
-        details: null,
-        metadata: null,
-      });
-
-      // Update warehouse container with additive quantity
-      const newAmount = warehouseContainer.currentAmount + deliveredAmount;
-      await storage.updateWarehouseContainer(warehouseContainerId, {
-        currentAmount: newAmount,
-      });
-
-      await storage.createFillHistory({
         warehouseContainerId,
-        amountAdded: deliveredAmount,
-        quantityUnit: warehouseContainer.quantityUnit,
-        taskId: task.id,
-        recordedByUserId: userId,
-      });
-
-      await storage.updateCustomerContainer(task.containerID, {
-        lastEmptied: new Date(),
-        status: "AT_CUSTOMER",
-      });
-
-      // Update task with actual quantity
-      await storage.updateTask(req.params.id, {
-        actualQuantity: deliveredAmount,
-      });
-
-      updatedTask = await storage.updateTaskStatus(req.params.id, "COMPLETED");
-      if (!updatedTask) {
-        return res
-          .status(400)
-          .json({ error: "Fehler beim Abschließen des Auftrags" });
-      }
-
-      await storage.createActivityLog({
-        type: "TASK_COMPLETED",
-        action: "TASK_COMPLETED",
-        message: `Auftrag ${task.id} abgeschlossen, ${deliveredAmount} ${warehouseContainer.quantityUnit} erfasst`,
         userId,
-        taskId: task.id,
-        containerId: warehouseContainerId,
-        timestamp: new Date(),
-        metadata: {
-          amountAdded: deliveredAmount,
-          unit: warehouseContainer.quantityUnit,
-        },
-        details: null,
-        location: null,
-        scanEventId: null,
+        amount,
+        location,
+        geoLocation,
       });
+      if (!result.ok) {
+        if (result.reason === "INSUFFICIENT_CAPACITY") {
+          return res.status(400).json({
+            error:
+              "Zielcontainer hat nicht genug übriges Volumen für diese Menge.",
+            remainingCapacity: result.remainingCapacity,
+            requestedAmount: result.requestedAmount,
+            unit: warehouseContainer.quantityUnit,
+          });
+        }
+        if (result.reason === "NOT_FOUND") {
+          return res.status(404).json({ error: "Task not found" });
+        }
+        return res.status(400).json({ error: "Ungültiger Status-Übergang" });
+      }
+      const { task: updatedTask, container, amountAdded } = result;
 
       // Return both task and updated container info
       res.json({
@@ -2756,14 +5352,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         targetContainer: {
           id: warehouseContainerId,
           label: warehouseContainerId,
-          location: warehouseContainer.location,
-          content: warehouseContainer.materialType,
-          materialType: warehouseContainer.materialType,
-          capacity: warehouseContainer.maxCapacity,
-          currentFill: newAmount,
-          remainingCapacity: warehouseContainer.maxCapacity - newAmount,
-          unit: warehouseContainer.quantityUnit,
-          amountAdded: deliveredAmount,
+          location: container.location,
+          content: container.materialType,
+          materialType: container.materialType,
+          capacity: container.maxCapacity,
+          currentFill: container.currentAmount,
+          remainingCapacity: container.maxCapacity - container.currentAmount,
+          unit: container.quantityUnit,
+          amountAdded,
         },
       });
     } catch (error) {
@@ -2771,15 +5367,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks/:id/cancel", async (req, res) => {
+  // Role logic: ADMIN can cancel any task, DRIVER can only cancel their own
+  app.post("/api/tasks/:id/cancel", requireAuth, async (req, res) => {
     try {
-      const { userId, reason } = req.body;
+      const authUser = (req as any).authUser as User;
+      const userId = authUser.id;
+      const { reason } = req.body;
       const task = await storage.getTask(req.params.id);
 
       if (!task) {
         return res.status(404).json({ error: "Task not found" });
       }
 
+      const isAdmin = authUser.role?.toUpperCase() === "ADMIN";
+      if (!isAdmin && task.assignedTo !== userId) {
+        return res.status(403).json({
+          error:
+            "Nur der zugewiesene Fahrer oder ein Admin kann diesen Auftrag stornieren.",
+          assignedTo: task.assignedTo,
+        });
+      }
+
       const updatedTask = await storage.updateTaskStatus(
         req.params.id,
         "CANCELLED",
@@ -2840,7 +5448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if already claimed and not expired
       if (task.claimedByUserId) {
-        if (!isClaimExpired(task.claimedAt)) {
+        if (!(await isClaimExpired(task))) {
           // Claim exists and is NOT expired - reject
           const claimingUser = await storage.getUser(task.claimedByUserId);
           return res.status(409).json({
@@ -2848,11 +5456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               "Auftrag wurde bereits von einem anderen Benutzer beansprucht",
             claimedBy: claimingUser?.name || "Unbekannt",
             claimedAt: task.claimedAt,
-            expiresAt: task.claimedAt
-              ? new Date(
-                  task.claimedAt.getTime() + CLAIM_TTL_MINUTES * 60 * 1000,
-                )
-              : null,
+            expiresAt: await getClaimExpiry(task),
           });
         } else {
           // Claim exists but is expired - log auto-release and allow overwriting
@@ -2881,13 +5485,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update task with claim info only - do NOT change status
-      await storage.updateTask(req.params.id, {
-        claimedByUserId: authUser.id,
-        claimedAt: now,
-      });
-
-      // Fetch updated task
-      const updatedTask = await storage.getTask(req.params.id);
+      // Conditional, so of two simultaneous claims only one wins
+      const updatedTask = await storage.updateTask(
+        req.params.id,
+        { claimedByUserId: authUser.id, claimedAt: now },
+        task.version,
+      );
+      if (!updatedTask) {
+        return sendTaskVersionConflict(res, task.id);
+      }
 
       // Create audit event for claim
       const standMeta = task.standId
@@ -2913,7 +5519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         task: updatedTask,
         claimed: true,
-        expiresAt: new Date(now.getTime() + CLAIM_TTL_MINUTES * 60 * 1000),
+        expiresAt: await getClaimExpiry(task, now),
         autoReleasedExpired,
       });
     } catch (error) {
@@ -2975,213 +5581,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Transition task - Unified status transition endpoint
-  // Validates transition, auto-claims if needed, auto-releases on DROPPED_OFF
-  app.post("/api/tasks/:id/transition", requireAuth, async (req, res) => {
+  // Undo - whether the current user can revert the last transition
+  app.get("/api/tasks/:id/undo", requireAuth, async (req, res) => {
     try {
-      const { toStatus, weightKg, targetWarehouseContainerId, reason } =
-        req.body;
       const authUser = (req as any).authUser;
-
-      if (!toStatus) {
-        return res.status(400).json({ error: "toStatus is required" });
-      }
-
       const task = await storage.getTask(req.params.id);
       if (!task) {
         return res.status(404).json({ error: "Auftrag nicht gefunden" });
       }
+      res.json(await getTaskUndoInfo(task, authUser.id));
+    } catch (error) {
+      console.error("Failed to check task undo:", error);
+      res.status(500).json({ error: "Failed to check task undo" });
+    }
+  });
 
-      // Validate transition using assertAutomotiveTransition
-      try {
-        assertAutomotiveTransition(task.status, toStatus);
-      } catch (error: any) {
-        return res.status(409).json({
-          error: error.message,
-          currentStatus: task.status,
-          requestedStatus: toStatus,
-        });
+  // Undo - reverts the current user's last transition within the undo
+  // window (task fields, box, fill level) and logs TRANSITION_UNDONE
+  app.post("/api/tasks/:id/undo", requireAuth, async (req, res) => {
+    try {
+      const authUser = (req as any).authUser;
+      const result = await undoLastTaskTransition(req.params.id, authUser);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
       }
+      res.json({
+        task: result.task,
+        undone: true,
+        fromStatus: result.fromStatus,
+        toStatus: result.toStatus,
+      });
+    } catch (error) {
+      console.error("Failed to undo task transition:", error);
+      res.status(500).json({ error: "Fehler beim Rückgängigmachen" });
+    }
+  });
 
-      // Require weightKg for TAKEN_OVER → WEIGHED transition
-      if (task.status === "TAKEN_OVER" && toStatus === "WEIGHED") {
-        if (weightKg === undefined || weightKg === null) {
-          return res
-            .status(400)
-            .json({ error: "weightKg is required for WEIGHED status" });
+  // Transition task - Unified status transition endpoint
+  // Validates transition, auto-claims if needed, auto-releases on DROPPED_OFF
+  app.post(
+    "/api/tasks/:id/transition",
+    allowApiKey("tasks:write", "weights:write"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const {
+          toStatus,
+          weightKg,
+          targetWarehouseContainerId,
+          reason,
+          version,
+        } = req.body;
+        const authUser = (req as any).authUser;
+
+        if (!toStatus) {
+          return res.status(400).json({ error: "toStatus is required" });
+        }
+        // API keys need weights:write to weigh and tasks:write for the rest
+        const requiredScope =
+          toStatus === "WEIGHED" ? "weights:write" : "tasks:write";
+        if (!ensureApiKeyScope(req, res, requiredScope)) {
+          return;
         }
-      }
 
-      const now = new Date();
-      let autoClaimed = false;
-      let autoReleased = false;
+        const task = await storage.getTask(req.params.id);
+        if (!task) {
+          return res.status(404).json({ error: "Auftrag nicht gefunden" });
+        }
 
-      // Build metaJson context for audit events
-      const standMeta = task.standId
-        ? await buildStandContextMeta(task.standId)
-        : {};
+        // Validate against the site's workflow (roles, required fields)
+        const workflow = await getWorkflow("AUTOMOTIVE", task.siteId);
+        const check = checkWorkflowTransition(
+          workflow,
+          task.status,
+          toStatus,
+          authUser,
+          req.body,
+          { enforceScans: false },
+        );
+        if (!check.ok) {
+          return res.status(check.status).json(check.body);
+        }
+        const { transition } = check;
 
-      // Auto-claim if not claimed or claim is expired
-      if (!task.claimedByUserId || isClaimExpired(task.claimedAt)) {
-        autoClaimed = true;
-        // Log auto-claim event
-        await createAuditEvent({
-          taskId: task.id,
-          actorUserId: authUser.id,
-          action: "AUTO_CLAIM",
-          entityType: "task",
-          entityId: task.id,
-          beforeData: {
-            claimedByUserId: task.claimedByUserId,
-            claimedAt: task.claimedAt,
-          },
-          afterData: { claimedByUserId: authUser.id, claimedAt: now },
-          metaJson: {
-            ...standMeta,
-            boxId: task.boxId || undefined,
-            reason: "Auto-claimed before status transition",
-          },
-        });
-      }
+        const now = new Date();
+        let autoClaimed = false;
+        let autoReleased = false;
 
-      const beforeData = {
-        status: task.status,
-        weightKg: task.weightKg,
-        targetWarehouseContainerId: task.targetWarehouseContainerId,
-        claimedByUserId: task.claimedByUserId,
-        claimedAt: task.claimedAt,
-      };
+        // Build metaJson context for audit events
+        const standMeta = task.standId
+          ? await buildStandContextMeta(task.standId)
+          : {};
 
-      const updateData: any = {
-        status: toStatus,
-        updatedAt: now,
-      };
+        // Auto-claim if not claimed or claim is expired (logged once the
+        // update has gone through)
+        if (!task.claimedByUserId || (await isClaimExpired(task))) {
+          autoClaimed = true;
+        }
 
-      // Auto-claim if needed
-      if (autoClaimed) {
-        updateData.claimedByUserId = authUser.id;
-        updateData.claimedAt = now;
-      }
+        const beforeData = {
+          status: task.status,
+          weightKg: task.weightKg,
+          targetWarehouseContainerId: task.targetWarehouseContainerId,
+          claimedByUserId: task.claimedByUserId,
+          claimedAt: task.claimedAt,
+        };
 
-      // Auto-release on DROPPED_OFF transition (from IN_TRANSIT)
-      if (toStatus === "DROPPED_OFF") {
-        updateData.claimedByUserId = null;
-        updateData.claimedAt = null;
-        autoReleased = true;
-      }
+        const updateData: any = {
+          status: toStatus,
+          updatedAt: now,
+        };
 
-      // Set timestamp field for the status
-      const timestampField = getAutomotiveTimestampFieldForStatus(toStatus);
-      if (timestampField) {
-        updateData[timestampField] = now;
-      }
+        // Auto-claim if needed
+        if (autoClaimed) {
+          updateData.claimedByUserId = authUser.id;
+          updateData.claimedAt = now;
+        }
 
-      if (weightKg !== undefined) {
-        updateData.weightKg = weightKg;
-        updateData.weighedByUserId = authUser.id;
-      }
+        // Auto-release at hand-over points (DROPPED_OFF by default)
+        if (transition.releasesClaim) {
+          updateData.claimedByUserId = null;
+          updateData.claimedAt = null;
+          autoReleased = true;
+        }
 
-      if (targetWarehouseContainerId !== undefined) {
-        updateData.targetWarehouseContainerId = targetWarehouseContainerId;
-      }
+        // Set timestamp field for the status
+        const timestampField = getWorkflowTimestampField(workflow, toStatus);
+        if (timestampField) {
+          updateData[timestampField] = now;
+        }
 
-      if (reason !== undefined) {
-        updateData.cancellationReason = reason;
-      }
+        if (weightKg !== undefined) {
+          updateData.weightKg = weightKg;
+          updateData.weighedByUserId = authUser.id;
+        }
 
-      // Perform the update
-      await storage.updateTask(req.params.id, updateData);
+        if (targetWarehouseContainerId !== undefined) {
+          updateData.targetWarehouseContainerId = targetWarehouseContainerId;
+        }
 
-      // Handle box status updates for terminal states
-      if ((toStatus === "DISPOSED" || toStatus === "CANCELLED") && task.boxId) {
-        await db
-          .update(boxes)
-          .set({
-            currentTaskId: null,
-            status: toStatus === "DISPOSED" ? "AT_WAREHOUSE" : "AT_STAND",
-            updatedAt: now,
-          })
-          .where(eq(boxes.id, task.boxId));
-      }
+        if (reason !== undefined) {
+          updateData.cancellationReason = reason;
+        }
 
-      const eventMetaJson = {
-        ...standMeta,
-        boxId: task.boxId || undefined,
-        containerId: task.boxId || undefined,
-        targetWarehouseContainerId:
-          updateData.targetWarehouseContainerId || undefined,
-        autoClaimed,
-        autoReleased,
-      };
+        // Conditional on the version the decision was based on: the
+        // client's if it sent one, otherwise the one read above
+        const updatedTask = await storage.updateTask(
+          req.params.id,
+          updateData,
+          typeof version === "number" ? version : task.version,
+        );
+        if (!updatedTask) {
+          return sendTaskVersionConflict(res, task.id);
+        }
 
-      // Log STATUS_CHANGED event
-      await createAuditEvent({
-        taskId: task.id,
-        actorUserId: authUser.id,
-        action: "STATUS_CHANGED",
-        entityType: "task",
-        entityId: task.id,
-        beforeData,
-        afterData: {
-          status: toStatus,
-          weightKg: updateData.weightKg,
-          targetWarehouseContainerId: updateData.targetWarehouseContainerId,
-          claimedByUserId: updateData.claimedByUserId,
-          reason,
-        },
-        metaJson: eventMetaJson,
-      });
+        if (autoClaimed) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "AUTO_CLAIM",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: {
+              claimedByUserId: task.claimedByUserId,
+              claimedAt: task.claimedAt,
+            },
+            afterData: { claimedByUserId: authUser.id, claimedAt: now },
+            metaJson: {
+              ...standMeta,
+              boxId: task.boxId || undefined,
+              reason: "Auto-claimed before status transition",
+            },
+          });
+        }
+
+        // Handle box status updates for terminal states
+        let boxBefore: Box | undefined;
+        if (
+          (toStatus === "DISPOSED" || toStatus === "CANCELLED") &&
+          task.boxId
+        ) {
+          [boxBefore] = await db
+            .select()
+            .from(boxes)
+            .where(eq(boxes.id, task.boxId));
+          await db
+            .update(boxes)
+            .set({
+              currentTaskId: null,
+              status: toStatus === "DISPOSED" ? "AT_WAREHOUSE" : "AT_STAND",
+              updatedAt: now,
+            })
+            .where(eq(boxes.id, task.boxId));
+        }
+
+        const eventMetaJson = {
+          ...standMeta,
+          boxId: task.boxId || undefined,
+          containerId: task.boxId || undefined,
+          targetWarehouseContainerId:
+            updateData.targetWarehouseContainerId || undefined,
+          autoClaimed,
+          autoReleased,
+        };
 
-      // Log auto-release event separately if it happened
-      if (autoReleased) {
+        // Log STATUS_CHANGED event, with what undo has to restore
         await createAuditEvent({
           taskId: task.id,
           actorUserId: authUser.id,
-          action: "AUTO_RELEASE",
+          action: "STATUS_CHANGED",
           entityType: "task",
           entityId: task.id,
-          beforeData: {
-            claimedByUserId: autoClaimed ? authUser.id : task.claimedByUserId,
+          beforeData,
+          afterData: {
+            status: toStatus,
+            weightKg: updateData.weightKg,
+            targetWarehouseContainerId: updateData.targetWarehouseContainerId,
+            claimedByUserId: updateData.claimedByUserId,
+            reason,
           },
-          afterData: { claimedByUserId: null, claimedAt: null },
           metaJson: {
-            ...standMeta,
-            boxId: task.boxId || undefined,
-            reason: "Auto-released on DROPPED_OFF transition",
+            ...eventMetaJson,
+            undo: buildTaskUndoSnapshot(task, updateData, updatedTask, {
+              box: boxBefore && pickBoxUndoState(boxBefore),
+            }),
           },
         });
-      }
 
-      // Log WEIGHT_RECORDED when weight is set during WEIGHED transition
-      if (toStatus === "WEIGHED" && weightKg !== undefined) {
-        await createAuditEvent({
-          taskId: task.id,
-          actorUserId: authUser.id,
-          action: "WEIGHT_RECORDED",
-          entityType: "task",
-          entityId: task.id,
-          beforeData: { weightKg: task.weightKg },
-          afterData: { weightKg },
-          metaJson: eventMetaJson,
+        // Log auto-release event separately if it happened
+        if (autoReleased) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "AUTO_RELEASE",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: {
+              claimedByUserId: autoClaimed ? authUser.id : task.claimedByUserId,
+            },
+            afterData: { claimedByUserId: null, claimedAt: null },
+            metaJson: {
+              ...standMeta,
+              boxId: task.boxId || undefined,
+              reason: "Auto-released on DROPPED_OFF transition",
+            },
+          });
+        }
+
+        // Log WEIGHT_RECORDED when weight is set during WEIGHED transition
+        if (toStatus === "WEIGHED" && weightKg !== undefined) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "WEIGHT_RECORDED",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: { weightKg: task.weightKg },
+            afterData: { weightKg },
+            metaJson: eventMetaJson,
+          });
+        }
+
+        res.json({
+          task: updatedTask,
+          transitioned: true,
+          fromStatus: task.status,
+          toStatus,
+          autoClaimed,
+          autoReleased,
         });
+      } catch (error) {
+        console.error("Failed to transition task:", error);
+        res
+          .status(500)
+          .json({ error: "Fehler beim Statuswechsel des Auftrags" });
       }
-
-      // Fetch updated task
-      const updatedTask = await storage.getTask(req.params.id);
-
-      res.json({
-        task: updatedTask,
-        transitioned: true,
-        fromStatus: task.status,
-        toStatus,
-        autoClaimed,
-        autoReleased,
-      });
-    } catch (error) {
-      console.error("Failed to transition task:", error);
-      res.status(500).json({ error: "Fehler beim Statuswechsel des Auftrags" });
-    }
-  });
+    },
+  );
 
   // Handover task - Transfer task to another user
   // Admin or current owner can transfer the task
@@ -3282,32 +5958,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // SCAN EVENTS
   // ============================================================================
 
-  app.get("/api/scan-events", async (req, res) => {
+  app.get("/api/scan-events", requireAuth, async (req, res) => {
     try {
       const { containerId, taskId, userId } = req.query;
       const filters: {
         containerId?: string;
         taskId?: string;
         userId?: string;
-      } = {};
+        siteId?: string | null;
+      } = { siteId: getActiveSiteId(req) };
 
       if (containerId) filters.containerId = containerId as string;
       if (taskId) filters.taskId = taskId as string;
       if (userId) filters.userId = userId as string;
+      // Drivers only see their own scans
+      const authUser = (req as any).authUser;
+      if (authUser.role?.toUpperCase() !== "ADMIN") {
+        filters.userId = authUser.id;
+      }
 
-      const events = await storage.getScanEvents(
-        Object.keys(filters).length > 0 ? filters : undefined,
-      );
+      const events = await storage.getScanEvents(filters);
       res.json(events);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch scan events" });
     }
   });
 
-  app.get("/api/scan-events/:id", async (req, res) => {
+  app.get("/api/scan-events/:id", requireAuth, async (req, res) => {
     try {
       const event = await storage.getScanEvent(req.params.id);
-      if (!event) {
+      const authUser = (req as any).authUser;
+      // Scans of a task at another site are hidden, as in the list
+      const task = event?.taskId
+        ? await storage.getTask(event.taskId)
+        : undefined;
+      if (
+        !event ||
+        (authUser.role?.toUpperCase() !== "ADMIN" &&
+          event.scannedByUserId !== authUser.id) ||
+        (task?.siteId && !isInActiveSite(req, task.siteId))
+      ) {
         return res.status(404).json({ error: "Scan event not found" });
       }
       res.json(event);
@@ -3316,12 +6006,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/scan-events", async (req, res) => {
+  app.post("/api/scan-events", requireAuth, async (req, res) => {
     try {
+      const userId = (req as any).authUser.id;
       const {
         containerId,
         containerType,
-        userId,
         scanContext,
         locationType,
         locationDetails,
@@ -3330,13 +6020,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         measuredWeight,
       } = req.body;
 
-      if (
-        !containerId ||
-        !containerType ||
-        !userId ||
-        !scanContext ||
-        !locationType
-      ) {
+      if (!containerId || !containerType || !scanContext || !locationType) {
         return res.status(400).json({ error: "Missing required fields" });
       }
 
@@ -3543,7 +6227,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ACTIVITY LOGS
   // ============================================================================
 
-  app.get("/api/activity-logs", async (req, res) => {
+  app.get("/api/activity-logs", requireAuth, async (req, res) => {
     try {
       const { userId, containerId, type, taskId, startDate, endDate } =
         req.query;
@@ -3552,53 +6236,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
         containerId?: string;
         type?: string;
         taskId?: string;
-      } = {};
+        siteId?: string | null;
+      } = { siteId: getActiveSiteId(req) };
 
       if (userId) filters.userId = userId as string;
       if (containerId) filters.containerId = containerId as string;
       if (type) filters.type = type as string;
       if (taskId) filters.taskId = taskId as string;
+      // Drivers only see their own entries
+      const authUser = (req as any).authUser;
+      if (authUser.role?.toUpperCase() !== "ADMIN") {
+        filters.userId = authUser.id;
+      }
 
-      const logs = await storage.getActivityLogs(
-        Object.keys(filters).length > 0 ? filters : undefined,
-      );
+      const logs = await storage.getActivityLogs(filters);
       res.json(logs);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch activity logs" });
     }
   });
 
-  app.get("/api/activity-logs/export/csv", async (req, res) => {
-    try {
-      const { userId, containerId, type, taskId, startDate, endDate } =
-        req.query;
-      const filters: {
-        userId?: string;
-        containerId?: string;
-        type?: string;
-        taskId?: string;
-      } = {};
-
-      if (userId) filters.userId = userId as string;
-      if (containerId) filters.containerId = containerId as string;
-      if (type) filters.type = type as string;
-      if (taskId) filters.taskId = taskId as string;
-
-      const logs = await storage.getActivityLogs(
-        Object.keys(filters).length > 0 ? filters : undefined,
-      );
-      const users = await storage.getUsers();
+  /**
+   * GET /api/activity-logs/export/csv - Activity log as CSV download
+   * Query params: userId, containerId, type, taskId, startDate, endDate
+   * Rows are streamed in pages, so the export never holds the whole table
+   * in memory. endDate as plain date (YYYY-MM-DD) includes that whole day.
+   * Admin only: the log holds names and locations of all users
+   */
+  app.get(
+    "/api/activity-logs/export/csv",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const { userId, containerId, type, taskId, startDate, endDate } =
+          req.query;
+        const filters: {
+          userId?: string;
+          containerId?: string;
+          type?: string;
+          taskId?: string;
+          from?: Date;
+          to?: Date;
+          siteId?: string | null;
+        } = { siteId: getActiveSiteId(req) };
+
+        if (userId) filters.userId = userId as string;
+        if (containerId) filters.containerId = containerId as string;
+        if (type) filters.type = type as string;
+        if (taskId) filters.taskId = taskId as string;
+        if (startDate) {
+          filters.from = new Date(startDate as string);
+          if (isNaN(filters.from.getTime())) {
+            return res.status(400).json({ error: "Invalid startDate" });
+          }
+        }
+        if (endDate) {
+          filters.to = new Date(endDate as string);
+          if (isNaN(filters.to.getTime())) {
+            return res.status(400).json({ error: "Invalid endDate" });
+          }
+          if (/^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) {
+            filters.to.setUTCDate(filters.to.getUTCDate() + 1);
+          }
+        }
 
-      const getUserName = (id: string | null) => {
-        if (!id) return "System";
-        const user = users.find((u) => u.id === id);
-        return user?.name || "Unknown";
-      };
+        const users = await storage.getUsers();
+        const userNames = new Map(users.map((u) => [u.id, u.name]));
+        const getUserName = (id: string | null) => {
+          if (!id) return "System";
+          return userNames.get(id) || "Unknown";
+        };
 
-      const csvHeader =
-        "ID,Datum,Uhrzeit,Benutzer,Typ,Nachricht,Container ID,Auftrag ID\n";
-      const csvRows = logs
-        .map((log) => {
+        const toCsvRow = (log: ActivityLog) => {
           const date = new Date(log.timestamp);
           const dateStr = date.toLocaleDateString("de-DE");
           const timeStr = date.toLocaleTimeString("de-DE", {
@@ -3613,133 +6323,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const containerId = (log.containerId || "").replace(/,/g, ";");
           const taskIdVal = (log.taskId || "").replace(/,/g, ";");
           return `${log.id},${dateStr},${timeStr},${userName},${logType},${message},${containerId},${taskIdVal}`;
-        })
-        .join("\n");
+        };
+
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename=aktivitaetslog-${new Date().toISOString().split("T")[0]}.csv`,
+        );
+        res.write(
+          "\uFEFF" +
+            "ID,Datum,Uhrzeit,Benutzer,Typ,Nachricht,Container ID,Auftrag ID",
+        );
 
-      const csv = csvHeader + csvRows;
+        let cursor: ActivityLogCursor | null = null;
+        do {
+          const page = await storage.getActivityLogPage(filters, cursor, 1000);
+          if (page.logs.length > 0) {
+            const chunk = "\n" + page.logs.map(toCsvRow).join("\n");
+            // Respect backpressure from slow clients
+            if (!res.write(chunk)) {
+              await waitForDrain(res);
+            }
+          }
+          cursor = page.nextCursor;
+        } while (cursor && !res.destroyed);
 
-      res.setHeader("Content-Type", "text/csv; charset=utf-8");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=aktivitaetslog-${new Date().toISOString().split("T")[0]}.csv`,
-      );
-      res.send("\uFEFF" + csv);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to export activity logs" });
-    }
-  });
+        // A client that disconnected gets nothing more
+        if (!res.destroyed) {
+          res.end();
+        }
+      } catch (error) {
+        console.error("Failed to export activity logs:", error);
+        if (res.headersSent) {
+          res.destroy(error as Error);
+        } else {
+          res.status(500).json({ error: "Failed to export activity logs" });
+        }
+      }
+    },
+  );
 
   // ============================================================================
   // ANALYTICS
   // ============================================================================
 
-  app.get("/api/analytics/driver-performance", async (req, res) => {
-    try {
-      const allTasks = await storage.getTasks();
-      const users = await storage.getUsers();
-      const drivers = users.filter(
-        (u) => u.role === "driver" || u.role === "DRIVER",
-      );
-
-      const now = new Date();
-      const today = now.toDateString();
-      const startOfWeek = new Date(now);
-      startOfWeek.setDate(now.getDate() - 7);
-
-      const driverStats = drivers.map((driver) => {
-        const driverTasks = allTasks.filter((t) => t.assignedTo === driver.id);
-        const completedTasks = driverTasks.filter(
-          (t) => t.status === "COMPLETED" || t.status === "completed",
-        );
-        const completedToday = completedTasks.filter((t) => {
-          if (!t.completedAt) return false;
-          return new Date(t.completedAt).toDateString() === today;
-        });
-        const completedThisWeek = completedTasks.filter((t) => {
-          if (!t.completedAt) return false;
-          const completedDate = new Date(t.completedAt);
-          return completedDate >= startOfWeek;
+  app.get(
+    "/api/analytics/driver-performance",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const allTasks = await storage.getTasks({
+          siteId: getActiveSiteId(req),
         });
+        const users = await storage.getUsers();
+        const drivers = users.filter(
+          (u) => u.role === "driver" || u.role === "DRIVER",
+        );
 
-        const avgDeliveryTime =
-          completedTasks.length > 0
-            ? completedTasks.reduce((sum, t) => {
-                if (t.acceptedAt && t.completedAt) {
-                  return (
-                    sum +
-                    (new Date(t.completedAt).getTime() -
-                      new Date(t.acceptedAt).getTime())
-                  );
-                }
-                return sum;
-              }, 0) /
-              completedTasks.length /
-              (1000 * 60)
-            : 0;
+        const now = new Date();
+        const today = now.toDateString();
+        const startOfWeek = new Date(now);
+        startOfWeek.setDate(now.getDate() - 7);
 
-        const completionRate =
-          driverTasks.length > 0
-            ? Math.round((completedTasks.length / driverTasks.length) * 100)
-            : 0;
+        const driverStats = drivers.map((driver) => {
+          const driverTasks = allTasks.filter(
+            (t) => t.assignedTo === driver.id,
+          );
+          const completedTasks = driverTasks.filter(
+            (t) => t.status === "COMPLETED" || t.status === "completed",
+          );
+          const completedToday = completedTasks.filter((t) => {
+            if (!t.completedAt) return false;
+            return new Date(t.completedAt).toDateString() === today;
+          });
+          const completedThisWeek = completedTasks.filter((t) => {
+            if (!t.completedAt) return false;
+            const completedDate = new Date(t.completedAt);
+            return completedDate >= startOfWeek;
+          });
 
-        const inProgressStatuses = [
-          "ACCEPTED",
-          "PICKED_UP",
-          "IN_TRANSIT",
-          "DELIVERED",
-          "in_progress",
-        ];
-        return {
-          id: driver.id,
-          name: driver.name,
-          email: driver.email,
-          totalAssigned: driverTasks.length,
-          totalCompleted: completedTasks.length,
-          completedToday: completedToday.length,
-          completedThisWeek: completedThisWeek.length,
-          inProgress: driverTasks.filter((t) =>
-            inProgressStatuses.includes(t.status),
+          const avgDeliveryTime =
+            completedTasks.length > 0
+              ? completedTasks.reduce((sum, t) => {
+                  if (t.acceptedAt && t.completedAt) {
+                    return (
+                      sum +
+                      (new Date(t.completedAt).getTime() -
+                        new Date(t.acceptedAt).getTime())
+                    );
+                  }
+                  return sum;
+                }, 0) /
+                completedTasks.length /
+                (1000 * 60)
+              : 0;
+
+          const completionRate =
+            driverTasks.length > 0
+              ? Math.round((completedTasks.length / driverTasks.length) * 100)
+              : 0;
+
+          const inProgressStatuses = [
+            "ACCEPTED",
+            "PICKED_UP",
+            "IN_TRANSIT",
+            "DELIVERED",
+            "in_progress",
+          ];
+          return {
+            id: driver.id,
+            name: driver.name,
+            email: driver.email,
+            totalAssigned: driverTasks.length,
+            totalCompleted: completedTasks.length,
+            completedToday: completedToday.length,
+            completedThisWeek: completedThisWeek.length,
+            inProgress: driverTasks.filter((t) =>
+              inProgressStatuses.includes(t.status),
+            ).length,
+            completionRate,
+            avgDeliveryTimeMinutes: Math.round(avgDeliveryTime),
+          };
+        });
+
+        const overallStats = {
+          totalDrivers: drivers.length,
+          activeDrivers: driverStats.filter(
+            (d) => d.inProgress > 0 || d.completedToday > 0,
           ).length,
-          completionRate,
-          avgDeliveryTimeMinutes: Math.round(avgDeliveryTime),
+          totalCompletedToday: driverStats.reduce(
+            (sum, d) => sum + d.completedToday,
+            0,
+          ),
+          totalCompletedThisWeek: driverStats.reduce(
+            (sum, d) => sum + d.completedThisWeek,
+            0,
+          ),
+          avgCompletionRate:
+            driverStats.length > 0
+              ? Math.round(
+                  driverStats.reduce((sum, d) => sum + d.completionRate, 0) /
+                    driverStats.length,
+                )
+              : 0,
         };
-      });
-
-      const overallStats = {
-        totalDrivers: drivers.length,
-        activeDrivers: driverStats.filter(
-          (d) => d.inProgress > 0 || d.completedToday > 0,
-        ).length,
-        totalCompletedToday: driverStats.reduce(
-          (sum, d) => sum + d.completedToday,
-          0,
-        ),
-        totalCompletedThisWeek: driverStats.reduce(
-          (sum, d) => sum + d.completedThisWeek,
-          0,
-        ),
-        avgCompletionRate:
-          driverStats.length > 0
-            ? Math.round(
-                driverStats.reduce((sum, d) => sum + d.completionRate, 0) /
-                  driverStats.length,
-              )
-            : 0,
-      };
 
-      res.json({
-        drivers: driverStats,
-        overall: overallStats,
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch driver performance" });
-    }
-  });
+        res.json({
+          drivers: driverStats,
+          overall: overallStats,
+        });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to fetch driver performance" });
+      }
+    },
+  );
 
-  app.get("/api/analytics/fill-trends", async (req, res) => {
+  app.get("/api/analytics/fill-trends", requireAuth, async (req, res) => {
     try {
-      const warehouseContainers = await storage.getWarehouseContainers();
-      const allTasks = await storage.getTasks();
+      const warehouseContainers = await storage.getWarehouseContainers(
+        getActiveSiteId(req),
+      );
+      const allTasks = await storage.getTasks({
+        siteId: getActiveSiteId(req),
+      });
 
       const now = new Date();
       const daysAgo = (days: number) => {
@@ -3819,11 +6565,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Dashboard stats with optional driverId filter
   // GET /api/dashboard/stats?driverId=driver-001
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
     try {
       const { driverId } = req.query;
-      const allTasks = await storage.getTasks();
-      const warehouseContainers = await storage.getWarehouseContainers();
+      const allTasks = await storage.getTasks({
+        siteId: getActiveSiteId(req),
+      });
+      const warehouseContainers = await storage.getWarehouseContainers(
+        getActiveSiteId(req),
+      );
       const users = await storage.getUsers();
 
       // Filter tasks by driver if driverId provided
@@ -3905,7 +6655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Driver-specific stats endpoint
   // GET /api/drivers/:id/stats
-  app.get("/api/drivers/:id/stats", async (req, res) => {
+  app.get("/api/drivers/:id/stats", requireAuth, async (req, res) => {
     try {
       const driverId = req.params.id;
       const driver = await storage.getUser(driverId);
@@ -3914,7 +6664,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Fahrer nicht gefunden" });
       }
 
-      const allTasks = await storage.getTasks({ assignedTo: driverId });
+      const allTasks = await storage.getTasks({
+        assignedTo: driverId,
+        siteId: getActiveSiteId(req),
+      });
 
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -3983,7 +6736,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const users = await storage.getUsers();
-        const allTasks = await storage.getTasks();
+        const allTasks = await storage.getTasks({
+          siteId: getActiveSiteId(req),
+        });
 
         const drivers = users.filter(
           (u) => u.role === "DRIVER" || u.role === "driver",
@@ -4083,102 +6838,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/materials - Create material (admin only)
-  app.post("/api/materials", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const {
-        name,
-        code,
-        description,
-        hazardClass,
-        disposalStream,
-        densityHint,
-        defaultUnit,
-        qrCode,
-      } = req.body;
-
-      if (!name || !code) {
-        return res.status(400).json({ error: "Name and code are required" });
-      }
-
-      const [material] = await db
-        .insert(materials)
-        .values({
+  app.post(
+    "/api/materials",
+    requireAuth,
+    requireAdmin,
+    auditEntity("material"),
+    async (req, res) => {
+      try {
+        const {
           name,
           code,
-          description: description || null,
-          hazardClass: hazardClass || null,
-          disposalStream: disposalStream || null,
-          densityHint: densityHint || null,
-          defaultUnit: defaultUnit || "kg",
-          qrCode: qrCode || null,
-        })
-        .returning();
+          description,
+          hazardClass,
+          disposalStream,
+          densityHint,
+          defaultUnit,
+          qrCode,
+        } = req.body;
 
-      res.status(201).json(material);
-    } catch (error) {
-      console.error("Failed to create material:", error);
-      res.status(500).json({ error: "Failed to create material" });
-    }
-  });
+        if (!name || !code) {
+          return res.status(400).json({ error: "Name and code are required" });
+        }
 
-  // PUT /api/materials/:id - Update material (admin only)
-  app.put("/api/materials/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const [existing] = await db
-        .select()
-        .from(materials)
-        .where(eq(materials.id, req.params.id));
-      if (!existing) {
-        return res.status(404).json({ error: "Material not found" });
+        const [material] = await db
+          .insert(materials)
+          .values({
+            name,
+            code,
+            description: description || null,
+            hazardClass: hazardClass || null,
+            disposalStream: disposalStream || null,
+            densityHint: densityHint || null,
+            defaultUnit: defaultUnit || "kg",
+            qrCode: qrCode || null,
+          })
+          .returning();
+
+        res.status(201).json(material);
+      } catch (error) {
+        console.error("Failed to create material:", error);
+        res.status(500).json({ error: "Failed to create material" });
       }
+    },
+  );
 
-      const {
-        name,
-        code,
-        description,
-        hazardClass,
-        disposalStream,
-        densityHint,
-        defaultUnit,
-        qrCode,
-        isActive,
-      } = req.body;
+  // PUT /api/materials/:id - Update material (admin only)
+  app.put(
+    "/api/materials/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("material"),
+    async (req, res) => {
+      try {
+        const [existing] = await db
+          .select()
+          .from(materials)
+          .where(eq(materials.id, req.params.id));
+        if (!existing) {
+          return res.status(404).json({ error: "Material not found" });
+        }
 
-      const [material] = await db
-        .update(materials)
-        .set({
-          ...(name !== undefined && { name }),
-          ...(code !== undefined && { code }),
-          ...(description !== undefined && { description }),
-          ...(hazardClass !== undefined && { hazardClass }),
-          ...(disposalStream !== undefined && { disposalStream }),
-          ...(densityHint !== undefined && { densityHint }),
-          ...(defaultUnit !== undefined && { defaultUnit }),
-          ...(qrCode !== undefined && { qrCode }),
-          ...(isActive !== undefined && { isActive }),
-          updatedAt: new Date(),
-        })
-        .where(eq(materials.id, req.params.id))
-        .returning();
+        const {
+          name,
+          code,
+          description,
+          hazardClass,
+          disposalStream,
+          densityHint,
+          defaultUnit,
+          qrCode,
+          isActive,
+        } = req.body;
 
-      res.json(material);
-    } catch (error) {
-      console.error("Failed to update material:", error);
-      res.status(500).json({ error: "Failed to update material" });
-    }
-  });
+        const [material] = await db
+          .update(materials)
+          .set({
+            ...(name !== undefined && { name }),
+            ...(code !== undefined && { code }),
+            ...(description !== undefined && { description }),
+            ...(hazardClass !== undefined && { hazardClass }),
+            ...(disposalStream !== undefined && { disposalStream }),
+            ...(densityHint !== undefined && { densityHint }),
+            ...(defaultUnit !== undefined && { defaultUnit }),
+            ...(qrCode !== undefined && { qrCode }),
+            ...(isActive !== undefined && { isActive }),
+            updatedAt: new Date(),
+          })
+          .where(eq(materials.id, req.params.id))
+          .returning();
+
+        res.json(material);
+      } catch (error) {
+        console.error("Failed to update material:", error);
+        res.status(500).json({ error: "Failed to update material" });
+      }
+    },
+  );
 
   // ----------------------------------------------------------------------------
   // HALLS CRUD
   // ----------------------------------------------------------------------------
 
   // GET /api/halls - List all halls
-  app.get("/api/halls", async (req, res) => {
+  app.get("/api/halls", requireAuth, async (req, res) => {
     try {
       const result = await db
         .select()
         .from(halls)
-        .where(eq(halls.isActive, true));
+        .where(and(eq(halls.isActive, true), siteFilter(req, halls.siteId)));
       res.json(result);
     } catch (error) {
       console.error("Failed to fetch halls:", error);
@@ -4212,41 +6979,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/halls - Create hall (admin only)
-  app.post("/api/halls", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { name, code, description, locationMeta } = req.body;
+  app.post(
+    "/api/halls",
+    requireAuth,
+    requireAdmin,
+    auditEntity("hall"),
+    async (req, res) => {
+      try {
+        const { name, code, description, locationMeta } = req.body;
+
+        if (!name || !code) {
+          return res.status(400).json({ error: "Name and code are required" });
+        }
+
+        const [hall] = await db
+          .insert(halls)
+          .values({
+            siteId: req.body.siteId || getActiveSiteId(req),
+            name,
+            code,
+            description: description || null,
+            locationMeta: locationMeta || null,
+          })
+          .returning();
+
+        res.status(201).json(hall);
+      } catch (error) {
+        console.error("Failed to create hall:", error);
+        res.status(500).json({ error: "Failed to create hall" });
+      }
+    },
+  );
+
+  // PUT /api/halls/:id - Update hall (admin only)
+  app.put(
+    "/api/halls/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("hall"),
+    async (req, res) => {
+      try {
+        const [existing] = await db
+          .select()
+          .from(halls)
+          .where(eq(halls.id, req.params.id));
+        if (!existing) {
+          return res.status(404).json({ error: "Hall not found" });
+        }
+
+        const { name, code, description, locationMeta, isActive } = req.body;
+
+        const [hall] = await db
+          .update(halls)
+          .set({
+            ...(name !== undefined && { name }),
+            ...(code !== undefined && { code }),
+            ...(description !== undefined && { description }),
+            ...(locationMeta !== undefined && { locationMeta }),
+            ...(isActive !== undefined && { isActive }),
+            updatedAt: new Date(),
+          })
+          .where(eq(halls.id, req.params.id))
+          .returning();
 
-      if (!name || !code) {
-        return res.status(400).json({ error: "Name and code are required" });
+        res.json(hall);
+      } catch (error) {
+        console.error("Failed to update hall:", error);
+        res.status(500).json({ error: "Failed to update hall" });
       }
-
-      const [hall] = await db
-        .insert(halls)
-        .values({
-          name,
-          code,
-          description: description || null,
-          locationMeta: locationMeta || null,
-        })
-        .returning();
-
-      res.status(201).json(hall);
-    } catch (error) {
-      console.error("Failed to create hall:", error);
-      res.status(500).json({ error: "Failed to create hall" });
-    }
-  });
+    },
+  );
 
   // ----------------------------------------------------------------------------
   // STATIONS CRUD
   // ----------------------------------------------------------------------------
 
   // GET /api/stations - List all stations (optionally filter by hallId)
-  app.get("/api/stations", async (req, res) => {
+  app.get("/api/stations", requireAuth, async (req, res) => {
     try {
       const { hallId } = req.query;
 
-      let conditions = [eq(stations.isActive, true)];
+      let conditions = [
+        eq(stations.isActive, true),
+        siteFilter(req, stations.siteId),
+      ];
       if (hallId && typeof hallId === "string") {
         conditions.push(eq(stations.hallId, hallId));
       }
@@ -4380,109 +7196,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/stations - Create station (admin only)
-  app.post("/api/stations", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { hallId, name, code, sequence, locationMeta } = req.body;
+  app.post(
+    "/api/stations",
+    requireAuth,
+    requireAdmin,
+    auditEntity("station"),
+    async (req, res) => {
+      try {
+        const { hallId, name, code, sequence, locationMeta } = req.body;
 
-      if (!hallId || !name || !code) {
-        return res
-          .status(400)
-          .json({ error: "hallId, name, and code are required" });
-      }
+        if (!hallId || !name || !code) {
+          return res
+            .status(400)
+            .json({ error: "hallId, name, and code are required" });
+        }
 
-      const [hall] = await db.select().from(halls).where(eq(halls.id, hallId));
-      if (!hall) {
-        return res.status(404).json({ error: "Hall not found" });
-      }
+        const [hall] = await db
+          .select()
+          .from(halls)
+          .where(eq(halls.id, hallId));
+        if (!hall) {
+          return res.status(404).json({ error: "Hall not found" });
+        }
 
-      // Check for duplicate code within the same hall
-      const [existingStation] = await db
-        .select()
-        .from(stations)
-        .where(and(eq(stations.hallId, hallId), eq(stations.code, code)));
-      if (existingStation) {
-        return res.status(400).json({
-          error: `Stationscode '${code}' existiert bereits in dieser Halle`,
-        });
-      }
+        // Check for duplicate code within the same hall
+        const [existingStation] = await db
+          .select()
+          .from(stations)
+          .where(and(eq(stations.hallId, hallId), eq(stations.code, code)));
+        if (existingStation) {
+          return res.status(400).json({
+            error: `Stationscode '${code}' existiert bereits in dieser Halle`,
+          });
+        }
 
-      const [station] = await db
-        .insert(stations)
-        .values({
-          hallId,
-          name,
-          code,
-          sequence: sequence || null,
-          locationMeta: locationMeta || null,
-        })
-        .returning();
+        const [station] = await db
+          .insert(stations)
+          .values({
+            hallId,
+            siteId: hall.siteId,
+            name,
+            code,
+            sequence: sequence || null,
+            locationMeta: locationMeta || null,
+          })
+          .returning();
 
-      res.status(201).json(station);
-    } catch (error) {
-      console.error("Failed to create station:", error);
-      res.status(500).json({ error: "Failed to create station" });
-    }
-  });
+        res.status(201).json(station);
+      } catch (error) {
+        console.error("Failed to create station:", error);
+        res.status(500).json({ error: "Failed to create station" });
+      }
+    },
+  );
 
   // PUT /api/stations/:id - Update station (admin only)
-  app.put("/api/stations/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { name, code, sequence, locationMeta, positionMeta, isActive } =
-        req.body;
-
-      const [existingStation] = await db
-        .select()
-        .from(stations)
-        .where(eq(stations.id, req.params.id));
-      if (!existingStation) {
-        return res.status(404).json({ error: "Station not found" });
-      }
+  app.put(
+    "/api/stations/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("station"),
+    async (req, res) => {
+      try {
+        const { name, code, sequence, locationMeta, positionMeta, isActive } =
+          req.body;
 
-      // If code is being changed, check for duplicate within the same hall
-      if (code && code !== existingStation.code) {
-        const [duplicateStation] = await db
+        const [existingStation] = await db
           .select()
           .from(stations)
-          .where(
-            and(
-              eq(stations.hallId, existingStation.hallId),
-              eq(stations.code, code),
-              sql`${stations.id} != ${req.params.id}`,
-            ),
-          );
-        if (duplicateStation) {
-          return res.status(400).json({
-            error: `Stationscode '${code}' existiert bereits in dieser Halle`,
-          });
+          .where(eq(stations.id, req.params.id));
+        if (!existingStation) {
+          return res.status(404).json({ error: "Station not found" });
         }
-      }
 
-      const updateData: any = { updatedAt: new Date() };
-      if (name !== undefined) updateData.name = name;
-      if (code !== undefined) updateData.code = code;
-      if (sequence !== undefined) updateData.sequence = sequence;
-      if (locationMeta !== undefined) updateData.locationMeta = locationMeta;
-      if (positionMeta !== undefined) updateData.positionMeta = positionMeta;
-      if (isActive !== undefined) updateData.isActive = isActive;
+        // If code is being changed, check for duplicate within the same hall
+        if (code && code !== existingStation.code) {
+          const [duplicateStation] = await db
+            .select()
+            .from(stations)
+            .where(
+              and(
+                eq(stations.hallId, existingStation.hallId),
+                eq(stations.code, code),
+                sql`${stations.id} != ${req.params.id}`,
+              ),
+            );
+          if (duplicateStation) {
+            return res.status(400).json({
+              error: `Stationscode '${code}' existiert bereits in dieser Halle`,
+            });
+          }
+        }
 
-      const [updatedStation] = await db
-        .update(stations)
-        .set(updateData)
-        .where(eq(stations.id, req.params.id))
-        .returning();
+        const updateData: any = { updatedAt: new Date() };
+        if (name !== undefined) updateData.name = name;
+        if (code !== undefined) updateData.code = code;
+        if (sequence !== undefined) updateData.sequence = sequence;
+        if (locationMeta !== undefined) updateData.locationMeta = locationMeta;
+        if (positionMeta !== undefined) updateData.positionMeta = positionMeta;
+        if (isActive !== undefined) updateData.isActive = isActive;
 
-      res.json(updatedStation);
-    } catch (error) {
-      console.error("Failed to update station:", error);
-      res.status(500).json({ error: "Failed to update station" });
-    }
-  });
+        const [updatedStation] = await db
+          .update(stations)
+          .set(updateData)
+          .where(eq(stations.id, req.params.id))
+          .returning();
+
+        res.json(updatedStation);
+      } catch (error) {
+        console.error("Failed to update station:", error);
+        res.status(500).json({ error: "Failed to update station" });
+      }
+    },
+  );
 
   // PATCH /api/stations/:id - Move station to different hall (admin only)
   app.patch(
     "/api/stations/:id",
     requireAuth,
     requireAdmin,
+    auditEntity("station"),
     async (req, res) => {
       try {
         const { hallId } = req.body;
@@ -4518,6 +7351,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ error: "Ziel-Halle ist nicht aktiv" });
         }
 
+        if (targetHall.siteId !== existingStation.siteId) {
+          return res
+            .status(400)
+            .json({ error: "Ziel-Halle gehört zu einem anderen Standort" });
+        }
+
         const [duplicateStation] = await db
           .select()
           .from(stations)
@@ -4568,150 +7407,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // PATCH /api/stands/:id - Edit stand (material, active, station) with validation (admin only)
-  app.patch("/api/stands/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { materialId, isActive, stationId } = req.body;
-      const authUser = (req as any).authUser;
+  app.patch(
+    "/api/stands/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("stand"),
+    async (req, res) => {
+      try {
+        const { materialId, isActive, stationId } = req.body;
+        const authUser = (req as any).authUser;
 
-      if (
-        materialId === undefined &&
-        isActive === undefined &&
-        stationId === undefined
-      ) {
-        return res.status(400).json({ error: "Keine Änderungen angegeben" });
-      }
+        if (
+          materialId === undefined &&
+          isActive === undefined &&
+          stationId === undefined
+        ) {
+          return res.status(400).json({ error: "Keine Änderungen angegeben" });
+        }
 
-      const [existingStand] = await db
-        .select()
-        .from(stands)
-        .where(eq(stands.id, req.params.id));
-      if (!existingStand) {
-        return res.status(404).json({ error: "Stellplatz nicht gefunden" });
-      }
+        const [existingStand] = await db
+          .select()
+          .from(stands)
+          .where(eq(stands.id, req.params.id));
+        if (!existingStand) {
+          return res.status(404).json({ error: "Stellplatz nicht gefunden" });
+        }
 
-      const changes: string[] = [];
-      const updateData: any = { updatedAt: new Date() };
+        const changes: string[] = [];
+        const updateData: any = { updatedAt: new Date() };
 
-      if (materialId !== undefined && materialId !== existingStand.materialId) {
-        if (materialId !== null) {
-          const [targetMaterial] = await db
-            .select()
-            .from(materials)
-            .where(eq(materials.id, materialId));
-          if (!targetMaterial) {
-            return res.status(404).json({ error: "Material nicht gefunden" });
-          }
-          if (!targetMaterial.isActive) {
-            return res.status(400).json({ error: "Material ist nicht aktiv" });
+        if (
+          materialId !== undefined &&
+          materialId !== existingStand.materialId
+        ) {
+          if (materialId !== null) {
+            const [targetMaterial] = await db
+              .select()
+              .from(materials)
+              .where(eq(materials.id, materialId));
+            if (!targetMaterial) {
+              return res.status(404).json({ error: "Material nicht gefunden" });
+            }
+            if (!targetMaterial.isActive) {
+              return res
+                .status(400)
+                .json({ error: "Material ist nicht aktiv" });
+            }
+            changes.push(
+              `Material: ${existingStand.materialId || "keins"} → ${materialId}`,
+            );
+          } else {
+            changes.push(`Material entfernt`);
           }
-          changes.push(
-            `Material: ${existingStand.materialId || "keins"} → ${materialId}`,
-          );
-        } else {
-          changes.push(`Material entfernt`);
+          updateData.materialId = materialId;
         }
-        updateData.materialId = materialId;
-      }
 
-      if (stationId !== undefined && stationId !== existingStand.stationId) {
-        const [targetStation] = await db
-          .select()
-          .from(stations)
-          .where(eq(stations.id, stationId));
-        if (!targetStation) {
-          return res.status(404).json({ error: "Ziel-Station nicht gefunden" });
-        }
-        if (!targetStation.isActive) {
-          return res
-            .status(400)
-            .json({ error: "Ziel-Station ist nicht aktiv" });
-        }
-        const [targetHall] = await db
-          .select()
-          .from(halls)
-          .where(eq(halls.id, targetStation.hallId));
-        if (!targetHall?.isActive) {
-          return res
-            .status(400)
-            .json({ error: "Halle der Ziel-Station ist nicht aktiv" });
+        if (stationId !== undefined && stationId !== existingStand.stationId) {
+          const [targetStation] = await db
+            .select()
+            .from(stations)
+            .where(eq(stations.id, stationId));
+          if (!targetStation) {
+            return res
+              .status(404)
+              .json({ error: "Ziel-Station nicht gefunden" });
+          }
+          if (!targetStation.isActive) {
+            return res
+              .status(400)
+              .json({ error: "Ziel-Station ist nicht aktiv" });
+          }
+          if (targetStation.siteId !== existingStand.siteId) {
+            return res
+              .status(400)
+              .json({ error: "Ziel-Station gehört zu einem anderen Standort" });
+          }
+          const [targetHall] = await db
+            .select()
+            .from(halls)
+            .where(eq(halls.id, targetStation.hallId));
+          if (!targetHall?.isActive) {
+            return res
+              .status(400)
+              .json({ error: "Halle der Ziel-Station ist nicht aktiv" });
+          }
+          changes.push(`Station: ${existingStand.stationId} → ${stationId}`);
+          updateData.stationId = stationId;
         }
-        changes.push(`Station: ${existingStand.stationId} → ${stationId}`);
-        updateData.stationId = stationId;
-      }
 
-      if (isActive !== undefined && isActive !== existingStand.isActive) {
-        updateData.isActive = isActive;
-        changes.push(`Aktiv: ${existingStand.isActive} → ${isActive}`);
+        if (isActive !== undefined && isActive !== existingStand.isActive) {
+          updateData.isActive = isActive;
+          changes.push(`Aktiv: ${existingStand.isActive} → ${isActive}`);
 
-        if (!isActive && existingStand.isActive) {
-          const standBoxes = await db
-            .select()
-            .from(boxes)
-            .where(
-              and(eq(boxes.standId, req.params.id), eq(boxes.isActive, true)),
-            );
-          if (standBoxes.length > 0) {
-            await db
-              .update(boxes)
-              .set({ standId: null, updatedAt: new Date() })
-              .where(eq(boxes.standId, req.params.id));
-            changes.push(
-              `${standBoxes.length} Box(en) vom Stellplatz abgemeldet`,
-            );
+          if (!isActive && existingStand.isActive) {
+            const standBoxes = await db
+              .select()
+              .from(boxes)
+              .where(
+                and(eq(boxes.standId, req.params.id), eq(boxes.isActive, true)),
+              );
+            if (standBoxes.length > 0) {
+              await db
+                .update(boxes)
+                .set({ standId: null, updatedAt: new Date() })
+                .where(eq(boxes.standId, req.params.id));
+              changes.push(
+                `${standBoxes.length} Box(en) vom Stellplatz abgemeldet`,
+              );
+            }
           }
         }
-      }
 
-      if (Object.keys(updateData).length === 1) {
-        return res.status(400).json({ error: "Keine Änderungen vorgenommen" });
-      }
+        if (Object.keys(updateData).length === 1) {
+          return res
+            .status(400)
+            .json({ error: "Keine Änderungen vorgenommen" });
+        }
 
-      const [updatedStand] = await db
-        .update(stands)
-        .set(updateData)
-        .where(eq(stands.id, req.params.id))
-        .returning();
+        const [updatedStand] = await db
+          .update(stands)
+          .set(updateData)
+          .where(eq(stands.id, req.params.id))
+          .returning();
 
-      await db.insert(activityLogs).values({
-        userId: authUser.id,
-        action: "STAND_EDITED",
-        entityType: "stand",
-        entityId: req.params.id,
-        details: {
-          standIdentifier: existingStand.identifier,
-          changes,
-          before: {
-            materialId: existingStand.materialId,
-            stationId: existingStand.stationId,
-            isActive: existingStand.isActive,
-          },
-          after: {
-            materialId: updatedStand.materialId,
-            stationId: updatedStand.stationId,
-            isActive: updatedStand.isActive,
+        await db.insert(activityLogs).values({
+          userId: authUser.id,
+          action: "STAND_EDITED",
+          entityType: "stand",
+          entityId: req.params.id,
+          details: {
+            standIdentifier: existingStand.identifier,
+            changes,
+            before: {
+              materialId: existingStand.materialId,
+              stationId: existingStand.stationId,
+              isActive: existingStand.isActive,
+            },
+            after: {
+              materialId: updatedStand.materialId,
+              stationId: updatedStand.stationId,
+              isActive: updatedStand.isActive,
+            },
           },
-        },
-      });
+        });
 
-      res.json(updatedStand);
-    } catch (error) {
-      console.error("Failed to edit stand:", error);
-      res
-        .status(500)
-        .json({ error: "Fehler beim Bearbeiten des Stellplatzes" });
-    }
-  });
+        res.json(updatedStand);
+      } catch (error) {
+        console.error("Failed to edit stand:", error);
+        res
+          .status(500)
+          .json({ error: "Fehler beim Bearbeiten des Stellplatzes" });
+      }
+    },
+  );
 
   // ----------------------------------------------------------------------------
   // STANDS CRUD
   // ----------------------------------------------------------------------------
 
   // GET /api/stands - List all stands (optionally filter by stationId, materialId, includeInactive)
-  app.get("/api/stands", async (req, res) => {
+  app.get("/api/stands", requireAuth, async (req, res) => {
     try {
       const { stationId, materialId, includeInactive } = req.query;
 
-      let conditions: any[] = [];
+      let conditions: any[] = [siteFilter(req, stands.siteId)];
       if (includeInactive !== "true") {
         conditions.push(eq(stands.isActive, true));
       }
@@ -4790,101 +7649,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/stands - Create stand (admin only)
-  app.post("/api/stands", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const {
-        stationId,
-        identifier,
-        materialId,
-        qrCode,
-        sequence,
-        positionMeta,
-        dailyFull,
-      } = req.body;
+  // POST /api/stands - Create stand (admin only)
+  app.post(
+    "/api/stands",
+    requireAuth,
+    requireAdmin,
+    auditEntity("stand"),
+    async (req, res) => {
+      try {
+        const {
+          stationId,
+          identifier,
+          materialId,
+          qrCode,
+          sequence,
+          positionMeta,
+          dailyFull,
+        } = req.body;
+
+        if (!stationId || !identifier || !qrCode) {
+          return res
+            .status(400)
+            .json({ error: "stationId, identifier, and qrCode are required" });
+        }
+
+        const [station] = await db
+          .select()
+          .from(stations)
+          .where(eq(stations.id, stationId));
+        if (!station) {
+          return res.status(404).json({ error: "Station not found" });
+        }
 
-      if (!stationId || !identifier || !qrCode) {
-        return res
-          .status(400)
-          .json({ error: "stationId, identifier, and qrCode are required" });
-      }
+        const [stand] = await db
+          .insert(stands)
+          .values({
+            stationId,
+            siteId: station.siteId,
+            identifier,
+            materialId: materialId || null,
+            qrCode,
+            sequence: sequence || null,
+            positionMeta: positionMeta || null,
+            dailyFull: dailyFull || false,
+          })
+          .returning();
 
-      const [station] = await db
-        .select()
-        .from(stations)
-        .where(eq(stations.id, stationId));
-      if (!station) {
-        return res.status(404).json({ error: "Station not found" });
+        res.status(201).json(stand);
+      } catch (error) {
+        console.error("Failed to create stand:", error);
+        res.status(500).json({ error: "Failed to create stand" });
       }
+    },
+  );
 
-      const [stand] = await db
-        .insert(stands)
-        .values({
-          stationId,
+  // PUT /api/stands/:id - Update stand (admin only, including dailyFull flag)
+  app.put(
+    "/api/stands/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("stand"),
+    async (req, res) => {
+      try {
+        const [existing] = await db
+          .select()
+          .from(stands)
+          .where(eq(stands.id, req.params.id));
+        if (!existing) {
+          return res.status(404).json({ error: "Stand not found" });
+        }
+
+        const {
           identifier,
-          materialId: materialId || null,
+          materialId,
           qrCode,
-          sequence: sequence || null,
-          positionMeta: positionMeta || null,
-          dailyFull: dailyFull || false,
-        })
-        .returning();
+          sequence,
+          positionMeta,
+          dailyFull,
+          isActive,
+        } = req.body;
 
-      res.status(201).json(stand);
-    } catch (error) {
-      console.error("Failed to create stand:", error);
-      res.status(500).json({ error: "Failed to create stand" });
-    }
-  });
+        const [stand] = await db
+          .update(stands)
+          .set({
+            ...(identifier !== undefined && { identifier }),
+            ...(materialId !== undefined && { materialId }),
+            ...(qrCode !== undefined && { qrCode }),
+            ...(sequence !== undefined && { sequence }),
+            ...(positionMeta !== undefined && { positionMeta }),
+            ...(dailyFull !== undefined && { dailyFull }),
+            ...(isActive !== undefined && { isActive }),
+            updatedAt: new Date(),
+          })
+          .where(eq(stands.id, req.params.id))
+          .returning();
 
-  // PUT /api/stands/:id - Update stand (admin only, including dailyFull flag)
-  app.put("/api/stands/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const [existing] = await db
-        .select()
-        .from(stands)
-        .where(eq(stands.id, req.params.id));
-      if (!existing) {
-        return res.status(404).json({ error: "Stand not found" });
+        res.json(stand);
+      } catch (error) {
+        console.error("Failed to update stand:", error);
+        res.status(500).json({ error: "Failed to update stand" });
       }
-
-      const {
-        identifier,
-        materialId,
-        qrCode,
-        sequence,
-        positionMeta,
-        dailyFull,
-        isActive,
-      } = req.body;
-
-      const [stand] = await db
-        .update(stands)
-        .set({
-          ...(identifier !== undefined && { identifier }),
-          ...(materialId !== undefined && { materialId }),
-          ...(qrCode !== undefined && { qrCode }),
-          ...(sequence !== undefined && { sequence }),
-          ...(positionMeta !== undefined && { positionMeta }),
-          ...(dailyFull !== undefined && { dailyFull }),
-          ...(isActive !== undefined && { isActive }),
-          updatedAt: new Date(),
-        })
-        .where(eq(stands.id, req.params.id))
-        .returning();
-
-      res.json(stand);
-    } catch (error) {
-      console.error("Failed to update stand:", error);
-      res.status(500).json({ error: "Failed to update stand" });
-    }
-  });
+    },
+  );
 
   // PATCH /api/automotive/stands/:id - Update stand (supports dailyFull and dailyTaskTimeLocal)
   app.patch(
     "/api/automotive/stands/:id",
     requireAuth,
     requireAdmin,
+    auditEntity("stand"),
     async (req, res) => {
       try {
         const [existing] = await db
@@ -4935,11 +7808,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ----------------------------------------------------------------------------
 
   // GET /api/boxes - List boxes with optional filters (standId, includeInactive)
-  app.get("/api/boxes", async (req, res) => {
+  app.get("/api/boxes", requireAuth, async (req, res) => {
     try {
       const { includeInactive, standId } = req.query;
 
-      const conditions = [];
+      const conditions = [siteFilter(req, boxes.siteId)];
 
       if (includeInactive !== "true") {
         conditions.push(eq(boxes.isActive, true));
@@ -5089,7 +7962,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const standMeta = await buildStandContextMeta(standId);
         await createAuditEvent({
-          taskId: box.currentTaskId || box.id,
+          taskId: box.currentTaskId || undefined,
           actorUserId: authUser.id,
           action: "BOX_PLACED",
           entityType: "box",
@@ -5169,7 +8042,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const standMeta = await buildStandContextMeta(standId);
         await createAuditEvent({
-          taskId: box.currentTaskId || boxId,
+          taskId: box.currentTaskId || undefined,
           actorUserId: authUser.id,
           action: "BOX_UNPLACED",
           entityType: "box",
@@ -5225,180 +8098,209 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/boxes - Create box (admin only)
-  app.post("/api/boxes", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const { qrCode, serial, standId, status, notes } = req.body;
+  app.post(
+    "/api/boxes",
+    requireAuth,
+    requireAdmin,
+    auditEntity("box"),
+    async (req, res) => {
+      try {
+        const { qrCode, serial, standId, status, notes } = req.body;
 
-      if (!qrCode || !serial) {
-        return res
-          .status(400)
-          .json({ error: "qrCode and serial are required" });
-      }
+        if (!qrCode || !serial) {
+          return res
+            .status(400)
+            .json({ error: "qrCode and serial are required" });
+        }
 
-      const [box] = await db
-        .insert(boxes)
-        .values({
-          qrCode,
-          serial,
-          standId: standId || null,
-          status: status || "AT_STAND",
-          notes: notes || null,
-        })
-        .returning();
+        let siteId = getActiveSiteId(req);
+        if (standId) {
+          const [stand] = await db
+            .select({ siteId: stands.siteId })
+            .from(stands)
+            .where(eq(stands.id, standId));
+          if (stand?.siteId) {
+            siteId = stand.siteId;
+          }
+        }
 
-      res.status(201).json(box);
-    } catch (error) {
-      console.error("Failed to create box:", error);
-      res.status(500).json({ error: "Failed to create box" });
-    }
-  });
+        const [box] = await db
+          .insert(boxes)
+          .values({
+            siteId,
+            qrCode,
+            serial,
+            standId: standId || null,
+            status: status || "AT_STAND",
+            notes: notes || null,
+          })
+          .returning();
 
-  // PUT /api/boxes/:id - Update box (admin only)
-  app.put("/api/boxes/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const authUser = (req as any).authUser;
-      const [existing] = await db
-        .select()
-        .from(boxes)
-        .where(eq(boxes.id, req.params.id));
-      if (!existing) {
-        return res.status(404).json({ error: "Box not found" });
+        res.status(201).json(box);
+      } catch (error) {
+        console.error("Failed to create box:", error);
+        res.status(500).json({ error: "Failed to create box" });
       }
+    },
+  );
 
-      const { qrCode, serial, standId, status, notes, isActive } = req.body;
-      const wasAtStand = existing.standId !== null;
-      const beingRemovedFromStand = standId === null && wasAtStand;
-
-      const [box] = await db
-        .update(boxes)
-        .set({
-          ...(qrCode !== undefined && { qrCode }),
-          ...(serial !== undefined && { serial }),
-          ...(standId !== undefined && { standId }),
-          ...(status !== undefined && { status }),
-          ...(notes !== undefined && { notes }),
-          ...(isActive !== undefined && { isActive }),
-          updatedAt: new Date(),
-        })
-        .where(eq(boxes.id, req.params.id))
-        .returning();
+  // PUT /api/boxes/:id - Update box (admin only)
+  app.put(
+    "/api/boxes/:id",
+    requireAuth,
+    requireAdmin,
+    auditEntity("box"),
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const [existing] = await db
+          .select()
+          .from(boxes)
+          .where(eq(boxes.id, req.params.id));
+        if (!existing) {
+          return res.status(404).json({ error: "Box not found" });
+        }
 
-      if (beingRemovedFromStand) {
-        const standMeta = await buildStandContextMeta(existing.standId!);
-        await createAuditEvent({
-          taskId: existing.currentTaskId || req.params.id,
-          actorUserId: authUser.id,
-          action: "BOX_REMOVED",
-          entityType: "box",
-          entityId: existing.id,
-          beforeData: { standId: existing.standId, status: existing.status },
-          afterData: { standId: null, status: status || existing.status },
-          metaJson: { ...standMeta, boxId: existing.id, source: "ADMIN_UI" },
-        });
-      }
+        const { qrCode, serial, standId, status, notes, isActive } = req.body;
+        const wasAtStand = existing.standId !== null;
+        const beingRemovedFromStand = standId === null && wasAtStand;
 
-      res.json(box);
-    } catch (error) {
-      console.error("Failed to update box:", error);
-      res.status(500).json({ error: "Failed to update box" });
-    }
-  });
+        const [box] = await db
+          .update(boxes)
+          .set({
+            ...(qrCode !== undefined && { qrCode }),
+            ...(serial !== undefined && { serial }),
+            ...(standId !== undefined && { standId }),
+            ...(status !== undefined && { status }),
+            ...(notes !== undefined && { notes }),
+            ...(isActive !== undefined && { isActive }),
+            updatedAt: new Date(),
+          })
+          .where(eq(boxes.id, req.params.id))
+          .returning();
 
-  // POST /api/boxes/:id/position - Position box at a stand
-  app.post("/api/boxes/:id/position", requireAuth, async (req, res) => {
-    try {
-      const { stationId, standId } = req.body;
-      const authUser = (req as any).authUser;
+        if (beingRemovedFromStand) {
+          const standMeta = await buildStandContextMeta(existing.standId!);
+          await createAuditEvent({
+            taskId: existing.currentTaskId || undefined,
+            actorUserId: authUser.id,
+            action: "BOX_REMOVED",
+            entityType: "box",
+            entityId: existing.id,
+            beforeData: { standId: existing.standId, status: existing.status },
+            afterData: { standId: null, status: status || existing.status },
+            metaJson: { ...standMeta, boxId: existing.id, source: "ADMIN_UI" },
+          });
+        }
 
-      if (!standId) {
-        return res.status(400).json({ error: "standId is required" });
+        res.json(box);
+      } catch (error) {
+        console.error("Failed to update box:", error);
+        res.status(500).json({ error: "Failed to update box" });
       }
+    },
+  );
 
-      const [box] = await db
-        .select()
-        .from(boxes)
-        .where(eq(boxes.id, req.params.id));
-      if (!box) {
-        return res.status(404).json({ error: "Box not found" });
-      }
+  // POST /api/boxes/:id/position - Position box at a stand
+  app.post(
+    "/api/boxes/:id/position",
+    requireAuth,
+    auditEntity("box"),
+    async (req, res) => {
+      try {
+        const { stationId, standId } = req.body;
+        const authUser = (req as any).authUser;
 
-      const [stand] = await db
-        .select()
-        .from(stands)
-        .where(eq(stands.id, standId));
-      if (!stand) {
-        return res.status(404).json({ error: "Stand not found" });
-      }
+        if (!standId) {
+          return res.status(400).json({ error: "standId is required" });
+        }
 
-      const [station] = await db
-        .select()
-        .from(stations)
-        .where(eq(stations.id, stand.stationId));
-      if (!station) {
-        return res.status(404).json({ error: "Station not found" });
-      }
+        const [box] = await db
+          .select()
+          .from(boxes)
+          .where(eq(boxes.id, req.params.id));
+        if (!box) {
+          return res.status(404).json({ error: "Box not found" });
+        }
 
-      const [hall] = await db
-        .select()
-        .from(halls)
-        .where(eq(halls.id, station.hallId));
+        const [stand] = await db
+          .select()
+          .from(stands)
+          .where(eq(stands.id, standId));
+        if (!stand) {
+          return res.status(404).json({ error: "Stand not found" });
+        }
 
-      let material = null;
-      if (stand.materialId) {
-        const [mat] = await db
+        const [station] = await db
           .select()
-          .from(materials)
-          .where(eq(materials.id, stand.materialId));
-        material = mat;
-      }
+          .from(stations)
+          .where(eq(stations.id, stand.stationId));
+        if (!station) {
+          return res.status(404).json({ error: "Station not found" });
+        }
 
-      const beforeData = { standId: box.standId, status: box.status };
-      const placementChanged = box.standId !== standId;
+        const [hall] = await db
+          .select()
+          .from(halls)
+          .where(eq(halls.id, station.hallId));
 
-      const [updatedBox] = await db
-        .update(boxes)
-        .set({
-          standId,
-          status: "AT_STAND",
-          lastSeenAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(boxes.id, req.params.id))
-        .returning();
+        let material = null;
+        if (stand.materialId) {
+          const [mat] = await db
+            .select()
+            .from(materials)
+            .where(eq(materials.id, stand.materialId));
+          material = mat;
+        }
+
+        const beforeData = { standId: box.standId, status: box.status };
+        const placementChanged = box.standId !== standId;
+
+        const [updatedBox] = await db
+          .update(boxes)
+          .set({
+            standId,
+            status: "AT_STAND",
+            lastSeenAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(boxes.id, req.params.id))
+          .returning();
 
-      // Build metaJson context for the new stand
-      const standMeta = await buildStandContextMeta(standId);
-      const eventMetaJson = {
-        ...standMeta,
-        boxId: box.id,
-        containerId: box.id,
-        previousStandId: box.standId || undefined,
-      };
+        // Build metaJson context for the new stand
+        const standMeta = await buildStandContextMeta(standId);
+        const eventMetaJson = {
+          ...standMeta,
+          boxId: box.id,
+          containerId: box.id,
+          previousStandId: box.standId || undefined,
+        };
 
-      // Log PLACEMENT_CHANGED if stand actually changed, otherwise BOX_POSITIONED
-      await createAuditEvent({
-        taskId: box.currentTaskId || req.params.id,
-        actorUserId: authUser.id,
-        action: placementChanged ? "PLACEMENT_CHANGED" : "BOX_POSITIONED",
-        entityType: "box",
-        entityId: box.id,
-        beforeData,
-        afterData: { standId, status: "AT_STAND" },
-        metaJson: eventMetaJson,
-      });
+        // Log PLACEMENT_CHANGED if stand actually changed, otherwise BOX_POSITIONED
+        await createAuditEvent({
+          taskId: box.currentTaskId || undefined,
+          actorUserId: authUser.id,
+          action: placementChanged ? "PLACEMENT_CHANGED" : "BOX_POSITIONED",
+          entityType: "box",
+          entityId: box.id,
+          beforeData,
+          afterData: { standId, status: "AT_STAND" },
+          metaJson: eventMetaJson,
+        });
 
-      res.json({
-        box: updatedBox,
-        stand,
-        material,
-        station,
-        hall,
-      });
-    } catch (error) {
-      console.error("Failed to position box:", error);
-      res.status(500).json({ error: "Failed to position box" });
-    }
-  });
+        res.json({
+          box: updatedBox,
+          stand,
+          material,
+          station,
+          hall,
+        });
+      } catch (error) {
+        console.error("Failed to position box:", error);
+        res.status(500).json({ error: "Failed to position box" });
+      }
+    },
+  );
 
   // ----------------------------------------------------------------------------
   // AUTOMOTIVE TASK ENDPOINTS
@@ -5406,95 +8308,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // GET /api/automotive/tasks - List all tasks with global visibility (no user filtering)
   // Query params: status, materialId, stationId, hallId, from, to, scheduledFor
-  app.get("/api/automotive/tasks", requireAuth, async (req, res) => {
-    try {
-      const { status, materialId, stationId, hallId, from, to, scheduledFor } =
-        req.query;
+  app.get(
+    "/api/automotive/tasks",
+    allowApiKey("tasks:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const {
+          status,
+          materialId,
+          stationId,
+          hallId,
+          from,
+          to,
+          scheduledFor,
+        } = req.query;
 
-      const conditions: any[] = [];
+        const conditions: any[] = [siteFilter(req, tasks.siteId)];
 
-      // Status filter
-      if (status) {
-        conditions.push(eq(tasks.status, status as string));
-      }
+        // Status filter
+        if (status) {
+          conditions.push(eq(tasks.status, status as string));
+        }
 
-      // Material filter
-      if (materialId) {
-        conditions.push(eq(tasks.materialType, materialId as string));
-      }
+        // Material filter
+        if (materialId) {
+          conditions.push(eq(tasks.materialType, materialId as string));
+        }
 
-      // Exact scheduledFor filter (for specific date match)
-      if (scheduledFor) {
-        const scheduledDate = new Date(scheduledFor as string);
-        scheduledDate.setHours(0, 0, 0, 0);
-        const nextDay = new Date(scheduledDate);
-        nextDay.setDate(nextDay.getDate() + 1);
-        conditions.push(gte(tasks.scheduledFor, scheduledDate));
-        conditions.push(lte(tasks.scheduledFor, nextDay));
-      }
+        // Exact scheduledFor filter (for specific date match)
+        if (scheduledFor) {
+          const scheduledDate = new Date(scheduledFor as string);
+          scheduledDate.setHours(0, 0, 0, 0);
+          const nextDay = new Date(scheduledDate);
+          nextDay.setDate(nextDay.getDate() + 1);
+          conditions.push(gte(tasks.scheduledFor, scheduledDate));
+          conditions.push(lte(tasks.scheduledFor, nextDay));
+        }
 
-      // Date range filter (using scheduledFor)
-      if (from) {
-        conditions.push(gte(tasks.scheduledFor, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.scheduledFor, new Date(to as string)));
-      }
+        // Date range filter (using scheduledFor)
+        if (from) {
+          conditions.push(gte(tasks.scheduledFor, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.scheduledFor, new Date(to as string)));
+        }
 
-      // Build query with joins for stationId and hallId filtering
-      let query = db
-        .select({
-          task: tasks,
-          stand: stands,
-          station: stations,
-          hall: halls,
-          material: materials,
-          claimedByUser: users,
-        })
-        .from(tasks)
-        .leftJoin(stands, eq(tasks.standId, stands.id))
-        .leftJoin(stations, eq(stands.stationId, stations.id))
-        .leftJoin(halls, eq(stations.hallId, halls.id))
-        .leftJoin(materials, eq(tasks.materialType, materials.id))
-        .leftJoin(users, eq(tasks.claimedByUserId, users.id));
+        // Build query with joins for stationId and hallId filtering
+        let query = db
+          .select({
+            task: tasks,
+            stand: stands,
+            station: stations,
+            hall: halls,
+            material: materials,
+            claimedByUser: users,
+          })
+          .from(tasks)
+          .leftJoin(stands, eq(tasks.standId, stands.id))
+          .leftJoin(stations, eq(stands.stationId, stations.id))
+          .leftJoin(halls, eq(stations.hallId, halls.id))
+          .leftJoin(materials, eq(tasks.materialType, materials.id))
+          .leftJoin(users, eq(tasks.claimedByUserId, users.id));
 
-      // Station filter (needs join)
-      if (stationId) {
-        conditions.push(eq(stands.stationId, stationId as string));
-      }
+        // Station filter (needs join)
+        if (stationId) {
+          conditions.push(eq(stands.stationId, stationId as string));
+        }
 
-      // Hall filter (needs join)
-      if (hallId) {
-        conditions.push(eq(stations.hallId, hallId as string));
-      }
+        // Hall filter (needs join)
+        if (hallId) {
+          conditions.push(eq(stations.hallId, hallId as string));
+        }
 
-      const result =
-        conditions.length > 0
-          ? await query.where(and(...conditions)).orderBy(desc(tasks.createdAt))
-          : await query.orderBy(desc(tasks.createdAt));
-
-      // Flatten the result for easier consumption
-      const tasksWithDetails = result.map((row) => ({
-        ...row.task,
-        stand: row.stand,
-        station: row.station,
-        hall: row.hall,
-        material: row.material,
-        claimedByUser: row.claimedByUser
-          ? {
-              id: row.claimedByUser.id,
-              name: row.claimedByUser.name,
-              email: row.claimedByUser.email,
-            }
-          : null,
-      }));
+        const result =
+          conditions.length > 0
+            ? await query
+                .where(and(...conditions))
+                .orderBy(desc(tasks.createdAt))
+            : await query.orderBy(desc(tasks.createdAt));
 
-      res.json(tasksWithDetails);
-    } catch (error) {
-      console.error("Failed to fetch automotive tasks:", error);
-      res.status(500).json({ error: "Failed to fetch automotive tasks" });
-    }
-  });
+        // Flatten the result for easier consumption
+        const tasksWithDetails = result.map((row) => ({
+          ...row.task,
+          stand: row.stand,
+          station: row.station,
+          hall: row.hall,
+          material: row.material,
+          claimedByUser: row.claimedByUser
+            ? {
+                id: row.claimedByUser.id,
+                name: row.claimedByUser.name,
+                email: row.claimedByUser.email,
+              }
+            : null,
+        }));
+
+        res.json(tasksWithDetails);
+      } catch (error) {
+        console.error("Failed to fetch automotive tasks:", error);
+        res.status(500).json({ error: "Failed to fetch automotive tasks" });
+      }
+    },
+  );
 
   // POST /api/automotive/tasks - Create automotive task
   app.post("/api/automotive/tasks", requireAuth, async (req, res) => {
@@ -5565,6 +8481,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: `Pick up box from stand ${stand.identifier}`,
           containerID: boxId,
           boxId,
+          siteId: stand.siteId,
           standId,
           materialType: stand.materialId ? stand.materialId : null,
           taskType: taskType || "MANUAL",
@@ -5612,350 +8529,364 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // PUT /api/automotive/tasks/:id/status - Update task status with transition guard
   // Auto-claims if not claimed, auto-releases on DROPPED_OFF
   // Requires mandatory box scans for status transitions
-  app.put("/api/automotive/tasks/:id/status", requireAuth, async (req, res) => {
-    try {
-      const {
-        status,
-        weightKg,
-        targetWarehouseContainerId,
-        reason,
-        scannedBoxId,
-        scannedStandId,
-      } = req.body;
-      const authUser = (req as any).authUser;
-
-      if (!status) {
-        return res.status(400).json({ error: "status is required" });
-      }
-
-      const [task] = await db
-        .select()
-        .from(tasks)
-        .where(eq(tasks.id, req.params.id));
-      if (!task) {
-        return res.status(404).json({ error: "Task not found" });
-      }
-
+  app.put(
+    "/api/automotive/tasks/:id/status",
+    allowApiKey("tasks:write", "weights:write"),
+    requireAuth,
+    async (req, res) => {
       try {
-        assertAutomotiveTransition(task.status, status);
-      } catch (error: any) {
-        return res.status(409).json({
-          error: error.message,
-          currentStatus: task.status,
-          requestedStatus: status,
-        });
-      }
-
-      // ========================================================================
-      // MANDATORY BOX SCAN VALIDATION
-      // All task transitions require a box scan to ensure physical verification
-      // ========================================================================
-
-      // Define which transitions require box scans
-      const boxScanRequired = [
-        { from: "OPEN", to: "PICKED_UP" },
-        { from: "IN_TRANSIT", to: "DROPPED_OFF" },
-        { from: "DROPPED_OFF", to: "TAKEN_OVER" },
-        { from: "TAKEN_OVER", to: "WEIGHED" },
-        { from: "WEIGHED", to: "DISPOSED" },
-      ];
-
-      const requiresBoxScan = boxScanRequired.some(
-        (t) => t.from === task.status && t.to === status,
-      );
+        const {
+          status,
+          weightKg,
+          targetWarehouseContainerId,
+          reason,
+          scannedBoxId,
+          scannedStandId,
+          version,
+        } = req.body;
+        const authUser = (req as any).authUser;
 
-      if (requiresBoxScan && !scannedBoxId) {
-        return res.status(400).json({ error: "Box-Scan erforderlich" });
-      }
+        if (!status) {
+          return res.status(400).json({ error: "status is required" });
+        }
 
-      // Validate scanned box matches the task's box (if box is already assigned)
-      if (scannedBoxId && task.boxId && scannedBoxId !== task.boxId) {
-        return res.status(400).json({
-          error: "Gescannte Box stimmt nicht mit der Aufgabe überein",
-        });
-      }
+        // API keys need weights:write to weigh and tasks:write for the rest
+        const requiredScope =
+          status === "WEIGHED" ? "weights:write" : "tasks:write";
+        if (!ensureApiKeyScope(req, res, requiredScope)) {
+          return;
+        }
 
-      // OPEN -> PICKED_UP: Validate box is at the task's stand
-      if (task.status === "OPEN" && status === "PICKED_UP" && scannedBoxId) {
-        const [scannedBox] = await db
+        const [task] = await db
           .select()
-          .from(boxes)
-          .where(eq(boxes.id, scannedBoxId));
-        if (!scannedBox) {
-          return res
-            .status(404)
-            .json({ error: "Gescannte Box nicht gefunden" });
+          .from(tasks)
+          .where(eq(tasks.id, req.params.id));
+        if (!task) {
+          return res.status(404).json({ error: "Task not found" });
+        }
+
+        // ========================================================================
+        // WORKFLOW VALIDATION
+        // Transition, roles, required scans and fields come from the site's
+        // workflow definition; scans ensure physical verification
+        // ========================================================================
+        const workflow = await getWorkflow("AUTOMOTIVE", task.siteId);
+        const check = checkWorkflowTransition(
+          workflow,
+          task.status,
+          status,
+          authUser,
+          req.body,
+          { enforceScans: true },
+        );
+        if (!check.ok) {
+          return res.status(check.status).json(check.body);
         }
+        const { transition } = check;
 
-        // If task has a standId, verify box is at that stand
-        if (task.standId && scannedBox.standId !== task.standId) {
-          return res
-            .status(400)
-            .json({ error: "Box befindet sich nicht am richtigen Stand" });
+        // Validate scanned box matches the task's box (if box is already assigned)
+        if (scannedBoxId && task.boxId && scannedBoxId !== task.boxId) {
+          return res.status(400).json({
+            error: "Gescannte Box stimmt nicht mit der Aufgabe überein",
+          });
         }
-      }
 
-      // IN_TRANSIT -> DROPPED_OFF: Requires both stand scan and box scan
-      if (task.status === "IN_TRANSIT" && status === "DROPPED_OFF") {
-        if (!scannedStandId) {
-          return res
-            .status(400)
-            .json({ error: "Stand-Scan erforderlich für Abgabe" });
-        }
-        // Verify stand exists
-        const [scannedStand] = await db
-          .select()
-          .from(stands)
-          .where(eq(stands.id, scannedStandId));
-        if (!scannedStand) {
-          return res
-            .status(404)
-            .json({ error: "Gescannter Stand nicht gefunden" });
-        }
-      }
+        // OPEN -> PICKED_UP: Validate box is at the task's stand
+        if (task.status === "OPEN" && status === "PICKED_UP" && scannedBoxId) {
+          const [scannedBox] = await db
+            .select()
+            .from(boxes)
+            .where(eq(boxes.id, scannedBoxId));
+          if (!scannedBox) {
+            return res
+              .status(404)
+              .json({ error: "Gescannte Box nicht gefunden" });
+          }
 
-      if (task.status === "TAKEN_OVER" && status === "WEIGHED") {
-        if (weightKg === undefined || weightKg === null) {
-          return res
-            .status(400)
-            .json({ error: "weightKg is required for WEIGHED status" });
+          // If task has a standId, verify box is at that stand
+          if (task.standId && scannedBox.standId !== task.standId) {
+            return res
+              .status(400)
+              .json({ error: "Box befindet sich nicht am richtigen Stand" });
+          }
         }
-      }
 
-      const now = new Date();
-      let autoClaimed = false;
-      let autoReleased = false;
+        // Verify the scanned stand exists (IN_TRANSIT -> DROPPED_OFF by default)
+        if (transition.requiredScans?.includes("STAND")) {
+          const [scannedStand] = await db
+            .select()
+            .from(stands)
+            .where(eq(stands.id, scannedStandId));
+          if (!scannedStand) {
+            return res
+              .status(404)
+              .json({ error: "Gescannter Stand nicht gefunden" });
+          }
+        }
 
-      // Build metaJson context for audit events
-      const standMeta = task.standId
-        ? await buildStandContextMeta(task.standId)
-        : {};
+        const now = new Date();
+        let autoClaimed = false;
+        let autoReleased = false;
 
-      // Auto-claim if not claimed or claim is expired
-      if (!task.claimedByUserId || isClaimExpired(task.claimedAt)) {
-        autoClaimed = true;
-        // Log auto-claim event
-        await createAuditEvent({
-          taskId: task.id,
-          actorUserId: authUser.id,
-          action: "AUTO_CLAIM",
-          entityType: "task",
-          entityId: task.id,
-          beforeData: {
-            claimedByUserId: task.claimedByUserId,
-            claimedAt: task.claimedAt,
-          },
-          afterData: { claimedByUserId: authUser.id, claimedAt: now },
-          metaJson: {
-            ...standMeta,
-            boxId: task.boxId || undefined,
-            reason: "Auto-claimed before status transition",
-          },
-        });
-      }
+        // Build metaJson context for audit events
+        const standMeta = task.standId
+          ? await buildStandContextMeta(task.standId)
+          : {};
 
-      const beforeData = {
-        status: task.status,
-        weightKg: task.weightKg,
-        targetWarehouseContainerId: task.targetWarehouseContainerId,
-        claimedByUserId: task.claimedByUserId,
-        claimedAt: task.claimedAt,
-      };
+        // Auto-claim if not claimed or claim is expired (logged once the
+        // update has gone through)
+        if (!task.claimedByUserId || (await isClaimExpired(task))) {
+          autoClaimed = true;
+        }
 
-      const updateData: any = {
-        status,
-        updatedAt: now,
-      };
+        const beforeData = {
+          status: task.status,
+          weightKg: task.weightKg,
+          targetWarehouseContainerId: task.targetWarehouseContainerId,
+          claimedByUserId: task.claimedByUserId,
+          claimedAt: task.claimedAt,
+        };
 
-      // Assign scanned box to task if not already assigned
-      if (scannedBoxId && !task.boxId) {
-        updateData.boxId = scannedBoxId;
-      }
+        const updateData: any = {
+          status,
+          updatedAt: now,
+        };
 
-      // Auto-claim if needed
-      if (autoClaimed) {
-        updateData.claimedByUserId = authUser.id;
-        updateData.claimedAt = now;
-      }
+        // Assign scanned box to task if not already assigned
+        if (scannedBoxId && !task.boxId) {
+          updateData.boxId = scannedBoxId;
+        }
 
-      // Auto-release on DROPPED_OFF transition
-      if (status === "DROPPED_OFF") {
-        updateData.claimedByUserId = null;
-        updateData.claimedAt = null;
-        autoReleased = true;
-      }
+        // Auto-claim if needed
+        if (autoClaimed) {
+          updateData.claimedByUserId = authUser.id;
+          updateData.claimedAt = now;
+        }
 
-      const timestampField = getAutomotiveTimestampFieldForStatus(status);
-      if (timestampField) {
-        updateData[timestampField] = now;
-      }
+        // Auto-release at hand-over points (DROPPED_OFF by default)
+        if (transition.releasesClaim) {
+          updateData.claimedByUserId = null;
+          updateData.claimedAt = null;
+          autoReleased = true;
+        }
 
-      if (weightKg !== undefined) {
-        updateData.weightKg = weightKg;
-        updateData.weighedByUserId = authUser.id;
-      }
+        const timestampField = getWorkflowTimestampField(workflow, status);
+        if (timestampField) {
+          updateData[timestampField] = now;
+        }
 
-      if (targetWarehouseContainerId !== undefined) {
-        updateData.targetWarehouseContainerId = targetWarehouseContainerId;
-      }
+        if (weightKg !== undefined) {
+          updateData.weightKg = weightKg;
+          updateData.weighedByUserId = authUser.id;
+        }
 
-      if (reason !== undefined) {
-        updateData.cancellationReason = reason;
-      }
+        if (targetWarehouseContainerId !== undefined) {
+          updateData.targetWarehouseContainerId = targetWarehouseContainerId;
+        }
 
-      const [updatedTask] = await db
-        .update(tasks)
-        .set(updateData)
-        .where(eq(tasks.id, req.params.id))
-        .returning();
+        if (reason !== undefined) {
+          updateData.cancellationReason = reason;
+        }
 
-      // ========================================================================
-      // BOX STATUS UPDATES BASED ON TRANSITION
-      // ========================================================================
-      const effectiveBoxId = scannedBoxId || task.boxId;
+        // Conditional on the version the decision was based on: the
+        // client's if it sent one, otherwise the one read above
+        const expectedVersion =
+          typeof version === "number" ? version : task.version;
+        const [updatedTask] = await db
+          .update(tasks)
+          .set({ ...updateData, version: sql`${tasks.version} + 1` })
+          .where(
+            and(
+              eq(tasks.id, req.params.id),
+              eq(tasks.version, expectedVersion),
+            ),
+          )
+          .returning();
+        if (!updatedTask) {
+          return sendTaskVersionConflict(res, task.id);
+        }
 
-      // PICKED_UP: Remove box from stand, set status to IN_TRANSIT
-      if (status === "PICKED_UP" && effectiveBoxId) {
-        await db
-          .update(boxes)
-          .set({
-            standId: null,
-            status: "IN_TRANSIT",
-            currentTaskId: updatedTask.id,
-            lastSeenAt: now,
-            updatedAt: now,
-          })
-          .where(eq(boxes.id, effectiveBoxId));
+        if (autoClaimed) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "AUTO_CLAIM",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: {
+              claimedByUserId: task.claimedByUserId,
+              claimedAt: task.claimedAt,
+            },
+            afterData: { claimedByUserId: authUser.id, claimedAt: now },
+            metaJson: {
+              ...standMeta,
+              boxId: task.boxId || undefined,
+              reason: "Auto-claimed before status transition",
+            },
+          });
+        }
 
-        // Audit log for box removal from stand
-        await createAuditEvent({
-          taskId: updatedTask.id,
-          actorUserId: authUser.id,
-          action: "BOX_REMOVED",
-          entityType: "box",
-          entityId: effectiveBoxId,
-          beforeData: { standId: task.standId, status: "AT_STAND" },
-          afterData: { standId: null, status: "IN_TRANSIT" },
-          metaJson: {
-            ...standMeta,
-            boxId: effectiveBoxId,
-            source: "PICKUP_SCAN",
-          },
-        });
-      }
+        // ========================================================================
+        // BOX STATUS UPDATES BASED ON TRANSITION
+        // ========================================================================
+        const effectiveBoxId = scannedBoxId || task.boxId;
 
-      // DROPPED_OFF: Place box at scanned stand
-      if (status === "DROPPED_OFF" && effectiveBoxId && scannedStandId) {
-        await db
-          .update(boxes)
-          .set({
-            standId: scannedStandId,
-            status: "AT_STAND",
-            lastSeenAt: now,
-            updatedAt: now,
-          })
-          .where(eq(boxes.id, effectiveBoxId));
+        // Box state before the updates below, for undo
+        const [boxBefore] =
+          effectiveBoxId &&
+          ["PICKED_UP", "DROPPED_OFF", "DISPOSED", "CANCELLED"].includes(status)
+            ? await db.select().from(boxes).where(eq(boxes.id, effectiveBoxId))
+            : [];
 
-        // Audit log for box placement at stand
-        const dropStandMeta = await buildStandContextMeta(scannedStandId);
-        await createAuditEvent({
-          taskId: updatedTask.id,
-          actorUserId: authUser.id,
-          action: "BOX_PLACED",
-          entityType: "box",
-          entityId: effectiveBoxId,
-          beforeData: { standId: null, status: "IN_TRANSIT" },
-          afterData: { standId: scannedStandId, status: "AT_STAND" },
-          metaJson: {
-            ...dropStandMeta,
-            boxId: effectiveBoxId,
-            source: "DROPOFF_SCAN",
-          },
-        });
-      }
+        // PICKED_UP: Remove box from stand, set status to IN_TRANSIT
+        if (status === "PICKED_UP" && effectiveBoxId) {
+          await db
+            .update(boxes)
+            .set({
+              standId: null,
+              status: "IN_TRANSIT",
+              currentTaskId: updatedTask.id,
+              lastSeenAt: now,
+              updatedAt: now,
+            })
+            .where(eq(boxes.id, effectiveBoxId));
+
+          // Audit log for box removal from stand
+          await createAuditEvent({
+            taskId: updatedTask.id,
+            actorUserId: authUser.id,
+            action: "BOX_REMOVED",
+            entityType: "box",
+            entityId: effectiveBoxId,
+            beforeData: { standId: task.standId, status: "AT_STAND" },
+            afterData: { standId: null, status: "IN_TRANSIT" },
+            metaJson: {
+              ...standMeta,
+              boxId: effectiveBoxId,
+              source: "PICKUP_SCAN",
+            },
+          });
+        }
 
-      // DISPOSED or CANCELLED: Release box
-      if (status === "DISPOSED" || status === "CANCELLED") {
-        if (effectiveBoxId) {
+        // DROPPED_OFF: Place box at scanned stand
+        if (status === "DROPPED_OFF" && effectiveBoxId && scannedStandId) {
           await db
             .update(boxes)
             .set({
-              currentTaskId: null,
-              status: status === "DISPOSED" ? "AT_WAREHOUSE" : "AT_STAND",
+              standId: scannedStandId,
+              status: "AT_STAND",
+              lastSeenAt: now,
               updatedAt: now,
             })
             .where(eq(boxes.id, effectiveBoxId));
+
+          // Audit log for box placement at stand
+          const dropStandMeta = await buildStandContextMeta(scannedStandId);
+          await createAuditEvent({
+            taskId: updatedTask.id,
+            actorUserId: authUser.id,
+            action: "BOX_PLACED",
+            entityType: "box",
+            entityId: effectiveBoxId,
+            beforeData: { standId: null, status: "IN_TRANSIT" },
+            afterData: { standId: scannedStandId, status: "AT_STAND" },
+            metaJson: {
+              ...dropStandMeta,
+              boxId: effectiveBoxId,
+              source: "DROPOFF_SCAN",
+            },
+          });
         }
-      }
 
-      const eventMetaJson = {
-        ...standMeta,
-        boxId: task.boxId || undefined,
-        containerId: task.boxId || undefined,
-        targetWarehouseContainerId:
-          updateData.targetWarehouseContainerId || undefined,
-        autoClaimed,
-        autoReleased,
-      };
+        // DISPOSED or CANCELLED: Release box
+        if (status === "DISPOSED" || status === "CANCELLED") {
+          if (effectiveBoxId) {
+            await db
+              .update(boxes)
+              .set({
+                currentTaskId: null,
+                status: status === "DISPOSED" ? "AT_WAREHOUSE" : "AT_STAND",
+                updatedAt: now,
+              })
+              .where(eq(boxes.id, effectiveBoxId));
+          }
+        }
 
-      // Log STATUS_CHANGED event
-      await createAuditEvent({
-        taskId: task.id,
-        actorUserId: authUser.id,
-        action: status === "CANCELLED" ? "STATUS_CHANGED" : `STATUS_${status}`,
-        entityType: "task",
-        entityId: task.id,
-        beforeData,
-        afterData: {
-          status,
-          weightKg: updateData.weightKg,
-          targetWarehouseContainerId: updateData.targetWarehouseContainerId,
-          claimedByUserId: updateData.claimedByUserId,
-          reason,
-        },
-        metaJson: eventMetaJson,
-      });
+        const eventMetaJson = {
+          ...standMeta,
+          boxId: task.boxId || undefined,
+          containerId: task.boxId || undefined,
+          targetWarehouseContainerId:
+            updateData.targetWarehouseContainerId || undefined,
+          autoClaimed,
+          autoReleased,
+        };
 
-      // Log auto-release event separately if it happened
-      if (autoReleased) {
+        // Log STATUS_CHANGED event
         await createAuditEvent({
           taskId: task.id,
           actorUserId: authUser.id,
-          action: "AUTO_RELEASE",
+          action:
+            status === "CANCELLED" ? "STATUS_CHANGED" : `STATUS_${status}`,
           entityType: "task",
           entityId: task.id,
-          beforeData: {
-            claimedByUserId: autoClaimed ? authUser.id : task.claimedByUserId,
+          beforeData,
+          afterData: {
+            status,
+            weightKg: updateData.weightKg,
+            targetWarehouseContainerId: updateData.targetWarehouseContainerId,
+            claimedByUserId: updateData.claimedByUserId,
+            reason,
           },
-          afterData: { claimedByUserId: null, claimedAt: null },
           metaJson: {
-            ...standMeta,
-            boxId: task.boxId || undefined,
-            reason: "Auto-released on DROPPED_OFF transition",
+            ...eventMetaJson,
+            undo: buildTaskUndoSnapshot(task, updateData, updatedTask, {
+              box: boxBefore && pickBoxUndoState(boxBefore),
+            }),
           },
         });
-      }
 
-      // Log WEIGHT_RECORDED when weight is set during WEIGHED transition
-      if (status === "WEIGHED" && weightKg !== undefined) {
-        await createAuditEvent({
-          taskId: task.id,
-          actorUserId: authUser.id,
-          action: "WEIGHT_RECORDED",
-          entityType: "task",
-          entityId: task.id,
-          beforeData: { weightKg: task.weightKg },
-          afterData: { weightKg },
-          metaJson: eventMetaJson,
-        });
-      }
+        // Log auto-release event separately if it happened
+        if (autoReleased) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "AUTO_RELEASE",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: {
+              claimedByUserId: autoClaimed ? authUser.id : task.claimedByUserId,
+            },
+            afterData: { claimedByUserId: null, claimedAt: null },
+            metaJson: {
+              ...standMeta,
+              boxId: task.boxId || undefined,
+              reason: "Auto-released on DROPPED_OFF transition",
+            },
+          });
+        }
 
-      res.json({ ...updatedTask, autoClaimed, autoReleased });
-    } catch (error) {
-      console.error("Failed to update task status:", error);
-      res.status(500).json({ error: "Failed to update task status" });
-    }
-  });
+        // Log WEIGHT_RECORDED when weight is set during WEIGHED transition
+        if (status === "WEIGHED" && weightKg !== undefined) {
+          await createAuditEvent({
+            taskId: task.id,
+            actorUserId: authUser.id,
+            action: "WEIGHT_RECORDED",
+            entityType: "task",
+            entityId: task.id,
+            beforeData: { weightKg: task.weightKg },
+            afterData: { weightKg },
+            metaJson: eventMetaJson,
+          });
+        }
+
+        res.json({ ...updatedTask, autoClaimed, autoReleased });
+      } catch (error) {
+        console.error("Failed to update task status:", error);
+        res.status(500).json({ error: "Failed to update task status" });
+      }
+    },
+  );
 
   // GET /api/automotive/tasks/:id/suggest-container - Suggest warehouse container
   app.get("/api/automotive/tasks/:id/suggest-container", async (req, res) => {
@@ -6032,16 +8963,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let cancelledCount = 0;
         for (const task of openDailyTasks) {
           if (task.dedupKey && !task.dedupKey.endsWith(`:${todayStr}`)) {
-            await db
+            const cancelled = await db
               .update(tasks)
               .set({
                 status: "CANCELLED",
                 cancelledAt: new Date(),
                 cancellationReason: "Auto-cancelled: New daily task generated",
+                version: sql`${tasks.version} + 1`,
                 updatedAt: new Date(),
               })
-              .where(eq(tasks.id, task.id));
-            cancelledCount++;
+              .where(
+                and(eq(tasks.id, task.id), eq(tasks.version, task.version)),
+              )
+              .returning({ id: tasks.id });
+            cancelledCount += cancelled.length;
           }
         }
 
@@ -6066,6 +9001,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 description: `Automatisch generierte tägliche Abholung für Stand ${stand.identifier}`,
                 containerID: null,
                 boxId: null,
+                siteId: stand.siteId,
                 standId: stand.id,
                 materialType: stand.materialId || null,
                 taskType: "DAILY_FULL",
@@ -6084,7 +9020,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               .where(eq(stands.id, stand.id));
 
             // Create task event
-            await db.insert(taskEvents).values({
+            await appendTaskEvent({
               taskId: task.id,
               actorUserId: authUser.id,
               action: "TASK_CREATED",
@@ -6133,55 +9069,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // GET /api/automotive/daily-tasks/status - Check status of daily task generation
-  app.get("/api/automotive/daily-tasks/status", async (req, res) => {
-    try {
-      const now = new Date();
-      const todayStart = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        now.getDate(),
-      );
+  app.get(
+    "/api/automotive/daily-tasks/status",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const now = new Date();
+        const todayStart = new Date(
+          now.getFullYear(),
+          now.getMonth(),
+          now.getDate(),
+        );
 
-      // Get all dailyFull stands
-      const dailyFullStands = await db
-        .select()
-        .from(stands)
-        .where(and(eq(stands.dailyFull, true), eq(stands.isActive, true)));
-
-      const status = dailyFullStands.map((stand) => ({
-        standId: stand.id,
-        identifier: stand.identifier,
-        lastGeneratedAt: stand.lastDailyTaskGeneratedAt?.toISOString() || null,
-        generatedToday: stand.lastDailyTaskGeneratedAt
-          ? stand.lastDailyTaskGeneratedAt >= todayStart
-          : false,
-      }));
+        // Get all dailyFull stands
+        const dailyFullStands = await db
+          .select()
+          .from(stands)
+          .where(
+            and(
+              eq(stands.dailyFull, true),
+              eq(stands.isActive, true),
+              siteFilter(req, stands.siteId),
+            ),
+          );
+
+        const status = dailyFullStands.map((stand) => ({
+          standId: stand.id,
+          identifier: stand.identifier,
+          lastGeneratedAt:
+            stand.lastDailyTaskGeneratedAt?.toISOString() || null,
+          generatedToday: stand.lastDailyTaskGeneratedAt
+            ? stand.lastDailyTaskGeneratedAt >= todayStart
+            : false,
+        }));
 
-      const totalStands = status.length;
-      const generatedToday = status.filter((s) => s.generatedToday).length;
-      const pendingToday = totalStands - generatedToday;
+        const totalStands = status.length;
+        const generatedToday = status.filter((s) => s.generatedToday).length;
+        const pendingToday = totalStands - generatedToday;
 
-      res.json({
-        totalDailyFullStands: totalStands,
-        generatedToday,
-        pendingToday,
-        stands: status,
-        checkedAt: now.toISOString(),
-      });
-    } catch (error) {
-      console.error("Failed to get daily tasks status:", error);
-      res.status(500).json({ error: "Failed to get daily tasks status" });
-    }
-  });
+        res.json({
+          totalDailyFullStands: totalStands,
+          generatedToday,
+          pendingToday,
+          stands: status,
+          checkedAt: now.toISOString(),
+        });
+      } catch (error) {
+        console.error("Failed to get daily tasks status:", error);
+        res.status(500).json({ error: "Failed to get daily tasks status" });
+      }
+    },
+  );
 
   // GET /api/daily-tasks/today - Returns today's OPEN daily tasks (Europe/Berlin timezone)
-  app.get("/api/daily-tasks/today", async (req, res) => {
+  app.get("/api/daily-tasks/today", requireAuth, async (req, res) => {
     try {
       const todayStr = formatDateBerlin(new Date());
       const todayTasks = await db
         .select()
         .from(tasks)
-        .where(and(eq(tasks.taskType, "DAILY_FULL"), eq(tasks.status, "OPEN")));
+        .where(
+          and(
+            eq(tasks.taskType, "DAILY_FULL"),
+            eq(tasks.status, "OPEN"),
+            siteFilter(req, tasks.siteId),
+          ),
+        );
       const filteredTasks = todayTasks.filter(
         (t) =>
           t.dedupKey?.startsWith(`DAILY:`) &&
@@ -6216,16 +9169,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let cancelledCount = 0;
         for (const task of openDailyTasks) {
           if (task.dedupKey && !task.dedupKey.endsWith(`:${todayStr}`)) {
-            await db
+            const cancelled = await db
               .update(tasks)
               .set({
                 status: "CANCELLED",
                 cancelledAt: new Date(),
                 cancellationReason: "Auto-cancelled: New daily task generated",
+                version: sql`${tasks.version} + 1`,
                 updatedAt: new Date(),
               })
-              .where(eq(tasks.id, task.id));
-            cancelledCount++;
+              .where(
+                and(eq(tasks.id, task.id), eq(tasks.version, task.version)),
+              )
+              .returning({ id: tasks.id });
+            cancelledCount += cancelled.length;
           }
         }
 
@@ -6249,6 +9206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 description: `Automatisch generierte tägliche Abholung für Stand ${stand.identifier}`,
                 containerID: null,
                 boxId: null,
+                siteId: stand.siteId,
                 standId: stand.id,
                 materialType: stand.materialId || null,
                 taskType: "DAILY_FULL",
@@ -6265,7 +9223,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               .set({ lastDailyTaskGeneratedAt: now, updatedAt: new Date() })
               .where(eq(stands.id, stand.id));
 
-            await db.insert(taskEvents).values({
+            await appendTaskEvent({
               taskId: task.id,
               actorUserId: authUser.id,
               action: "TASK_CREATED",
@@ -6366,165 +9324,223 @@ export async function registerRoutes(app: Express): Promise<Server> {
         material = mat;
       }
 
+      // The drop-off of the box's task must be permitted for the user's
+      // roles. Without such a transition the scan only moves the box
+      const scanInput = { scannedBoxId: box.id, scannedStandId: stand.id };
+      if (box.currentTaskId) {
+        const [task] = await db
+          .select()
+          .from(tasks)
+          .where(eq(tasks.id, box.currentTaskId));
+        if (task) {
+          const check = checkWorkflowTransition(
+            await getWorkflow("AUTOMOTIVE", task.siteId),
+            task.status,
+            "DROPPED_OFF",
+            authUser,
+            scanInput,
+            { enforceScans: true },
+          );
+          if (!check.ok && check.status !== 409) {
+            return res.status(check.status).json(check.body);
+          }
+        }
+      }
+
       // Build context meta for audit events
       const standMeta = await buildStandContextMeta(stand.id);
 
-      // AUTO-REPLACE: If another box is at this stand, remove it
-      const existingBoxes = await db
-        .select()
-        .from(boxes)
-        .where(and(eq(boxes.standId, stand.id), eq(boxes.status, "AT_STAND")));
+      // Store previous state for audit
+      const beforeData = { standId: box.standId, status: box.status };
 
-      for (const existingBox of existingBoxes) {
-        if (existingBox.id !== box.id) {
-          // Set existing box to IN_TRANSIT (removed from stand)
-          await db
-            .update(boxes)
-            .set({
-              standId: null,
-              status: "IN_TRANSIT",
-              updatedAt: new Date(),
-            })
-            .where(eq(boxes.id, existingBox.id));
+      // All writes below (boxes, task, scan event, audit events and activity
+      // logs) commit together or not at all
+      const { updatedBox, scanEvent } = await db.transaction(async (tx) => {
+        await lockAuditChains(tx);
 
-          // Audit event for auto-replace
-          await createAuditEvent({
-            taskId: existingBox.currentTaskId || existingBox.id,
+        // AUTO-REPLACE: If another box is at this stand, remove it
+        const existingBoxes = await tx
+          .select()
+          .from(boxes)
+          .where(
+            and(eq(boxes.standId, stand.id), eq(boxes.status, "AT_STAND")),
+          );
+
+        for (const existingBox of existingBoxes) {
+          if (existingBox.id !== box.id) {
+            // Set existing box to IN_TRANSIT (removed from stand)
+            await tx
+              .update(boxes)
+              .set({
+                standId: null,
+                status: "IN_TRANSIT",
+                updatedAt: new Date(),
+              })
+              .where(eq(boxes.id, existingBox.id));
+
+            // Audit event for auto-replace
+            await createAuditEvent(
+              {
+                taskId: existingBox.currentTaskId || undefined,
+                actorUserId: authUser.id,
+                action: "BOX_AUTO_REPLACED",
+                entityType: "box",
+                entityId: existingBox.id,
+                beforeData: { standId: stand.id, status: "AT_STAND" },
+                afterData: { standId: null, status: "IN_TRANSIT" },
+                metaJson: {
+                  ...standMeta,
+                  boxId: existingBox.id,
+                  replacedByBoxId: box.id,
+                  source: "SCAN_PLACE_BOX",
+                },
+              },
+              tx,
+            );
+
+            // Activity log for auto-replace
+            await tx.insert(activityLogs).values({
+              type: "BOX_AUTO_REPLACED",
+              action: "BOX_AUTO_REPLACED",
+              message: `Box ${existingBox.serial} wurde automatisch vom Stellplatz ${stand.identifier} entfernt (ersetzt durch ${box.serial})`,
+              userId: authUser.id,
+              containerId: existingBox.id,
+            });
+          }
+        }
+
+        // Place the new box at the stand
+        const [placedBox] = await tx
+          .update(boxes)
+          .set({
+            standId: stand.id,
+            status: "AT_STAND",
+            lastSeenAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(boxes.id, box.id))
+          .returning();
+
+        // Create scan event
+        const placeScan = await appendScanEvent(
+          {
+            containerId: box.id,
+            containerType: "box",
+            taskId: box.currentTaskId || null,
+            scannedByUserId: authUser.id,
+            scanContext: "TASK_PICKUP",
+            locationType: "OTHER",
+            locationDetails:
+              locationDetails || `Stellplatz ${stand.identifier}`,
+            geoLocation: geo || null,
+            scanResult: "SUCCESS",
+            resultMessage: `Box ${box.serial} am Stellplatz ${stand.identifier} abgestellt`,
+            extraData: { standId: stand.id, standQr, boxQr },
+          },
+          tx,
+        );
+
+        // Audit event for placement
+        await createAuditEvent(
+          {
+            taskId: box.currentTaskId || undefined,
             actorUserId: authUser.id,
-            action: "BOX_AUTO_REPLACED",
+            action: "BOX_PLACED",
             entityType: "box",
-            entityId: existingBox.id,
-            beforeData: { standId: stand.id, status: "AT_STAND" },
-            afterData: { standId: null, status: "IN_TRANSIT" },
+            entityId: box.id,
+            beforeData,
+            afterData: { standId: stand.id, status: "AT_STAND" },
             metaJson: {
               ...standMeta,
-              boxId: existingBox.id,
-              replacedByBoxId: box.id,
+              boxId: box.id,
+              previousStandId: beforeData.standId || undefined,
               source: "SCAN_PLACE_BOX",
             },
-          });
-
-          // Activity log for auto-replace
-          await db.insert(activityLogs).values({
-            type: "BOX_AUTO_REPLACED",
-            action: "BOX_AUTO_REPLACED",
-            message: `Box ${existingBox.serial} wurde automatisch vom Stellplatz ${stand.identifier} entfernt (ersetzt durch ${box.serial})`,
-            userId: authUser.id,
-            containerId: existingBox.id,
-          });
-        }
-      }
-
-      // Store previous state for audit
-      const beforeData = { standId: box.standId, status: box.status };
-
-      // Place the new box at the stand
-      const [updatedBox] = await db
-        .update(boxes)
-        .set({
-          standId: stand.id,
-          status: "AT_STAND",
-          lastSeenAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(boxes.id, box.id))
-        .returning();
+          },
+          tx,
+        );
 
-      // Create scan event
-      const [scanEvent] = await db
-        .insert(scanEvents)
-        .values({
+        // Activity log for placement
+        await tx.insert(activityLogs).values({
+          type: "CONTAINER_STATUS_CHANGED",
+          action: "CONTAINER_STATUS_CHANGED",
+          message: `Box ${box.serial} wurde am Stellplatz ${stand.identifier} abgestellt`,
+          userId: authUser.id,
           containerId: box.id,
-          containerType: "box",
           taskId: box.currentTaskId || null,
-          scannedByUserId: authUser.id,
-          scanContext: "TASK_PICKUP",
-          locationType: "OTHER",
-          locationDetails: locationDetails || `Stellplatz ${stand.identifier}`,
-          geoLocation: geo || null,
-          scanResult: "SUCCESS",
-          resultMessage: `Box ${box.serial} am Stellplatz ${stand.identifier} abgestellt`,
-          extraData: { standId: stand.id, standQr, boxQr },
-        })
-        .returning();
-
-      // Audit event for placement
-      await createAuditEvent({
-        taskId: box.currentTaskId || box.id,
-        actorUserId: authUser.id,
-        action: "BOX_PLACED",
-        entityType: "box",
-        entityId: box.id,
-        beforeData,
-        afterData: { standId: stand.id, status: "AT_STAND" },
-        metaJson: {
-          ...standMeta,
-          boxId: box.id,
-          previousStandId: beforeData.standId || undefined,
-          source: "SCAN_PLACE_BOX",
-        },
-      });
-
-      // Activity log for placement
-      await db.insert(activityLogs).values({
-        type: "CONTAINER_STATUS_CHANGED",
-        action: "CONTAINER_STATUS_CHANGED",
-        message: `Box ${box.serial} wurde am Stellplatz ${stand.identifier} abgestellt`,
-        userId: authUser.id,
-        containerId: box.id,
-        taskId: box.currentTaskId || null,
-        scanEventId: scanEvent.id,
-        location: geo || null,
-      });
+          scanEventId: placeScan.id,
+          location: geo || null,
+        });
 
-      // If task exists for this box, update to DROPPED_OFF
-      if (box.currentTaskId) {
-        const [task] = await db
-          .select()
-          .from(tasks)
-          .where(eq(tasks.id, box.currentTaskId));
-        if (
-          task &&
-          (task.status === "PICKED_UP" || task.status === "IN_TRANSIT")
-        ) {
-          try {
-            assertAutomotiveTransition(task.status, "DROPPED_OFF");
-            const timestampField =
-              getAutomotiveTimestampFieldForStatus("DROPPED_OFF");
+        // If task exists for this box, update to DROPPED_OFF
+        if (box.currentTaskId) {
+          const [task] = await tx
+            .select()
+            .from(tasks)
+            .where(eq(tasks.id, box.currentTaskId))
+            .for("update");
+          const workflow = task
+            ? await getWorkflow("AUTOMOTIVE", task.siteId)
+            : null;
+          // Checked again on the locked row, the status may have changed
+          const check =
+            task && workflow
+              ? checkWorkflowTransition(
+                  workflow,
+                  task.status,
+                  "DROPPED_OFF",
+                  authUser,
+                  scanInput,
+                  { enforceScans: true },
+                )
+              : null;
+          const transition = check?.ok ? check.transition : undefined;
 
-            await db
+          if (task && workflow && transition) {
+            const timestampField = getWorkflowTimestampField(
+              workflow,
+              "DROPPED_OFF",
+            );
+            await tx
               .update(tasks)
               .set({
                 status: "DROPPED_OFF",
-                [timestampField]: new Date(),
+                ...(timestampField ? { [timestampField]: new Date() } : {}),
+                version: sql`${tasks.version} + 1`,
                 updatedAt: new Date(),
                 // Release claim when dropped off
-                claimedByUserId: null,
-                claimedAt: null,
+                ...(transition.releasesClaim
+                  ? { claimedByUserId: null, claimedAt: null }
+                  : {}),
               })
               .where(eq(tasks.id, task.id));
 
-            await createAuditEvent({
-              taskId: task.id,
-              actorUserId: authUser.id,
-              action: "STATUS_CHANGED",
-              entityType: "task",
-              entityId: task.id,
-              beforeData: { status: task.status },
-              afterData: { status: "DROPPED_OFF" },
-              metaJson: {
-                ...standMeta,
-                boxId: box.id,
-                source: "SCAN_PLACE_BOX",
+            await createAuditEvent(
+              {
+                taskId: task.id,
+                actorUserId: authUser.id,
+                action: "STATUS_CHANGED",
+                entityType: "task",
+                entityId: task.id,
+                beforeData: { status: task.status },
+                afterData: { status: "DROPPED_OFF" },
+                metaJson: {
+                  ...standMeta,
+                  boxId: box.id,
+                  source: "SCAN_PLACE_BOX",
+                },
               },
-            });
-          } catch (e) {
+              tx,
+            );
+          } else if (task) {
             console.log(
               `[PlaceBox] Task ${task.id} transition to DROPPED_OFF not allowed from ${task.status}`,
             );
           }
         }
-      }
+
+        return { updatedBox: placedBox, scanEvent: placeScan };
+      });
 
       res.json({
         success: true,
@@ -6599,176 +9615,790 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const beforeData = { standId: box.standId, status: box.status };
 
-      // Update box: remove from stand, set to IN_TRANSIT
-      const [updatedBox] = await db
-        .update(boxes)
-        .set({
-          standId: null,
-          status: "IN_TRANSIT",
-          lastSeenAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(boxes.id, box.id))
-        .returning();
+      // A scan moves the box's task OPEN -> PICKED_UP -> IN_TRANSIT
+      const getPickupStatus = (status: string) =>
+        status === "OPEN"
+          ? "PICKED_UP"
+          : status === "PICKED_UP"
+            ? "IN_TRANSIT"
+            : null;
 
-      // Create scan event
-      const [scanEvent] = await db
-        .insert(scanEvents)
-        .values({
-          containerId: box.id,
-          containerType: "box",
-          taskId: box.currentTaskId || null,
-          scannedByUserId: authUser.id,
-          scanContext: "TASK_PICKUP",
-          locationType: previousStand ? "OTHER" : "WAREHOUSE",
-          locationDetails:
-            locationDetails ||
-            (previousStand
-              ? `Abgeholt von ${previousStand.identifier}`
-              : "Abgeholt"),
-          geoLocation: geo || null,
-          scanResult: "SUCCESS",
-          resultMessage: `Box ${box.serial} abgeholt${previousStand ? ` von Stellplatz ${previousStand.identifier}` : ""}`,
-          extraData: { previousStandId, boxQr },
-        })
-        .returning();
+      // That status change must be permitted for the user's roles. Without
+      // such a transition the scan only moves the box
+      const scanInput = {
+        scannedBoxId: box.id,
+        scannedStandId: previousStandId,
+      };
+      if (box.currentTaskId) {
+        const [task] = await db
+          .select()
+          .from(tasks)
+          .where(eq(tasks.id, box.currentTaskId));
+        const newStatus = task ? getPickupStatus(task.status) : null;
+        if (task && newStatus) {
+          const check = checkWorkflowTransition(
+            await getWorkflow("AUTOMOTIVE", task.siteId),
+            task.status,
+            newStatus,
+            authUser,
+            scanInput,
+            { enforceScans: true },
+          );
+          if (!check.ok && check.status !== 409) {
+            return res.status(check.status).json(check.body);
+          }
+        }
+      }
 
       // Build context meta
       const contextMeta = previousStandId
         ? await buildStandContextMeta(previousStandId)
         : { boxId: box.id };
 
-      // Audit event for pickup
-      await createAuditEvent({
-        taskId: box.currentTaskId || box.id,
-        actorUserId: authUser.id,
-        action: "BOX_PICKED_UP",
-        entityType: "box",
-        entityId: box.id,
-        beforeData,
-        afterData: { standId: null, status: "IN_TRANSIT" },
-        metaJson: {
-          ...contextMeta,
-          boxId: box.id,
-          previousStandId: previousStandId || undefined,
-          source: "SCAN_PICKUP_BOX",
-        },
+      // All writes below (box, task, scan event, audit events and activity
+      // log) commit together or not at all
+      const { updatedBox, scanEvent } = await db.transaction(async (tx) => {
+        await lockAuditChains(tx);
+
+        // Update box: remove from stand, set to IN_TRANSIT
+        const [pickedUpBox] = await tx
+          .update(boxes)
+          .set({
+            standId: null,
+            status: "IN_TRANSIT",
+            lastSeenAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(boxes.id, box.id))
+          .returning();
+
+        // Create scan event
+        const pickupScan = await appendScanEvent(
+          {
+            containerId: box.id,
+            containerType: "box",
+            taskId: box.currentTaskId || null,
+            scannedByUserId: authUser.id,
+            scanContext: "TASK_PICKUP",
+            locationType: previousStand ? "OTHER" : "WAREHOUSE",
+            locationDetails:
+              locationDetails ||
+              (previousStand
+                ? `Abgeholt von ${previousStand.identifier}`
+                : "Abgeholt"),
+            geoLocation: geo || null,
+            scanResult: "SUCCESS",
+            resultMessage: `Box ${box.serial} abgeholt${previousStand ? ` von Stellplatz ${previousStand.identifier}` : ""}`,
+            extraData: { previousStandId, boxQr },
+          },
+          tx,
+        );
+
+        // Audit event for pickup
+        await createAuditEvent(
+          {
+            taskId: box.currentTaskId || undefined,
+            actorUserId: authUser.id,
+            action: "BOX_PICKED_UP",
+            entityType: "box",
+            entityId: box.id,
+            beforeData,
+            afterData: { standId: null, status: "IN_TRANSIT" },
+            metaJson: {
+              ...contextMeta,
+              boxId: box.id,
+              previousStandId: previousStandId || undefined,
+              source: "SCAN_PICKUP_BOX",
+            },
+          },
+          tx,
+        );
+
+        // Activity log for pickup
+        await tx.insert(activityLogs).values({
+          type: "CONTAINER_STATUS_CHANGED",
+          action: "CONTAINER_STATUS_CHANGED",
+          message: `Box ${box.serial} wurde abgeholt${previousStand ? ` vom Stellplatz ${previousStand.identifier}` : ""}`,
+          userId: authUser.id,
+          containerId: box.id,
+          taskId: box.currentTaskId || null,
+          scanEventId: pickupScan.id,
+          location: geo || null,
+          metadata: { previousStandId },
+        });
+
+        // If task exists for this box, update to PICKED_UP or IN_TRANSIT
+        if (box.currentTaskId) {
+          const [task] = await tx
+            .select()
+            .from(tasks)
+            .where(eq(tasks.id, box.currentTaskId))
+            .for("update");
+          const newStatus = task ? getPickupStatus(task.status) : null;
+
+          if (task && newStatus) {
+            const workflow = await getWorkflow("AUTOMOTIVE", task.siteId);
+            // Checked again on the locked row, the status may have changed
+            const check = checkWorkflowTransition(
+              workflow,
+              task.status,
+              newStatus,
+              authUser,
+              scanInput,
+              { enforceScans: true },
+            );
+            if (check.ok) {
+              const timestampField = getWorkflowTimestampField(
+                workflow,
+                newStatus,
+              );
+              await tx
+                .update(tasks)
+                .set({
+                  status: newStatus,
+                  ...(timestampField ? { [timestampField]: new Date() } : {}),
+                  claimedByUserId: authUser.id,
+                  claimedAt: new Date(),
+                  version: sql`${tasks.version} + 1`,
+                  updatedAt: new Date(),
+                })
+                .where(eq(tasks.id, task.id));
+
+              await createAuditEvent(
+                {
+                  taskId: task.id,
+                  actorUserId: authUser.id,
+                  action: "STATUS_CHANGED",
+                  entityType: "task",
+                  entityId: task.id,
+                  beforeData: { status: task.status },
+                  afterData: { status: newStatus },
+                  metaJson: {
+                    ...contextMeta,
+                    boxId: box.id,
+                    source: "SCAN_PICKUP_BOX",
+                  },
+                },
+                tx,
+              );
+            } else {
+              console.log(
+                `[PickupBox] Task ${task.id} transition to ${newStatus} not allowed from ${task.status}`,
+              );
+            }
+          }
+        }
+
+        return { updatedBox: pickedUpBox, scanEvent: pickupScan };
+      });
+
+      res.json({
+        success: true,
+        box: updatedBox,
+        previousStand,
+        previousStation,
+        previousHall,
+        previousMaterial,
+        scanEvent,
+        message: `Box ${box.serial} erfolgreich abgeholt${previousStand ? ` von Stellplatz ${previousStand.identifier}` : ""}`,
       });
+    } catch (error) {
+      console.error("Failed to pickup box:", error);
+      res.status(500).json({ error: "Abholung fehlgeschlagen" });
+    }
+  });
+
+  // ----------------------------------------------------------------------------
+  // TASK EVENTS ENDPOINTS
+  // ----------------------------------------------------------------------------
+
+  // GET /api/task-events - Get all events for a task
+  app.get("/api/task-events", requireAuth, async (req, res) => {
+    try {
+      const { taskId } = req.query;
+
+      if (!taskId || typeof taskId !== "string") {
+        return res
+          .status(400)
+          .json({ error: "taskId query parameter is required" });
+      }
+      const task = await storage.getTask(taskId);
+      if (!task || !isInActiveSite(req, task.siteId)) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+
+      const events = await db
+        .select()
+        .from(taskEvents)
+        .where(eq(taskEvents.taskId, taskId))
+        .orderBy(desc(taskEvents.timestamp));
+
+      res.json(events);
+    } catch (error) {
+      console.error("Failed to fetch task events:", error);
+      res.status(500).json({ error: "Failed to fetch task events" });
+    }
+  });
+
+  // GET /api/entity-events - Master-data history of one entity (admin only)
+  app.get("/api/entity-events", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { entityType, entityId } = req.query;
+
+      if (
+        typeof entityType !== "string" ||
+        !(entityType in AUDIT_SNAPSHOT_LOADERS) ||
+        typeof entityId !== "string" ||
+        !entityId
+      ) {
+        return res
+          .status(400)
+          .json({ error: "entityType and entityId are required" });
+      }
+
+      const events = await db
+        .select({
+          id: taskEvents.id,
+          timestamp: taskEvents.timestamp,
+          action: taskEvents.action,
+          actorUserId: taskEvents.actorUserId,
+          actorName: users.name,
+          beforeData: taskEvents.beforeData,
+          afterData: taskEvents.afterData,
+          metaJson: taskEvents.metaJson,
+        })
+        .from(taskEvents)
+        .leftJoin(users, eq(taskEvents.actorUserId, users.id))
+        .where(
+          and(
+            eq(taskEvents.entityType, entityType),
+            eq(taskEvents.entityId, entityId),
+          ),
+        )
+        .orderBy(desc(taskEvents.timestamp))
+        .limit(100);
+
+      res.json(events);
+    } catch (error) {
+      console.error("Failed to fetch entity events:", error);
+      res.status(500).json({ error: "Failed to fetch entity events" });
+    }
+  });
+
+  /**
+   * GET /api/audit/timeline - Merged history of activity logs, task events
+   * and scan events, newest first (admin only)
+   * Query params: userId, taskId, boxId, standId, stationId, hallId,
+   * materialId, from, to, sources (comma-separated: activity,task_event,
+   * scan_event), cursor (nextCursor of the previous page), limit (max 100)
+   */
+  app.get(
+    "/api/audit/timeline",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const query = req.query as Record<string, string | undefined>;
+        const filters: TimelineFilters = {
+          siteId: getActiveSiteId(req),
+        };
+
+        for (const key of [
+          "userId",
+          "taskId",
+          "boxId",
+          "standId",
+          "stationId",
+          "hallId",
+          "materialId",
+        ] as const) {
+          if (typeof query[key] === "string" && query[key]) {
+            filters[key] = query[key];
+          }
+        }
+
+        for (const key of ["from", "to"] as const) {
+          if (query[key]) {
+            const date = new Date(query[key]!);
+            if (isNaN(date.getTime())) {
+              return res.status(400).json({ error: `Invalid ${key} date` });
+            }
+            filters[key] = date;
+          }
+        }
+
+        if (query.sources) {
+          const sources = query.sources
+            .split(",")
+            .map((source) => source.trim());
+          const unknown = sources.filter(
+            (source) => !TIMELINE_SOURCES.includes(source as TimelineSource),
+          );
+          if (unknown.length > 0) {
+            return res
+              .status(400)
+              .json({ error: `Unknown sources: ${unknown.join(", ")}` });
+          }
+          filters.sources = sources as TimelineSource[];
+        }
+
+        let cursor = null;
+        if (query.cursor) {
+          cursor = decodeTimelineCursor(query.cursor);
+          if (!cursor) {
+            return res.status(400).json({ error: "Invalid cursor" });
+          }
+        }
+
+        const limit = Math.min(
+          100,
+          Math.max(1, parseInt(query.limit as string) || 50),
+        );
+
+        res.json(await getAuditTimeline(filters, cursor, limit));
+      } catch (error) {
+        console.error("Failed to fetch audit timeline:", error);
+        res.status(500).json({ error: "Failed to fetch audit timeline" });
+      }
+    },
+  );
+
+  // ----------------------------------------------------------------------------
+  // AUDIT CHAIN (tamper-evident task_events / scan_events)
+  // ----------------------------------------------------------------------------
+
+  const parseAuditChain = (value: unknown): AuditChainName | null =>
+    AUDIT_CHAINS.find((chain) => chain === value) ?? null;
+
+  // GET /api/audit/verify - Walk the hash chains and report every break (admin only)
+  app.get("/api/audit/verify", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const authUser = (req as any).authUser;
+      let chains = AUDIT_CHAINS;
+      if (req.query.chain !== undefined) {
+        const chain = parseAuditChain(req.query.chain);
+        if (!chain) {
+          return res.status(400).json({
+            error: `chain must be one of ${AUDIT_CHAINS.join(", ")}`,
+          });
+        }
+        chains = [chain];
+      }
+
+      const results = [];
+      for (const chain of chains) {
+        results.push(await verifyChain(chain));
+      }
+      const valid = results.every((result) => result.valid);
+      const breakCount = results.reduce(
+        (sum, result) => sum + result.breaks.length,
+        0,
+      );
 
-      // Activity log for pickup
-      await db.insert(activityLogs).values({
-        type: "CONTAINER_STATUS_CHANGED",
-        action: "CONTAINER_STATUS_CHANGED",
-        message: `Box ${box.serial} wurde abgeholt${previousStand ? ` vom Stellplatz ${previousStand.identifier}` : ""}`,
+      await storage.createActivityLog({
+        type: "SYSTEM_EVENT",
+        action: "SYSTEM_EVENT",
+        message: valid
+          ? "Audit-Kette geprüft: unverändert"
+          : `Audit-Kette geprüft: ${breakCount} Bruchstelle(n) gefunden`,
         userId: authUser.id,
-        containerId: box.id,
-        taskId: box.currentTaskId || null,
-        scanEventId: scanEvent.id,
-        location: geo || null,
-        metadata: { previousStandId },
+        taskId: null,
+        containerId: null,
+        scanEventId: null,
+        location: null,
+        timestamp: new Date(),
+        details: null,
+        metadata: {
+          event: "AUDIT_CHAIN_VERIFIED",
+          valid,
+          heads: results.map((result) => ({
+            chain: result.chain,
+            headSeq: result.headSeq,
+            headHash: result.headHash,
+          })),
+        },
+      });
+
+      res.json({ valid, verifiedAt: new Date(), chains: results });
+    } catch (error) {
+      console.error("Failed to verify audit chain:", error);
+      res.status(500).json({ error: "Failed to verify audit chain" });
+    }
+  });
+
+  /**
+   * GET /api/audit/export - Chained events with their proofs (admin only)
+   * Query params: chain (task_events|scan_events), afterSeq, limit (max 5000)
+   * Every event carries chainSeq, prevHash, hash and redactions; together
+   * with the algorithm block an auditor can recompute the chain offline.
+   * Page through with afterSeq = nextAfterSeq until it is null
+   */
+  app.get("/api/audit/export", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const chain = parseAuditChain(req.query.chain);
+      if (!chain) {
+        return res.status(400).json({
+          error: `chain must be one of ${AUDIT_CHAINS.join(", ")}`,
+        });
+      }
+      const afterSeq = Math.max(0, parseInt(req.query.afterSeq as string) || 0);
+      const limit = Math.min(
+        5000,
+        Math.max(1, parseInt(req.query.limit as string) || 1000),
+      );
+
+      const events = await getChainSegment(chain, afterSeq, limit);
+
+      res.json({
+        chain,
+        algorithm: {
+          hash: "sha256",
+          formula:
+            'hash = sha256(prevHash + "\\n" + canonicalJson({ [field]: redactions[field] ?? sha256(canonicalJson(value)) }))',
+          canonicalJson:
+            "JSON without whitespace, object keys sorted, dates as ISO-8601 strings",
+          redactions: `every redactions[field] must equal afterData.redactions[field] of a task_events row with action ${REDACTION_ACTION} and entityId = the redacted row's id`,
+          genesisHash: GENESIS_HASH,
+          hashedFields: CHAIN_HASHED_FIELDS[chain],
+        },
+        exportedAt: new Date(),
+        events,
+        nextAfterSeq:
+          events.length === limit ? events[events.length - 1].chainSeq : null,
       });
+    } catch (error) {
+      console.error("Failed to export audit chain:", error);
+      res.status(500).json({ error: "Failed to export audit chain" });
+    }
+  });
+
+  // ----------------------------------------------------------------------------
+  // DATA RETENTION
+  // ----------------------------------------------------------------------------
+
+  // GET /api/admin/retention - Retention policies with progress of the last run (admin only)
+  app.get(
+    "/api/admin/retention",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        res.json({
+          running: isRetentionRunning(),
+          policies: await getRetentionStatus(),
+        });
+      } catch (error) {
+        console.error("Failed to fetch retention status:", error);
+        res.status(500).json({ error: "Failed to fetch retention status" });
+      }
+    },
+  );
 
-      // If task exists for this box, update to PICKED_UP or IN_TRANSIT
-      if (box.currentTaskId) {
-        const [task] = await db
-          .select()
-          .from(tasks)
-          .where(eq(tasks.id, box.currentTaskId));
-        if (task) {
-          let newStatus = null;
+  /**
+   * PATCH /api/admin/retention/:tableName - Update a retention policy (admin only)
+   * Body: hotMonths (1-240), mode (ARCHIVE_TABLE|NDJSON), isEnabled
+   */
+  app.patch(
+    "/api/admin/retention/:tableName",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const tableName = RETENTION_TABLES.find(
+          (table) => table === req.params.tableName,
+        );
+        if (!tableName) {
+          return res.status(404).json({ error: "Unknown retention table" });
+        }
 
-          if (task.status === "OPEN") {
-            newStatus = "PICKED_UP";
-          } else if (task.status === "PICKED_UP") {
-            newStatus = "IN_TRANSIT";
+        const { hotMonths, mode, isEnabled } = req.body;
+        const updates: Partial<typeof retentionPolicies.$inferInsert> = {};
+        if (hotMonths !== undefined) {
+          if (
+            !Number.isInteger(hotMonths) ||
+            hotMonths < 1 ||
+            hotMonths > 240
+          ) {
+            return res.status(400).json({
+              error: "hotMonths must be an integer between 1 and 240",
+            });
           }
-
-          if (newStatus) {
-            try {
-              assertAutomotiveTransition(task.status, newStatus);
-              const timestampField =
-                getAutomotiveTimestampFieldForStatus(newStatus);
-
-              await db
-                .update(tasks)
-                .set({
-                  status: newStatus,
-                  [timestampField]: new Date(),
-                  claimedByUserId: authUser.id,
-                  claimedAt: new Date(),
-                  updatedAt: new Date(),
-                })
-                .where(eq(tasks.id, task.id));
-
-              await createAuditEvent({
-                taskId: task.id,
-                actorUserId: authUser.id,
-                action: "STATUS_CHANGED",
-                entityType: "task",
-                entityId: task.id,
-                beforeData: { status: task.status },
-                afterData: { status: newStatus },
-                metaJson: {
-                  ...contextMeta,
-                  boxId: box.id,
-                  source: "SCAN_PICKUP_BOX",
-                },
-              });
-            } catch (e) {
-              console.log(
-                `[PickupBox] Task ${task.id} transition to ${newStatus} not allowed from ${task.status}`,
-              );
-            }
+          updates.hotMonths = hotMonths;
+        }
+        if (mode !== undefined) {
+          if (!RETENTION_MODES.includes(mode)) {
+            return res.status(400).json({
+              error: `mode must be one of ${RETENTION_MODES.join(", ")}`,
+            });
+          }
+          updates.mode = mode;
+        }
+        if (isEnabled !== undefined) {
+          if (typeof isEnabled !== "boolean") {
+            return res
+              .status(400)
+              .json({ error: "isEnabled must be a boolean" });
           }
+          updates.isEnabled = isEnabled;
         }
+
+        const [policy] = await db
+          .update(retentionPolicies)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(retentionPolicies.tableName, tableName))
+          .returning();
+        if (!policy) {
+          return res.status(404).json({ error: "Retention policy not found" });
+        }
+        res.json(policy);
+      } catch (error) {
+        console.error("Failed to update retention policy:", error);
+        res.status(500).json({ error: "Failed to update retention policy" });
+      }
+    },
+  );
+
+  // POST /api/admin/retention/run - Start a retention run now (admin only)
+  app.post(
+    "/api/admin/retention/run",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      if (isRetentionRunning()) {
+        return res
+          .status(409)
+          .json({ error: "Retention run is already in progress" });
       }
+      const authUser = (req as any).authUser;
+      runRetentionJob(authUser.id);
+      res.status(202).json({ started: true });
+    },
+  );
+
+  // ----------------------------------------------------------------------------
+  // CLAIM TTL
+  // ----------------------------------------------------------------------------
 
+  // GET /api/claim-ttl-rules - Claim TTL rules and the default, for the
+  // remaining claim time shown in task lists
+  app.get("/api/claim-ttl-rules", requireAuth, async (req, res) => {
+    try {
       res.json({
-        success: true,
-        box: updatedBox,
-        previousStand,
-        previousStation,
-        previousHall,
-        previousMaterial,
-        scanEvent,
-        message: `Box ${box.serial} erfolgreich abgeholt${previousStand ? ` von Stellplatz ${previousStand.identifier}` : ""}`,
+        defaultTtlMinutes: DEFAULT_CLAIM_TTL_MINUTES,
+        rules: await listClaimTtlRules(),
       });
     } catch (error) {
-      console.error("Failed to pickup box:", error);
-      res.status(500).json({ error: "Abholung fehlgeschlagen" });
+      console.error("Failed to fetch claim TTL rules:", error);
+      res.status(500).json({ error: "Failed to fetch claim TTL rules" });
     }
   });
 
-  // ----------------------------------------------------------------------------
-  // TASK EVENTS ENDPOINTS
-  // ----------------------------------------------------------------------------
-
-  // GET /api/task-events - Get all events for a task
-  app.get("/api/task-events", async (req, res) => {
-    try {
-      const { taskId } = req.query;
+  /**
+   * PUT /api/admin/claim-ttl-rules - Replace all claim TTL rules (admin only)
+   * Body: rules [{ taskType|null, priority|null, ttlMinutes }]
+   */
+  app.put(
+    "/api/admin/claim-ttl-rules",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const authUser = (req as any).authUser;
+        const { rules } = req.body;
+        const errors = validateClaimTtlRules(rules);
+        if (errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: "Ungültige Regeln", details: errors });
+        }
 
-      if (!taskId || typeof taskId !== "string") {
-        return res
-          .status(400)
-          .json({ error: "taskId query parameter is required" });
+        const before = await listClaimTtlRules();
+        const saved = await replaceClaimTtlRules(rules, authUser.id);
+        await createAuditEvent({
+          actorUserId: authUser.id,
+          action: "ENTITY_UPDATED",
+          entityType: "claim_ttl_rules",
+          beforeData: before.map(({ taskType, priority, ttlMinutes }) => ({
+            taskType,
+            priority,
+            ttlMinutes,
+          })),
+          afterData: saved.map(({ taskType, priority, ttlMinutes }) => ({
+            taskType,
+            priority,
+            ttlMinutes,
+          })),
+          metaJson: { source: "CLAIM_TTL" },
+        });
+        res.json({
+          defaultTtlMinutes: DEFAULT_CLAIM_TTL_MINUTES,
+          rules: saved,
+        });
+      } catch (error) {
+        console.error("Failed to save claim TTL rules:", error);
+        res.status(500).json({ error: "Failed to save claim TTL rules" });
       }
+    },
+  );
 
-      const events = await db
-        .select()
-        .from(taskEvents)
-        .where(eq(taskEvents.taskId, taskId))
-        .orderBy(desc(taskEvents.timestamp));
+  // ============================================================================
+  // TASK WORKFLOWS
+  // ============================================================================
 
-      res.json(events);
+  function parseWorkflowKey(value: string): WorkflowKey | undefined {
+    return WORKFLOW_KEYS.find((key) => key === value);
+  }
+
+  // GET /api/workflows/:key - Effective workflow for the active site
+  app.get("/api/workflows/:key", requireAuth, async (req, res) => {
+    try {
+      const key = parseWorkflowKey(req.params.key);
+      if (!key) {
+        return res.status(404).json({ error: "Unknown workflow" });
+      }
+      res.json(await getWorkflow(key, getActiveSiteId(req)));
     } catch (error) {
-      console.error("Failed to fetch task events:", error);
-      res.status(500).json({ error: "Failed to fetch task events" });
+      console.error("Failed to fetch workflow:", error);
+      res.status(500).json({ error: "Failed to fetch workflow" });
     }
   });
 
+  // GET /api/admin/workflows - Built-in workflows and stored overrides
+  app.get(
+    "/api/admin/workflows",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        res.json({
+          defaults: DEFAULT_WORKFLOWS,
+          overrides: await listWorkflowOverrides(),
+        });
+      } catch (error) {
+        console.error("Failed to fetch workflows:", error);
+        res.status(500).json({ error: "Failed to fetch workflows" });
+      }
+    },
+  );
+
+  // PUT /api/admin/workflows/:key - Override a workflow for all sites or one
+  // Body: { definition: WorkflowDefinition, siteId?: string | null }
+  app.put(
+    "/api/admin/workflows/:key",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const key = parseWorkflowKey(req.params.key);
+        if (!key) {
+          return res.status(404).json({ error: "Unknown workflow" });
+        }
+        const authUser = (req as any).authUser;
+        const definition = req.body?.definition as WorkflowDefinition;
+        const siteId: string | null = req.body?.siteId || null;
+
+        if (!definition || definition.key !== key) {
+          return res
+            .status(400)
+            .json({ error: `definition.key must be ${key}` });
+        }
+        const errors = validateWorkflowDefinition(definition);
+        if (errors.length > 0) {
+          return res
+            .status(400)
+            .json({ error: "Invalid workflow definition", details: errors });
+        }
+        if (
+          siteId &&
+          !(await storage.getSites()).some((s) => s.id === siteId)
+        ) {
+          return res.status(400).json({ error: `Unknown site: ${siteId}` });
+        }
+
+        // Tasks must not be left in a state the new definition drops
+        const current = await getWorkflow(key, siteId);
+        const removedStates = current.states
+          .map((state) => state.key)
+          .filter((state) => !definition.states.some((s) => s.key === state));
+        const stranded = await countTasksInStates(removedStates, siteId);
+        if (Object.keys(stranded).length > 0) {
+          return res.status(409).json({
+            error: "Es gibt noch Aufträge in Status, die entfernt werden",
+            tasksByStatus: stranded,
+          });
+        }
+
+        const row = await saveWorkflowOverride(definition, siteId, authUser.id);
+        await createAuditEvent({
+          actorUserId: authUser.id,
+          action: "ENTITY_UPDATED",
+          entityType: "workflow",
+          entityId: row.id,
+          beforeData: current,
+          afterData: definition,
+          metaJson: { source: "WORKFLOW", key, siteId: siteId || undefined },
+        });
+        res.json(row);
+      } catch (error) {
+        console.error("Failed to save workflow:", error);
+        res.status(500).json({ error: "Failed to save workflow" });
+      }
+    },
+  );
+
+  // DELETE /api/admin/workflows/:key?siteId= - Back to the inherited workflow
+  app.delete(
+    "/api/admin/workflows/:key",
+    requireAuth,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const key = parseWorkflowKey(req.params.key);
+        if (!key) {
+          return res.status(404).json({ error: "Unknown workflow" });
+        }
+        const authUser = (req as any).authUser;
+        const siteId =
+          typeof req.query.siteId === "string" && req.query.siteId
+            ? req.query.siteId
+            : null;
+
+        const current = await getWorkflow(key, siteId);
+        const inherited = await getInheritedWorkflow(key, siteId);
+        const removedStates = current.states
+          .map((state) => state.key)
+          .filter((state) => !inherited.states.some((s) => s.key === state));
+        const stranded = await countTasksInStates(removedStates, siteId);
+        if (Object.keys(stranded).length > 0) {
+          return res.status(409).json({
+            error: "Es gibt noch Aufträge in Status, die entfernt werden",
+            tasksByStatus: stranded,
+          });
+        }
+
+        const removed = await deleteWorkflowOverride(key, siteId);
+        if (!removed) {
+          return res.status(404).json({ error: "Workflow override not found" });
+        }
+        await createAuditEvent({
+          actorUserId: authUser.id,
+          action: "ENTITY_DELETED",
+          entityType: "workflow",
+          entityId: key,
+          beforeData: current,
+          afterData: inherited,
+          metaJson: { source: "WORKFLOW", key, siteId: siteId || undefined },
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Failed to delete workflow:", error);
+        res.status(500).json({ error: "Failed to delete workflow" });
+      }
+    },
+  );
+
   // GET /api/activity - Activity feed with filters and pagination
-  app.get("/api/activity", async (req, res) => {
+  app.get("/api/activity", requireAuth, async (req, res) => {
     try {
       const {
         from,
@@ -6808,13 +10438,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Actor filters
-      if (userId && typeof userId === "string") {
+      // Actor filters; drivers only see their own events
+      const authUser = (req as any).authUser;
+      if (authUser.role?.toUpperCase() !== "ADMIN") {
+        conditions.push(eq(taskEvents.actorUserId, authUser.id));
+      } else if (userId && typeof userId === "string") {
         conditions.push(eq(taskEvents.actorUserId, userId));
       }
       if (departmentId && typeof departmentId === "string") {
         conditions.push(eq(taskEvents.actorDepartmentId, departmentId));
       }
+      const siteCondition = eventSiteFilter(req, taskEvents.taskId);
+      if (siteCondition) conditions.push(siteCondition);
 
       // Action filter (comma-separated for multiple)
       if (action && typeof action === "string") {
@@ -6905,383 +10540,442 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Material amounts by period
    * Query params: from, to, groupBy (material|day|week|month)
    */
-  app.get("/api/analytics/materials", requireAuth, async (req, res) => {
-    try {
-      const { from, to, groupBy = "material" } = req.query;
+  app.get(
+    "/api/analytics/materials",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to, groupBy = "material" } = req.query;
 
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
-      }
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-      if (groupBy === "material") {
-        const result = await db
-          .select({
-            materialId: tasks.materialType,
-            materialName: materials.name,
-            totalWeightKg: sum(tasks.weightKg),
-            taskCount: count(),
-            avgLeadTimeMinutes: avg(
-              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-            ),
-          })
-          .from(tasks)
-          .leftJoin(materials, eq(tasks.materialType, materials.id))
-          .where(and(...conditions))
-          .groupBy(tasks.materialType, materials.name);
+        if (groupBy === "material") {
+          const result = await db
+            .select({
+              materialId: tasks.materialType,
+              materialName: materials.name,
+              totalWeightKg: sum(tasks.weightKg),
+              taskCount: count(),
+              avgLeadTimeMinutes: avg(
+                sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+              ),
+            })
+            .from(tasks)
+            .leftJoin(materials, eq(tasks.materialType, materials.id))
+            .where(and(...conditions))
+            .groupBy(tasks.materialType, materials.name);
 
-        res.json(result);
-      } else {
-        let dateExpr: any;
-        if (groupBy === "day") {
-          dateExpr = sql`DATE(${tasks.disposedAt})`;
-        } else if (groupBy === "week") {
-          dateExpr = sql`DATE_TRUNC('week', ${tasks.disposedAt})`;
-        } else if (groupBy === "month") {
-          dateExpr = sql`DATE_TRUNC('month', ${tasks.disposedAt})`;
+          res.json(result);
         } else {
-          return res.status(400).json({
-            error:
-              "Invalid groupBy parameter. Use: material, day, week, or month",
-          });
-        }
+          let dateExpr: any;
+          if (groupBy === "day") {
+            dateExpr = sql`DATE(${tasks.disposedAt})`;
+          } else if (groupBy === "week") {
+            dateExpr = sql`DATE_TRUNC('week', ${tasks.disposedAt})`;
+          } else if (groupBy === "month") {
+            dateExpr = sql`DATE_TRUNC('month', ${tasks.disposedAt})`;
+          } else {
+            return res.status(400).json({
+              error:
+                "Invalid groupBy parameter. Use: material, day, week, or month",
+            });
+          }
 
-        const result = await db
-          .select({
-            period: dateExpr,
-            totalWeightKg: sum(tasks.weightKg),
-            taskCount: count(),
-          })
-          .from(tasks)
-          .where(and(...conditions))
-          .groupBy(dateExpr)
-          .orderBy(dateExpr);
+          const result = await db
+            .select({
+              period: dateExpr,
+              totalWeightKg: sum(tasks.weightKg),
+              taskCount: count(),
+            })
+            .from(tasks)
+            .where(and(...conditions))
+            .groupBy(dateExpr)
+            .orderBy(dateExpr);
 
-        res.json({ data: result, groupBy });
+          res.json({ data: result, groupBy });
+        }
+      } catch (error) {
+        console.error("[Analytics] Materials error:", error);
+        res.status(500).json({ error: "Failed to fetch materials analytics" });
       }
-    } catch (error) {
-      console.error("[Analytics] Materials error:", error);
-      res.status(500).json({ error: "Failed to fetch materials analytics" });
-    }
-  });
+    },
+  );
 
   /**
    * GET /api/analytics/stations
    * Material amounts per station
    * Query params: from, to
    */
-  app.get("/api/analytics/stations", requireAuth, async (req, res) => {
-    try {
-      const { from, to } = req.query;
+  app.get(
+    "/api/analytics/stations",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to } = req.query;
+
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
+
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+        const result = await db
+          .select({
+            stationId: stands.stationId,
+            stationName: stations.name,
+            taskCount: count(),
+            totalWeightKg: sum(tasks.weightKg),
+            avgLeadTimeMinutes: avg(
+              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+            ),
+          })
+          .from(tasks)
+          .innerJoin(stands, eq(tasks.standId, stands.id))
+          .innerJoin(stations, eq(stands.stationId, stations.id))
+          .where(and(...conditions))
+          .groupBy(stands.stationId, stations.name);
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        res.json(result);
+      } catch (error) {
+        console.error("[Analytics] Stations error:", error);
+        res.status(500).json({ error: "Failed to fetch stations analytics" });
       }
-
-      const result = await db
-        .select({
-          stationId: stands.stationId,
-          stationName: stations.name,
-          taskCount: count(),
-          totalWeightKg: sum(tasks.weightKg),
-          avgLeadTimeMinutes: avg(
-            sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-          ),
-        })
-        .from(tasks)
-        .innerJoin(stands, eq(tasks.standId, stands.id))
-        .innerJoin(stations, eq(stands.stationId, stations.id))
-        .where(and(...conditions))
-        .groupBy(stands.stationId, stations.name);
-
-      res.json(result);
-    } catch (error) {
-      console.error("[Analytics] Stations error:", error);
-      res.status(500).json({ error: "Failed to fetch stations analytics" });
-    }
-  });
+    },
+  );
 
   /**
    * GET /api/analytics/halls
    * Material amounts per hall
    * Query params: from, to
    */
-  app.get("/api/analytics/halls", requireAuth, async (req, res) => {
-    try {
-      const { from, to } = req.query;
+  app.get(
+    "/api/analytics/halls",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to } = req.query;
 
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
-      }
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-      const result = await db
-        .select({
-          hallId: stations.hallId,
-          hallName: halls.name,
-          taskCount: count(),
-          totalWeightKg: sum(tasks.weightKg),
-          avgLeadTimeMinutes: avg(
-            sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-          ),
-        })
-        .from(tasks)
-        .innerJoin(stands, eq(tasks.standId, stands.id))
-        .innerJoin(stations, eq(stands.stationId, stations.id))
-        .innerJoin(halls, eq(stations.hallId, halls.id))
-        .where(and(...conditions))
-        .groupBy(stations.hallId, halls.name);
+        const result = await db
+          .select({
+            hallId: stations.hallId,
+            hallName: halls.name,
+            taskCount: count(),
+            totalWeightKg: sum(tasks.weightKg),
+            avgLeadTimeMinutes: avg(
+              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+            ),
+          })
+          .from(tasks)
+          .innerJoin(stands, eq(tasks.standId, stands.id))
+          .innerJoin(stations, eq(stands.stationId, stations.id))
+          .innerJoin(halls, eq(stations.hallId, halls.id))
+          .where(and(...conditions))
+          .groupBy(stations.hallId, halls.name);
 
-      res.json(result);
-    } catch (error) {
-      console.error("[Analytics] Halls error:", error);
-      res.status(500).json({ error: "Failed to fetch halls analytics" });
-    }
-  });
+        res.json(result);
+      } catch (error) {
+        console.error("[Analytics] Halls error:", error);
+        res.status(500).json({ error: "Failed to fetch halls analytics" });
+      }
+    },
+  );
 
   /**
    * GET /api/analytics/users
    * User/driver performance
    * Query params: from, to
    */
-  app.get("/api/analytics/users", requireAuth, async (req, res) => {
-    try {
-      const { from, to } = req.query;
+  app.get(
+    "/api/analytics/users",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to } = req.query;
 
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
-      }
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-      const weighedByResult = await db
-        .select({
-          userId: tasks.weighedByUserId,
-          userName: users.name,
-          userEmail: users.email,
-          role: sql`'weigher'`.as("role"),
-          totalWeightKg: sum(tasks.weightKg),
-          taskCount: count(),
-        })
-        .from(tasks)
-        .innerJoin(users, eq(tasks.weighedByUserId, users.id))
-        .where(and(...conditions))
-        .groupBy(tasks.weighedByUserId, users.name, users.email);
+        const weighedByResult = await db
+          .select({
+            userId: tasks.weighedByUserId,
+            userName: users.name,
+            userEmail: users.email,
+            role: sql`'weigher'`.as("role"),
+            totalWeightKg: sum(tasks.weightKg),
+            taskCount: count(),
+          })
+          .from(tasks)
+          .innerJoin(users, eq(tasks.weighedByUserId, users.id))
+          .where(and(...conditions))
+          .groupBy(tasks.weighedByUserId, users.name, users.email);
 
-      const claimedByResult = await db
-        .select({
-          userId: tasks.claimedByUserId,
-          userName: users.name,
-          userEmail: users.email,
-          role: sql`'driver'`.as("role"),
-          totalWeightKg: sum(tasks.weightKg),
-          taskCount: count(),
-        })
-        .from(tasks)
-        .innerJoin(users, eq(tasks.claimedByUserId, users.id))
-        .where(and(...conditions))
-        .groupBy(tasks.claimedByUserId, users.name, users.email);
+        const claimedByResult = await db
+          .select({
+            userId: tasks.claimedByUserId,
+            userName: users.name,
+            userEmail: users.email,
+            role: sql`'driver'`.as("role"),
+            totalWeightKg: sum(tasks.weightKg),
+            taskCount: count(),
+          })
+          .from(tasks)
+          .innerJoin(users, eq(tasks.claimedByUserId, users.id))
+          .where(and(...conditions))
+          .groupBy(tasks.claimedByUserId, users.name, users.email);
 
-      res.json({
-        data: {
-          byWeigher: weighedByResult,
-          byDriver: claimedByResult,
-        },
-      });
-    } catch (error) {
-      console.error("[Analytics] Users error:", error);
-      res.status(500).json({ error: "Failed to fetch users analytics" });
-    }
-  });
+        res.json({
+          data: {
+            byWeigher: weighedByResult,
+            byDriver: claimedByResult,
+          },
+        });
+      } catch (error) {
+        console.error("[Analytics] Users error:", error);
+        res.status(500).json({ error: "Failed to fetch users analytics" });
+      }
+    },
+  );
 
   /**
    * GET /api/analytics/departments
    * Department performance
    * Query params: from, to
    */
-  app.get("/api/analytics/departments", requireAuth, async (req, res) => {
-    try {
-      const { from, to } = req.query;
+  app.get(
+    "/api/analytics/departments",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to } = req.query;
 
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
-      }
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-      const result = await db
-        .select({
-          departmentId: users.departmentId,
-          departmentName: departments.name,
-          departmentCode: departments.code,
-          totalWeightKg: sum(tasks.weightKg),
-          taskCount: count(),
-        })
-        .from(tasks)
-        .innerJoin(users, eq(tasks.claimedByUserId, users.id))
-        .innerJoin(departments, eq(users.departmentId, departments.id))
-        .where(and(...conditions))
-        .groupBy(users.departmentId, departments.name, departments.code);
+        const result = await db
+          .select({
+            departmentId: users.departmentId,
+            departmentName: departments.name,
+            departmentCode: departments.code,
+            totalWeightKg: sum(tasks.weightKg),
+            taskCount: count(),
+          })
+          .from(tasks)
+          .innerJoin(users, eq(tasks.claimedByUserId, users.id))
+          .innerJoin(departments, eq(users.departmentId, departments.id))
+          .where(and(...conditions))
+          .groupBy(users.departmentId, departments.name, departments.code);
 
-      res.json({ data: result });
-    } catch (error) {
-      console.error("[Analytics] Departments error:", error);
-      res.status(500).json({ error: "Failed to fetch departments analytics" });
-    }
-  });
+        res.json({ data: result });
+      } catch (error) {
+        console.error("[Analytics] Departments error:", error);
+        res
+          .status(500)
+          .json({ error: "Failed to fetch departments analytics" });
+      }
+    },
+  );
 
   /**
    * GET /api/analytics/lead-times
    * Average duration between statuses
    * Query params: from, to, by (material|station)
    */
-  app.get("/api/analytics/lead-times", requireAuth, async (req, res) => {
-    try {
-      const { from, to, by } = req.query;
-
-      const conditions: any[] = [eq(tasks.status, "DISPOSED")];
+  app.get(
+    "/api/analytics/lead-times",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const { from, to, by } = req.query;
 
-      if (from) {
-        conditions.push(gte(tasks.disposedAt, new Date(from as string)));
-      }
-      if (to) {
-        conditions.push(lte(tasks.disposedAt, new Date(to as string)));
-      }
+        const conditions: any[] = [
+          eq(tasks.status, "DISPOSED"),
+          siteFilter(req, tasks.siteId),
+        ];
 
-      if (by === "material") {
-        const result = await db
-          .select({
-            groupId: tasks.materialType,
-            groupName: materials.name,
-            avgLeadTimeMinutes: avg(
-              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-            ),
-            minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            taskCount: count(),
-          })
-          .from(tasks)
-          .leftJoin(materials, eq(tasks.materialType, materials.id))
-          .where(and(...conditions))
-          .groupBy(tasks.materialType, materials.name);
+        if (from) {
+          conditions.push(gte(tasks.disposedAt, new Date(from as string)));
+        }
+        if (to) {
+          conditions.push(lte(tasks.disposedAt, new Date(to as string)));
+        }
 
-        res.json(result);
-      } else if (by === "station") {
-        const result = await db
-          .select({
-            groupId: stands.stationId,
-            groupName: stations.name,
-            avgLeadTimeMinutes: avg(
-              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-            ),
-            minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            taskCount: count(),
-          })
-          .from(tasks)
-          .innerJoin(stands, eq(tasks.standId, stands.id))
-          .innerJoin(stations, eq(stands.stationId, stations.id))
-          .where(and(...conditions))
-          .groupBy(stands.stationId, stations.name);
+        if (by === "material") {
+          const result = await db
+            .select({
+              groupId: tasks.materialType,
+              groupName: materials.name,
+              avgLeadTimeMinutes: avg(
+                sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+              ),
+              minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              taskCount: count(),
+            })
+            .from(tasks)
+            .leftJoin(materials, eq(tasks.materialType, materials.id))
+            .where(and(...conditions))
+            .groupBy(tasks.materialType, materials.name);
+
+          res.json(result);
+        } else if (by === "station") {
+          const result = await db
+            .select({
+              groupId: stands.stationId,
+              groupName: stations.name,
+              avgLeadTimeMinutes: avg(
+                sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+              ),
+              minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              taskCount: count(),
+            })
+            .from(tasks)
+            .innerJoin(stands, eq(tasks.standId, stands.id))
+            .innerJoin(stations, eq(stands.stationId, stations.id))
+            .where(and(...conditions))
+            .groupBy(stands.stationId, stations.name);
 
-        res.json(result);
-      } else {
-        const result = await db
-          .select({
-            groupId: sql`'overall'`.as("groupId"),
-            groupName: sql`'All Tasks'`.as("groupName"),
-            avgLeadTimeMinutes: avg(
-              sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
-            ),
-            minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
-            taskCount: count(),
-          })
-          .from(tasks)
-          .where(and(...conditions));
+          res.json(result);
+        } else {
+          const result = await db
+            .select({
+              groupId: sql`'overall'`.as("groupId"),
+              groupName: sql`'All Tasks'`.as("groupName"),
+              avgLeadTimeMinutes: avg(
+                sql`EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60`,
+              ),
+              minLeadTimeMinutes: sql`MIN(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              maxLeadTimeMinutes: sql`MAX(EXTRACT(EPOCH FROM (${tasks.disposedAt} - ${tasks.createdAt})) / 60)`,
+              taskCount: count(),
+            })
+            .from(tasks)
+            .where(and(...conditions));
 
-        res.json(result);
+          res.json(result);
+        }
+      } catch (error) {
+        console.error("[Analytics] Lead times error:", error);
+        res.status(500).json({ error: "Failed to fetch lead times analytics" });
       }
-    } catch (error) {
-      console.error("[Analytics] Lead times error:", error);
-      res.status(500).json({ error: "Failed to fetch lead times analytics" });
-    }
-  });
+    },
+  );
 
   /**
    * GET /api/analytics/backlog
    * Overdue/stuck tasks
    * Query params: olderThanHours (default: 24)
    */
-  app.get("/api/analytics/backlog", requireAuth, async (req, res) => {
-    try {
-      const olderThanHours = parseInt(req.query.olderThanHours as string) || 24;
-      const cutoffTime = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
+  app.get(
+    "/api/analytics/backlog",
+    allowApiKey("analytics:read"),
+    requireAuth,
+    async (req, res) => {
+      try {
+        const olderThanHours =
+          parseInt(req.query.olderThanHours as string) || 24;
+        const cutoffTime = new Date(
+          Date.now() - olderThanHours * 60 * 60 * 1000,
+        );
 
-      const activeStatuses = [
-        "OPEN",
-        "PICKED_UP",
-        "IN_TRANSIT",
-        "DROPPED_OFF",
-        "TAKEN_OVER",
-        "WEIGHED",
-      ];
+        const activeStatuses = [
+          "OPEN",
+          "PICKED_UP",
+          "IN_TRANSIT",
+          "DROPPED_OFF",
+          "TAKEN_OVER",
+          "WEIGHED",
+        ];
 
-      const result = await db
-        .select({
-          taskId: tasks.id,
-          title: tasks.title,
-          status: tasks.status,
-          createdAt: tasks.createdAt,
-          updatedAt: tasks.updatedAt,
-          standId: tasks.standId,
-          standIdentifier: stands.identifier,
-        })
-        .from(tasks)
-        .leftJoin(stands, eq(tasks.standId, stands.id))
-        .where(
-          and(
-            inArray(tasks.status, activeStatuses),
-            lte(tasks.updatedAt, cutoffTime),
-          ),
-        )
-        .orderBy(tasks.updatedAt);
-
-      const now = Date.now();
-      const tasksWithHours = result.map((task) => ({
-        ...task,
-        hoursInStatus: task.updatedAt
-          ? Math.round(
-              (now - new Date(task.updatedAt).getTime()) / (1000 * 60 * 60),
-            )
-          : null,
-      }));
+        const result = await db
+          .select({
+            taskId: tasks.id,
+            title: tasks.title,
+            status: tasks.status,
+            createdAt: tasks.createdAt,
+            updatedAt: tasks.updatedAt,
+            standId: tasks.standId,
+            standIdentifier: stands.identifier,
+          })
+          .from(tasks)
+          .leftJoin(stands, eq(tasks.standId, stands.id))
+          .where(
+            and(
+              inArray(tasks.status, activeStatuses),
+              lte(tasks.updatedAt, cutoffTime),
+              siteFilter(req, tasks.siteId),
+            ),
+          )
+          .orderBy(tasks.updatedAt);
 
-      res.json(tasksWithHours);
-    } catch (error) {
-      console.error("[Analytics] Backlog error:", error);
-      res.status(500).json({ error: "Failed to fetch backlog analytics" });
-    }
-  });
+        const now = Date.now();
+        const tasksWithHours = result.map((task) => ({
+          ...task,
+          hoursInStatus: task.updatedAt
+            ? Math.round(
+                (now - new Date(task.updatedAt).getTime()) / (1000 * 60 * 60),
+              )
+            : null,
+        }));
+
+        res.json(tasksWithHours);
+      } catch (error) {
+        console.error("[Analytics] Backlog error:", error);
+        res.status(500).json({ error: "Failed to fetch backlog analytics" });
+      }
+    },
+  );
 
   // ============================================================================
   // ADMIN MANUAL TASK CREATION
@@ -7395,6 +11089,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: "OPEN",
           source: "MANUAL",
           taskType: "AUTOMOTIVE",
+          siteId: stand.siteId,
           standId: standId,
           materialType: stand.materialId,
           scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
@@ -7448,6 +11143,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         console.log("[Seed] Starting Kaiserslautern factory seeding...");
 
+        const site = await ensureDefaultSite();
+
         const seeded = {
           halls: { created: 0, skipped: 0 },
           stations: { created: 0, skipped: 0 },
@@ -7652,6 +11349,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const [created] = await db
               .insert(halls)
               .values({
+                siteId: site.id,
                 name: h.name,
                 code: h.code,
                 positionMeta: { x: h.x, y: h.y, mapCode: "OUT" },
@@ -7685,6 +11383,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               .insert(stations)
               .values({
                 hallId,
+                siteId: site.id,
                 name: s.name,
                 code: s.code,
                 positionMeta: {
@@ -7720,6 +11419,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               try {
                 await db.insert(stands).values({
                   stationId,
+                  siteId: site.id,
                   identifier,
                   qrCode,
                 });
@@ -7763,6 +11463,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/admin/halls/:id/map-marker",
     requireAuth,
     requireAdmin,
+    auditEntity("hall"),
     async (req, res) => {
       try {
         const { x, y } = req.body;
@@ -7885,6 +11586,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/admin/stations/:id/position",
     requireAuth,
     requireAdmin,
+    auditEntity("station"),
     async (req, res) => {
       try {
         const { x, y } = req.body;
@@ -7978,8 +11680,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireAdmin,
     async (req, res) => {
       try {
-        const hallsResult = await db.select().from(halls);
-        const stationsResult = await db.select().from(stations);
+        const hallsResult = await db
+          .select()
+          .from(halls)
+          .where(siteFilter(req, halls.siteId));
+        const stationsResult = await db
+          .select()
+          .from(stations)
+          .where(siteFilter(req, stations.siteId));
 
         const hallsWithMarkers = hallsResult.map((h) => {
           const locationMeta = h.locationMeta as any;
@@ -8036,16 +11744,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Returns halls, stations and their positions for map rendering (user view)
    * Uses locationMeta for marker positions
    */
-  app.get("/api/factory/map-data", async (req, res) => {
+  app.get("/api/factory/map-data", requireAuth, async (req, res) => {
     try {
       const hallsResult = await db
         .select()
         .from(halls)
-        .where(eq(halls.isActive, true));
+        .where(and(eq(halls.isActive, true), siteFilter(req, halls.siteId)));
       const stationsResult = await db
         .select()
         .from(stations)
-        .where(eq(stations.isActive, true));
+        .where(
+          and(eq(stations.isActive, true), siteFilter(req, stations.siteId)),
+        );
 
       res.json({
         halls: hallsResult.map((h) => {
@@ -8134,7 +11844,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let stationQuery = db
           .select()
           .from(stations)
-          .where(eq(stations.isActive, true));
+          .where(
+            and(eq(stations.isActive, true), siteFilter(req, stations.siteId)),
+          );
         if (searchPattern) {
           stationQuery = db
             .select()
@@ -8142,6 +11854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .where(
               and(
                 eq(stations.isActive, true),
+                siteFilter(req, stations.siteId),
                 or(
                   ilike(stations.code, searchPattern),
                   ilike(stations.name, searchPattern),
@@ -8170,7 +11883,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let standQuery = db
           .select()
           .from(stands)
-          .where(eq(stands.isActive, true));
+          .where(
+            and(eq(stands.isActive, true), siteFilter(req, stands.siteId)),
+          );
         if (searchPattern) {
           standQuery = db
             .select()
@@ -8178,6 +11893,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .where(
               and(
                 eq(stands.isActive, true),
+                siteFilter(req, stands.siteId),
                 ilike(stands.identifier, searchPattern),
               ),
             );
@@ -8207,13 +11923,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Boxes - search by serial
       if (!entityType || entityType === "BOX") {
-        let boxQuery = db.select().from(boxes).where(eq(boxes.isActive, true));
+        let boxQuery = db
+          .select()
+          .from(boxes)
+          .where(and(eq(boxes.isActive, true), siteFilter(req, boxes.siteId)));
         if (searchPattern) {
           boxQuery = db
             .select()
             .from(boxes)
             .where(
-              and(eq(boxes.isActive, true), ilike(boxes.serial, searchPattern)),
+              and(
+                eq(boxes.isActive, true),
+                siteFilter(req, boxes.siteId),
+                ilike(boxes.serial, searchPattern),
+              ),
             );
         }
         const boxesResult = await boxQuery;
@@ -8474,28 +12197,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  initializeSites().catch((error) =>
+    console.error("[Sites] Failed to initialize sites:", error),
+  );
+
+  initializeAuditChains().catch((error) =>
+    console.error("[AuditChain] Failed to seal existing events:", error),
+  );
+
+  initializeRetentionPolicies().catch((error) =>
+    console.error("[Retention] Failed to initialize policies:", error),
+  );
+
   // ----------------------------------------------------------------------------
-  // TASK SCHEDULERS
-  // Daily scheduler: Runs at startup (5 second delay) and every hour
-  // Flexible scheduler: Runs at startup (10 second delay) and every hour
+  // BACKGROUND JOBS
+  // Only the leader instance runs them (see server/scheduler-leader.ts)
   // ----------------------------------------------------------------------------
-  setTimeout(() => {
-    console.log("[DailyTaskScheduler] Initial run starting in 5 seconds...");
-    generateDailyTasksScheduled();
-  }, 5000);
-
-  setTimeout(() => {
-    console.log("[FlexibleScheduler] Initial run starting in 10 seconds...");
-    generateFlexibleScheduledTasks();
-  }, 10000);
-
-  setInterval(
-    () => {
-      generateDailyTasksScheduled();
-      generateFlexibleScheduledTasks();
-    },
-    60 * 60 * 1000,
-  ); // Every hour
+  startLeaderLoop(runLeaderJobs);
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,138 @@
+import { after, before, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { sql } from "drizzle-orm";
+import { startTestDatabase, type TestDatabase } from "./test-db";
+
+describe("scheduler leader", () => {
+  let testDb: TestDatabase;
+  let leader: typeof import("./scheduler-leader");
+  let runs: typeof import("./scheduler-runs");
+  let db: typeof import("./db").db;
+  let schedulerLeases: typeof import("@shared/schema").schedulerLeases;
+  let schedulerRuns: typeof import("@shared/schema").schedulerRuns;
+
+  before(async () => {
+    testDb = await startTestDatabase();
+    leader = await import("./scheduler-leader");
+    runs = await import("./scheduler-runs");
+    ({ db } = await import("./db"));
+    ({ schedulerLeases, schedulerRuns } = await import("@shared/schema"));
+  });
+
+  after(() => testDb.stop());
+
+  beforeEach(async () => {
+    await db.delete(schedulerLeases);
+    await db.delete(schedulerRuns);
+  });
+
+  function leaseOf(fencingToken: number) {
+    return { fencingToken, signal: new AbortController().signal };
+  }
+
+  // Another instance holds the lease until it expires
+  async function handOverTo(holderId: string, expired: boolean) {
+    await db.update(schedulerLeases).set({
+      holderId,
+      fencingToken: sql`${schedulerLeases.fencingToken} + 1`,
+      expiresAt: expired
+        ? sql`now() - interval '1 second'`
+        : sql`now() + interval '3 minutes'`,
+    });
+  }
+
+  test("keep the fencing token while renewing", async () => {
+    const token = await leader.tryAcquireLeadership();
+    assert.equal(token, 1);
+    assert.equal(await leader.tryAcquireLeadership(), token);
+  });
+
+  test("stay follower while another instance holds the lease", async () => {
+    await leader.tryAcquireLeadership();
+    await handOverTo("other-instance", false);
+    assert.equal(await leader.tryAcquireLeadership(), null);
+  });
+
+  test("fence writes of a leader that lost the lease", async () => {
+    const staleToken = (await leader.tryAcquireLeadership())!;
+    await handOverTo("other-instance", true);
+    const newToken = await leader.tryAcquireLeadership();
+    assert.ok(newToken! > staleToken + 1);
+
+    await assert.rejects(
+      db.transaction((tx) => leader.assertLeadership(tx, leaseOf(staleToken))),
+      leader.LeadershipLostError,
+    );
+    await db.transaction((tx) =>
+      leader.assertLeadership(tx, leaseOf(newToken!)),
+    );
+  });
+
+  test("fence writes once the lease has expired", async () => {
+    const token = (await leader.tryAcquireLeadership())!;
+    await db
+      .update(schedulerLeases)
+      .set({ expiresAt: sql`now() - interval '1 second'` });
+    await assert.rejects(
+      db.transaction((tx) => leader.assertLeadership(tx, leaseOf(token))),
+      leader.LeadershipLostError,
+    );
+  });
+
+  test("keep counting fencing tokens after a release", async () => {
+    const token = (await leader.tryAcquireLeadership())!;
+    await leader.releaseLeadership();
+    assert.equal(await leader.getSchedulerLeader(), null);
+
+    await handOverTo("other-instance", true);
+    assert.ok((await leader.tryAcquireLeadership())! > token);
+  });
+
+  test("release the lease when the loop is stopped", async () => {
+    mock.timers.enable({ apis: ["setTimeout", "setInterval"] });
+    let signal: AbortSignal | undefined;
+    try {
+      leader.startLeaderLoop(async (lease) => {
+        signal = lease.signal;
+      });
+      mock.timers.tick(5000);
+    } finally {
+      mock.timers.reset();
+    }
+
+    await leader.stopLeaderLoop();
+    assert.ok(signal?.aborted);
+    assert.equal(await leader.getSchedulerLeader(), null);
+  });
+
+  // Started by the database clock, like recordSchedulerRun
+  async function addRun(minutesAgo: number) {
+    await db.insert(schedulerRuns).values({
+      scheduler: "DAILY",
+      trigger: "HOURLY",
+      startedAt: sql`now() - make_interval(mins => ${minutesAgo})`,
+    });
+  }
+
+  test("judge the last scheduler run by its age", async () => {
+    const HOUR_MS = 60 * 60 * 1000;
+    assert.equal(
+      await runs.getDueSchedulerTrigger("DAILY", HOUR_MS),
+      "STARTUP",
+    );
+
+    await addRun(30);
+    assert.equal(await runs.getDueSchedulerTrigger("DAILY", HOUR_MS), null);
+
+    await db.delete(schedulerRuns);
+    await addRun(61);
+    assert.equal(await runs.getDueSchedulerTrigger("DAILY", HOUR_MS), "HOURLY");
+
+    await db.delete(schedulerRuns);
+    await addRun(3 * 60);
+    assert.equal(
+      await runs.getDueSchedulerTrigger("DAILY", HOUR_MS),
+      "CATCH_UP",
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import { schedulerLeases } from "@shared/schema";
+import { db, type DbTransaction } from "./db";
+import { and, eq, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+
+// ============================================================================
+// SCHEDULER LEADER ELECTION
+// ============================================================================
+// Every server instance ticks once a minute, but only the instance holding
+// the lease in scheduler_leases runs the background jobs (schedulers,
+// claim sweep, retention). The leader renews the lease on each tick; if it
+// stops (crash, shutdown) another instance takes over once the lease has
+// expired. A lease row is used instead of a session advisory lock because
+// the Supabase pooler (port 6543) runs in transaction mode and does not
+// keep a session, and so its locks, on one connection. Expiry is computed
+// with the database clock, so clock skew between instances does not matter.
+//
+// A leader that stalls (GC pause, slow query) may still be working after its
+// lease expired and another instance took over. Each change of holder
+// increments the lease's fencing token; leader jobs check holder and token
+// in the transaction that writes (assertLeadership), so a stale leader's
+// writes fail instead of racing the new leader.
+
+const LEASE_NAME = "background-jobs";
+
+// Several ticks, so one slow tick does not hand over the lease
+const LEASE_TTL_SECONDS = 180;
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/** The lease as held by this instance, handed to the leader jobs */
+export interface LeaderLease {
+  fencingToken: number;
+  signal: AbortSignal; // aborted when this instance loses the lease
+}
+
+export class LeadershipLostError extends Error {
+  constructor() {
+    super("Scheduler lease lost");
+    this.name = "LeadershipLostError";
+  }
+}
+
+/**
+ * Acquires the lease if it is free or expired, or renews it if this instance
+ * already holds it. Returns the fencing token, null if another instance is
+ * the leader. The token grows with every change of holder
+ */
+export async function tryAcquireLeadership(): Promise<number | null> {
+  const expiresAt = sql`now() + make_interval(secs => ${LEASE_TTL_SECONDS})`;
+  const isHolder = sql`${schedulerLeases.holderId} = ${INSTANCE_ID}`;
+  const [lease] = await db
+    .insert(schedulerLeases)
+    .values({ name: LEASE_NAME, holderId: INSTANCE_ID, expiresAt })
+    .onConflictDoUpdate({
+      target: schedulerLeases.name,
+      set: {
+        holderId: INSTANCE_ID,
+        fencingToken: sql`CASE WHEN ${isHolder} THEN ${schedulerLeases.fencingToken} ELSE ${schedulerLeases.fencingToken} + 1 END`,
+        acquiredAt: sql`CASE WHEN ${isHolder} THEN ${schedulerLeases.acquiredAt} ELSE now() END`,
+        expiresAt,
+      },
+      where: sql`${isHolder} OR ${schedulerLeases.expiresAt} < now()`,
+    })
+    .returning({
+      holderId: schedulerLeases.holderId,
+      fencingToken: schedulerLeases.fencingToken,
+    });
+  return lease?.holderId === INSTANCE_ID ? lease.fencingToken : null;
+}
+
+/**
+ * Call first in every write transaction of a leader job. Throws
+ * LeadershipLostError unless this instance still holds the unexpired lease
+ * with the same fencing token. The lease row stays locked (FOR SHARE) until
+ * the transaction ends, so no other instance can take over in between
+ */
+export async function assertLeadership(
+  tx: DbTransaction,
+  lease: LeaderLease,
+): Promise<void> {
+  if (lease.signal.aborted) throw new LeadershipLostError();
+  const [held] = await tx
+    .select({ name: schedulerLeases.name })
+    .from(schedulerLeases)
+    .where(
+      and(
+        eq(schedulerLeases.name, LEASE_NAME),
+        eq(schedulerLeases.holderId, INSTANCE_ID),
+        eq(schedulerLeases.fencingToken, lease.fencingToken),
+        sql`${schedulerLeases.expiresAt} > now()`,
+      ),
+    )
+    .for("share");
+  if (!held) throw new LeadershipLostError();
+}
+
+/**
+ * Gives up the lease so another instance can take over without waiting.
+ * The row is expired rather than deleted so the fencing token keeps growing
+ */
+export async function releaseLeadership(): Promise<void> {
+  await db
+    .update(schedulerLeases)
+    .set({ expiresAt: sql`now()` })
+    .where(
+      and(
+        eq(schedulerLeases.name, LEASE_NAME),
+        eq(schedulerLeases.holderId, INSTANCE_ID),
+      ),
+    );
+}
+
+/** The current lease holder, null if there is no unexpired lease */
+export async function getSchedulerLeader(): Promise<{
+  holderId: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+} | null> {
+  const [lease] = await db
+    .select()
+    .from(schedulerLeases)
+    .where(
+      and(
+        eq(schedulerLeases.name, LEASE_NAME),
+        sql`${schedulerLeases.expiresAt} > now()`,
+      ),
+    );
+  return lease
+    ? {
+        holderId: lease.holderId,
+        acquiredAt: lease.acquiredAt,
+        expiresAt: lease.expiresAt,
+      }
+    : null;
+}
+
+// Set while the tick loop runs, see stopLeaderLoop
+let stopLoop: (() => Promise<void>) | null = null;
+
+/**
+ * Starts the tick loop. Every tick renews the lease; while this instance is
+ * the leader, runJobs is started and awaited. A tick that finds the previous
+ * jobs still running only renews the lease. When the lease is lost the
+ * signal of the running jobs is aborted, and their transactions fail in
+ * assertLeadership
+ */
+export function startLeaderLoop(
+  runJobs: (lease: LeaderLease, becameLeader: boolean) => Promise<void>,
+): void {
+  let current: { fencingToken: number; controller: AbortController } | null =
+    null;
+  let jobs: Promise<void> | null = null;
+  let pendingTick: Promise<void> | null = null;
+  let stopped = false;
+
+  const loseLeadership = () => {
+    if (!current) return;
+    current.controller.abort();
+    current = null;
+    console.log(`[SchedulerLeader] ${INSTANCE_ID} lost leadership`);
+  };
+
+  const runTick = async () => {
+    try {
+      const fencingToken = await tryAcquireLeadership();
+      if (fencingToken !== current?.fencingToken) loseLeadership();
+      if (fencingToken === null) return;
+
+      const becameLeader = !current;
+      if (!current) {
+        current = { fencingToken, controller: new AbortController() };
+        console.log(`[SchedulerLeader] ${INSTANCE_ID} is now the leader`);
+      }
+      if (jobs) {
+        console.log("[SchedulerLeader] Previous jobs still running, skipping");
+        return;
+      }
+      const lease = { fencingToken, signal: current.controller.signal };
+      jobs = runJobs(lease, becameLeader)
+        .catch((error) => {
+          if (!(error instanceof LeadershipLostError)) {
+            console.error("[SchedulerLeader] Leader jobs failed:", error);
+          }
+        })
+        .finally(() => {
+          jobs = null;
+        });
+    } catch (error) {
+      // Without a lease this instance must assume it is no longer the leader
+      loseLeadership();
+      console.error("[SchedulerLeader] Lease check failed:", error);
+    }
+  };
+
+  const tick = () => {
+    if (pendingTick || stopped) return;
+    pendingTick = runTick().finally(() => {
+      pendingTick = null;
+    });
+  };
+
+  const firstTick = setTimeout(tick, 5000);
+  const interval = setInterval(tick, TICK_INTERVAL_MS);
+
+  stopLoop = async () => {
+    stopped = true;
+    clearTimeout(firstTick);
+    clearInterval(interval);
+    // A tick in flight may still acquire the lease
+    await pendingTick;
+    loseLeadership();
+    await jobs;
+    try {
+      await releaseLeadership();
+    } catch (error) {
+      console.error("[SchedulerLeader] Failed to release lease:", error);
+    }
+  };
+}
+
+/**
+ * Stops the tick loop for a shutdown: no new ticks, running jobs are
+ * aborted and awaited, then the lease is released so another instance
+ * takes over right away instead of after the lease TTL
+ */
+export async function stopLeaderLoop(): Promise<void> {
+  const stop = stopLoop;
+  stopLoop = null;
+  await stop?.();
+}
@@ -0,0 +1,195 @@
+import {
+  schedulerRuns,
+  taskSchedules,
+  type SchedulerName,
+  type SchedulerRun,
+  type SchedulerRunError,
+  type SchedulerRunStatus,
+  type SchedulerRunTrigger,
+} from "@shared/schema";
+import { db } from "./db";
+import { and, desc, eq, lt, ne, sql } from "drizzle-orm";
+
+// ============================================================================
+// SCHEDULER RUNS
+// ============================================================================
+// Every run of the task schedulers is recorded in scheduler_runs: trigger,
+// start and end, counts and the errors of single tasks. A run that throws is
+// recorded as FAILED. Recording is best effort and never stops the run.
+
+// Only the first errors of a run are stored, errorCount has all of them
+const MAX_STORED_ERRORS = 50;
+
+// A run still RUNNING after this long was interrupted (e.g. server restart)
+const STALE_RUN_MINUTES = 60;
+
+export const SCHEDULER_RUN_RETENTION_DAYS = 30;
+
+export interface SchedulerRunResult {
+  createdCount: number;
+  skippedCount: number;
+  errors: SchedulerRunError[];
+}
+
+export interface SchedulerRunOutcome {
+  runId: string | null;
+  status: SchedulerRunStatus;
+  error?: unknown;
+}
+
+export function toSchedulerRunError(
+  error: unknown,
+  context: Omit<SchedulerRunError, "message"> = {},
+): SchedulerRunError {
+  return {
+    ...context,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Runs a scheduler and records the run
+ */
+export async function recordSchedulerRun(
+  params: {
+    scheduler: SchedulerName;
+    trigger: SchedulerRunTrigger;
+    scheduleId?: string;
+    triggeredById?: string;
+  },
+  execute: () => Promise<SchedulerRunResult>,
+): Promise<SchedulerRunOutcome> {
+  let runId: string | null = null;
+  try {
+    const [run] = await db
+      .insert(schedulerRuns)
+      .values({
+        scheduler: params.scheduler,
+        trigger: params.trigger,
+        scheduleId: params.scheduleId ?? null,
+        triggeredById: params.triggeredById ?? null,
+      })
+      .returning({ id: schedulerRuns.id });
+    runId = run.id;
+  } catch (error) {
+    console.error("[SchedulerRuns] Failed to record run start:", error);
+  }
+
+  let outcome: SchedulerRunOutcome;
+  let values: Partial<typeof schedulerRuns.$inferInsert>;
+  try {
+    const result = await execute();
+    const status: SchedulerRunStatus =
+      result.errors.length > 0 ? "PARTIAL" : "SUCCEEDED";
+    outcome = { runId, status };
+    values = {
+      status,
+      createdCount: result.createdCount,
+      skippedCount: result.skippedCount,
+      errorCount: result.errors.length,
+      errors: result.errors.slice(0, MAX_STORED_ERRORS),
+    };
+  } catch (error) {
+    console.error(`[SchedulerRuns] ${params.scheduler} run failed:`, error);
+    outcome = { runId, status: "FAILED", error };
+    values = {
+      status: "FAILED",
+      errorCount: 1,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (runId) {
+    try {
+      await db
+        .update(schedulerRuns)
+        .set({ ...values, finishedAt: new Date() })
+        .where(eq(schedulerRuns.id, runId));
+    } catch (error) {
+      console.error("[SchedulerRuns] Failed to record run result:", error);
+    }
+  }
+  return outcome;
+}
+
+/**
+ * Whether a periodic scheduler is due, judged by its last non-manual run
+ * across all instances. Returns the trigger to record, null if not due:
+ * STARTUP without any run, CATCH_UP if at least one run was missed.
+ * startedAt is set by the database, so the elapsed time uses its clock too
+ */
+export async function getDueSchedulerTrigger(
+  scheduler: SchedulerName,
+  intervalMs: number,
+): Promise<SchedulerRunTrigger | null> {
+  const [lastRun] = await db
+    .select({
+      elapsedMs: sql<number>`(extract(epoch from now() - ${schedulerRuns.startedAt}) * 1000)::float8`,
+    })
+    .from(schedulerRuns)
+    .where(
+      and(
+        eq(schedulerRuns.scheduler, scheduler),
+        ne(schedulerRuns.trigger, "MANUAL"),
+      ),
+    )
+    .orderBy(desc(schedulerRuns.startedAt))
+    .limit(1);
+  if (!lastRun) return "STARTUP";
+  if (lastRun.elapsedMs < intervalMs) return null;
+  return lastRun.elapsedMs >= 2 * intervalMs ? "CATCH_UP" : "HOURLY";
+}
+
+export type SchedulerRunWithSchedule = SchedulerRun & {
+  scheduleName: string | null;
+};
+
+/** Latest runs first */
+export async function listSchedulerRuns(
+  options: { limit?: number; scheduleId?: string } = {},
+): Promise<SchedulerRunWithSchedule[]> {
+  const rows = await db
+    .select({ run: schedulerRuns, scheduleName: taskSchedules.name })
+    .from(schedulerRuns)
+    .leftJoin(taskSchedules, eq(schedulerRuns.scheduleId, taskSchedules.id))
+    .where(
+      options.scheduleId
+        ? eq(schedulerRuns.scheduleId, options.scheduleId)
+        : undefined,
+    )
+    .orderBy(desc(schedulerRuns.startedAt))
+    .limit(options.limit ?? 20);
+  return rows.map((row) => ({ ...row.run, scheduleName: row.scheduleName }));
+}
+
+/**
+ * Marks runs interrupted by a restart as FAILED and deletes runs past
+ * SCHEDULER_RUN_RETENTION_DAYS
+ */
+export async function cleanupSchedulerRuns(): Promise<void> {
+  const now = Date.now();
+  await db
+    .update(schedulerRuns)
+    .set({
+      status: "FAILED",
+      error: "Lauf abgebrochen (Server neu gestartet?)",
+      finishedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(schedulerRuns.status, "RUNNING"),
+        lt(
+          schedulerRuns.startedAt,
+          new Date(now - STALE_RUN_MINUTES * 60 * 1000),
+        ),
+      ),
+    );
+  await db
+    .delete(schedulerRuns)
+    .where(
+      lt(
+        schedulerRuns.startedAt,
+        new Date(now - SCHEDULER_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+      ),
+    );
+}
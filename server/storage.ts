@@ -8,6 +8,17 @@ import {
   fillHistory,
   scanEvents,
   departments,
+  authSessions,
+  passwordResetTokens,
+  apiKeys,
+  apiKeyRequests,
+  deviceUsers,
+  sites,
+  userSites,
+  halls,
+  stations,
+  stands,
+  boxes,
   type User,
   type InsertUser,
   type Customer,
@@ -19,11 +30,81 @@ import {
   type ScanEvent,
   type Department,
   type InsertDepartment,
-  isValidTaskTransition,
-  getTimestampFieldForStatus,
+  type AuthSession,
+  type PasswordResetToken,
+  type ApiKey,
+  type ApiKeyRequest,
+  type Site,
+  findWorkflowTransition,
+  getWorkflowTimestampField,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql, or } from "drizzle-orm";
+import {
+  appendScanEvent,
+  appendTaskEvent,
+  lockAuditChains,
+  redactScanEvents,
+  type ChainColumns,
+} from "./audit-chain";
+import { getWorkflow } from "./workflows";
+import { buildTaskUndoSnapshot } from "./task-undo";
+import {
+  eq,
+  desc,
+  and,
+  asc,
+  gt,
+  gte,
+  lt,
+  lte,
+  sql,
+  or,
+  isNull,
+  ne,
+} from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+/** Keyset position in the activity log: raw timestamp text and id */
+export interface ActivityLogCursor {
+  ts: string;
+  id: string;
+}
+
+/** A customer task delivered into a warehouse container */
+export interface TaskDelivery {
+  taskId: string;
+  warehouseContainerId: string;
+  userId: string;
+  amount?: number | null; // Measured amount; else planned or estimated
+  location?: string | null;
+  geoLocation?: unknown;
+}
+
+export type TaskDeliveryResult =
+  | {
+      ok: true;
+      task: Task;
+      container: WarehouseContainer;
+      amountAdded: number;
+    }
+  | { ok: false; reason: "NOT_FOUND" | "INVALID_TRANSITION" }
+  | {
+      ok: false;
+      reason: "INSUFFICIENT_CAPACITY";
+      remainingCapacity: number;
+      requestedAmount: number;
+    };
+
+/**
+ * Events of the site's tasks. Events without a task, or of a task without a
+ * site, stay visible, as in the audit timeline (server/audit-timeline.ts)
+ */
+export function eventSiteCondition(taskIdColumn: AnyPgColumn, siteId: string) {
+  return sql`(${taskIdColumn} IS NULL OR ${taskIdColumn} IN (
+    SELECT ${tasks.id} FROM ${tasks}
+    WHERE ${tasks.siteId} IS NULL OR ${tasks.siteId} = ${siteId}
+  ))`;
+}
 
 export interface IStorage {
   // Users
@@ -33,6 +114,75 @@ export interface IStorage {
   getUsers(): Promise<User[]>;
   updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
 
+  // Auth Sessions
+  createAuthSession(data: {
+    userId: string;
+    refreshTokenHash: string;
+    expiresAt: Date;
+    deviceName: string | null;
+    platform: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }): Promise<AuthSession>;
+  getAuthSession(id: string): Promise<AuthSession | undefined>;
+  getAuthSessionByRefreshTokenHash(
+    refreshTokenHash: string,
+  ): Promise<AuthSession | undefined>;
+  rotateAuthSession(
+    id: string,
+    currentRefreshTokenHash: string,
+    nextRefreshTokenHash: string,
+    expiresAt: Date,
+    ipAddress: string | null,
+  ): Promise<AuthSession | undefined>;
+  revokeAuthSessionByReusedRefreshToken(
+    refreshTokenHash: string,
+  ): Promise<AuthSession | undefined>;
+  touchAuthSession(id: string, ipAddress: string | null): Promise<void>;
+  getActiveAuthSessions(userId: string): Promise<AuthSession[]>;
+  revokeAuthSession(id: string): Promise<boolean>;
+  revokeAllAuthSessions(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<number>;
+
+  // Device Users (PIN quick switch)
+  linkDeviceUser(deviceIdHash: string, userId: string): Promise<void>;
+  isDeviceUser(deviceIdHash: string, userId: string): Promise<boolean>;
+  getDeviceUsers(deviceIdHash: string): Promise<User[]>;
+
+  // Password Reset Tokens
+  createPasswordResetToken(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+    requestedIp: string | null;
+  }): Promise<PasswordResetToken>;
+  getLatestPasswordResetToken(
+    userId: string,
+  ): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+  consumePasswordResetToken(
+    tokenHash: string,
+  ): Promise<PasswordResetToken | undefined>;
+
+  // API Keys
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(
+    data: Omit<
+      ApiKey,
+      "id" | "createdAt" | "lastUsedAt" | "lastUsedIp" | "revokedAt"
+    >,
+  ): Promise<ApiKey>;
+  revokeApiKey(id: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string, ip: string): Promise<void>;
+  createApiKeyRequest(
+    data: Omit<ApiKeyRequest, "id" | "createdAt">,
+  ): Promise<ApiKeyRequest>;
+  getApiKeyRequests(apiKeyId: string, limit: number): Promise<ApiKeyRequest[]>;
+
   // Customers
   getCustomers(): Promise<Customer[]>;
   getCustomer(id: string): Promise<Customer | undefined>;
@@ -59,7 +209,7 @@ export interface IStorage {
   ): Promise<CustomerContainer | undefined>;
 
   // Warehouse Containers
-  getWarehouseContainers(): Promise<WarehouseContainer[]>;
+  getWarehouseContainers(siteId?: string | null): Promise<WarehouseContainer[]>;
   getWarehouseContainer(id: string): Promise<WarehouseContainer | undefined>;
   getWarehouseContainerByQR(
     qrCode: string,
@@ -77,26 +227,35 @@ export interface IStorage {
     assignedTo?: string;
     status?: string;
     date?: Date;
+    siteId?: string | null;
   }): Promise<Task[]>;
   getTask(id: string): Promise<Task | undefined>;
-  createTask(data: Omit<Task, "id" | "createdAt" | "updatedAt">): Promise<Task>;
-  updateTask(id: string, data: Partial<Task>): Promise<Task | undefined>;
+  createTask(
+    data: Omit<Task, "id" | "createdAt" | "updatedAt" | "version">,
+  ): Promise<Task>;
+  updateTask(
+    id: string,
+    data: Partial<Task>,
+    expectedVersion?: number,
+  ): Promise<Task | undefined>;
   updateTaskStatus(
     id: string,
     newStatus: string,
     userId?: string,
   ): Promise<Task | undefined>;
   deleteTask(id: string): Promise<boolean>;
+  recordTaskDelivery(delivery: TaskDelivery): Promise<TaskDeliveryResult>;
 
   // Scan Events
   getScanEvents(filters?: {
     containerId?: string;
     taskId?: string;
     userId?: string;
+    siteId?: string | null;
   }): Promise<ScanEvent[]>;
   getScanEvent(id: string): Promise<ScanEvent | undefined>;
   createScanEvent(
-    data: Omit<ScanEvent, "id" | "createdAt">,
+    data: Omit<ScanEvent, "id" | "createdAt" | ChainColumns>,
   ): Promise<ScanEvent>;
 
   // Activity Logs
@@ -105,7 +264,21 @@ export interface IStorage {
     containerId?: string;
     type?: string;
     taskId?: string;
+    siteId?: string | null;
   }): Promise<ActivityLog[]>;
+  getActivityLogPage(
+    filters: {
+      userId?: string;
+      containerId?: string;
+      type?: string;
+      taskId?: string;
+      from?: Date;
+      to?: Date;
+      siteId?: string | null;
+    },
+    before: ActivityLogCursor | null,
+    limit: number,
+  ): Promise<{ logs: ActivityLog[]; nextCursor: ActivityLogCursor | null }>;
   createActivityLog(
     data: Omit<ActivityLog, "id" | "createdAt">,
   ): Promise<ActivityLog>;
@@ -125,6 +298,23 @@ export interface IStorage {
     data: Partial<InsertDepartment>,
   ): Promise<Department | undefined>;
   deleteDepartment(id: string): Promise<boolean>;
+
+  // Sites
+  getSites(): Promise<Site[]>;
+  getSite(id: string): Promise<Site | undefined>;
+  getSiteByCode(code: string): Promise<Site | undefined>;
+  createSite(
+    data: Omit<
+      Site,
+      "id" | "createdAt" | "updatedAt" | "isActive" | "timezone"
+    > &
+      Partial<Pick<Site, "timezone">>,
+  ): Promise<Site>;
+  updateSite(id: string, data: Partial<Site>): Promise<Site | undefined>;
+  getUserSiteIds(userId: string): Promise<string[]>;
+  getUserSiteIdsByUser(): Promise<Map<string, string[]>>;
+  setUserSites(userId: string, siteIds: string[]): Promise<void>;
+  assignUnscopedRecordsToSite(siteId: string): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -161,6 +351,328 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // ============================================================================
+  // AUTH SESSIONS
+  // ============================================================================
+
+  async createAuthSession(data: {
+    userId: string;
+    refreshTokenHash: string;
+    expiresAt: Date;
+    deviceName: string | null;
+    platform: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }): Promise<AuthSession> {
+    const [session] = await db
+      .insert(authSessions)
+      .values({ ...data, lastUsedAt: new Date() })
+      .returning();
+    return session;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(authSessions)
+      .where(eq(authSessions.id, id));
+    return session || undefined;
+  }
+
+  async getAuthSessionByRefreshTokenHash(
+    refreshTokenHash: string,
+  ): Promise<AuthSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(authSessions)
+      .where(eq(authSessions.refreshTokenHash, refreshTokenHash));
+    return session || undefined;
+  }
+
+  /**
+   * Replace the refresh token of a non-revoked session
+   * Conditional on the current hash so a token can only be rotated once
+   * Returns undefined if the session was revoked or already rotated
+   */
+  async rotateAuthSession(
+    id: string,
+    currentRefreshTokenHash: string,
+    nextRefreshTokenHash: string,
+    expiresAt: Date,
+    ipAddress: string | null,
+  ): Promise<AuthSession | undefined> {
+    const [session] = await db
+      .update(authSessions)
+      .set({
+        refreshTokenHash: nextRefreshTokenHash,
+        previousRefreshTokenHash: currentRefreshTokenHash,
+        expiresAt,
+        ipAddress,
+        lastUsedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(authSessions.id, id),
+          eq(authSessions.refreshTokenHash, currentRefreshTokenHash),
+          isNull(authSessions.revokedAt),
+        ),
+      )
+      .returning();
+    return session || undefined;
+  }
+
+  /**
+   * Revoke the session whose previous (already rotated) refresh token is
+   * presented again. Returns the revoked session, or undefined if the hash
+   * belongs to no active session.
+   */
+  async revokeAuthSessionByReusedRefreshToken(
+    refreshTokenHash: string,
+  ): Promise<AuthSession | undefined> {
+    const [session] = await db
+      .update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(authSessions.previousRefreshTokenHash, refreshTokenHash),
+          isNull(authSessions.revokedAt),
+        ),
+      )
+      .returning();
+    return session || undefined;
+  }
+
+  async touchAuthSession(id: string, ipAddress: string | null): Promise<void> {
+    await db
+      .update(authSessions)
+      .set({ lastUsedAt: new Date(), ipAddress })
+      .where(eq(authSessions.id, id));
+  }
+
+  /**
+   * Sessions that are neither revoked nor expired, most recently used first
+   */
+  async getActiveAuthSessions(userId: string): Promise<AuthSession[]> {
+    return db
+      .select()
+      .from(authSessions)
+      .where(
+        and(
+          eq(authSessions.userId, userId),
+          isNull(authSessions.revokedAt),
+          gt(authSessions.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(
+        sql`coalesce(${authSessions.lastUsedAt}, ${authSessions.createdAt}) desc`,
+      );
+  }
+
+  async revokeAuthSession(id: string): Promise<boolean> {
+    const [session] = await db
+      .update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authSessions.id, id), isNull(authSessions.revokedAt)))
+      .returning();
+    return !!session;
+  }
+
+  /**
+   * Revoke every open session of a user (e.g. after a password reset),
+   * optionally except the one making the request
+   * Returns the number of revoked sessions
+   */
+  async revokeAllAuthSessions(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const revoked = await db
+      .update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(authSessions.userId, userId),
+          isNull(authSessions.revokedAt),
+          exceptSessionId ? ne(authSessions.id, exceptSessionId) : undefined,
+        ),
+      )
+      .returning({ id: authSessions.id });
+    return revoked.length;
+  }
+
+  // ============================================================================
+  // DEVICE USERS
+  // ============================================================================
+
+  async linkDeviceUser(deviceIdHash: string, userId: string): Promise<void> {
+    await db
+      .insert(deviceUsers)
+      .values({ deviceIdHash, userId })
+      .onConflictDoUpdate({
+        target: [deviceUsers.deviceIdHash, deviceUsers.userId],
+        set: { lastLoginAt: new Date() },
+      });
+  }
+
+  async isDeviceUser(deviceIdHash: string, userId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: deviceUsers.id })
+      .from(deviceUsers)
+      .where(
+        and(
+          eq(deviceUsers.deviceIdHash, deviceIdHash),
+          eq(deviceUsers.userId, userId),
+        ),
+      );
+    return !!row;
+  }
+
+  /**
+   * Users linked to a device, most recently signed in first
+   */
+  async getDeviceUsers(deviceIdHash: string): Promise<User[]> {
+    const rows = await db
+      .select({ user: users })
+      .from(deviceUsers)
+      .innerJoin(users, eq(deviceUsers.userId, users.id))
+      .where(eq(deviceUsers.deviceIdHash, deviceIdHash))
+      .orderBy(desc(deviceUsers.lastLoginAt));
+    return rows.map((row) => row.user);
+  }
+
+  // ============================================================================
+  // PASSWORD RESET TOKENS
+  // ============================================================================
+
+  async createPasswordResetToken(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+    requestedIp: string | null;
+  }): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values(data)
+      .returning();
+    return token;
+  }
+
+  async getLatestPasswordResetToken(
+    userId: string,
+  ): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.createdAt))
+      .limit(1);
+    return token || undefined;
+  }
+
+  /**
+   * Mark all unused tokens of a user as used so only the newest one is valid
+   */
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.userId, userId),
+          isNull(passwordResetTokens.usedAt),
+        ),
+      );
+  }
+
+  /**
+   * Mark an unused, unexpired token as used
+   * Conditional update so a token can only be redeemed once
+   * Returns undefined if the token is unknown, expired or already used
+   */
+  async consumePasswordResetToken(
+    tokenHash: string,
+  ): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now),
+        ),
+      )
+      .returning();
+    return token || undefined;
+  }
+
+  // ============================================================================
+  // API KEYS
+  // ============================================================================
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || undefined;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+
+  async createApiKey(
+    data: Omit<
+      ApiKey,
+      "id" | "createdAt" | "lastUsedAt" | "lastUsedIp" | "revokedAt"
+    >,
+  ): Promise<ApiKey> {
+    const [apiKey] = await db.insert(apiKeys).values(data).returning();
+    return apiKey;
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return apiKey || undefined;
+  }
+
+  async touchApiKey(id: string, ip: string): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async createApiKeyRequest(
+    data: Omit<ApiKeyRequest, "id" | "createdAt">,
+  ): Promise<ApiKeyRequest> {
+    const [request] = await db.insert(apiKeyRequests).values(data).returning();
+    return request;
+  }
+
+  async getApiKeyRequests(
+    apiKeyId: string,
+    limit: number,
+  ): Promise<ApiKeyRequest[]> {
+    return db
+      .select()
+      .from(apiKeyRequests)
+      .where(eq(apiKeyRequests.apiKeyId, apiKeyId))
+      .orderBy(desc(apiKeyRequests.createdAt))
+      .limit(limit);
+  }
+
   // ============================================================================
   // CUSTOMERS
   // ============================================================================
@@ -255,11 +767,18 @@ export class DatabaseStorage implements IStorage {
   // WAREHOUSE CONTAINERS
   // ============================================================================
 
-  async getWarehouseContainers(): Promise<WarehouseContainer[]> {
+  async getWarehouseContainers(
+    siteId?: string | null,
+  ): Promise<WarehouseContainer[]> {
     return db
       .select()
       .from(warehouseContainers)
-      .where(eq(warehouseContainers.isActive, true));
+      .where(
+        and(
+          eq(warehouseContainers.isActive, true),
+          siteId ? eq(warehouseContainers.siteId, siteId) : undefined,
+        ),
+      );
   }
 
   async getWarehouseContainer(
@@ -313,9 +832,13 @@ export class DatabaseStorage implements IStorage {
     assignedTo?: string;
     status?: string;
     date?: Date;
+    siteId?: string | null;
   }): Promise<Task[]> {
     const conditions = [];
 
+    if (filters?.siteId) {
+      conditions.push(eq(tasks.siteId, filters.siteId));
+    }
     if (filters?.assignedTo) {
       conditions.push(eq(tasks.assignedTo, filters.assignedTo));
     }
@@ -347,25 +870,45 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createTask(
-    data: Omit<Task, "id" | "createdAt" | "updatedAt">,
+    data: Omit<Task, "id" | "createdAt" | "updatedAt" | "version">,
   ): Promise<Task> {
     const [task] = await db.insert(tasks).values(data).returning();
     return task;
   }
 
-  async updateTask(id: string, data: Partial<Task>): Promise<Task | undefined> {
-    const updateData = { ...data, updatedAt: new Date() };
+  /**
+   * Update a task and bump its version. With expectedVersion the update only
+   * applies if nobody changed the task in between (undefined otherwise)
+   */
+  async updateTask(
+    id: string,
+    data: Partial<Task>,
+    expectedVersion?: number,
+  ): Promise<Task | undefined> {
+    const fields = { ...data };
+    delete fields.version; // Only bumped here, never set by callers
     const [task] = await db
       .update(tasks)
-      .set(updateData)
-      .where(eq(tasks.id, id))
+      .set({
+        ...fields,
+        version: sql`${tasks.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(tasks.id, id),
+          expectedVersion !== undefined
+            ? eq(tasks.version, expectedVersion)
+            : undefined,
+        ),
+      )
       .returning();
     return task || undefined;
   }
 
   /**
    * Update task status with validation and automatic timestamp setting
-   * Returns undefined if transition is invalid
+   * Returns undefined if transition is invalid or the task changed meanwhile
    */
   async updateTaskStatus(
     id: string,
@@ -375,8 +918,9 @@ export class DatabaseStorage implements IStorage {
     const currentTask = await this.getTask(id);
     if (!currentTask) return undefined;
 
-    // Validate status transition
-    if (!isValidTaskTransition(currentTask.status, newStatus)) {
+    // Validate status transition against the site's customer workflow
+    const workflow = await getWorkflow("CUSTOMER", currentTask.siteId);
+    if (!findWorkflowTransition(workflow, currentTask.status, newStatus)) {
       console.warn(
         `Invalid task transition: ${currentTask.status} -> ${newStatus}`,
       );
@@ -390,7 +934,7 @@ export class DatabaseStorage implements IStorage {
     };
 
     // Set the appropriate timestamp for this status
-    const timestampField = getTimestampFieldForStatus(newStatus);
+    const timestampField = getWorkflowTimestampField(workflow, newStatus);
     if (timestampField) {
       (updateData as any)[timestampField] = new Date();
     }
@@ -416,14 +960,203 @@ export class DatabaseStorage implements IStorage {
       updateData.assignedAt = new Date();
     }
 
+    // Conditional on the version read above, a concurrent change wins
     const [task] = await db
       .update(tasks)
-      .set(updateData)
-      .where(eq(tasks.id, id))
+      .set({ ...updateData, version: sql`${tasks.version} + 1` })
+      .where(and(eq(tasks.id, id), eq(tasks.version, currentTask.version)))
       .returning();
     return task || undefined;
   }
 
+  /**
+   * Record the delivery of a task into a warehouse container in one
+   * transaction: task status (DELIVERED, then COMPLETED if the workflow
+   * allows it directly), scan event, activity logs, fill level, fill history
+   * and the customer container. Task and container are locked, so the
+   * capacity check holds against concurrent deliveries
+   */
+  async recordTaskDelivery(
+    delivery: TaskDelivery,
+  ): Promise<TaskDeliveryResult> {
+    return db.transaction(async (tx) => {
+      await lockAuditChains(tx);
+
+      const [task] = await tx
+        .select()
+        .from(tasks)
+        .where(eq(tasks.id, delivery.taskId))
+        .for("update");
+      const [container] = await tx
+        .select()
+        .from(warehouseContainers)
+        .where(eq(warehouseContainers.id, delivery.warehouseContainerId))
+        .for("update");
+      if (!task || !container) {
+        return { ok: false, reason: "NOT_FOUND" };
+      }
+
+      const workflow = await getWorkflow("CUSTOMER", task.siteId);
+      if (!findWorkflowTransition(workflow, task.status, "DELIVERED")) {
+        return { ok: false, reason: "INVALID_TRANSITION" };
+      }
+      const completes = !!findWorkflowTransition(
+        workflow,
+        "DELIVERED",
+        "COMPLETED",
+      );
+
+      // Prefer actual/measured, then planned, then estimated
+      const amount =
+        delivery.amount || task.plannedQuantity || task.estimatedAmount || 0;
+      const remainingCapacity = container.maxCapacity - container.currentAmount;
+      if (amount > remainingCapacity) {
+        return {
+          ok: false,
+          reason: "INSUFFICIENT_CAPACITY",
+          remainingCapacity,
+          requestedAmount: amount,
+        };
+      }
+
+      const now = new Date();
+      const taskUpdate: Partial<Task> = {
+        status: completes ? "COMPLETED" : "DELIVERED",
+        deliveryContainerID: container.id,
+        actualQuantity: amount,
+        updatedAt: now,
+      };
+      for (const status of completes
+        ? ["DELIVERED", "COMPLETED"]
+        : ["DELIVERED"]) {
+        const timestampField = getWorkflowTimestampField(workflow, status);
+        if (timestampField) {
+          (taskUpdate as any)[timestampField] = now;
+        }
+      }
+      const [updatedTask] = await tx
+        .update(tasks)
+        .set({ ...taskUpdate, version: sql`${tasks.version} + 1` })
+        .where(eq(tasks.id, task.id))
+        .returning();
+
+      const scanEvent = await appendScanEvent(
+        {
+          containerId: container.id,
+          containerType: "warehouse",
+          taskId: task.id,
+          scannedByUserId: delivery.userId,
+          scannedAt: now,
+          scanContext: "TASK_COMPLETE_AT_WAREHOUSE",
+          locationType: "WAREHOUSE",
+          locationDetails: container.warehouseZone || delivery.location || null,
+          geoLocation: delivery.geoLocation || null,
+          scanResult: "SUCCESS",
+          resultMessage: null,
+          extraData: null,
+        },
+        tx,
+      );
+
+      await tx.insert(activityLogs).values({
+        type: "TASK_DELIVERED",
+        action: "TASK_DELIVERED",
+        message: `Container ${task.containerID} wurde im Lager abgeliefert`,
+        userId: delivery.userId,
+        taskId: task.id,
+        containerId: container.id,
+        scanEventId: scanEvent.id,
+        location: delivery.geoLocation || null,
+        timestamp: now,
+      });
+
+      // Additive, on the locked row
+      const [updatedContainer] = await tx
+        .update(warehouseContainers)
+        .set({
+          currentAmount: sql`${warehouseContainers.currentAmount} + ${amount}`,
+          updatedAt: now,
+        })
+        .where(eq(warehouseContainers.id, container.id))
+        .returning();
+
+      await tx.insert(fillHistory).values({
+        warehouseContainerId: container.id,
+        amountAdded: amount,
+        quantityUnit: container.quantityUnit,
+        taskId: task.id,
+        recordedByUserId: delivery.userId,
+      });
+
+      const [customerContainer] = task.containerID
+        ? await tx
+            .select()
+            .from(customerContainers)
+            .where(eq(customerContainers.id, task.containerID))
+        : [];
+      if (customerContainer) {
+        await tx
+          .update(customerContainers)
+          .set({ lastEmptied: now, status: "AT_CUSTOMER", updatedAt: now })
+          .where(eq(customerContainers.id, customerContainer.id));
+      }
+
+      // Task event with what undo has to restore
+      await appendTaskEvent(
+        {
+          taskId: task.id,
+          actorUserId: delivery.userId,
+          action: "STATUS_CHANGED",
+          entityType: "task",
+          entityId: task.id,
+          beforeData: { status: task.status },
+          afterData: {
+            status: updatedTask.status,
+            deliveryContainerID: container.id,
+            actualQuantity: amount,
+          },
+          metaJson: {
+            containerId: container.id,
+            scanEventId: scanEvent.id,
+            undo: buildTaskUndoSnapshot(task, taskUpdate, updatedTask, {
+              warehouseContainer: {
+                id: container.id,
+                amountAdded: amount,
+                quantityUnit: container.quantityUnit,
+              },
+              customerContainer: customerContainer && {
+                id: customerContainer.id,
+                status: customerContainer.status,
+                lastEmptied: customerContainer.lastEmptied,
+              },
+            }),
+          },
+        },
+        tx,
+      );
+
+      if (completes) {
+        await tx.insert(activityLogs).values({
+          type: "TASK_COMPLETED",
+          action: "TASK_COMPLETED",
+          message: `Auftrag ${task.id} abgeschlossen, ${amount} ${container.quantityUnit} erfasst`,
+          userId: delivery.userId,
+          taskId: task.id,
+          containerId: container.id,
+          timestamp: now,
+          metadata: { amountAdded: amount, unit: container.quantityUnit },
+        });
+      }
+
+      return {
+        ok: true,
+        task: updatedTask,
+        container: updatedContainer,
+        amountAdded: amount,
+      };
+    });
+  }
+
   /**
    * Delete a task and handle related data (scan events, activity logs, fill history)
    * Returns true if the task was deleted, false if not found
@@ -432,11 +1165,9 @@ export class DatabaseStorage implements IStorage {
     const existingTask = await this.getTask(id);
     if (!existingTask) return false;
 
-    // Set taskId to null for related scan events (don't delete them - preserve history)
-    await db
-      .update(scanEvents)
-      .set({ taskId: null })
-      .where(eq(scanEvents.taskId, id));
+    // Set taskId to null for related scan events (don't delete them - preserve history).
+    // Redacted so the audit hash chain stays verifiable
+    await redactScanEvents(eq(scanEvents.taskId, id), { taskId: null });
 
     // Set taskId to null for related activity logs (keep logs but unlink from deleted task)
     await db
@@ -463,6 +1194,7 @@ export class DatabaseStorage implements IStorage {
     containerId?: string;
     taskId?: string;
     userId?: string;
+    siteId?: string | null;
   }): Promise<ScanEvent[]> {
     const conditions = [];
 
@@ -475,6 +1207,9 @@ export class DatabaseStorage implements IStorage {
     if (filters?.userId) {
       conditions.push(eq(scanEvents.scannedByUserId, filters.userId));
     }
+    if (filters?.siteId) {
+      conditions.push(eventSiteCondition(scanEvents.taskId, filters.siteId));
+    }
 
     if (conditions.length > 0) {
       return db
@@ -495,10 +1230,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createScanEvent(
-    data: Omit<ScanEvent, "id" | "createdAt">,
+    data: Omit<ScanEvent, "id" | "createdAt" | ChainColumns>,
   ): Promise<ScanEvent> {
-    const [event] = await db.insert(scanEvents).values(data).returning();
-    return event;
+    return appendScanEvent(data);
   }
 
   // ============================================================================
@@ -510,6 +1244,7 @@ export class DatabaseStorage implements IStorage {
     containerId?: string;
     type?: string;
     taskId?: string;
+    siteId?: string | null;
   }): Promise<ActivityLog[]> {
     const conditions = [];
 
@@ -525,6 +1260,9 @@ export class DatabaseStorage implements IStorage {
     if (filters?.taskId) {
       conditions.push(eq(activityLogs.taskId, filters.taskId));
     }
+    if (filters?.siteId) {
+      conditions.push(eventSiteCondition(activityLogs.taskId, filters.siteId));
+    }
 
     if (conditions.length > 0) {
       return db
@@ -536,6 +1274,69 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(activityLogs).orderBy(desc(activityLogs.timestamp));
   }
 
+  async getActivityLogPage(
+    filters: {
+      userId?: string;
+      containerId?: string;
+      type?: string;
+      taskId?: string;
+      from?: Date;
+      to?: Date;
+      siteId?: string | null;
+    },
+    before: ActivityLogCursor | null,
+    limit: number,
+  ): Promise<{ logs: ActivityLog[]; nextCursor: ActivityLogCursor | null }> {
+    const conditions = [];
+
+    if (filters.userId) {
+      conditions.push(eq(activityLogs.userId, filters.userId));
+    }
+    if (filters.containerId) {
+      conditions.push(eq(activityLogs.containerId, filters.containerId));
+    }
+    if (filters.type) {
+      conditions.push(eq(activityLogs.type, filters.type));
+    }
+    if (filters.taskId) {
+      conditions.push(eq(activityLogs.taskId, filters.taskId));
+    }
+    if (filters.from) {
+      conditions.push(gte(activityLogs.timestamp, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(activityLogs.timestamp, filters.to));
+    }
+    if (filters.siteId) {
+      conditions.push(eventSiteCondition(activityLogs.taskId, filters.siteId));
+    }
+    // The cursor keeps the full microsecond precision of the timestamp
+    if (before) {
+      conditions.push(
+        sql`(${activityLogs.timestamp}, ${activityLogs.id}) < (${before.ts}::timestamp, ${before.id})`,
+      );
+    }
+
+    const rows = await db
+      .select({
+        log: activityLogs,
+        cursorTs: sql<string>`${activityLogs.timestamp}::text`,
+      })
+      .from(activityLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(activityLogs.timestamp), desc(activityLogs.id))
+      .limit(limit);
+
+    const last = rows[rows.length - 1];
+    return {
+      logs: rows.map((row) => row.log),
+      nextCursor:
+        rows.length === limit && last
+          ? { ts: last.cursorTs, id: last.log.id }
+          : null,
+    };
+  }
+
   async createActivityLog(
     data: Omit<ActivityLog, "id" | "createdAt">,
   ): Promise<ActivityLog> {
@@ -609,6 +1410,99 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return !!department;
   }
+
+  // ============================================================================
+  // SITES
+  // ============================================================================
+
+  async getSites(): Promise<Site[]> {
+    return db.select().from(sites).orderBy(asc(sites.name));
+  }
+
+  async getSite(id: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.id, id));
+    return site || undefined;
+  }
+
+  async getSiteByCode(code: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.code, code));
+    return site || undefined;
+  }
+
+  async createSite(
+    data: Omit<
+      Site,
+      "id" | "createdAt" | "updatedAt" | "isActive" | "timezone"
+    > &
+      Partial<Pick<Site, "timezone">>,
+  ): Promise<Site> {
+    const [site] = await db.insert(sites).values(data).returning();
+    return site;
+  }
+
+  async updateSite(id: string, data: Partial<Site>): Promise<Site | undefined> {
+    const [site] = await db
+      .update(sites)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(sites.id, id))
+      .returning();
+    return site || undefined;
+  }
+
+  async getUserSiteIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ siteId: userSites.siteId })
+      .from(userSites)
+      .where(eq(userSites.userId, userId));
+    return rows.map((row) => row.siteId);
+  }
+
+  async getUserSiteIdsByUser(): Promise<Map<string, string[]>> {
+    const rows = await db.select().from(userSites);
+    const siteIdsByUser = new Map<string, string[]>();
+    for (const row of rows) {
+      siteIdsByUser.set(row.userId, [
+        ...(siteIdsByUser.get(row.userId) ?? []),
+        row.siteId,
+      ]);
+    }
+    return siteIdsByUser;
+  }
+
+  async setUserSites(userId: string, siteIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userSites).where(eq(userSites.userId, userId));
+      if (siteIds.length > 0) {
+        await tx
+          .insert(userSites)
+          .values(siteIds.map((siteId) => ({ userId, siteId })));
+      }
+    });
+  }
+
+  /**
+   * Move all records created before sites existed to the given site
+   * Returns the number of updated rows across all scoped tables
+   */
+  async assignUnscopedRecordsToSite(siteId: string): Promise<number> {
+    let updated = 0;
+    for (const table of [
+      halls,
+      stations,
+      stands,
+      boxes,
+      warehouseContainers,
+      tasks,
+    ]) {
+      const rows = await db
+        .update(table)
+        .set({ siteId })
+        .where(isNull(table.siteId))
+        .returning({ id: table.id });
+      updated += rows.length;
+    }
+    return updated;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,284 @@
+import {
+  TASK_UNDO_WINDOW_MINUTES,
+  boxes,
+  customerContainers,
+  fillHistory,
+  taskEvents,
+  tasks,
+  warehouseContainers,
+  type Box,
+  type Task,
+  type TaskEvent,
+  type TaskUndoInfo,
+  type User,
+} from "@shared/schema";
+import { db, type DbTransaction } from "./db";
+import { and, desc, eq, getTableColumns, sql } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { appendTaskEvent, lockAuditChains } from "./audit-chain";
+
+// ============================================================================
+// TASK UNDO
+// ============================================================================
+// A status transition stores what it changed in `metaJson.undo` of its task
+// event. Undoing restores those values (task fields incl. timestamps and
+// claim, box position, warehouse fill level) and appends a TRANSITION_UNDONE
+// event; nothing is deleted. Only the user who made the transition can undo
+// it, within TASK_UNDO_WINDOW_MINUTES and only while the task still has the
+// version the transition produced.
+
+export interface TaskUndoSnapshot {
+  /** Task version right after the transition */
+  version: number;
+  /** Previous values of the task columns the transition changed */
+  task: Record<string, unknown>;
+  box?: Pick<Box, "id" | "standId" | "status" | "currentTaskId" | "lastSeenAt">;
+  warehouseContainer?: {
+    id: string;
+    amountAdded: number;
+    quantityUnit: string;
+  };
+  customerContainer?: { id: string; status: string; lastEmptied: Date | null };
+}
+
+/**
+ * Snapshot for the task event of a transition: the previous value of every
+ * column in `changes`, plus whatever else the transition touched
+ */
+export function buildTaskUndoSnapshot(
+  before: Task,
+  changes: Record<string, unknown>,
+  updated: Task,
+  extra: Omit<TaskUndoSnapshot, "version" | "task"> = {},
+): TaskUndoSnapshot {
+  const task: Record<string, unknown> = {};
+  for (const key of Object.keys(changes)) {
+    if (key === "updatedAt" || key === "version") continue;
+    task[key] = (before as Record<string, unknown>)[key] ?? null;
+  }
+  return { version: updated.version, task, ...extra };
+}
+
+/** The box fields a transition may change */
+export function pickBoxUndoState(
+  box: Box,
+): NonNullable<TaskUndoSnapshot["box"]> {
+  return {
+    id: box.id,
+    standId: box.standId,
+    status: box.status,
+    currentTaskId: box.currentTaskId,
+    lastSeenAt: box.lastSeenAt,
+  };
+}
+
+/** jsonb turns dates into strings; convert them back for timestamp columns */
+function toColumnValues(
+  table: PgTable,
+  values: Record<string, unknown>,
+): Record<string, unknown> {
+  const columns = getTableColumns(table) as Record<
+    string,
+    { dataType: string }
+  >;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const column = columns[key];
+    if (!column) continue;
+    result[key] =
+      column.dataType === "date" && typeof value === "string"
+        ? new Date(value)
+        : value;
+  }
+  return result;
+}
+
+async function getLastUndoableEvent(
+  taskId: string,
+  executor: DbTransaction | typeof db = db,
+): Promise<TaskEvent | undefined> {
+  const [event] = await executor
+    .select()
+    .from(taskEvents)
+    .where(
+      and(
+        eq(taskEvents.taskId, taskId),
+        sql`${taskEvents.metaJson} -> 'undo' IS NOT NULL`,
+      ),
+    )
+    .orderBy(desc(taskEvents.timestamp))
+    .limit(1);
+  return event;
+}
+
+type UndoCheck =
+  | {
+      ok: true;
+      snapshot: TaskUndoSnapshot;
+      expiresAt: Date;
+    }
+  | { ok: false; status: number; error: string };
+
+function checkUndo(
+  task: Task,
+  event: TaskEvent | undefined,
+  userId: string,
+): UndoCheck {
+  const snapshot = (event?.metaJson as { undo?: TaskUndoSnapshot } | null)
+    ?.undo;
+  if (!event || !snapshot || snapshot.version !== task.version) {
+    return {
+      ok: false,
+      status: 409,
+      error: "Kein Statuswechsel zum Rückgängigmachen vorhanden",
+    };
+  }
+  if (event.actorUserId !== userId) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Nur eigene Statuswechsel können rückgängig gemacht werden",
+    };
+  }
+  const expiresAt = new Date(
+    event.timestamp.getTime() + TASK_UNDO_WINDOW_MINUTES * 60 * 1000,
+  );
+  if (expiresAt.getTime() <= Date.now()) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Rückgängig ist nur ${TASK_UNDO_WINDOW_MINUTES} Minuten lang möglich`,
+    };
+  }
+  return { ok: true, snapshot, expiresAt };
+}
+
+/**
+ * Whether the user can currently undo the last transition of the task
+ */
+export async function getTaskUndoInfo(
+  task: Task,
+  userId: string,
+): Promise<TaskUndoInfo> {
+  const check = checkUndo(task, await getLastUndoableEvent(task.id), userId);
+  if (!check.ok) {
+    return { available: false, reason: check.error };
+  }
+  return {
+    available: true,
+    fromStatus: task.status,
+    toStatus: String(check.snapshot.task.status ?? task.status),
+    expiresAt: check.expiresAt.toISOString(),
+  };
+}
+
+export type TaskUndoResult =
+  | { ok: true; task: Task; fromStatus: string; toStatus: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Reverts the user's last transition of a task in one transaction
+ */
+export async function undoLastTaskTransition(
+  taskId: string,
+  user: Pick<User, "id" | "role" | "departmentId">,
+): Promise<TaskUndoResult> {
+  return db.transaction(async (tx) => {
+    await lockAuditChains(tx);
+
+    const [task] = await tx
+      .select()
+      .from(tasks)
+      .where(eq(tasks.id, taskId))
+      .for("update");
+    if (!task) {
+      return { ok: false, status: 404, error: "Auftrag nicht gefunden" };
+    }
+
+    const event = await getLastUndoableEvent(taskId, tx);
+    const check = checkUndo(task, event, user.id);
+    if (!check.ok) return check;
+    const { snapshot } = check;
+
+    const now = new Date();
+    const [restored] = await tx
+      .update(tasks)
+      .set({
+        ...toColumnValues(tasks, snapshot.task),
+        updatedAt: now,
+        version: sql`${tasks.version} + 1`,
+      })
+      .where(eq(tasks.id, taskId))
+      .returning();
+
+    if (snapshot.box) {
+      const { id, ...boxValues } = snapshot.box;
+      await tx
+        .update(boxes)
+        .set({ ...toColumnValues(boxes, boxValues), updatedAt: now })
+        .where(eq(boxes.id, id));
+    }
+
+    // Compensating fill history entry instead of removing the original
+    if (snapshot.warehouseContainer) {
+      const { id, amountAdded, quantityUnit } = snapshot.warehouseContainer;
+      await tx
+        .update(warehouseContainers)
+        .set({
+          currentAmount: sql`GREATEST(${warehouseContainers.currentAmount} - ${amountAdded}, 0)`,
+          updatedAt: now,
+        })
+        .where(eq(warehouseContainers.id, id));
+      await tx.insert(fillHistory).values({
+        warehouseContainerId: id,
+        amountAdded: -amountAdded,
+        quantityUnit,
+        taskId,
+        recordedByUserId: user.id,
+      });
+    }
+
+    if (snapshot.customerContainer) {
+      const { id, ...containerValues } = snapshot.customerContainer;
+      await tx
+        .update(customerContainers)
+        .set({
+          ...toColumnValues(customerContainers, containerValues),
+          updatedAt: now,
+        })
+        .where(eq(customerContainers.id, id));
+    }
+
+    const undone: Record<string, unknown> = {};
+    for (const key of Object.keys(snapshot.task)) {
+      undone[key] = (task as Record<string, unknown>)[key] ?? null;
+    }
+    await appendTaskEvent(
+      {
+        taskId,
+        actorUserId: user.id,
+        actorRole: user.role || null,
+        actorDepartmentId: user.departmentId || null,
+        action: "TRANSITION_UNDONE",
+        entityType: "task",
+        entityId: taskId,
+        beforeData: undone,
+        afterData: snapshot.task,
+        metaJson: {
+          undoneEventId: event!.id,
+          boxId: snapshot.box?.id,
+          warehouseContainerId: snapshot.warehouseContainer?.id,
+          amountRemoved: snapshot.warehouseContainer?.amountAdded,
+        },
+      },
+      tx,
+    );
+
+    return {
+      ok: true,
+      task: restored,
+      fromStatus: task.status,
+      toStatus: restored.status,
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+
+// ============================================================================
+// TEST DATABASE
+// ============================================================================
+// Tests that need the database run against an in-memory PostgreSQL (PGlite)
+// with the current schema pushed by drizzle-kit. It is served on a local
+// socket so ./db connects through the regular pg driver. Every test file runs
+// in its own process and gets a fresh database.
+//
+// ./db reads DATABASE_URL when it is first imported: start the test database
+// first and import ./db, ./storage etc. dynamically afterwards.
+
+export interface TestDatabase {
+  stop: () => Promise<void>;
+}
+
+/**
+ * Start an empty test database and point DATABASE_URL at it
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const pglite = new PGlite();
+  const { pushSchema } = await import("drizzle-kit/api");
+  const push = await pushSchema(schema, drizzle(pglite) as any);
+  await push.apply();
+
+  const server = new PGLiteSocketServer({
+    db: pglite,
+    host: "127.0.0.1",
+    port: 0,
+    maxConnections: 10,
+  });
+  await server.start();
+  process.env.DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres`;
+
+  return {
+    stop: async () => {
+      const { pool } = await import("./db");
+      await pool.end();
+      await server.stop();
+      await pglite.close();
+    },
+  };
+}
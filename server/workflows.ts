@@ -0,0 +1,258 @@
+import {
+  DEFAULT_WORKFLOWS,
+  AUTOMOTIVE_USER_ROLE_LABELS,
+  workflowDefinitions,
+  tasks,
+  findWorkflowTransition,
+  describeInvalidTransition,
+  canPerformWorkflowTransition,
+  getEffectiveAutomotiveRoles,
+  type WorkflowDefinition,
+  type WorkflowDefinitionRow,
+  type WorkflowKey,
+  type WorkflowTransition,
+} from "@shared/schema";
+import { db } from "./db";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// ============================================================================
+// TASK WORKFLOWS
+// ============================================================================
+// Resolves the workflow a task runs through and checks transitions against
+// it. Lookup order: site override, global override, built-in default.
+// Definitions are cached for a minute; saving or deleting an override clears
+// the cache of this instance.
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const workflowCache = new Map<
+  string,
+  { workflow: WorkflowDefinition; expiresAt: number }
+>();
+
+function clearWorkflowCache(): void {
+  workflowCache.clear();
+}
+
+/**
+ * The effective workflow for a site (or the global one without siteId)
+ */
+export async function getWorkflow(
+  key: WorkflowKey,
+  siteId?: string | null,
+): Promise<WorkflowDefinition> {
+  const cacheKey = `${key}:${siteId || ""}`;
+  const cached = workflowCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.workflow;
+  }
+
+  const rows = await db
+    .select()
+    .from(workflowDefinitions)
+    .where(eq(workflowDefinitions.key, key));
+  const row =
+    (siteId && rows.find((r) => r.siteId === siteId)) ||
+    rows.find((r) => r.siteId === null);
+  const workflow = row
+    ? (row.definition as WorkflowDefinition)
+    : DEFAULT_WORKFLOWS[key];
+
+  workflowCache.set(cacheKey, {
+    workflow,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  });
+  return workflow;
+}
+
+/**
+ * The workflow a site (or all sites) falls back to without its own
+ * override: the global override for a site, the built-in one otherwise
+ */
+export async function getInheritedWorkflow(
+  key: WorkflowKey,
+  siteId: string | null,
+): Promise<WorkflowDefinition> {
+  if (!siteId) return DEFAULT_WORKFLOWS[key];
+  return getWorkflow(key, null);
+}
+
+/** All stored overrides, for the admin screen */
+export async function listWorkflowOverrides(): Promise<
+  WorkflowDefinitionRow[]
+> {
+  return db.select().from(workflowDefinitions);
+}
+
+function overrideCondition(key: WorkflowKey, siteId: string | null) {
+  return and(
+    eq(workflowDefinitions.key, key),
+    siteId
+      ? eq(workflowDefinitions.siteId, siteId)
+      : isNull(workflowDefinitions.siteId),
+  );
+}
+
+/**
+ * Creates or replaces the override for a key and site (null = all sites).
+ * The definition must have passed validateWorkflowDefinition
+ */
+export async function saveWorkflowOverride(
+  definition: WorkflowDefinition,
+  siteId: string | null,
+  userId: string,
+): Promise<WorkflowDefinitionRow> {
+  const [existing] = await db
+    .select()
+    .from(workflowDefinitions)
+    .where(overrideCondition(definition.key, siteId));
+
+  const [row] = existing
+    ? await db
+        .update(workflowDefinitions)
+        .set({ definition, updatedById: userId, updatedAt: new Date() })
+        .where(eq(workflowDefinitions.id, existing.id))
+        .returning()
+    : await db
+        .insert(workflowDefinitions)
+        .values({
+          key: definition.key,
+          siteId,
+          definition,
+          updatedById: userId,
+        })
+        .returning();
+  clearWorkflowCache();
+  return row;
+}
+
+/**
+ * Removes an override; the site falls back to the global or built-in
+ * workflow. Returns false if there was none
+ */
+export async function deleteWorkflowOverride(
+  key: WorkflowKey,
+  siteId: string | null,
+): Promise<boolean> {
+  const deleted = await db
+    .delete(workflowDefinitions)
+    .where(overrideCondition(key, siteId))
+    .returning({ id: workflowDefinitions.id });
+  clearWorkflowCache();
+  return deleted.length > 0;
+}
+
+/**
+ * Number of tasks per status among `statuses`, e.g. before a state is
+ * removed from a workflow. Restricted to one site when siteId is given
+ */
+export async function countTasksInStates(
+  statuses: string[],
+  siteId: string | null,
+): Promise<Record<string, number>> {
+  if (statuses.length === 0) return {};
+  const rows = await db
+    .select({ status: tasks.status, count: sql<number>`count(*)::int` })
+    .from(tasks)
+    .where(
+      and(
+        inArray(tasks.status, statuses),
+        siteId ? eq(tasks.siteId, siteId) : undefined,
+      ),
+    )
+    .groupBy(tasks.status);
+  return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+}
+
+export interface WorkflowTransitionInput {
+  scannedBoxId?: string | null;
+  scannedStandId?: string | null;
+  weightKg?: unknown;
+  targetWarehouseContainerId?: unknown;
+  reason?: unknown;
+}
+
+export type WorkflowCheckResult =
+  | { ok: true; transition: WorkflowTransition }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Checks a requested transition: allowed by the workflow (409), permitted
+ * for the user's roles (403), required scans and fields present (400).
+ * Scans are only checked with `enforceScans`; integrations without a
+ * scanner (weighing stations, API keys) use the transition endpoint
+ */
+export function checkWorkflowTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+  user: { role?: string | null; automotiveRoles?: string[] | null },
+  input: WorkflowTransitionInput,
+  options: { enforceScans: boolean },
+): WorkflowCheckResult {
+  const transition = findWorkflowTransition(workflow, from, to);
+  if (!transition) {
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: describeInvalidTransition(workflow, from, to),
+        currentStatus: from,
+        requestedStatus: to,
+      },
+    };
+  }
+
+  const roles = getEffectiveAutomotiveRoles(user);
+  if (!canPerformWorkflowTransition(transition, roles)) {
+    const requiredRoles = (transition.roles || []).map(
+      (role) => AUTOMOTIVE_USER_ROLE_LABELS[role] || role,
+    );
+    return {
+      ok: false,
+      status: 403,
+      body: {
+        error:
+          `Keine Berechtigung für Statusübergang ${from} → ${to}. ` +
+          `Erforderliche Rolle: ${requiredRoles.join(", ") || "Administrator"}`,
+        currentStatus: from,
+        requestedStatus: to,
+        userRoles: roles,
+      },
+    };
+  }
+
+  if (options.enforceScans) {
+    const scans = transition.requiredScans || [];
+    if (scans.includes("BOX") && !input.scannedBoxId) {
+      return {
+        ok: false,
+        status: 400,
+        body: { error: "Box-Scan erforderlich" },
+      };
+    }
+    if (scans.includes("STAND") && !input.scannedStandId) {
+      return {
+        ok: false,
+        status: 400,
+        body: { error: "Stand-Scan erforderlich" },
+      };
+    }
+  }
+
+  for (const field of transition.requiredFields || []) {
+    if (isMissing(input[field])) {
+      return {
+        ok: false,
+        status: 400,
+        body: { error: `${field} is required for ${to} status` },
+      };
+    }
+  }
+
+  return { ok: true, transition };
+}
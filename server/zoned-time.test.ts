@@ -0,0 +1,89 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BERLIN_TIMEZONE,
+  formatZonedDate,
+  getTimezoneOffset,
+  zonedTimeToUtc,
+} from "./zoned-time";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The results must not depend on the timezone the server process runs in
+for (const processTimezone of ["UTC", "Europe/Berlin", "America/New_York"]) {
+  describe(`zoned time with TZ=${processTimezone}`, () => {
+    const originalTimezone = process.env.TZ;
+    before(() => {
+      process.env.TZ = processTimezone;
+    });
+    after(() => {
+      if (originalTimezone === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTimezone;
+    });
+
+    test("convert winter and summer time", () => {
+      assert.equal(
+        zonedTimeToUtc("2026-01-15", "06:00", BERLIN_TIMEZONE).toISOString(),
+        "2026-01-15T05:00:00.000Z",
+      );
+      assert.equal(
+        zonedTimeToUtc("2026-07-15", "06:00", BERLIN_TIMEZONE).toISOString(),
+        "2026-07-15T04:00:00.000Z",
+      );
+      assert.equal(
+        zonedTimeToUtc("2026-07-15", "06:00", "UTC").toISOString(),
+        "2026-07-15T06:00:00.000Z",
+      );
+    });
+
+    test("move times in the March gap forward", () => {
+      // 02:30 does not exist on 29 March 2026, it becomes 03:30 CEST
+      const instant = zonedTimeToUtc("2026-03-29", "02:30", BERLIN_TIMEZONE);
+      assert.equal(instant.toISOString(), "2026-03-29T01:30:00.000Z");
+      assert.equal(
+        zonedTimeToUtc("2026-03-29", "03:00", BERLIN_TIMEZONE).toISOString(),
+        "2026-03-29T01:00:00.000Z",
+      );
+    });
+
+    test("resolve the repeated October hour to its first occurrence", () => {
+      // 02:30 occurs at 00:30 UTC (CEST) and again at 01:30 UTC (CET)
+      assert.equal(
+        zonedTimeToUtc("2026-10-25", "02:30", BERLIN_TIMEZONE).toISOString(),
+        "2026-10-25T00:30:00.000Z",
+      );
+      assert.equal(
+        zonedTimeToUtc("2026-10-25", "03:00", BERLIN_TIMEZONE).toISOString(),
+        "2026-10-25T02:00:00.000Z",
+      );
+    });
+
+    test("report the offset on both sides of a transition", () => {
+      const march = new Date("2026-03-29T01:00:00.000Z");
+      assert.equal(
+        getTimezoneOffset(new Date(march.getTime() - 1), BERLIN_TIMEZONE),
+        HOUR_MS,
+      );
+      assert.equal(getTimezoneOffset(march, BERLIN_TIMEZONE), 2 * HOUR_MS);
+
+      const october = new Date("2026-10-25T01:00:00.000Z");
+      assert.equal(
+        getTimezoneOffset(new Date(october.getTime() - 1), BERLIN_TIMEZONE),
+        2 * HOUR_MS,
+      );
+      assert.equal(getTimezoneOffset(october, BERLIN_TIMEZONE), HOUR_MS);
+      assert.equal(getTimezoneOffset(october, "UTC"), 0);
+    });
+
+    test("format the local date around midnight", () => {
+      // 23:30 UTC is already the next day in Berlin
+      const lateEvening = new Date("2026-06-30T23:30:00.000Z");
+      assert.equal(formatZonedDate(lateEvening, BERLIN_TIMEZONE), "2026-07-01");
+      assert.equal(formatZonedDate(lateEvening, "UTC"), "2026-06-30");
+      assert.equal(
+        formatZonedDate(new Date("2026-12-31T23:00:00.000Z"), BERLIN_TIMEZONE),
+        "2027-01-01",
+      );
+    });
+  });
+}
@@ -0,0 +1,137 @@
+// ============================================================================
+// ZONED TIME
+// ============================================================================
+// Conversions between instants (Date) and wall-clock time of an IANA
+// timezone, computed with Intl so that results do not depend on the timezone
+// the server process runs in. Local dates are YYYY-MM-DD, local times HH:MM.
+
+export const BERLIN_TIMEZONE = "Europe/Berlin";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Wall-clock fields of an instant in the timezone */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+/** Offset of the timezone from UTC at the instant in ms, e.g. +2h in CEST */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  const seconds = Math.floor(date.getTime() / 1000) * 1000;
+  return wallTime - seconds;
+}
+
+/** Local date (YYYY-MM-DD) of an instant in the timezone */
+export function formatZonedDate(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The instant at which a local date and time occur in the timezone. Times
+ * skipped by the switch to summer time move forward by the gap (02:30 becomes
+ * 03:30); times that occur twice in autumn resolve to the first occurrence
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timezone: string,
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+
+  // The offsets a day before and after cover both sides of a transition
+  const offsets = [
+    getTimezoneOffset(new Date(wallTime - DAY_MS), timezone),
+    getTimezoneOffset(new Date(wallTime + DAY_MS), timezone),
+  ];
+  const matches = offsets
+    .map((offset) => wallTime - offset)
+    .filter(
+      (instant) =>
+        instant + getTimezoneOffset(new Date(instant), timezone) === wallTime,
+    )
+    .sort((a, b) => a - b);
+  return new Date(matches[0] ?? wallTime - offsets[0]);
+}
+
+/** Start of the local day in the timezone */
+export function startOfZonedDay(date: string, timezone: string): Date {
+  return zonedTimeToUtc(date, "00:00", timezone);
+}
+
+// ----------------------------------------------------------------------------
+// Local date arithmetic (calendar dates, no timezone involved)
+// ----------------------------------------------------------------------------
+
+function parseLocalDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseLocalDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` */
+export function diffDays(from: string, to: string): number {
+  return Math.round(
+    (parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / DAY_MS,
+  );
+}
+
+/** Day of week of a local date, 1=Monday, 7=Sunday */
+export function getLocalWeekday(date: string): number {
+  const day = parseLocalDate(date).getUTCDay();
+  return day === 0 ? 7 : day;
+}
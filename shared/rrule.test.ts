@@ -0,0 +1,93 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { expandRRule, parseRRule } from "./rrule";
+
+function expand(rrule: string, dtstart: string, from: string, to: string) {
+  const { rule, errors } = parseRRule(rrule);
+  assert.deepEqual(errors, []);
+  return expandRRule(rule!, dtstart, from, to);
+}
+
+describe("RRULE expansion", () => {
+  test("expand every other week on several weekdays", () => {
+    assert.deepEqual(
+      expand(
+        "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH",
+        "2026-01-05",
+        "2026-01-01",
+        "2026-02-01",
+      ),
+      ["2026-01-06", "2026-01-08", "2026-01-20", "2026-01-22"],
+    );
+  });
+
+  test("expand the last Friday of the month", () => {
+    assert.deepEqual(
+      expand(
+        "RRULE:FREQ=MONTHLY;BYDAY=-1FR",
+        "2026-01-01",
+        "2026-01-01",
+        "2026-03-31",
+      ),
+      ["2026-01-30", "2026-02-27", "2026-03-27"],
+    );
+  });
+
+  test("pick the last workday of the month with BYSETPOS", () => {
+    assert.deepEqual(
+      expand(
+        "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+        "2026-01-01",
+        "2026-01-01",
+        "2026-05-31",
+      ),
+      ["2026-01-30", "2026-02-27", "2026-03-31", "2026-04-30", "2026-05-29"],
+    );
+  });
+
+  test("skip months without the day", () => {
+    assert.deepEqual(
+      expand(
+        "FREQ=MONTHLY;BYMONTHDAY=31",
+        "2026-01-31",
+        "2026-01-01",
+        "2026-05-31",
+      ),
+      ["2026-01-31", "2026-03-31", "2026-05-31"],
+    );
+    assert.deepEqual(
+      expand(
+        "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29",
+        "2024-01-01",
+        "2024-01-01",
+        "2030-12-31",
+      ),
+      ["2024-02-29", "2028-02-29"],
+    );
+  });
+
+  test("count occurrences from the start, not from the window", () => {
+    assert.deepEqual(
+      expand("FREQ=DAILY;COUNT=3", "2026-03-01", "2026-03-02", "2026-03-10"),
+      ["2026-03-02", "2026-03-03"],
+    );
+  });
+
+  test("include the UNTIL date", () => {
+    assert.deepEqual(
+      expand(
+        "FREQ=DAILY;INTERVAL=3;UNTIL=20260307",
+        "2026-03-01",
+        "2026-03-01",
+        "2026-03-31",
+      ),
+      ["2026-03-01", "2026-03-04", "2026-03-07"],
+    );
+  });
+
+  test("reject times of day in the rule", () => {
+    const { rule, errors } = parseRRule("FREQ=DAILY;BYHOUR=6");
+    assert.equal(rule, undefined);
+    assert.equal(errors.length, 1);
+  });
+});
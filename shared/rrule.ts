@@ -0,0 +1,574 @@
+// ============================================================================
+// RECURRENCE RULES (RFC 5545 RRULE)
+// ============================================================================
+// Day-level subset of RFC 5545 used by task schedules with ruleType RRULE:
+// FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with
+// ordinals for MONTHLY/YEARLY), BYMONTHDAY, BYMONTH, BYSETPOS and WKST.
+// Times of day are not part of the rule; schedules keep them in timesLocal.
+// Dates are local calendar dates (YYYY-MM-DD) of the schedule's timezone.
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RRuleWeekday {
+  weekday: number; // 1=Monday, 7=Sunday
+  ordinal?: number; // e.g. 1 = first, -1 = last in the month/year
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+}
+
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const UNSUPPORTED_PARTS: Record<string, string> = {
+  BYHOUR: "BYHOUR wird nicht unterstützt, Uhrzeiten im Zeitplan angeben",
+  BYMINUTE: "BYMINUTE wird nicht unterstützt, Uhrzeiten im Zeitplan angeben",
+  BYSECOND: "BYSECOND wird nicht unterstützt",
+  BYWEEKNO: "BYWEEKNO wird nicht unterstützt",
+  BYYEARDAY: "BYYEARDAY wird nicht unterstützt",
+};
+
+// Stops expansion of rules that never produce a date (e.g. 30 February)
+const MAX_PERIODS = 40000;
+
+function parseIntList(
+  value: string,
+  name: string,
+  min: number,
+  max: number,
+  errors: string[],
+): number[] {
+  const numbers = value.split(",").map((part) => Number(part));
+  if (
+    numbers.some((n) => !Number.isInteger(n) || n === 0 || n < min || n > max)
+  ) {
+    errors.push(`${name} muss Zahlen zwischen ${min} und ${max} enthalten`);
+  }
+  return numbers;
+}
+
+function parseRRuleDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidLocalDate(date) ? date : null;
+}
+
+/**
+ * Parses an RRULE value ("FREQ=...;..." with or without "RRULE:" prefix)
+ */
+export function parseRRule(value: string): {
+  rule?: RRule;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const text = value.trim().replace(/^RRULE:/i, "");
+  if (!text) return { errors: ["Regel ist leer"] };
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(";")) {
+    if (!part) continue;
+    const [key, partValue] = part.split("=");
+    if (!partValue) {
+      errors.push(`Ungültiger Teil "${part}"`);
+      continue;
+    }
+    const name = key.trim().toUpperCase();
+    if (parts.has(name)) errors.push(`${name} ist doppelt angegeben`);
+    parts.set(name, partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RRuleFrequency | undefined;
+  if (!freq) {
+    errors.push("FREQ fehlt");
+  } else if (!FREQUENCIES.includes(freq)) {
+    errors.push("FREQ muss DAILY, WEEKLY, MONTHLY oder YEARLY sein");
+  }
+
+  const rule: RRule = { freq: freq ?? "DAILY", interval: 1, wkst: 1 };
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+      case "COUNT": {
+        const n = Number(partValue);
+        if (!Number.isInteger(n) || n < 1) {
+          errors.push(`${name} muss eine positive ganze Zahl sein`);
+        } else if (name === "INTERVAL") {
+          rule.interval = n;
+        } else {
+          rule.count = n;
+        }
+        break;
+      }
+      case "UNTIL": {
+        const until = parseRRuleDate(partValue);
+        if (!until) errors.push("UNTIL muss ein Datum (JJJJMMTT) sein");
+        else rule.until = until;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = partValue.split(",").map((day) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day);
+          if (!match) {
+            errors.push(`Ungültiger Wochentag "${day}"`);
+            return { weekday: 1 };
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (
+            ordinal !== undefined &&
+            (ordinal === 0 || Math.abs(ordinal) > 53)
+          ) {
+            errors.push(`Ungültige Position in "${day}"`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]) + 1, ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(partValue, name, -31, 31, errors);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(partValue, name, 1, 12, errors);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(partValue, name, -366, 366, errors);
+        break;
+      case "WKST":
+        if (!WEEKDAY_CODES.includes(partValue)) {
+          errors.push("WKST muss ein Wochentag (MO-SU) sein");
+        } else {
+          rule.wkst = WEEKDAY_CODES.indexOf(partValue) + 1;
+        }
+        break;
+      default:
+        errors.push(
+          UNSUPPORTED_PARTS[name] ?? `${name} wird nicht unterstützt`,
+        );
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    errors.push("COUNT und UNTIL dürfen nicht zusammen verwendet werden");
+  }
+  const hasOrdinals = rule.byDay?.some((day) => day.ordinal !== undefined);
+  if (hasOrdinals && (rule.freq === "DAILY" || rule.freq === "WEEKLY")) {
+    errors.push("Positionen in BYDAY (z.B. 1MO) nur bei MONTHLY oder YEARLY");
+  }
+  if (rule.byMonthDay && rule.freq === "WEEKLY") {
+    errors.push("BYMONTHDAY ist bei WEEKLY nicht erlaubt");
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+    errors.push("BYSETPOS braucht BYDAY, BYMONTHDAY oder BYMONTH");
+  }
+
+  return errors.length > 0 ? { errors } : { rule, errors };
+}
+
+/** Canonical RRULE value of a parsed rule (without "RRULE:" prefix) */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay) {
+    const days = rule.byDay.map(
+      (day) => `${day.ordinal ?? ""}${WEEKDAY_CODES[day.weekday - 1]}`,
+    );
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst - 1]}`);
+  return parts.join(";");
+}
+
+// ----------------------------------------------------------------------------
+// Local date helpers (calendar dates as UTC midnight, no timezone involved)
+// ----------------------------------------------------------------------------
+
+function toUtc(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromUtc(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isValidLocalDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    fromUtc(toUtc(value)) === value
+  );
+}
+
+/** 1=Monday, 7=Sunday */
+function weekdayOf(date: string): number {
+  const day = toUtc(date).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+function shiftDays(date: string, days: number): string {
+  const result = toUtc(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtc(result);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function makeDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function datesBetween(first: string, last: string): string[] {
+  const dates: string[] = [];
+  for (let date = first; date <= last; date = shiftDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Dates of `dates` matching BYDAY, ordinals counted within `dates` */
+function filterByDay(dates: string[], byDay: RRuleWeekday[]): string[] {
+  const matches = new Set<string>();
+  for (const { weekday, ordinal } of byDay) {
+    const sameWeekday = dates.filter((date) => weekdayOf(date) === weekday);
+    if (ordinal === undefined) {
+      sameWeekday.forEach((date) => matches.add(date));
+    } else {
+      const date =
+        sameWeekday[ordinal > 0 ? ordinal - 1 : sameWeekday.length + ordinal];
+      if (date) matches.add(date);
+    }
+  }
+  return dates.filter((date) => matches.has(date));
+}
+
+function filterByMonthDay(dates: string[], byMonthDay: number[]): string[] {
+  return dates.filter((date) => {
+    const year = Number(date.slice(0, 4));
+    const month = Number(date.slice(5, 7));
+    const day = Number(date.slice(8, 10));
+    const length = daysInMonth(year, month);
+    return byMonthDay.some((n) => (n > 0 ? n : length + n + 1) === day);
+  });
+}
+
+/** Candidate dates of one period, before BYSETPOS */
+function getPeriodDates(rule: RRule, periodStart: string, dtstart: string) {
+  const year = Number(periodStart.slice(0, 4));
+  const month = Number(periodStart.slice(5, 7));
+  let dates: string[];
+
+  switch (rule.freq) {
+    case "DAILY":
+      dates = [periodStart];
+      if (rule.byMonthDay) dates = filterByMonthDay(dates, rule.byMonthDay);
+      if (rule.byDay) dates = filterByDay(dates, rule.byDay);
+      break;
+    case "WEEKLY":
+      dates = datesBetween(periodStart, shiftDays(periodStart, 6));
+      dates = filterByDay(
+        dates,
+        rule.byDay ?? [{ weekday: weekdayOf(dtstart) }],
+      );
+      break;
+    case "MONTHLY": {
+      dates = datesBetween(
+        makeDate(year, month, 1),
+        makeDate(year, month, daysInMonth(year, month)),
+      );
+      if (!rule.byDay && !rule.byMonthDay) {
+        dates = filterByMonthDay(dates, [Number(dtstart.slice(8, 10))]);
+      }
+      if (rule.byMonthDay) dates = filterByMonthDay(dates, rule.byMonthDay);
+      if (rule.byDay) dates = filterByDay(dates, rule.byDay);
+      break;
+    }
+    case "YEARLY": {
+      const months = rule.byMonth ?? [Number(dtstart.slice(5, 7))];
+      const monthDates = (m: number) =>
+        datesBetween(
+          makeDate(year, m, 1),
+          makeDate(year, m, daysInMonth(year, m)),
+        );
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        // Ordinals count within the whole year, e.g. 20MO
+        dates = filterByDay(
+          datesBetween(makeDate(year, 1, 1), makeDate(year, 12, 31)),
+          rule.byDay,
+        );
+      } else {
+        dates = [];
+        for (const m of [...months].sort((a, b) => a - b)) {
+          let candidates = monthDates(m);
+          if (!rule.byDay && !rule.byMonthDay) {
+            candidates = filterByMonthDay(candidates, [
+              Number(dtstart.slice(8, 10)),
+            ]);
+          }
+          if (rule.byMonthDay) {
+            candidates = filterByMonthDay(candidates, rule.byMonthDay);
+          }
+          if (rule.byDay) candidates = filterByDay(candidates, rule.byDay);
+          dates.push(...candidates);
+        }
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth) {
+    dates = dates.filter((date) =>
+      rule.byMonth!.includes(Number(date.slice(5, 7))),
+    );
+  }
+  return dates;
+}
+
+function getFirstPeriodStart(rule: RRule, dtstart: string): string {
+  switch (rule.freq) {
+    case "DAILY":
+      return dtstart;
+    case "WEEKLY":
+      return shiftDays(dtstart, -((weekdayOf(dtstart) - rule.wkst + 7) % 7));
+    case "MONTHLY":
+      return `${dtstart.slice(0, 7)}-01`;
+    case "YEARLY":
+      return `${dtstart.slice(0, 4)}-01-01`;
+  }
+}
+
+function getNextPeriodStart(rule: RRule, periodStart: string): string {
+  const year = Number(periodStart.slice(0, 4));
+  const month = Number(periodStart.slice(5, 7));
+  switch (rule.freq) {
+    case "DAILY":
+      return shiftDays(periodStart, rule.interval);
+    case "WEEKLY":
+      return shiftDays(periodStart, 7 * rule.interval);
+    case "MONTHLY": {
+      const index = year * 12 + (month - 1) + rule.interval;
+      return makeDate(Math.floor(index / 12), (index % 12) + 1, 1);
+    }
+    case "YEARLY":
+      return makeDate(year + rule.interval, 1, 1);
+  }
+}
+
+/**
+ * Occurrence dates of the rule between `from` and `to` (inclusive), counted
+ * from `dtstart`
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: string,
+  from: string,
+  to: string,
+): string[] {
+  const result: string[] = [];
+  let emitted = 0;
+  let periodStart = getFirstPeriodStart(rule, dtstart);
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (periodStart > to || (rule.until && periodStart > rule.until)) break;
+
+    let dates = getPeriodDates(rule, periodStart, dtstart);
+    if (rule.bySetPos) {
+      const all = dates;
+      dates = rule.bySetPos
+        .map((pos) => all[pos > 0 ? pos - 1 : all.length + pos])
+        .filter((date): date is string => !!date)
+        .sort();
+      dates = dates.filter((date, index) => dates.indexOf(date) === index);
+    }
+
+    for (const date of dates) {
+      if (date < dtstart) continue;
+      if (rule.until && date > rule.until) return result;
+      if (rule.count !== undefined && emitted >= rule.count) return result;
+      emitted++;
+      if (date > to) return result;
+      if (date >= from) result.push(date);
+    }
+    periodStart = getNextPeriodStart(rule, periodStart);
+  }
+  return result;
+}
+
+/** The shorthand rule types as RRULE */
+export function shorthandToRRule(schedule: {
+  ruleType: string;
+  weekdays?: number[] | null;
+  everyNDays?: number | null;
+}): RRule | null {
+  switch (schedule.ruleType) {
+    case "DAILY":
+      return { freq: "DAILY", interval: 1, wkst: 1 };
+    case "WEEKLY":
+      if (!schedule.weekdays?.length) return null;
+      return {
+        freq: "WEEKLY",
+        interval: 1,
+        wkst: 1,
+        byDay: [...schedule.weekdays]
+          .sort((a, b) => a - b)
+          .map((weekday) => ({ weekday })),
+      };
+    case "INTERVAL":
+      if (!schedule.everyNDays || schedule.everyNDays < 1) return null;
+      return { freq: "DAILY", interval: schedule.everyNDays, wkst: 1 };
+    default:
+      return null;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Human-readable summary (German)
+// ----------------------------------------------------------------------------
+
+const WEEKDAY_LABELS = [
+  "Montag",
+  "Dienstag",
+  "Mittwoch",
+  "Donnerstag",
+  "Freitag",
+  "Samstag",
+  "Sonntag",
+];
+const MONTH_LABELS = [
+  "Januar",
+  "Februar",
+  "März",
+  "April",
+  "Mai",
+  "Juni",
+  "Juli",
+  "August",
+  "September",
+  "Oktober",
+  "November",
+  "Dezember",
+];
+const ORDINAL_LABELS: Record<number, string> = {
+  1: "ersten",
+  2: "zweiten",
+  3: "dritten",
+  4: "vierten",
+  5: "fünften",
+  [-1]: "letzten",
+  [-2]: "vorletzten",
+};
+
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join("");
+  return `${labels.slice(0, -1).join(", ")} und ${labels[labels.length - 1]}`;
+}
+
+function ordinalLabel(n: number): string {
+  return ORDINAL_LABELS[n] ?? (n > 0 ? `${n}.` : `${-n}.-letzten`);
+}
+
+export function formatLocalDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}.${month}.${year}`;
+}
+
+/**
+ * German summary, e.g. "Alle 2 Wochen am Dienstag und Donnerstag"
+ */
+export function describeRRule(rule: RRule): string {
+  const units: Record<RRuleFrequency, [string, string]> = {
+    DAILY: ["Täglich", "Tage"],
+    WEEKLY: ["Wöchentlich", "Wochen"],
+    MONTHLY: ["Monatlich", "Monate"],
+    YEARLY: ["Jährlich", "Jahre"],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval > 1 ? `Alle ${rule.interval} ${plural}` : single;
+
+  if (rule.byMonth && rule.freq === "YEARLY") {
+    text += ` im ${joinLabels(rule.byMonth.map((m) => MONTH_LABELS[m - 1]))}`;
+  }
+  const dayParts: string[] = [];
+  if (rule.byMonthDay) {
+    dayParts.push(
+      joinLabels(
+        rule.byMonthDay.map((n) =>
+          n > 0 ? `${n}.` : n === -1 ? "letzten Tag" : `${-n}.-letzten Tag`,
+        ),
+      ),
+    );
+  }
+  if (rule.byDay) {
+    dayParts.push(
+      joinLabels(
+        rule.byDay.map(({ weekday, ordinal }) =>
+          ordinal === undefined
+            ? WEEKDAY_LABELS[weekday - 1]
+            : `${ordinalLabel(ordinal)} ${WEEKDAY_LABELS[weekday - 1]}`,
+        ),
+      ),
+    );
+  }
+  if (dayParts.length > 0) text += ` am ${dayParts.join(", ")}`;
+  if (rule.byMonth && rule.freq !== "YEARLY") {
+    text += ` (nur ${joinLabels(rule.byMonth.map((m) => MONTH_LABELS[m - 1]))})`;
+  }
+  if (rule.bySetPos) {
+    const positions = rule.bySetPos.map((n) =>
+      ordinalLabel(n).replace(/n$/, ""),
+    );
+    text += `, davon jeweils der ${joinLabels(positions)} Termin`;
+  }
+  if (rule.count !== undefined) text += `, ${rule.count} Mal`;
+  if (rule.until) text += `, bis ${formatLocalDate(rule.until)}`;
+  return text;
+}
+
+/**
+ * German summary of a task schedule incl. times and EXDATEs, null if its
+ * rule is incomplete or invalid
+ */
+export function describeSchedule(schedule: {
+  ruleType: string;
+  weekdays?: number[] | null;
+  everyNDays?: number | null;
+  rrule?: string | null;
+  timeLocal?: string | null;
+  timesLocal?: string[] | null;
+  exdates?: string[] | null;
+}): string | null {
+  const rule =
+    schedule.ruleType === "RRULE"
+      ? parseRRule(schedule.rrule || "").rule
+      : shorthandToRRule(schedule);
+  if (!rule) return null;
+
+  let text = describeRRule(rule);
+  const times = schedule.timesLocal?.length
+    ? schedule.timesLocal
+    : schedule.timeLocal
+      ? [schedule.timeLocal]
+      : [];
+  if (times.length > 0) text += ` um ${joinLabels(times)} Uhr`;
+  const exdates = schedule.exdates ?? [];
+  if (exdates.length > 3) {
+    text += `, außer an ${exdates.length} Tagen`;
+  } else if (exdates.length > 0) {
+    text += `, außer am ${joinLabels(exdates.map(formatLocalDate))}`;
+  }
+  return text;
+}
@@ -9,6 +9,7 @@ import {
   real,
   jsonb,
   pgEnum,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -101,6 +102,10 @@ export const activityLogTypeEnum = pgEnum("activity_log_type", [
   "WEIGHT_RECORDED",
   "MANUAL_EDIT",
   "SYSTEM_EVENT",
+  "ACCOUNT_LOCKED",
+  "ACCOUNT_UNLOCKED",
+  "PASSWORD_RESET",
+  "REFRESH_TOKEN_REUSED",
 ]);
 
 /**
@@ -189,12 +194,73 @@ export const taskScheduleRuleTypeEnum = pgEnum("task_schedule_rule_type", [
   "DAILY", // Every day
   "WEEKLY", // Specific weekdays
   "INTERVAL", // Every N days from start date
+  "RRULE", // RFC 5545 recurrence rule (shared/rrule.ts)
 ]);
 
 // ============================================================================
 // TABLES
 // ============================================================================
 
+/**
+ * Sites Table
+ * Plants (Werke) the factory data belongs to. Halls, stations, stands, boxes,
+ * warehouse containers and tasks carry a siteId; list endpoints and analytics
+ * filter by the site selected in the app (X-Site-Id header)
+ */
+export const sites = pgTable("sites", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  code: text("code").notNull().unique(), // e.g. "KL"
+  city: text("city"),
+  timezone: text("timezone").notNull().default("Europe/Berlin"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const sitesRelations = relations(sites, ({ many }) => ({
+  userSites: many(userSites),
+  halls: many(halls),
+  tasks: many(tasks),
+}));
+
+/**
+ * User Sites Table
+ * Sites a user may work on. Users without any row have access to all
+ * sites; admins always have access to all sites
+ */
+export const userSites = pgTable(
+  "user_sites",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id),
+    siteId: varchar("site_id")
+      .notNull()
+      .references(() => sites.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    userSiteUnique: unique().on(table.userId, table.siteId),
+  }),
+);
+
+export const userSitesRelations = relations(userSites, ({ one }) => ({
+  user: one(users, {
+    fields: [userSites.userId],
+    references: [users.id],
+  }),
+  site: one(sites, {
+    fields: [userSites.siteId],
+    references: [sites.id],
+  }),
+}));
+
 /**
  * Departments Table
  * Organizational units for grouping users and tracking context
@@ -229,8 +295,15 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   phone: text("phone"),
   role: text("role").notNull().default("DRIVER"), // ADMIN or DRIVER
+  automotiveRoles: text("automotive_roles")
+    .array()
+    .notNull()
+    .default(sql`'{}'::text[]`), // Granted automotive roles: PICKUP_DRIVER, WAREHOUSE, DISPOSAL
   departmentId: varchar("department_id").references(() => departments.id),
+  pinHash: text("pin_hash"), // Optional 4-6 digit quick-switch PIN (scrypt)
+  pinUpdatedAt: timestamp("pin_updated_at"),
   isActive: boolean("is_active").notNull().default(true),
+  anonymizedAt: timestamp("anonymized_at"), // Personal data scrubbed (GDPR), account can't be reactivated
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -247,6 +320,190 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   scanEvents: many(scanEvents),
   activityLogs: many(activityLogs),
   taskEvents: many(taskEvents),
+  authSessions: many(authSessions),
+  userSites: many(userSites),
+}));
+
+/**
+ * Auth Sessions Table
+ * One row per login (= one device). Holds the hash of the current refresh
+ * token; the short-lived access tokens reference the session via its id
+ * (sid claim). Device name, platform and IP are shown in the "Geräte" lists
+ */
+export const authSessions = pgTable("auth_sessions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  // Token replaced by the last rotation; presenting it again means it leaked
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  deviceName: text("device_name"), // e.g. "Zebra TC52", "iPhone"
+  platform: text("platform"), // e.g. "android 33", "ios 17.4", "web"
+  ipAddress: text("ip_address"), // Last seen client IP
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"), // Last activity (API request)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const authSessionsRelations = relations(authSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [authSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+/**
+ * Login Throttles Table
+ * Failed login attempt counters per scope (EMAIL, IP) and key
+ * blockedUntil enforces the progressive delay between attempts,
+ * lockedUntil the temporary lockout after too many failures
+ */
+export const loginThrottles = pgTable(
+  "login_throttles",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    scope: text("scope").notNull(), // EMAIL, IP, PIN
+    key: text("key").notNull(), // Lowercased email, client IP or user id (PIN)
+    failedCount: integer("failed_count").notNull().default(0),
+    firstFailedAt: timestamp("first_failed_at"),
+    lastFailedAt: timestamp("last_failed_at"),
+    blockedUntil: timestamp("blocked_until"),
+    lockedUntil: timestamp("locked_until"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    scopeKeyUnique: unique().on(table.scope, table.key),
+  }),
+);
+
+/**
+ * Device Users Table
+ * Users who signed in with their password on a device. Only these users can
+ * use their PIN on that device (quick switch on shared scanners).
+ * The client-generated device id is stored as SHA-256 hash
+ */
+export const deviceUsers = pgTable(
+  "device_users",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    deviceIdHash: text("device_id_hash").notNull(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id),
+    lastLoginAt: timestamp("last_login_at").notNull().defaultNow(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    deviceUserUnique: unique().on(table.deviceIdHash, table.userId),
+  }),
+);
+
+/**
+ * Password Reset Tokens Table
+ * One-time tokens for self-service password reset
+ * Only the SHA-256 hash of the token is stored; usedAt marks consumption
+ */
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Mail Outbox Table
+ * Every outgoing mail is written here first and then handed to the
+ * configured mail transport (see server/mailer.ts)
+ */
+export const mailOutbox = pgTable("mail_outbox", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  status: text("status").notNull().default("PENDING"), // PENDING, SENT, FAILED
+  transport: text("transport"), // Name of the transport that handled the mail
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * API Keys Table
+ * Admin-managed credentials for machine-to-machine integrations (scales,
+ * MES, reporting). Requests made with a key act as the linked user but are
+ * limited to the key's scopes. Only the SHA-256 hash of the key is stored;
+ * keyPrefix is the visible part used to recognize a key in lists and logs
+ */
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().notNull(), // See API_KEY_SCOPES
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id), // User the key acts as
+  createdById: varchar("created_by_id").references(() => users.id),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const apiKeysRelations = relations(apiKeys, ({ one, many }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+  requests: many(apiKeyRequests),
+}));
+
+/**
+ * API Key Requests Table
+ * Audit trail: one row per request authenticated with an API key
+ */
+export const apiKeyRequests = pgTable("api_key_requests", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  apiKeyId: varchar("api_key_id")
+    .notNull()
+    .references(() => apiKeys.id),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code"),
+  ip: text("ip"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const apiKeyRequestsRelations = relations(apiKeyRequests, ({ one }) => ({
+  apiKey: one(apiKeys, {
+    fields: [apiKeyRequests.apiKeyId],
+    references: [apiKeys.id],
+  }),
 }));
 
 /**
@@ -343,6 +600,7 @@ export const halls = pgTable("halls", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
+  siteId: varchar("site_id").references(() => sites.id),
   name: text("name").notNull(),
   code: text("code").notNull().unique(),
   description: text("description"),
@@ -354,7 +612,11 @@ export const halls = pgTable("halls", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const hallsRelations = relations(halls, ({ many }) => ({
+export const hallsRelations = relations(halls, ({ one, many }) => ({
+  site: one(sites, {
+    fields: [halls.siteId],
+    references: [sites.id],
+  }),
   stations: many(stations),
 }));
 
@@ -371,6 +633,7 @@ export const stations = pgTable(
     hallId: varchar("hall_id")
       .notNull()
       .references(() => halls.id),
+    siteId: varchar("site_id").references(() => sites.id), // Copied from the hall
     name: text("name").notNull(),
     code: text("code").notNull(),
     sequence: integer("sequence"),
@@ -405,6 +668,7 @@ export const stands = pgTable("stands", {
   stationId: varchar("station_id")
     .notNull()
     .references(() => stations.id),
+  siteId: varchar("site_id").references(() => sites.id), // Copied from the station
   identifier: text("identifier").notNull(),
   materialId: varchar("material_id").references(() => materials.id),
   qrCode: text("qr_code").notNull().unique(),
@@ -446,13 +710,17 @@ export const taskSchedules = pgTable("task_schedules", {
     .notNull()
     .references(() => stands.id),
   stationId: varchar("station_id").references(() => stations.id),
-  ruleType: text("rule_type").notNull(), // DAILY, WEEKLY, INTERVAL
-  timeLocal: text("time_local").notNull(), // e.g., "06:00"
+  ruleType: text("rule_type").notNull(), // DAILY, WEEKLY, INTERVAL, RRULE
+  timeLocal: text("time_local").notNull(), // e.g., "06:00"; first of timesLocal
+  timesLocal: text("times_local").array(), // All times per day, e.g. ["06:00", "14:00"]
   weekdays: integer("weekdays").array(), // For WEEKLY: [1,2,3,4,5] = Mon-Fri (1=Monday, 7=Sunday)
   everyNDays: integer("every_n_days"), // For INTERVAL: every N days
-  startDate: timestamp("start_date"), // For INTERVAL: start date for counting
+  startDate: timestamp("start_date"), // For INTERVAL and RRULE: start date for counting
+  rrule: text("rrule"), // For RRULE: e.g. "FREQ=MONTHLY;BYDAY=1MO"
+  exdates: text("exdates").array(), // Local dates (YYYY-MM-DD) without tasks
   timezone: text("timezone").notNull().default("Europe/Berlin"),
   createDaysAhead: integer("create_days_ahead").notNull().default(7),
+  calendarMode: text("calendar_mode").notNull().default("IGNORE"), // IGNORE, SKIP, SHIFT on non-working days
   createdById: varchar("created_by_id").references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -486,6 +754,7 @@ export const boxes = pgTable("boxes", {
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   standId: varchar("stand_id").references(() => stands.id),
+  siteId: varchar("site_id").references(() => sites.id),
   qrCode: text("qr_code").notNull().unique(),
   serial: text("serial").notNull().unique(),
   status: text("status").notNull().default("AT_STAND"),
@@ -516,6 +785,7 @@ export const boxesRelations = relations(boxes, ({ one, many }) => ({
  */
 export const warehouseContainers = pgTable("warehouse_containers", {
   id: varchar("id").primaryKey(),
+  siteId: varchar("site_id").references(() => sites.id),
   location: text("location").notNull(),
   warehouseZone: text("warehouse_zone"), // e.g., "A-17", "Tor 3"
   qrCode: text("qr_code").notNull().unique(),
@@ -601,6 +871,9 @@ export const tasks = pgTable("tasks", {
     .primaryKey()
     .default(sql`gen_random_uuid()`),
 
+  // Site (copied from the stand for automotive tasks)
+  siteId: varchar("site_id").references(() => sites.id),
+
   // Task Details
   title: text("title"), // Short description, e.g., "Abholung bei ABC GmbH"
   description: text("description"), // Detailed description
@@ -629,6 +902,7 @@ export const tasks = pgTable("tasks", {
 
   // Status and Lifecycle
   status: text("status").notNull().default("OFFEN"), // Changed default from PLANNED to OFFEN
+  version: integer("version").notNull().default(1), // Bumped on every update, for optimistic concurrency
 
   // Lifecycle Timestamps - Set when status changes
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -683,12 +957,16 @@ export const tasks = pgTable("tasks", {
 
   // Daily task scheduling
   scheduledFor: timestamp("scheduled_for"), // Date for which daily task is scheduled
-  dedupKey: text("dedup_key").unique(), // Format: SCHED:${scheduleId}:${YYYY-MM-DD} or DAILY:${standId}:${YYYY-MM-DD}
+  dedupKey: text("dedup_key").unique(), // Format: SCHED:${scheduleId}:${YYYY-MM-DD}:${HH:MM}, SCHED:${scheduleId}:${YYYY-MM-DD} (manual run) or DAILY:${standId}:${YYYY-MM-DD}
 
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
+  site: one(sites, {
+    fields: [tasks.siteId],
+    references: [sites.id],
+  }),
   container: one(customerContainers, {
     fields: [tasks.containerID],
     references: [customerContainers.id],
@@ -743,15 +1021,16 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
 
 /**
  * Task Events Table
- * Audit trail for task state changes and actions
+ * Audit trail for task state changes and actions. Master-data changes
+ * (materials, halls, stations, stands, boxes, users, departments, sites)
+ * are recorded here as well, without a taskId and keyed by entityType/entityId.
+ * Rows form a tamper-evident hash chain and are only written via appendTaskEvent
  */
 export const taskEvents = pgTable("task_events", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  taskId: varchar("task_id")
-    .notNull()
-    .references(() => tasks.id),
+  taskId: varchar("task_id").references(() => tasks.id), // null for master-data events
   actorUserId: varchar("actor_user_id").references(() => users.id),
   action: text("action").notNull(),
   entityType: text("entity_type"),
@@ -764,6 +1043,12 @@ export const taskEvents = pgTable("task_events", {
   ),
   metaJson: jsonb("meta_json"), // Contains stationId, hallId, standId, boxId, materialId, containerId, qrType
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+
+  // Hash chain, maintained by server/audit-chain.ts
+  chainSeq: integer("chain_seq").unique(),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+  redactions: jsonb("redactions"), // { field: digest of the original value }
 });
 
 export const taskEventsRelations = relations(taskEvents, ({ one }) => ({
@@ -826,6 +1111,12 @@ export const scanEvents = pgTable("scan_events", {
   extraData: jsonb("extra_data"),
 
   createdAt: timestamp("created_at").notNull().defaultNow(),
+
+  // Hash chain, maintained by server/audit-chain.ts
+  chainSeq: integer("chain_seq").unique(),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+  redactions: jsonb("redactions"), // { field: digest of the original value }
 });
 
 export const scanEventsRelations = relations(scanEvents, ({ one }) => ({
@@ -891,6 +1182,190 @@ export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
   }),
 }));
 
+/**
+ * Retention Policies Table
+ * One row per event table (scan_events, activity_logs, task_events).
+ * Rows older than hotMonths are moved out of the hot table by the hourly
+ * retention job (see server/retention.ts), either into event_archive or
+ * into gzipped NDJSON files. The run columns carry the progress shown on
+ * the admin dashboard
+ */
+export const retentionPolicies = pgTable("retention_policies", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  tableName: text("table_name").notNull().unique(), // scan_events, activity_logs, task_events
+  hotMonths: integer("hot_months").notNull().default(24),
+  mode: text("mode").notNull().default("ARCHIVE_TABLE"), // ARCHIVE_TABLE, NDJSON
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  status: text("status").notNull().default("IDLE"), // IDLE, RUNNING, FAILED
+  pendingRows: integer("pending_rows").notNull().default(0), // Rows due at the start of the run
+  processedRows: integer("processed_rows").notNull().default(0), // Rows moved in the current/last run
+  totalArchivedRows: integer("total_archived_rows").notNull().default(0),
+  lastRunStartedAt: timestamp("last_run_started_at"),
+  lastRunFinishedAt: timestamp("last_run_finished_at"),
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/**
+ * Event Archive Table
+ * Cold storage for rows moved out of the event tables. data holds the full
+ * original row (snake_case columns, including chain hashes), so archived
+ * task and scan events can still be checked against the audit chain
+ */
+export const eventArchive = pgTable(
+  "event_archive",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    sourceTable: text("source_table").notNull(),
+    rowId: varchar("row_id").notNull(), // id of the row in the source table
+    occurredAt: timestamp("occurred_at").notNull(),
+    data: jsonb("data").notNull(),
+    archivedAt: timestamp("archived_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    sourceRowUnique: unique().on(table.sourceTable, table.rowId),
+  }),
+);
+
+/**
+ * Workflow Definitions Table
+ * Admin overrides of the built-in task workflows (DEFAULT_WORKFLOWS).
+ * A row without siteId applies to all plants, a row with siteId only to
+ * that plant; tasks use the most specific one (see server/workflows.ts)
+ */
+export const workflowDefinitions = pgTable(
+  "workflow_definitions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    key: text("key").notNull(), // CUSTOMER, AUTOMOTIVE
+    siteId: varchar("site_id").references(() => sites.id),
+    definition: jsonb("definition").notNull(), // WorkflowDefinition
+    updatedById: varchar("updated_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    keySiteUnique: unique().on(table.key, table.siteId),
+  }),
+);
+
+/**
+ * Idempotency Keys Table
+ * Responses of mutating requests sent with an Idempotency-Key header, so a
+ * replayed request (offline queue, flaky network) gets the stored response
+ * instead of being executed twice (see server/idempotency.ts)
+ */
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    principal: text("principal").notNull(), // user:<id> or apikey:<hash>
+    key: text("key").notNull(), // Idempotency-Key header value
+    method: text("method").notNull(),
+    path: text("path").notNull(),
+    requestHash: text("request_hash").notNull(), // sha256 of method, path and body
+    status: text("status").notNull().default("PENDING"), // PENDING, COMPLETED
+    responseStatus: integer("response_status"),
+    responseBody: jsonb("response_body"),
+    responseContentType: text("response_content_type"), // null for JSON bodies
+    lockedAt: timestamp("locked_at").notNull().defaultNow(), // Start of the attempt holding a PENDING key
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    principalKeyUnique: unique().on(table.principal, table.key),
+  }),
+);
+
+/**
+ * Factory Calendar Table
+ * Non-working and extra working days for the task schedulers, on top of the
+ * built-in public holidays of Rheinland-Pfalz and free weekends. A row
+ * without siteId applies to all plants. Dates are local (YYYY-MM-DD),
+ * endDate is inclusive (see server/factory-calendar.ts)
+ */
+export const factoryCalendarEntries = pgTable("factory_calendar_entries", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  siteId: varchar("site_id").references(() => sites.id),
+  kind: text("kind").notNull(), // HOLIDAY, SHUTDOWN, WORKING_DAY
+  name: text("name").notNull(), // e.g. "Betriebsurlaub Sommer"
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/**
+ * Scheduler Runs Table
+ * One row per run of the daily or flexible task scheduler, including manual
+ * runs of a single schedule. errors lists the first failures of the run,
+ * errorCount counts all of them (see server/scheduler-runs.ts)
+ */
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  scheduler: text("scheduler").notNull(), // DAILY, FLEXIBLE
+  trigger: text("trigger").notNull(), // STARTUP, HOURLY, CATCH_UP, MANUAL
+  scheduleId: varchar("schedule_id").references(() => taskSchedules.id), // Manual runs only
+  triggeredById: varchar("triggered_by_id").references(() => users.id),
+  status: text("status").notNull().default("RUNNING"), // RUNNING, SUCCEEDED, PARTIAL, FAILED
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  createdCount: integer("created_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  errors: jsonb("errors").$type<SchedulerRunError[]>(),
+  error: text("error"), // Why the whole run failed
+});
+
+/**
+ * Scheduler Leases Table
+ * Leader election between server instances: the instance holding the
+ * unexpired lease runs the background jobs (see server/scheduler-leader.ts)
+ */
+export const schedulerLeases = pgTable("scheduler_leases", {
+  name: text("name").primaryKey(), // e.g. "background-jobs"
+  holderId: text("holder_id").notNull(), // hostname:pid:random
+  fencingToken: integer("fencing_token").notNull().default(1), // +1 per new holder
+  acquiredAt: timestamp("acquired_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+/**
+ * Claim TTL Rules Table
+ * How long a task claim lasts, by task type and/or priority. A missing
+ * column matches any value; the most specific rule wins and tasks without
+ * a matching rule use DEFAULT_CLAIM_TTL_MINUTES (see resolveClaimTtlMinutes)
+ */
+export const claimTtlRules = pgTable(
+  "claim_ttl_rules",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    taskType: text("task_type"), // DAILY_FULL, MANUAL, LEGACY or null = any
+    priority: text("priority"), // normal, high, urgent or null = any
+    ttlMinutes: integer("ttl_minutes").notNull(),
+    updatedById: varchar("updated_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    typePriorityUnique: unique().on(table.taskType, table.priority),
+  }),
+);
+
 // ============================================================================
 // SCHEMAS AND TYPES
 // ============================================================================
@@ -928,8 +1403,18 @@ export const insertTaskScheduleSchema = createInsertSchema(taskSchedules);
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type Department = typeof departments.$inferSelect;
 
+export type Site = typeof sites.$inferSelect;
+export type UserSite = typeof userSites.$inferSelect;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type DeviceUser = typeof deviceUsers.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type MailOutboxEntry = typeof mailOutbox.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyRequest = typeof apiKeyRequests.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
 export type CustomerContainer = typeof customerContainers.$inferSelect;
 export type WarehouseContainer = typeof warehouseContainers.$inferSelect;
@@ -937,6 +1422,13 @@ export type Task = typeof tasks.$inferSelect;
 export type ScanEvent = typeof scanEvents.$inferSelect;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type FillHistory = typeof fillHistory.$inferSelect;
+export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+export type ArchivedEvent = typeof eventArchive.$inferSelect;
+export type WorkflowDefinitionRow = typeof workflowDefinitions.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type ClaimTtlRule = typeof claimTtlRules.$inferSelect;
+export type FactoryCalendarEntry = typeof factoryCalendarEntries.$inferSelect;
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
 
 // Automotive factory types
 export type InsertMaterial = z.infer<typeof insertMaterialSchema>;
@@ -956,114 +1448,507 @@ export type InsertTaskSchedule = z.infer<typeof insertTaskScheduleSchema>;
 export type TaskSchedule = typeof taskSchedules.$inferSelect;
 
 // ============================================================================
-// STATUS TRANSITION VALIDATION
+// TASK WORKFLOWS
 // ============================================================================
+// Task lifecycles are defined as data. A workflow lists its states and the
+// allowed transitions; each transition names the roles that may perform it,
+// the scans and fields it requires and whether it releases the claim.
+// DEFAULT_WORKFLOWS are the built-in definitions; admins can override a
+// workflow for all plants or for a single site (workflow_definitions table),
+// e.g. to add a QUALITY_CHECK step between WEIGHED and DISPOSED.
+
+export type WorkflowKey = "CUSTOMER" | "AUTOMOTIVE";
+
+export const WORKFLOW_KEYS: WorkflowKey[] = ["CUSTOMER", "AUTOMOTIVE"];
+
+/** Physical scans a transition can require */
+export type WorkflowScan = "BOX" | "STAND";
+
+export const WORKFLOW_SCANS: WorkflowScan[] = ["BOX", "STAND"];
+
+/** Request fields a transition can require */
+export const WORKFLOW_REQUIRED_FIELDS = [
+  "weightKg",
+  "targetWarehouseContainerId",
+  "reason",
+] as const;
+
+export type WorkflowRequiredField = (typeof WORKFLOW_REQUIRED_FIELDS)[number];
+
+/** Task columns a state may stamp when it is entered */
+export const TASK_TIMESTAMP_FIELDS = [
+  "assignedAt",
+  "acceptedAt",
+  "pickedUpAt",
+  "inTransitAt",
+  "deliveredAt",
+  "completedAt",
+  "cancelledAt",
+  "droppedOffAt",
+  "takenOverAt",
+  "weighedAt",
+  "disposedAt",
+] as const;
+
+export type TaskTimestampField = (typeof TASK_TIMESTAMP_FIELDS)[number];
+
+export interface WorkflowState {
+  key: string;
+  label: string;
+  terminal?: boolean;
+  timestampField?: TaskTimestampField;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  label?: string; // Action label in the scanner, e.g. "Abholen"
+  icon?: string; // Feather icon name
+  roles?: string[]; // Automotive roles; omitted = every user (admins always)
+  requiredScans?: WorkflowScan[];
+  requiredFields?: WorkflowRequiredField[];
+  releasesClaim?: boolean; // Hand-over point: the claim is cleared
+}
+
+export interface WorkflowDefinition {
+  key: WorkflowKey;
+  name: string;
+  initialState: string;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+const AUTOMOTIVE_CANCEL_ROLES = ["PICKUP_DRIVER", "WAREHOUSE", "DISPOSAL"];
+
+export const DEFAULT_WORKFLOWS: Record<WorkflowKey, WorkflowDefinition> = {
+  CUSTOMER: {
+    key: "CUSTOMER",
+    name: "Kundencontainer",
+    initialState: "OFFEN",
+    states: [
+      { key: "OFFEN", label: "Offen" },
+      { key: "PLANNED", label: "Geplant" }, // Legacy: same as OFFEN
+      { key: "ASSIGNED", label: "Zugewiesen", timestampField: "assignedAt" },
+      { key: "ACCEPTED", label: "Angenommen", timestampField: "acceptedAt" },
+      { key: "PICKED_UP", label: "Abgeholt", timestampField: "pickedUpAt" },
+      { key: "IN_TRANSIT", label: "Unterwegs", timestampField: "inTransitAt" },
+      { key: "DELIVERED", label: "Geliefert", timestampField: "deliveredAt" },
+      {
+        key: "COMPLETED",
+        label: "Abgeschlossen",
+        terminal: true,
+        timestampField: "completedAt",
+      },
+      {
+        key: "CANCELLED",
+        label: "Storniert",
+        terminal: true,
+        timestampField: "cancelledAt",
+      },
+    ],
+    transitions: [
+      // New task - can be assigned or directly accepted
+      { from: "OFFEN", to: "ASSIGNED" },
+      { from: "OFFEN", to: "ACCEPTED" },
+      { from: "OFFEN", to: "CANCELLED" },
+      { from: "PLANNED", to: "ASSIGNED" },
+      { from: "PLANNED", to: "ACCEPTED" },
+      { from: "PLANNED", to: "CANCELLED" },
+      { from: "ASSIGNED", to: "ACCEPTED" },
+      { from: "ASSIGNED", to: "OFFEN" },
+      { from: "ASSIGNED", to: "PLANNED" },
+      { from: "ASSIGNED", to: "CANCELLED" },
+      { from: "ACCEPTED", to: "PICKED_UP" },
+      { from: "ACCEPTED", to: "CANCELLED" },
+      // IN_TRANSIT may be skipped for the simpler flow
+      { from: "PICKED_UP", to: "IN_TRANSIT" },
+      { from: "PICKED_UP", to: "DELIVERED" },
+      { from: "PICKED_UP", to: "CANCELLED" },
+      { from: "IN_TRANSIT", to: "DELIVERED" },
+      { from: "IN_TRANSIT", to: "CANCELLED" },
+      { from: "DELIVERED", to: "COMPLETED" },
+      { from: "DELIVERED", to: "CANCELLED" },
+    ],
+  },
+  AUTOMOTIVE: {
+    key: "AUTOMOTIVE",
+    name: "Werkslogistik",
+    initialState: "OPEN",
+    states: [
+      { key: "OPEN", label: "Offen" },
+      { key: "PICKED_UP", label: "Abgeholt", timestampField: "pickedUpAt" },
+      { key: "IN_TRANSIT", label: "Unterwegs", timestampField: "inTransitAt" },
+      {
+        key: "DROPPED_OFF",
+        label: "Abgestellt",
+        timestampField: "droppedOffAt",
+      },
+      {
+        key: "TAKEN_OVER",
+        label: "Übernommen",
+        timestampField: "takenOverAt",
+      },
+      { key: "WEIGHED", label: "Gewogen", timestampField: "weighedAt" },
+      {
+        key: "DISPOSED",
+        label: "Entsorgt",
+        terminal: true,
+        timestampField: "disposedAt",
+      },
+      {
+        key: "CANCELLED",
+        label: "Storniert",
+        terminal: true,
+        timestampField: "cancelledAt",
+      },
+    ],
+    transitions: [
+      {
+        from: "OPEN",
+        to: "PICKED_UP",
+        label: "Abholen",
+        icon: "package",
+        roles: ["PICKUP_DRIVER"],
+        requiredScans: ["BOX"],
+      },
+      {
+        from: "PICKED_UP",
+        to: "IN_TRANSIT",
+        label: "Transport starten",
+        icon: "truck",
+        roles: ["PICKUP_DRIVER"],
+      },
+      {
+        from: "IN_TRANSIT",
+        to: "DROPPED_OFF",
+        label: "Absetzen",
+        icon: "log-out",
+        roles: ["PICKUP_DRIVER"],
+        requiredScans: ["BOX", "STAND"],
+        releasesClaim: true,
+      },
+      {
+        from: "DROPPED_OFF",
+        to: "TAKEN_OVER",
+        label: "Übernehmen",
+        icon: "check-square",
+        roles: ["WAREHOUSE"],
+        requiredScans: ["BOX"],
+      },
+      {
+        from: "TAKEN_OVER",
+        to: "WEIGHED",
+        label: "Wiegen",
+        icon: "activity",
+        roles: ["WAREHOUSE", "DISPOSAL"],
+        requiredScans: ["BOX"],
+        requiredFields: ["weightKg"],
+      },
+      {
+        from: "WEIGHED",
+        to: "DISPOSED",
+        label: "Entsorgen",
+        icon: "trash-2",
+        roles: ["DISPOSAL"],
+        requiredScans: ["BOX"],
+      },
+      // Cancelling is possible from every non-terminal state
+      ...[
+        "OPEN",
+        "PICKED_UP",
+        "IN_TRANSIT",
+        "DROPPED_OFF",
+        "TAKEN_OVER",
+        "WEIGHED",
+      ].map((from) => ({
+        from,
+        to: "CANCELLED",
+        roles: AUTOMOTIVE_CANCEL_ROLES,
+      })),
+    ],
+  },
+};
 
 /**
- * Valid task status transitions
- * Maps current status to array of valid next statuses
+ * Find the transition from → to, or undefined if the workflow forbids it
  */
-export const VALID_TASK_TRANSITIONS: Record<string, string[]> = {
-  OFFEN: ["ASSIGNED", "ACCEPTED", "CANCELLED"], // New task - can be assigned or directly accepted
-  PLANNED: ["ASSIGNED", "ACCEPTED", "CANCELLED"], // Legacy: same as OFFEN
-  ASSIGNED: ["ACCEPTED", "OFFEN", "PLANNED", "CANCELLED"],
-  ACCEPTED: ["PICKED_UP", "CANCELLED"],
-  PICKED_UP: ["IN_TRANSIT", "DELIVERED", "CANCELLED"], // Allow skipping IN_TRANSIT for simpler flow
-  IN_TRANSIT: ["DELIVERED", "CANCELLED"],
-  DELIVERED: ["COMPLETED", "CANCELLED"],
-  COMPLETED: [], // Terminal state
-  CANCELLED: [], // Terminal state
-};
+export function findWorkflowTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+): WorkflowTransition | undefined {
+  return workflow.transitions.find((t) => t.from === from && t.to === to);
+}
 
 /**
- * Check if a status transition is valid
+ * All transitions leaving a state, in definition order
  */
-export function isValidTaskTransition(
-  currentStatus: string,
-  newStatus: string,
-): boolean {
-  const validTransitions = VALID_TASK_TRANSITIONS[currentStatus];
-  if (!validTransitions) return false;
-  return validTransitions.includes(newStatus);
+export function getWorkflowTransitionsFrom(
+  workflow: WorkflowDefinition,
+  from: string,
+): WorkflowTransition[] {
+  return workflow.transitions.filter((t) => t.from === from);
 }
 
 /**
- * Get the timestamp field name for a given status
+ * Error message for a transition the workflow does not allow
  */
-export function getTimestampFieldForStatus(status: string): string | null {
-  const mapping: Record<string, string> = {
-    ASSIGNED: "assignedAt",
-    ACCEPTED: "acceptedAt",
-    PICKED_UP: "pickedUpAt",
-    IN_TRANSIT: "inTransitAt",
-    DELIVERED: "deliveredAt",
-    COMPLETED: "completedAt",
-    CANCELLED: "cancelledAt",
-  };
-  return mapping[status] || null;
+export function describeInvalidTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+): string {
+  const allowed = getWorkflowTransitionsFrom(workflow, from).map((t) => t.to);
+  return (
+    `Ungültiger Statusübergang: ${from} → ${to}. ` +
+    `Erlaubte Übergänge von ${from}: ${allowed.join(", ") || "keine"}`
+  );
 }
 
-// ============================================================================
-// AUTOMOTIVE TASK TRANSITION VALIDATION
-// ============================================================================
+/**
+ * Check if any of the given automotive roles may perform a transition
+ */
+export function canPerformWorkflowTransition(
+  transition: WorkflowTransition,
+  roles: string[],
+): boolean {
+  if (roles.includes("ADMIN")) return true;
+  if (!transition.roles || transition.roles.length === 0) return true;
+  return roles.some((role) => transition.roles!.includes(role));
+}
 
 /**
- * Valid automotive task status transitions
- * Maps current status to array of valid next statuses
- * CANCELLED is allowed from any state except DISPOSED
+ * Get the task timestamp field stamped when entering a status
  */
-export const AUTOMOTIVE_TASK_TRANSITIONS: Record<string, string[]> = {
-  OPEN: ["PICKED_UP", "CANCELLED"],
-  PICKED_UP: ["IN_TRANSIT", "CANCELLED"],
-  IN_TRANSIT: ["DROPPED_OFF", "CANCELLED"],
-  DROPPED_OFF: ["TAKEN_OVER", "CANCELLED"],
-  TAKEN_OVER: ["WEIGHED", "CANCELLED"],
-  WEIGHED: ["DISPOSED", "CANCELLED"],
-  DISPOSED: [], // Terminal state - no transitions allowed
-  CANCELLED: [], // Terminal state - no transitions allowed
-};
+export function getWorkflowTimestampField(
+  workflow: WorkflowDefinition,
+  status: string,
+): TaskTimestampField | null {
+  return workflow.states.find((s) => s.key === status)?.timestampField ?? null;
+}
 
 /**
- * Check if an automotive task status transition is valid
+ * Validate a workflow definition. Returns a list of problems (empty = valid).
+ * States of the built-in workflow must stay, since existing tasks and the
+ * box handling depend on them; they may become unreachable, though
  */
-export function isValidAutomotiveTransition(
-  currentStatus: string,
-  newStatus: string,
-): boolean {
-  const validTransitions = AUTOMOTIVE_TASK_TRANSITIONS[currentStatus];
-  if (!validTransitions) return false;
-  return validTransitions.includes(newStatus);
+export function validateWorkflowDefinition(
+  definition: WorkflowDefinition,
+): string[] {
+  const errors: string[] = [];
+  if (!WORKFLOW_KEYS.includes(definition?.key)) {
+    return [`key must be one of ${WORKFLOW_KEYS.join(", ")}`];
+  }
+  if (
+    !Array.isArray(definition.states) ||
+    !Array.isArray(definition.transitions)
+  ) {
+    return ["states and transitions must be arrays"];
+  }
+
+  const stateKeys = new Set<string>();
+  for (const state of definition.states) {
+    if (!state?.key || !/^[A-Z][A-Z0-9_]*$/.test(state.key)) {
+      errors.push(`Invalid state key: ${state?.key}`);
+      continue;
+    }
+    if (stateKeys.has(state.key)) errors.push(`Duplicate state: ${state.key}`);
+    if (!state.label) errors.push(`State ${state.key} needs a label`);
+    if (
+      state.timestampField &&
+      !TASK_TIMESTAMP_FIELDS.includes(state.timestampField)
+    ) {
+      errors.push(
+        `Unknown timestampField on ${state.key}: ${state.timestampField}`,
+      );
+    }
+    stateKeys.add(state.key);
+  }
+  for (const state of DEFAULT_WORKFLOWS[definition.key].states) {
+    if (!stateKeys.has(state.key)) {
+      errors.push(`Built-in state ${state.key} cannot be removed`);
+    }
+  }
+  if (!stateKeys.has(definition.initialState)) {
+    errors.push(`Unknown initialState: ${definition.initialState}`);
+  }
+
+  const terminal = new Set(
+    definition.states.filter((s) => s.terminal).map((s) => s.key),
+  );
+  const pairs = new Set<string>();
+  const validRoles = automotiveUserRoleEnum.enumValues as readonly string[];
+  for (const t of definition.transitions) {
+    const name = `${t?.from} → ${t?.to}`;
+    if (!stateKeys.has(t?.from) || !stateKeys.has(t?.to)) {
+      errors.push(`Transition ${name} references an unknown state`);
+      continue;
+    }
+    if (pairs.has(name)) errors.push(`Duplicate transition: ${name}`);
+    pairs.add(name);
+    if (terminal.has(t.from)) {
+      errors.push(`Terminal state ${t.from} cannot have transitions`);
+    }
+    for (const role of t.roles || []) {
+      if (!validRoles.includes(role)) {
+        errors.push(`Unknown role on ${name}: ${role}`);
+      }
+    }
+    for (const scan of t.requiredScans || []) {
+      if (!WORKFLOW_SCANS.includes(scan)) {
+        errors.push(`Unknown scan on ${name}: ${scan}`);
+      }
+    }
+    for (const field of t.requiredFields || []) {
+      if (!WORKFLOW_REQUIRED_FIELDS.includes(field)) {
+        errors.push(`Unknown required field on ${name}: ${field}`);
+      }
+    }
+  }
+  return errors;
 }
 
 /**
- * Assert that an automotive task transition is valid
- * Throws an Error if the transition is invalid
+ * Resolve the automotive roles a user acts with
+ * Admins get ADMIN; drivers without explicitly granted roles fall back to
+ * PICKUP_DRIVER so existing accounts keep their pickup permissions
  */
-export function assertAutomotiveTransition(from: string, to: string): void {
-  if (!isValidAutomotiveTransition(from, to)) {
-    throw new Error(
-      `Ungültiger Statusübergang: ${from} → ${to}. ` +
-        `Erlaubte Übergänge von ${from}: ${AUTOMOTIVE_TASK_TRANSITIONS[from]?.join(", ") || "keine"}`,
-    );
+export function getEffectiveAutomotiveRoles(user: {
+  role?: string | null;
+  automotiveRoles?: string[] | null;
+}): string[] {
+  if (user.role?.toUpperCase() === "ADMIN") {
+    return ["ADMIN"];
   }
+  if (user.automotiveRoles && user.automotiveRoles.length > 0) {
+    return user.automotiveRoles;
+  }
+  return ["PICKUP_DRIVER"];
 }
 
+// ============================================================================
+// FACTORY CALENDAR
+// ============================================================================
+
+export const FACTORY_CALENDAR_KINDS = [
+  "HOLIDAY",
+  "SHUTDOWN",
+  "WORKING_DAY",
+] as const;
+export type FactoryCalendarKind = (typeof FACTORY_CALENDAR_KINDS)[number];
+
+export const FACTORY_CALENDAR_KIND_LABELS: Record<FactoryCalendarKind, string> =
+  {
+    HOLIDAY: "Feiertag",
+    SHUTDOWN: "Betriebsruhe",
+    WORKING_DAY: "Sonderarbeitstag",
+  };
+
 /**
- * Get the timestamp field name for an automotive task status
+ * What a schedule does with occurrences on non-working days: create them
+ * anyway, drop them, or move them to the next working day
  */
-export function getAutomotiveTimestampFieldForStatus(
-  status: string,
-): string | null {
-  const mapping: Record<string, string> = {
-    PICKED_UP: "pickedUpAt",
-    IN_TRANSIT: "inTransitAt",
-    DROPPED_OFF: "droppedOffAt",
-    TAKEN_OVER: "takenOverAt",
-    WEIGHED: "weighedAt",
-    DISPOSED: "disposedAt",
-    CANCELLED: "cancelledAt",
+export const SCHEDULE_CALENDAR_MODES = ["IGNORE", "SKIP", "SHIFT"] as const;
+export type ScheduleCalendarMode = (typeof SCHEDULE_CALENDAR_MODES)[number];
+
+export const SCHEDULE_CALENDAR_MODE_LABELS: Record<
+  ScheduleCalendarMode,
+  string
+> = {
+  IGNORE: "Kalender ignorieren",
+  SKIP: "Auslassen",
+  SHIFT: "Auf nächsten Arbeitstag verschieben",
+};
+
+// ============================================================================
+// SCHEDULER RUNS
+// ============================================================================
+
+export const SCHEDULER_NAMES = ["DAILY", "FLEXIBLE"] as const;
+export type SchedulerName = (typeof SCHEDULER_NAMES)[number];
+
+/** CATCH_UP: at least one hourly run was missed, e.g. during downtime */
+export const SCHEDULER_RUN_TRIGGERS = [
+  "STARTUP",
+  "HOURLY",
+  "CATCH_UP",
+  "MANUAL",
+] as const;
+export type SchedulerRunTrigger = (typeof SCHEDULER_RUN_TRIGGERS)[number];
+
+/** PARTIAL: the run finished, but some tasks could not be created */
+export type SchedulerRunStatus = "RUNNING" | "SUCCEEDED" | "PARTIAL" | "FAILED";
+
+export const SCHEDULER_NAME_LABELS: Record<SchedulerName, string> = {
+  DAILY: "Tägliche Abholung",
+  FLEXIBLE: "Zeitpläne",
+};
+
+export const SCHEDULER_RUN_TRIGGER_LABELS: Record<SchedulerRunTrigger, string> =
+  {
+    STARTUP: "Serverstart",
+    HOURLY: "Stündlich",
+    CATCH_UP: "Nachgeholt",
+    MANUAL: "Manuell",
   };
-  return mapping[status] || null;
+
+export const SCHEDULER_RUN_STATUS_LABELS: Record<SchedulerRunStatus, string> = {
+  RUNNING: "Läuft",
+  SUCCEEDED: "Erfolgreich",
+  PARTIAL: "Mit Fehlern",
+  FAILED: "Fehlgeschlagen",
+};
+
+/** A task the scheduler failed to create */
+export interface SchedulerRunError {
+  scheduleId?: string;
+  standId?: string;
+  date?: string; // Local date (YYYY-MM-DD)
+  time?: string; // Local time (HH:MM)
+  message: string;
+}
+
+// ============================================================================
+// CLAIM TTL
+// ============================================================================
+
+export const DEFAULT_CLAIM_TTL_MINUTES = 30;
+
+/**
+ * Claim TTL for a task: a rule for its type and priority beats one for the
+ * type only, which beats one for the priority only, which beats a catch-all
+ */
+export function resolveClaimTtlMinutes(
+  rules: Pick<ClaimTtlRule, "taskType" | "priority" | "ttlMinutes">[],
+  task: { taskType?: string | null; priority?: string | null },
+): number {
+  let best: { score: number; ttlMinutes: number } | undefined;
+  for (const rule of rules) {
+    if (rule.taskType && rule.taskType !== task.taskType) continue;
+    if (rule.priority && rule.priority !== task.priority) continue;
+    const score = (rule.taskType ? 2 : 0) + (rule.priority ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { score, ttlMinutes: rule.ttlMinutes };
+    }
+  }
+  return best?.ttlMinutes ?? DEFAULT_CLAIM_TTL_MINUTES;
+}
+
+// ============================================================================
+// TASK UNDO
+// ============================================================================
+// A user can revert their own last status transition of a task for a few
+// minutes, as long as nothing else changed the task since (server/task-undo.ts)
+
+export const TASK_UNDO_WINDOW_MINUTES = 5;
+
+/** Response of GET /api/tasks/:id/undo */
+export interface TaskUndoInfo {
+  available: boolean;
+  reason?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  expiresAt?: string;
 }
 
 // ============================================================================
@@ -1108,12 +1993,36 @@ export const ACTIVITY_LOG_TYPE_LABELS: Record<string, string> = {
   WEIGHT_RECORDED: "Gewicht erfasst",
   MANUAL_EDIT: "Manuelle Bearbeitung",
   SYSTEM_EVENT: "Systemereignis",
+  ACCOUNT_LOCKED: "Konto gesperrt",
+  ACCOUNT_UNLOCKED: "Konto entsperrt",
+  PASSWORD_RESET: "Passwort zurückgesetzt",
+  REFRESH_TOKEN_REUSED: "Sitzung wegen Token-Wiederverwendung beendet",
 };
 
 // ============================================================================
 // AUTOMOTIVE GERMAN TRANSLATIONS
 // ============================================================================
 
+/**
+ * API Key Scopes
+ * Each API-key-enabled endpoint declares the scopes it accepts
+ */
+export const API_KEY_SCOPES = [
+  "tasks:read", // List tasks
+  "tasks:write", // Task status transitions (except weighing)
+  "weights:write", // Record weights (transition to WEIGHED)
+  "analytics:read", // Analytics and reporting endpoints
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<string, string> = {
+  "tasks:read": "Aufträge lesen",
+  "tasks:write": "Auftragsstatus ändern",
+  "weights:write": "Gewichte erfassen",
+  "analytics:read": "Statistiken lesen",
+};
+
 export const AUTOMOTIVE_USER_ROLE_LABELS: Record<string, string> = {
   ADMIN: "Administrator",
   PICKUP_DRIVER: "Abholfahrer",